@@ -0,0 +1,83 @@
+/**
+ * Background Sync for the offline outbox
+ *
+ * Loaded into the generated service worker (see workbox.importScripts in
+ * vite.config.ts). When the app fails to push, it registers a sync tagged
+ * 'outbox:<database name>' and saves the server address and headers with the
+ * queue (src/utils/outbox.ts). Once the device is back online the browser fires
+ * the sync event: an open app is asked to push the queue itself, so it also
+ * merges the server's reply and marks the files synced; with the app closed the
+ * queued payloads are POSTed from here. A failed send is retried by the browser.
+ */
+
+const SYNC_TAG_PREFIX = 'outbox:';
+const STORE_NAME = 'outbox';
+const DELIVERY_STORE_NAME = 'delivery';
+const DELIVERY_KEY = 'target';
+const FLUSH_MESSAGE = 'outbox-flush';
+
+function requestResult(request) {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readStore(db, storeName, read) {
+  return requestResult(read(db.transaction(storeName, 'readonly').objectStore(storeName)));
+}
+
+// Remove a delivered entry, unless the app queued a newer payload meanwhile
+async function removeIfUnchanged(db, entry) {
+  const store = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME);
+  const current = await requestResult(store.get(entry.file));
+  if (current && current.body === entry.body) {
+    await requestResult(store.delete(entry.file));
+  }
+}
+
+async function sendQueue(dbName) {
+  const db = await requestResult(indexedDB.open(dbName));
+  try {
+    if (!db.objectStoreNames.contains(STORE_NAME) || !db.objectStoreNames.contains(DELIVERY_STORE_NAME)) return;
+
+    const target = await readStore(db, DELIVERY_STORE_NAME, store => store.get(DELIVERY_KEY));
+    if (!target) return;
+
+    let failed = 0;
+    for (const entry of await readStore(db, STORE_NAME, store => store.getAll())) {
+      try {
+        const response = await fetch(`${target.syncUrl}${entry.path}`, {
+          method: 'POST',
+          headers: target.headers,
+          body: entry.body,
+        });
+        const result = response.ok ? await response.json() : null;
+        if (!result || !result.success || !result.data) throw new Error(`Server returned ${response.status}`);
+        await removeIfUnchanged(db, entry);
+      } catch (error) {
+        console.error(`[Outbox SW] ${entry.file} failed:`, error);
+        failed++;
+      }
+    }
+
+    // Rejecting makes the browser fire the sync again later
+    if (failed > 0) throw new Error(`${failed} queued file(s) not sent`);
+  } finally {
+    db.close();
+  }
+}
+
+async function flushOutbox(dbName) {
+  const clients = await self.clients.matchAll({ type: 'window' });
+  if (clients.length > 0) {
+    clients.forEach(client => client.postMessage({ type: FLUSH_MESSAGE }));
+    return;
+  }
+  await sendQueue(dbName);
+}
+
+self.addEventListener('sync', event => {
+  if (!event.tag.startsWith(SYNC_TAG_PREFIX)) return;
+  event.waitUntil(flushOutbox(event.tag.slice(SYNC_TAG_PREFIX.length)));
+});
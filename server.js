@@ -6,8 +6,16 @@
  * - data/workers.json
  * - data/areas.json
  * - data/activities.json
+ * - data/workerLedger.json
+ * - data/attendanceCodes.json
  * - data/settings.json
  * - data/months/YYYY-MM.json
+ * - data/devices.json (paired devices - token hashes only, never synced)
+ * - data/farms/<farmId>/ (the same files for each extra farm workspace)
+ *
+ * Writes go to a temp file that is fsynced and renamed over the original, so a
+ * power cut leaves either the old or the new file, never a truncated one.
+ * Timestamped copies of data/ are kept in data-snapshots/ and can be restored.
  *
  * Run on the primary device (laptop):
  *   node server.js
@@ -17,10 +25,12 @@
 
 import express from 'express';
 import cors from 'cors';
-import { readFileSync, writeFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
+import { readFileSync, existsSync, mkdirSync, readdirSync, cpSync, rmSync, unlinkSync, statSync } from 'fs';
+import { open, rename } from 'fs/promises';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { execSync } from 'child_process';
+import { createHash, randomBytes, randomInt } from 'crypto';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -38,13 +48,46 @@ const app = express();
 const PORT = process.env.PORT || 3001;
 const DATA_DIR = join(__dirname, 'data');
 const MONTHS_DIR = join(DATA_DIR, 'months');
+const DEVICES_FILE = join(DATA_DIR, 'devices.json');
+const FARMS_DIR = join(DATA_DIR, 'farms');
+const FARM_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,39}$/;
+const SNAPSHOTS_DIR = join(__dirname, 'data-snapshots');
+
+// Snapshot retention (override with environment variables)
+const SNAPSHOT_INTERVAL_MS = (Number(process.env.SNAPSHOT_INTERVAL_MINUTES) || 60) * 60 * 1000;
+const SNAPSHOT_KEEP_RECENT = Number(process.env.SNAPSHOT_KEEP_RECENT) || 24; // Newest snapshots, always kept
+const SNAPSHOT_KEEP_DAYS = Number(process.env.SNAPSHOT_KEEP_DAYS) || 30;     // Plus the last snapshot of each day
+
+// Origins allowed to call the API from a browser (the app served by this server is same-origin).
+// Override with a comma-separated list, e.g. ALLOWED_ORIGINS=https://example.github.io
+const ALLOWED_ORIGINS = (process.env.ALLOWED_ORIGINS || 'https://bijoor.github.io,http://localhost:5173,http://localhost:4173')
+  .split(',')
+  .map(origin => origin.trim())
+  .filter(Boolean);
 
 // Ensure data directories exist
 if (!existsSync(DATA_DIR)) mkdirSync(DATA_DIR, { recursive: true });
 if (!existsSync(MONTHS_DIR)) mkdirSync(MONTHS_DIR, { recursive: true });
+if (!existsSync(SNAPSHOTS_DIR)) mkdirSync(SNAPSHOTS_DIR, { recursive: true });
+
+// Remove temp files left behind by a write that was cut off
+const farmFolders = [undefined, ...listFarms()].map(farmPaths);
+for (const dir of farmFolders.flatMap(farm => [farm.dataDir, farm.monthsDir])) {
+  if (!existsSync(dir)) continue;
+  for (const file of readdirSync(dir).filter(f => f.endsWith('.tmp'))) {
+    console.warn(`Removing incomplete write: ${join(dir, file)}`);
+    unlinkSync(join(dir, file));
+  }
+}
 
-app.use(cors());
+app.use(cors({
+  origin(origin, callback) {
+    // Requests without an Origin header (same-origin, curl) are still subject to token auth
+    callback(null, !origin || ALLOWED_ORIGINS.includes(origin));
+  },
+}));
 app.use(express.json({ limit: '10mb' }));
+app.use('/api', authenticate);
 
 // Serve static files from docs folder (production build)
 // Note: Build outputs to 'docs/' for GitHub Pages compatibility
@@ -52,21 +95,107 @@ app.use(express.static(join(__dirname, 'docs')));
 // Also serve under /farm-attendance/ path (for GitHub Pages base path compatibility)
 app.use('/farm-attendance', express.static(join(__dirname, 'docs')));
 
+// ============ Farms ============
+// Each farm workspace keeps its files in its own folder. /api/farms/<farmId>/... reads
+// and writes data/farms/<farmId>/; the plain /api/... routes use data/ itself (the
+// first farm, as before workspaces). Paired devices, snapshots and updates are shared.
+
+function farmPaths(farmId) {
+  const dataDir = farmId ? join(FARMS_DIR, farmId) : DATA_DIR;
+  return { id: farmId || null, dataDir, monthsDir: join(dataDir, 'months') };
+}
+
+function listFarms(farmsDir = FARMS_DIR) {
+  if (!existsSync(farmsDir)) return [];
+  return readdirSync(farmsDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && FARM_ID_PATTERN.test(entry.name))
+    .map(entry => entry.name);
+}
+
+// Sets req.farm for the data routes. A farm's folder is created by its first write.
+function selectFarm(req, res, next) {
+  const { farmId } = req.params;
+  if (farmId !== undefined && !FARM_ID_PATTERN.test(farmId)) {
+    return res.status(400).json({ success: false, error: 'Invalid farm id' });
+  }
+  req.farm = farmPaths(farmId);
+  if (req.method !== 'GET' && !existsSync(req.farm.monthsDir)) {
+    mkdirSync(req.farm.monthsDir, { recursive: true });
+  }
+  next();
+}
+
 // ============ File Operations ============
 
+class CorruptFileError extends Error {
+  constructor(filePath, cause) {
+    super(`Data file is unreadable: ${filePath}. Restore it from a snapshot (GET /api/snapshots).`);
+    this.name = 'CorruptFileError';
+    this.cause = cause;
+  }
+}
+
+// Pending writes per file: filePath → { data, promise }. Writes to one file run one
+// after another; reads see the latest queued data even before it reaches the disk.
+const writeQueues = new Map();
+let dataChangedSinceSnapshot = true;
+
+// A file that exists but can't be parsed throws instead of returning null, so a
+// merge never treats a damaged dataset as empty and overwrites it
 function loadFile(filePath) {
+  const pending = writeQueues.get(filePath);
+  if (pending) return pending.data;
+
   if (existsSync(filePath)) {
     try {
       return JSON.parse(readFileSync(filePath, 'utf-8'));
     } catch (e) {
       console.error(`Error loading ${filePath}:`, e);
+      throw new CorruptFileError(filePath, e);
     }
   }
   return null;
 }
 
+async function writeFileAtomic(filePath, contents) {
+  const tempPath = `${filePath}.tmp`;
+  const handle = await open(tempPath, 'w');
+  try {
+    await handle.writeFile(contents);
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  await rename(tempPath, filePath);
+}
+
 function saveFile(filePath, data) {
-  writeFileSync(filePath, JSON.stringify(data, null, 2));
+  let queue = writeQueues.get(filePath);
+  if (!queue) {
+    queue = { data, promise: Promise.resolve() };
+    writeQueues.set(filePath, queue);
+  }
+  queue.data = data;
+  dataChangedSinceSnapshot = true;
+
+  queue.promise = queue.promise
+    .then(async () => {
+      // A newer save for this file is queued behind this one - let it write instead
+      if (queue.data !== data) return;
+      await writeFileAtomic(filePath, JSON.stringify(data, null, 2));
+      if (queue.data === data) writeQueues.delete(filePath);
+    })
+    .catch(error => {
+      // Keep the data queued so the next save (or flush) retries it
+      console.error(`Error saving ${filePath}:`, error);
+    });
+
+  return queue.promise;
+}
+
+// Wait for every queued write to finish
+async function flushWrites() {
+  await Promise.all([...writeQueues.values()].map(queue => queue.promise));
 }
 
 function getFileTimestamp(filePath) {
@@ -81,6 +210,191 @@ function getFileTimestamp(filePath) {
   return null;
 }
 
+// ============ Snapshots ============
+// Each snapshot is a copy of data/ in data-snapshots/<timestamp>/ with a snapshot.json
+// describing it. Retention keeps the newest SNAPSHOT_KEEP_RECENT snapshots plus the
+// last one of each day for SNAPSHOT_KEEP_DAYS days.
+
+const SNAPSHOT_META_FILE = 'snapshot.json';
+
+function snapshotIdFromDate(date) {
+  // ISO time without ':' or '.', which Windows doesn't allow in folder names
+  return date.toISOString().replace(/[:.]/g, '-');
+}
+
+function listSnapshots() {
+  if (!existsSync(SNAPSHOTS_DIR)) return [];
+
+  return readdirSync(SNAPSHOTS_DIR, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => {
+      const dir = join(SNAPSHOTS_DIR, entry.name);
+      let meta = null;
+      try {
+        meta = JSON.parse(readFileSync(join(dir, SNAPSHOT_META_FILE), 'utf-8'));
+      } catch {
+        // Snapshot without metadata (copied by hand) - fall back to the folder time
+      }
+      const monthsDir = join(dir, 'months');
+      return {
+        id: entry.name,
+        createdAt: meta?.createdAt || statSync(dir).mtime.toISOString(),
+        reason: meta?.reason || 'manual',
+        files: readdirSync(dir).filter(f => f.endsWith('.json') && f !== SNAPSHOT_META_FILE).length,
+        months: existsSync(monthsDir) ? readdirSync(monthsDir).filter(f => f.endsWith('.json')).length : 0,
+      };
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function createSnapshot(reason) {
+  // Snapshot what is on disk after queued writes land
+  await flushWrites();
+  dataChangedSinceSnapshot = false;
+
+  const createdAt = new Date();
+  const id = snapshotIdFromDate(createdAt);
+  const dir = join(SNAPSHOTS_DIR, id);
+  cpSync(DATA_DIR, dir, { recursive: true, filter: src => !src.endsWith('.tmp') });
+  await writeFileAtomic(join(dir, SNAPSHOT_META_FILE), JSON.stringify({ createdAt: createdAt.toISOString(), reason }, null, 2));
+
+  console.log(`Snapshot created: ${id} (${reason})`);
+  pruneSnapshots();
+  return listSnapshots().find(s => s.id === id);
+}
+
+function pruneSnapshots() {
+  const cutoff = Date.now() - SNAPSHOT_KEEP_DAYS * 24 * 60 * 60 * 1000;
+  const daysKept = new Set();
+
+  listSnapshots().forEach((snapshot, index) => {
+    const day = snapshot.createdAt.slice(0, 10);
+    const isRecent = index < SNAPSHOT_KEEP_RECENT;
+    const isDailyKeeper = !daysKept.has(day) && new Date(snapshot.createdAt).getTime() >= cutoff;
+    daysKept.add(day);
+
+    if (!isRecent && !isDailyKeeper) {
+      rmSync(join(SNAPSHOTS_DIR, snapshot.id), { recursive: true, force: true });
+    }
+  });
+}
+
+// Replace the synced data files with a snapshot's copies. Paired devices are left
+// alone so that a restore can't bring back a revoked token.
+async function restoreSnapshot(id) {
+  const dir = join(SNAPSHOTS_DIR, id);
+  const jsonFiles = (folder, skip = []) => existsSync(folder)
+    ? readdirSync(folder).filter(f => f.endsWith('.json') && !skip.includes(f))
+    : [];
+  const skip = [SNAPSHOT_META_FILE, 'devices.json'];
+
+  // Folders under data/: the first farm's files and months, then each other farm's
+  const farmIds = new Set([...listFarms(), ...listFarms(join(dir, 'farms'))]);
+  const folders = [
+    ['', skip],
+    ['months', []],
+    ...[...farmIds].flatMap(farmId => [[join('farms', farmId), []], [join('farms', farmId, 'months'), []]]),
+  ];
+
+  // Read everything first so a damaged snapshot fails before anything is touched
+  const restored = folders
+    .flatMap(([folder, skipFiles]) => jsonFiles(join(dir, folder), skipFiles)
+      .map(file => [join(DATA_DIR, folder, file), join(dir, folder, file)]))
+    .map(([target, source]) => [target, JSON.parse(readFileSync(source, 'utf-8'))]);
+
+  await createSnapshot(`before restoring ${id}`);
+
+  // Files created after the snapshot are removed (they're in the "before restoring" snapshot)
+  const targets = new Set(restored.map(([target]) => target));
+  for (const [folder, skipFiles] of folders) {
+    const target = join(DATA_DIR, folder);
+    for (const file of jsonFiles(target, skipFiles)) {
+      if (!targets.has(join(target, file))) unlinkSync(join(target, file));
+    }
+  }
+
+  // New lastModified so every device sees the restored files as changed
+  const now = new Date().toISOString();
+  for (const [target, data] of restored) {
+    mkdirSync(dirname(target), { recursive: true });
+    saveFile(target, { ...data, lastModified: now });
+  }
+  await flushWrites();
+  console.log(`Snapshot restored: ${id}`);
+}
+
+// ============ Device Pairing & Authentication ============
+// A device pairs once with a short-lived 6-digit code (printed on the server console,
+// or generated from an admin device) and gets a random token. Only the token's
+// SHA-256 hash is stored. Every /api route except status and pairing needs the
+// token as "Authorization: Bearer <token>" (or ?token= for EventSource, which
+// can't send headers).
+
+const PAIRING_CODE_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const LAST_SEEN_SAVE_MS = 5 * 60 * 1000;    // Persist lastSeen at most every 5 minutes per device
+const PUBLIC_API_PATHS = ['/status', '/pair'];
+
+// Active pairing codes: code → { role, expiresAt }
+const pairingCodes = new Map();
+
+let devices = loadFile(DEVICES_FILE)?.devices || [];
+
+function saveDevices() {
+  saveFile(DEVICES_FILE, { devices, lastModified: new Date().toISOString() });
+}
+
+function hashToken(token) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function createPairingCode(role) {
+  let code;
+  do {
+    code = String(randomInt(0, 1000000)).padStart(6, '0');
+  } while (pairingCodes.has(code));
+  const expiresAt = Date.now() + PAIRING_CODE_TTL_MS;
+  pairingCodes.set(code, { role, expiresAt });
+  return { code, role, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+// Device info safe to send to clients
+function publicDevice(device) {
+  const { tokenHash: _tokenHash, ...rest } = device;
+  return rest;
+}
+
+function authenticate(req, res, next) {
+  if (PUBLIC_API_PATHS.includes(req.path)) return next();
+
+  const header = req.get('Authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : req.query.token;
+  if (!token) {
+    return res.status(401).json({ success: false, error: 'Device not paired' });
+  }
+
+  const tokenHash = hashToken(String(token));
+  const device = devices.find(d => d.tokenHash === tokenHash && !d.revoked);
+  if (!device) {
+    return res.status(401).json({ success: false, error: 'Invalid or revoked device token' });
+  }
+
+  const now = Date.now();
+  if (!device.lastSeen || now - new Date(device.lastSeen).getTime() > LAST_SEEN_SAVE_MS) {
+    device.lastSeen = new Date(now).toISOString();
+    saveDevices();
+  }
+
+  req.device = device;
+  next();
+}
+
+function requireAdmin(req, res, next) {
+  if (req.device?.role !== 'admin') {
+    return res.status(403).json({ success: false, error: 'Admin device required' });
+  }
+  next();
+}
+
 // ============ Merge Functions ============
 
 // Get the effective timestamp for an item (latest of modifiedAt or deletedAt)
@@ -116,17 +430,159 @@ function mergeArray(localArr = [], remoteArr = [], idField = 'id') {
   return Array.from(map.values());
 }
 
+// ============ Field-level Month Merge ============
+// Attendance cells, day activity/area ids and workerIds memberships carry
+// hybrid logical clock stamps (see src/utils/hlc.ts). Stamps sort as plain strings,
+// so the later stamp wins field by field no matter which device posts last.
+// Unstamped (legacy) values fall back to "remote wins". Keep in sync with src/utils/merge.ts.
+
+function compareStamps(a, b) {
+  const left = a || '';
+  const right = b || '';
+  if (left === right) return 0;
+  return left > right ? 1 : -1;
+}
+
+function latestStamp(a, b) {
+  return compareStamps(a, b) >= 0 ? a : b;
+}
+
+// Pick a single field value by stamp; ties go to the remote value if it has one
+function pickField(localValue, localStamp, remoteValue, remoteStamp) {
+  const order = compareStamps(localStamp, remoteStamp);
+  if (order > 0) return localValue;
+  if (order < 0) return remoteValue;
+  return remoteValue !== undefined ? remoteValue : localValue;
+}
+
+// Merge a workerIds list using per-worker add/remove stamps
+function mergeMembership(localIds, localStamps, remoteIds, remoteStamps) {
+  // Both undefined means "all workers" on both sides
+  if (!localIds && !remoteIds) return {};
+
+  const local = localIds || [];
+  const remote = remoteIds || [];
+  const candidates = [...new Set([
+    ...local,
+    ...remote,
+    ...Object.keys(localStamps || {}),
+    ...Object.keys(remoteStamps || {}),
+  ])];
+
+  const workerIds = [];
+  const workerStamps = {};
+
+  for (const workerId of candidates) {
+    const localStamp = localStamps?.[workerId];
+    const remoteStamp = remoteStamps?.[workerId];
+    const order = compareStamps(localStamp, remoteStamp);
+
+    let isMember;
+    if (order > 0) isMember = local.includes(workerId);
+    else if (order < 0) isMember = remote.includes(workerId);
+    else isMember = local.includes(workerId) || remote.includes(workerId);
+
+    if (isMember) workerIds.push(workerId);
+    const stamp = latestStamp(localStamp, remoteStamp);
+    if (stamp) workerStamps[workerId] = stamp;
+  }
+
+  return {
+    workerIds,
+    workerStamps: Object.keys(workerStamps).length > 0 ? workerStamps : undefined,
+  };
+}
+
 // Merge month data (groups with attendance)
 function mergeMonthData(local, remote) {
   if (!local) return remote;
   if (!remote) return local;
 
-  const merged = { ...local, ...remote };
-  merged.groups = mergeGroups(local.groups || [], remote.groups || []);
+  // Removed month groups stay removed, whichever device removed them
+  const deletedGroups = { ...(local.deletedGroups || {}) };
+  for (const [groupId, stamp] of Object.entries(remote.deletedGroups || {})) {
+    deletedGroups[groupId] = latestStamp(deletedGroups[groupId], stamp) || stamp;
+  }
+
+  const merged = {
+    ...local,
+    ...remote,
+    ...mergeMembership(local.workerIds, local.workerStamps, remote.workerIds, remote.workerStamps),
+  };
+  merged.groups = mergeGroups(local.groups || [], remote.groups || []).filter(g => !deletedGroups[g.id]);
+  merged.deletedGroups = Object.keys(deletedGroups).length > 0 ? deletedGroups : undefined;
+
+  // Month close/reopen per group: the later stamp wins
+  const closures = { ...(local.closures || {}) };
+  for (const [groupId, closure] of Object.entries(remote.closures || {})) {
+    const existing = closures[groupId];
+    if (!existing || compareStamps(closure.stamp, existing.stamp) > 0) {
+      closures[groupId] = closure;
+    }
+  }
+  merged.closures = Object.keys(closures).length > 0 ? closures : undefined;
   merged.lastModified = new Date().toISOString();
   return merged;
 }
 
+// Drop changes a device may not make to a month closed on the server: only admin
+// devices can reopen a group, and a closed group's attendance stays as stored
+function enforceMonthLocks(local, remote, device) {
+  if (!local?.closures || !remote) return remote;
+
+  const closures = { ...(remote.closures || {}) };
+  const lockedGroupIds = new Set();
+  for (const [groupId, closure] of Object.entries(local.closures)) {
+    if (!closure.closed) continue;
+    const incoming = closures[groupId];
+    const reopened = incoming && !incoming.closed && compareStamps(incoming.stamp, closure.stamp) > 0;
+    if (reopened && device?.role === 'admin') continue;
+    closures[groupId] = closure;
+    lockedGroupIds.add(groupId);
+  }
+  if (lockedGroupIds.size === 0) return { ...remote, closures };
+
+  const localGroups = new Map((local.groups || []).map(g => [g.id, g]));
+  const isLocked = (monthGroupId) => lockedGroupIds.has(localGroups.get(monthGroupId)?.groupId);
+
+  const groups = (remote.groups || [])
+    .filter(g => !lockedGroupIds.has(g.groupId) || localGroups.has(g.id))
+    .map(g => (isLocked(g.id) ? localGroups.get(g.id) : g));
+  const deletedGroups = Object.fromEntries(
+    Object.entries(remote.deletedGroups || {}).filter(([monthGroupId]) => !isLocked(monthGroupId))
+  );
+
+  return { ...remote, closures, groups, deletedGroups };
+}
+
+// Only admin devices approve or return days: a newer approval from any other device
+// is replaced with the stored review
+function enforceReviewRights(local, remote, device) {
+  if (!remote || device?.role === 'admin') return remote;
+
+  const localDays = new Map();
+  for (const group of local?.groups || []) {
+    for (const day of group.days || []) localDays.set(`${group.id}:${day.date}`, day);
+  }
+
+  const groups = (remote.groups || []).map(group => ({
+    ...group,
+    days: (group.days || []).map(day => {
+      const status = day.review?.status;
+      if (status !== 'approved' && status !== 'returned') return day;
+      const stored = localDays.get(`${group.id}:${day.date}`);
+      if (compareStamps(day.stamps?.review, stored?.stamps?.review) <= 0) return day;
+      return {
+        ...day,
+        review: stored?.review,
+        stamps: { ...day.stamps, review: stored?.stamps?.review },
+      };
+    }),
+  }));
+
+  return { ...remote, groups };
+}
+
 function mergeGroups(localGroups = [], remoteGroups = []) {
   const map = new Map();
 
@@ -139,14 +595,11 @@ function mergeGroups(localGroups = [], remoteGroups = []) {
     if (!existing) {
       map.set(remoteGroup.id, { ...remoteGroup });
     } else {
-      const mergedDays = mergeDays(existing.days || [], remoteGroup.days || []);
-      // Merge workerIds arrays
-      const workerIds = [...new Set([...(existing.workerIds || []), ...(remoteGroup.workerIds || [])])];
       map.set(remoteGroup.id, {
         ...existing,
         ...remoteGroup,
-        workerIds,
-        days: mergedDays,
+        ...mergeMembership(existing.workerIds, existing.workerStamps, remoteGroup.workerIds, remoteGroup.workerStamps),
+        days: mergeDays(existing.days || [], remoteGroup.days || []),
       });
     }
   }
@@ -154,6 +607,69 @@ function mergeGroups(localGroups = [], remoteGroups = []) {
   return Array.from(map.values());
 }
 
+// Merge a per-worker map (attendance, quantities, activity/area overrides) worker by worker using its stamps
+function mergeWorkerValues(localValues, localStamps, remoteValues, remoteStamps) {
+  const values = {};
+  const stamps = {};
+  const workerIds = new Set([
+    ...Object.keys(localValues || {}),
+    ...Object.keys(remoteValues || {}),
+  ]);
+
+  for (const workerId of workerIds) {
+    const localStamp = localStamps?.[workerId];
+    const remoteStamp = remoteStamps?.[workerId];
+    const value = pickField(localValues?.[workerId], localStamp, remoteValues?.[workerId], remoteStamp);
+    if (value !== undefined) values[workerId] = value;
+    const stamp = latestStamp(localStamp, remoteStamp);
+    if (stamp) stamps[workerId] = stamp;
+  }
+
+  return { values, stamps };
+}
+
+function mergeDay(local, remote) {
+  const localStamps = local.stamps || {};
+  const remoteStamps = remote.stamps || {};
+
+  // Cleared cells and overrides are kept as '' (quantities as 0) with a stamp, so a stale copy can't bring them back
+  const attendance = mergeWorkerValues(local.attendance, localStamps.attendance, remote.attendance, remoteStamps.attendance);
+  const quantities = mergeWorkerValues(local.quantities, localStamps.quantities, remote.quantities, remoteStamps.quantities);
+  const workerActivityIds = mergeWorkerValues(local.workerActivityIds, localStamps.workerActivityIds, remote.workerActivityIds, remoteStamps.workerActivityIds);
+  const workerAreaIds = mergeWorkerValues(local.workerAreaIds, localStamps.workerAreaIds, remote.workerAreaIds, remoteStamps.workerAreaIds);
+
+  const stamps = {};
+  const activityStamp = latestStamp(localStamps.activityId, remoteStamps.activityId);
+  const areaStamp = latestStamp(localStamps.areaId, remoteStamps.areaId);
+  const segmentsStamp = latestStamp(localStamps.segments, remoteStamps.segments);
+  const gangsStamp = latestStamp(localStamps.gangs, remoteStamps.gangs);
+  if (activityStamp) stamps.activityId = activityStamp;
+  if (areaStamp) stamps.areaId = areaStamp;
+  if (segmentsStamp) stamps.segments = segmentsStamp;
+  if (gangsStamp) stamps.gangs = gangsStamp;
+  if (Object.keys(attendance.stamps).length > 0) stamps.attendance = attendance.stamps;
+  if (Object.keys(quantities.stamps).length > 0) stamps.quantities = quantities.stamps;
+  if (Object.keys(workerActivityIds.stamps).length > 0) stamps.workerActivityIds = workerActivityIds.stamps;
+  if (Object.keys(workerAreaIds.stamps).length > 0) stamps.workerAreaIds = workerAreaIds.stamps;
+  const reviewStamp = latestStamp(localStamps.review, remoteStamps.review);
+  if (reviewStamp) stamps.review = reviewStamp;
+
+  return {
+    ...local,
+    ...remote,
+    activityId: pickField(local.activityId, localStamps.activityId, remote.activityId, remoteStamps.activityId),
+    areaId: pickField(local.areaId, localStamps.areaId, remote.areaId, remoteStamps.areaId),
+    segments: pickField(local.segments, localStamps.segments, remote.segments, remoteStamps.segments),
+    gangs: pickField(local.gangs, localStamps.gangs, remote.gangs, remoteStamps.gangs),
+    review: pickField(local.review, localStamps.review, remote.review, remoteStamps.review),
+    attendance: attendance.values,
+    quantities: Object.keys(quantities.values).length > 0 ? quantities.values : undefined,
+    workerActivityIds: Object.keys(workerActivityIds.values).length > 0 ? workerActivityIds.values : undefined,
+    workerAreaIds: Object.keys(workerAreaIds.values).length > 0 ? workerAreaIds.values : undefined,
+    stamps: Object.keys(stamps).length > 0 ? stamps : undefined,
+  };
+}
+
 function mergeDays(localDays = [], remoteDays = []) {
   const map = new Map();
 
@@ -163,15 +679,7 @@ function mergeDays(localDays = [], remoteDays = []) {
 
   for (const remoteDay of remoteDays) {
     const existing = map.get(remoteDay.date);
-    if (!existing) {
-      map.set(remoteDay.date, { ...remoteDay });
-    } else {
-      map.set(remoteDay.date, {
-        ...existing,
-        ...remoteDay,
-        attendance: { ...existing.attendance, ...remoteDay.attendance },
-      });
-    }
+    map.set(remoteDay.date, existing ? mergeDay(existing, remoteDay) : { ...remoteDay });
   }
 
   return Array.from(map.values());
@@ -246,9 +754,10 @@ async function performUpdate() {
 
     console.log('Update complete! Restarting server...');
 
-    // Give a moment for the response to be sent, then exit
+    // Give a moment for the response to be sent and pending writes to finish, then exit
     // PM2 will auto-restart the process
-    setTimeout(() => {
+    setTimeout(async () => {
+      await flushWrites();
       process.exit(0);
     }, 2000);
 
@@ -261,92 +770,312 @@ async function performUpdate() {
 
 // ============ API Endpoints ============
 
+// Data routes (manifest, data files, months, change events), mounted per farm
+const farmApi = express.Router();
+
+// Farm folders on this server, so a device can join an existing farm
+app.get('/api/farms', (req, res) => {
+  res.json({ success: true, farms: listFarms(), timestamp: new Date().toISOString() });
+});
+
+app.use('/api/farms/:farmId', selectFarm, farmApi);
+app.use('/api', selectFarm, farmApi);
+
 // Get manifest (list of all files with timestamps)
-app.get('/api/manifest', (req, res) => {
+farmApi.get('/manifest', (req, res) => {
   const manifest = {
-    workers: getFileTimestamp(join(DATA_DIR, 'workers.json')),
-    areas: getFileTimestamp(join(DATA_DIR, 'areas.json')),
-    activities: getFileTimestamp(join(DATA_DIR, 'activities.json')),
-    groups: getFileTimestamp(join(DATA_DIR, 'groups.json')),
-    expenseCategories: getFileTimestamp(join(DATA_DIR, 'expenseCategories.json')),
-    expenses: getFileTimestamp(join(DATA_DIR, 'expenses.json')),
-    payments: getFileTimestamp(join(DATA_DIR, 'payments.json')),
-    settings: getFileTimestamp(join(DATA_DIR, 'settings.json')),
+    workers: getFileTimestamp(join(req.farm.dataDir, 'workers.json')),
+    areas: getFileTimestamp(join(req.farm.dataDir, 'areas.json')),
+    activities: getFileTimestamp(join(req.farm.dataDir, 'activities.json')),
+    groups: getFileTimestamp(join(req.farm.dataDir, 'groups.json')),
+    expenseCategories: getFileTimestamp(join(req.farm.dataDir, 'expenseCategories.json')),
+    expenses: getFileTimestamp(join(req.farm.dataDir, 'expenses.json')),
+    payments: getFileTimestamp(join(req.farm.dataDir, 'payments.json')),
+    workerLedger: getFileTimestamp(join(req.farm.dataDir, 'workerLedger.json')),
+    attendanceCodes: getFileTimestamp(join(req.farm.dataDir, 'attendanceCodes.json')),
+    auditLog: getFileTimestamp(join(req.farm.dataDir, 'auditLog.json')),
+    users: getFileTimestamp(join(req.farm.dataDir, 'users.json')),
+    contractors: getFileTimestamp(join(req.farm.dataDir, 'contractors.json')),
+    settings: getFileTimestamp(join(req.farm.dataDir, 'settings.json')),
     months: {},
   };
 
   // Get all month files
-  if (existsSync(MONTHS_DIR)) {
-    const monthFiles = readdirSync(MONTHS_DIR).filter(f => f.endsWith('.json'));
+  if (existsSync(req.farm.monthsDir)) {
+    const monthFiles = readdirSync(req.farm.monthsDir).filter(f => f.endsWith('.json'));
     for (const file of monthFiles) {
       const month = file.replace('.json', '');
-      manifest.months[month] = getFileTimestamp(join(MONTHS_DIR, file));
+      manifest.months[month] = getFileTimestamp(join(req.farm.monthsDir, file));
     }
   }
 
   res.json({ success: true, manifest, timestamp: new Date().toISOString() });
 });
 
+// ============ Pairing & Device Endpoints ============
+
+// Pair a device with a one-time code (public - the code is the credential)
+app.post('/api/pair', (req, res) => {
+  const { code, deviceId, name } = req.body || {};
+  const pairing = pairingCodes.get(String(code || '').trim());
+
+  if (!pairing || pairing.expiresAt < Date.now()) {
+    return res.status(401).json({ success: false, error: 'Invalid or expired pairing code' });
+  }
+  if (!deviceId || typeof deviceId !== 'string') {
+    return res.status(400).json({ success: false, error: 'Device ID is required' });
+  }
+
+  // Codes are single-use
+  pairingCodes.delete(String(code).trim());
+
+  const token = randomBytes(32).toString('hex');
+  const now = new Date().toISOString();
+  const device = {
+    id: deviceId,
+    name: String(name || '').trim() || 'Unnamed device',
+    role: pairing.role,
+    tokenHash: hashToken(token),
+    pairedAt: now,
+    lastSeen: now,
+  };
+
+  // Re-pairing a known device replaces its old token (and lifts a revocation)
+  devices = [...devices.filter(d => d.id !== deviceId), device];
+  saveDevices();
+  console.log(`Device paired: ${device.name} (${device.role})`);
+
+  res.json({ success: true, token, device: publicDevice(device) });
+});
+
+// The device making the request
+app.get('/api/device', (req, res) => {
+  res.json({ success: true, device: publicDevice(req.device) });
+});
+
+// List paired devices (admin)
+app.get('/api/devices', requireAdmin, (req, res) => {
+  res.json({ success: true, devices: devices.map(publicDevice) });
+});
+
+// Revoke a device's token (admin)
+app.post('/api/devices/:id/revoke', requireAdmin, (req, res) => {
+  const device = devices.find(d => d.id === req.params.id);
+  if (!device) {
+    return res.status(404).json({ success: false, error: 'Device not found' });
+  }
+  if (device.id === req.device.id) {
+    return res.status(400).json({ success: false, error: 'Cannot revoke the device you are using' });
+  }
+
+  device.revoked = true;
+  device.revokedAt = new Date().toISOString();
+  saveDevices();
+  console.log(`Device revoked: ${device.name}`);
+
+  res.json({ success: true, device: publicDevice(device) });
+});
+
+// Generate a pairing code for another device (admin)
+app.post('/api/pairing-code', requireAdmin, (req, res) => {
+  const role = req.body?.role === 'admin' ? 'admin' : 'standard';
+  res.json({ success: true, ...createPairingCode(role) });
+});
+
+// ============ Live Change Events (Server-Sent Events) ============
+// Clients subscribe to /api/events (or /api/farms/<farmId>/events) and get a "change"
+// event naming the file of that farm that changed (workers, months/YYYY-MM, ... or *
+// for a bulk sync) and the paired device that changed it, so they can refresh just
+// that slice.
+
+const eventClients = new Set();
+const EVENT_KEEPALIVE_MS = 25000; // Keep proxies (Tailscale Funnel) from closing idle streams
+
+farmApi.get('/events', (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  const client = { res, farmId: req.farm.id };
+  eventClients.add(client);
+  const keepAlive = setInterval(() => res.write(': ping\n\n'), EVENT_KEEPALIVE_MS);
+
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    eventClients.delete(client);
+  });
+});
+
+// Called after writes only (and snapshot restore); a read must not send other devices pulling.
+// `allFarms` reaches devices of every farm, for a change that rewrote all of them.
+function broadcastChange(file, req, allFarms = false) {
+  const event = {
+    file,
+    deviceId: req.device?.id || null,
+    timestamp: new Date().toISOString(),
+  };
+  const payload = `event: change\ndata: ${JSON.stringify(event)}\n\n`;
+  for (const client of eventClients) {
+    if (allFarms || client.farmId === req.farm.id) {
+      client.res.write(payload);
+    }
+  }
+}
+
+// User profiles (roles and PIN hashes) are only written from admin devices; a profile
+// pushed by any other device is ignored, so a tablet can't give itself an admin role.
+// The hashes still reach every device, which needs them to check PINs offline: a PIN
+// is a convenience lock on a shared device, not access control. What a device may do
+// on the server is decided by its pairing role.
+function canWriteUsers(req) {
+  return req.device?.role === 'admin';
+}
+
+// Workers' ID and bank details only leave the server for admin devices. Other devices
+// get workers without them, and a worker they push keeps the details stored here, so
+// the missing fields don't erase them (and such a device can't set them either).
+const SENSITIVE_WORKER_FIELDS = ['idNumber', 'bankAccount', 'ifsc', 'upiId'];
+
+function canReadWorkerDetails(req) {
+  return req.device?.role === 'admin';
+}
+
+function workersForDevice(workers, req) {
+  if (canReadWorkerDetails(req)) return workers;
+  return workers.map(worker => {
+    const rest = { ...worker };
+    SENSITIVE_WORKER_FIELDS.forEach(field => delete rest[field]);
+    return rest;
+  });
+}
+
+function withStoredWorkerDetails(localWorkers, remoteWorkers, req) {
+  if (canReadWorkerDetails(req)) return remoteWorkers;
+  const stored = new Map(localWorkers.map(worker => [worker.id, worker]));
+  return remoteWorkers.map(worker => {
+    const kept = { ...worker };
+    SENSITIVE_WORKER_FIELDS.forEach(field => {
+      const value = stored.get(worker.id)?.[field];
+      if (value === undefined) delete kept[field];
+      else kept[field] = value;
+    });
+    return kept;
+  });
+}
+
+// The audit log keeps a year of entries (keep in sync with src/utils/audit.ts).
+// Devices push only their new entries, which are merged into the stored log by id.
+const AUDIT_RETENTION_MONTHS = 12;
+
+function pruneAuditLog(entries) {
+  const cutoff = new Date();
+  cutoff.setMonth(cutoff.getMonth() - AUDIT_RETENTION_MONTHS);
+  const cutoffIso = cutoff.toISOString();
+  return entries.filter(entry => !entry.timestamp || entry.timestamp >= cutoffIso);
+}
+
+// Audit entries record the device that made the change; fill in the paired name
+// for entries from this device that were logged before it had one
+function withDeviceNames(entries, req) {
+  if (!req.device) return entries;
+  return entries.map(entry =>
+    entry.deviceId === req.device.id && !entry.deviceName
+      ? { ...entry, deviceName: req.device.name }
+      : entry
+  );
+}
+
 // Get specific master file
-app.get('/api/data/:type', (req, res) => {
+farmApi.get('/data/:type', (req, res) => {
   const { type } = req.params;
-  const validTypes = ['workers', 'areas', 'activities', 'groups', 'expenseCategories', 'expenses', 'payments', 'settings'];
+  const validTypes = ['workers', 'areas', 'activities', 'groups', 'expenseCategories', 'expenses', 'payments', 'workerLedger', 'attendanceCodes', 'auditLog', 'users', 'contractors', 'settings'];
 
   if (!validTypes.includes(type)) {
     return res.status(400).json({ success: false, error: 'Invalid data type' });
   }
 
-  const filePath = join(DATA_DIR, `${type}.json`);
-  const data = loadFile(filePath);
+  const filePath = join(req.farm.dataDir, `${type}.json`);
+  let data = loadFile(filePath);
+  if (type === 'workers' && data) {
+    data = { ...data, items: workersForDevice(data.items || [], req) };
+  }
 
   res.json({ success: true, data, timestamp: new Date().toISOString() });
 });
 
 // Update specific master file
-app.post('/api/data/:type', (req, res) => {
+farmApi.post('/data/:type', (req, res) => {
   const { type } = req.params;
-  const validTypes = ['workers', 'areas', 'activities', 'groups', 'expenseCategories', 'expenses', 'payments', 'settings'];
+  const validTypes = ['workers', 'areas', 'activities', 'groups', 'expenseCategories', 'expenses', 'payments', 'workerLedger', 'attendanceCodes', 'auditLog', 'users', 'contractors', 'settings'];
 
   if (!validTypes.includes(type)) {
     return res.status(400).json({ success: false, error: 'Invalid data type' });
   }
 
   const remoteData = req.body;
-  const filePath = join(DATA_DIR, `${type}.json`);
+  const filePath = join(req.farm.dataDir, `${type}.json`);
   const localData = loadFile(filePath);
 
+  if (type === 'users' && !canWriteUsers(req)) {
+    // Accepted so the device's outbox clears; the stored profiles come back unchanged
+    return res.json({ success: true, data: localData || { items: [] }, timestamp: new Date().toISOString() });
+  }
+
   let mergedData;
+  let responseData;
   if (type === 'settings') {
     // Settings: simple merge, remote wins
     mergedData = { ...localData, ...remoteData, lastModified: new Date().toISOString() };
   } else {
     // Arrays: merge by ID
-    const mergedItems = mergeArray(localData?.items || [], remoteData?.items || remoteData || [], 'id');
+    let remoteItems = remoteData?.items || remoteData || [];
+    if (type === 'auditLog') {
+      remoteItems = withDeviceNames(remoteItems, req);
+    }
+    if (type === 'workers') {
+      remoteItems = withStoredWorkerDetails(localData?.items || [], remoteItems, req);
+    }
+    let mergedItems = mergeArray(localData?.items || [], remoteItems, 'id');
+    if (type === 'auditLog') {
+      mergedItems = pruneAuditLog(mergedItems);
+      // Only the pushed entries come back; the device pulls the rest when it needs them
+      responseData = { items: remoteItems, lastModified: new Date().toISOString() };
+    }
+    if (type === 'workers') {
+      responseData = { items: workersForDevice(mergedItems, req), lastModified: new Date().toISOString() };
+    }
     mergedData = { items: mergedItems, lastModified: new Date().toISOString() };
   }
 
   saveFile(filePath, mergedData);
-  res.json({ success: true, data: mergedData, timestamp: new Date().toISOString() });
+  broadcastChange(type, req);
+  res.json({ success: true, data: responseData || mergedData, timestamp: new Date().toISOString() });
 });
 
 // Get month attendance data
-app.get('/api/data/months/:month', (req, res) => {
+farmApi.get('/data/months/:month', (req, res) => {
   const { month } = req.params;
-  const filePath = join(MONTHS_DIR, `${month}.json`);
+  const filePath = join(req.farm.monthsDir, `${month}.json`);
   const data = loadFile(filePath);
 
   res.json({ success: true, data, timestamp: new Date().toISOString() });
 });
 
 // Update month attendance data
-app.post('/api/data/months/:month', (req, res) => {
+farmApi.post('/data/months/:month', (req, res) => {
   const { month } = req.params;
   const remoteData = req.body;
-  const filePath = join(MONTHS_DIR, `${month}.json`);
+  const filePath = join(req.farm.monthsDir, `${month}.json`);
   const localData = loadFile(filePath);
 
-  const mergedData = mergeMonthData(localData, remoteData);
+  const allowed = enforceReviewRights(localData, enforceMonthLocks(localData, remoteData, req.device), req.device);
+  const mergedData = mergeMonthData(localData, allowed);
   saveFile(filePath, mergedData);
+  broadcastChange(`months/${month}`, req);
 
   res.json({ success: true, data: mergedData, timestamp: new Date().toISOString() });
 });
@@ -354,22 +1083,27 @@ app.post('/api/data/months/:month', (req, res) => {
 // ============ Bulk Sync (for backward compatibility and initial load) ============
 
 // Get all data at once
-app.get('/api/data', (req, res) => {
-  const workers = loadFile(join(DATA_DIR, 'workers.json'));
-  const areas = loadFile(join(DATA_DIR, 'areas.json'));
-  const activities = loadFile(join(DATA_DIR, 'activities.json'));
-  const groups = loadFile(join(DATA_DIR, 'groups.json'));
-  const expenseCategories = loadFile(join(DATA_DIR, 'expenseCategories.json'));
-  const expenses = loadFile(join(DATA_DIR, 'expenses.json'));
-  const payments = loadFile(join(DATA_DIR, 'payments.json'));
-  const settings = loadFile(join(DATA_DIR, 'settings.json'));
+farmApi.get('/data', (req, res) => {
+  const workers = loadFile(join(req.farm.dataDir, 'workers.json'));
+  const areas = loadFile(join(req.farm.dataDir, 'areas.json'));
+  const activities = loadFile(join(req.farm.dataDir, 'activities.json'));
+  const groups = loadFile(join(req.farm.dataDir, 'groups.json'));
+  const expenseCategories = loadFile(join(req.farm.dataDir, 'expenseCategories.json'));
+  const expenses = loadFile(join(req.farm.dataDir, 'expenses.json'));
+  const payments = loadFile(join(req.farm.dataDir, 'payments.json'));
+  const workerLedger = loadFile(join(req.farm.dataDir, 'workerLedger.json'));
+  const attendanceCodes = loadFile(join(req.farm.dataDir, 'attendanceCodes.json'));
+  const auditLog = loadFile(join(req.farm.dataDir, 'auditLog.json'));
+  const users = loadFile(join(req.farm.dataDir, 'users.json'));
+  const contractors = loadFile(join(req.farm.dataDir, 'contractors.json'));
+  const settings = loadFile(join(req.farm.dataDir, 'settings.json'));
 
   // Load all months
   const months = [];
-  if (existsSync(MONTHS_DIR)) {
-    const monthFiles = readdirSync(MONTHS_DIR).filter(f => f.endsWith('.json'));
+  if (existsSync(req.farm.monthsDir)) {
+    const monthFiles = readdirSync(req.farm.monthsDir).filter(f => f.endsWith('.json'));
     for (const file of monthFiles) {
-      const monthData = loadFile(join(MONTHS_DIR, file));
+      const monthData = loadFile(join(req.farm.monthsDir, file));
       if (monthData) {
         months.push(monthData);
       }
@@ -377,13 +1111,18 @@ app.get('/api/data', (req, res) => {
   }
 
   const data = {
-    workers: workers?.items || [],
+    workers: workersForDevice(workers?.items || [], req),
     areas: areas?.items || [],
     activities: activities?.items || [],
     groups: groups?.items || [],
     expenseCategories: expenseCategories?.items || [],
     expenses: expenses?.items || [],
     payments: payments?.items || [],
+    workerLedger: workerLedger?.items || [],
+    attendanceCodes: attendanceCodes?.items || [],
+    auditLog: auditLog?.items || [],
+    users: users?.items || [],
+    contractors: contractors?.items || [],
     months,
     version: settings?.version || '1.0.0',
     lastSyncedAt: new Date().toISOString(),
@@ -393,7 +1132,7 @@ app.get('/api/data', (req, res) => {
 });
 
 // Sync all data at once
-app.post('/api/data', (req, res) => {
+farmApi.post('/data', (req, res) => {
   const remoteData = req.body;
 
   if (!remoteData) {
@@ -401,39 +1140,68 @@ app.post('/api/data', (req, res) => {
   }
 
   // Merge workers
-  const localWorkers = loadFile(join(DATA_DIR, 'workers.json'));
-  const mergedWorkers = mergeArray(localWorkers?.items || [], remoteData.workers || [], 'id');
-  saveFile(join(DATA_DIR, 'workers.json'), { items: mergedWorkers, lastModified: new Date().toISOString() });
+  const localWorkers = loadFile(join(req.farm.dataDir, 'workers.json'));
+  const remoteWorkers = withStoredWorkerDetails(localWorkers?.items || [], remoteData.workers || [], req);
+  const mergedWorkers = mergeArray(localWorkers?.items || [], remoteWorkers, 'id');
+  saveFile(join(req.farm.dataDir, 'workers.json'), { items: mergedWorkers, lastModified: new Date().toISOString() });
 
   // Merge areas
-  const localAreas = loadFile(join(DATA_DIR, 'areas.json'));
+  const localAreas = loadFile(join(req.farm.dataDir, 'areas.json'));
   const mergedAreas = mergeArray(localAreas?.items || [], remoteData.areas || [], 'id');
-  saveFile(join(DATA_DIR, 'areas.json'), { items: mergedAreas, lastModified: new Date().toISOString() });
+  saveFile(join(req.farm.dataDir, 'areas.json'), { items: mergedAreas, lastModified: new Date().toISOString() });
 
   // Merge activities
-  const localActivities = loadFile(join(DATA_DIR, 'activities.json'));
+  const localActivities = loadFile(join(req.farm.dataDir, 'activities.json'));
   const mergedActivities = mergeArray(localActivities?.items || [], remoteData.activities || [], 'id');
-  saveFile(join(DATA_DIR, 'activities.json'), { items: mergedActivities, lastModified: new Date().toISOString() });
+  saveFile(join(req.farm.dataDir, 'activities.json'), { items: mergedActivities, lastModified: new Date().toISOString() });
 
   // Merge groups
-  const localGroups = loadFile(join(DATA_DIR, 'groups.json'));
+  const localGroups = loadFile(join(req.farm.dataDir, 'groups.json'));
   const mergedGroups = mergeArray(localGroups?.items || [], remoteData.groups || [], 'id');
-  saveFile(join(DATA_DIR, 'groups.json'), { items: mergedGroups, lastModified: new Date().toISOString() });
+  saveFile(join(req.farm.dataDir, 'groups.json'), { items: mergedGroups, lastModified: new Date().toISOString() });
 
   // Merge expense categories
-  const localExpenseCategories = loadFile(join(DATA_DIR, 'expenseCategories.json'));
+  const localExpenseCategories = loadFile(join(req.farm.dataDir, 'expenseCategories.json'));
   const mergedExpenseCategories = mergeArray(localExpenseCategories?.items || [], remoteData.expenseCategories || [], 'id');
-  saveFile(join(DATA_DIR, 'expenseCategories.json'), { items: mergedExpenseCategories, lastModified: new Date().toISOString() });
+  saveFile(join(req.farm.dataDir, 'expenseCategories.json'), { items: mergedExpenseCategories, lastModified: new Date().toISOString() });
 
   // Merge expenses
-  const localExpenses = loadFile(join(DATA_DIR, 'expenses.json'));
+  const localExpenses = loadFile(join(req.farm.dataDir, 'expenses.json'));
   const mergedExpenses = mergeArray(localExpenses?.items || [], remoteData.expenses || [], 'id');
-  saveFile(join(DATA_DIR, 'expenses.json'), { items: mergedExpenses, lastModified: new Date().toISOString() });
+  saveFile(join(req.farm.dataDir, 'expenses.json'), { items: mergedExpenses, lastModified: new Date().toISOString() });
 
   // Merge payments
-  const localPayments = loadFile(join(DATA_DIR, 'payments.json'));
+  const localPayments = loadFile(join(req.farm.dataDir, 'payments.json'));
   const mergedPayments = mergeArray(localPayments?.items || [], remoteData.payments || [], 'id');
-  saveFile(join(DATA_DIR, 'payments.json'), { items: mergedPayments, lastModified: new Date().toISOString() });
+  saveFile(join(req.farm.dataDir, 'payments.json'), { items: mergedPayments, lastModified: new Date().toISOString() });
+
+  // Merge worker ledger
+  const localWorkerLedger = loadFile(join(req.farm.dataDir, 'workerLedger.json'));
+  const mergedWorkerLedger = mergeArray(localWorkerLedger?.items || [], remoteData.workerLedger || [], 'id');
+  saveFile(join(req.farm.dataDir, 'workerLedger.json'), { items: mergedWorkerLedger, lastModified: new Date().toISOString() });
+
+  // Merge attendance codes
+  const localAttendanceCodes = loadFile(join(req.farm.dataDir, 'attendanceCodes.json'));
+  const mergedAttendanceCodes = mergeArray(localAttendanceCodes?.items || [], remoteData.attendanceCodes || [], 'id');
+  saveFile(join(req.farm.dataDir, 'attendanceCodes.json'), { items: mergedAttendanceCodes, lastModified: new Date().toISOString() });
+
+  // Merge audit log
+  const localAuditLog = loadFile(join(req.farm.dataDir, 'auditLog.json'));
+  const mergedAuditLog = pruneAuditLog(mergeArray(localAuditLog?.items || [], withDeviceNames(remoteData.auditLog || [], req), 'id'));
+  saveFile(join(req.farm.dataDir, 'auditLog.json'), { items: mergedAuditLog, lastModified: new Date().toISOString() });
+
+  // Merge user profiles (admin devices only)
+  const localUsers = loadFile(join(req.farm.dataDir, 'users.json'));
+  let mergedUsers = localUsers?.items || [];
+  if (canWriteUsers(req)) {
+    mergedUsers = mergeArray(mergedUsers, remoteData.users || [], 'id');
+    saveFile(join(req.farm.dataDir, 'users.json'), { items: mergedUsers, lastModified: new Date().toISOString() });
+  }
+
+  // Merge contractors
+  const localContractors = loadFile(join(req.farm.dataDir, 'contractors.json'));
+  const mergedContractors = mergeArray(localContractors?.items || [], remoteData.contractors || [], 'id');
+  saveFile(join(req.farm.dataDir, 'contractors.json'), { items: mergedContractors, lastModified: new Date().toISOString() });
 
   // Merge months
   const mergedMonths = [];
@@ -441,11 +1209,11 @@ app.post('/api/data', (req, res) => {
 
   // Get existing month files
   const existingMonths = new Map();
-  if (existsSync(MONTHS_DIR)) {
-    const monthFiles = readdirSync(MONTHS_DIR).filter(f => f.endsWith('.json'));
+  if (existsSync(req.farm.monthsDir)) {
+    const monthFiles = readdirSync(req.farm.monthsDir).filter(f => f.endsWith('.json'));
     for (const file of monthFiles) {
       const month = file.replace('.json', '');
-      const data = loadFile(join(MONTHS_DIR, file));
+      const data = loadFile(join(req.farm.monthsDir, file));
       if (data) existingMonths.set(month, data);
     }
   }
@@ -454,8 +1222,9 @@ app.post('/api/data', (req, res) => {
   for (const remoteMonth of remoteMonths) {
     if (!remoteMonth.month) continue;
     const localMonth = existingMonths.get(remoteMonth.month);
-    const merged = mergeMonthData(localMonth, remoteMonth);
-    saveFile(join(MONTHS_DIR, `${remoteMonth.month}.json`), merged);
+    const allowed = enforceReviewRights(localMonth, enforceMonthLocks(localMonth, remoteMonth, req.device), req.device);
+    const merged = mergeMonthData(localMonth, allowed);
+    saveFile(join(req.farm.monthsDir, `${remoteMonth.month}.json`), merged);
     existingMonths.set(remoteMonth.month, merged);
   }
 
@@ -465,24 +1234,32 @@ app.post('/api/data', (req, res) => {
   }
 
   // Save settings
-  saveFile(join(DATA_DIR, 'settings.json'), {
+  saveFile(join(req.farm.dataDir, 'settings.json'), {
     version: remoteData.version || '1.0.0',
     lastModified: new Date().toISOString(),
   });
 
   const responseData = {
-    workers: mergedWorkers,
+    workers: workersForDevice(mergedWorkers, req),
     areas: mergedAreas,
     activities: mergedActivities,
     groups: mergedGroups,
     expenseCategories: mergedExpenseCategories,
     expenses: mergedExpenses,
     payments: mergedPayments,
+    workerLedger: mergedWorkerLedger,
+    attendanceCodes: mergedAttendanceCodes,
+    auditLog: mergedAuditLog,
+    users: mergedUsers,
+    contractors: mergedContractors,
     months: mergedMonths,
     version: remoteData.version || '1.0.0',
     lastSyncedAt: new Date().toISOString(),
   };
 
+  // Any file may have changed - clients check the manifest for which
+  broadcastChange('*', req);
+
   res.json({
     success: true,
     data: responseData,
@@ -504,6 +1281,48 @@ app.get('/api/status', (req, res) => {
   });
 });
 
+// ============ Snapshot Endpoints (admin) ============
+
+app.get('/api/snapshots', requireAdmin, (req, res) => {
+  res.json({
+    success: true,
+    snapshots: listSnapshots(),
+    retention: {
+      intervalMinutes: SNAPSHOT_INTERVAL_MS / 60000,
+      keepRecent: SNAPSHOT_KEEP_RECENT,
+      keepDays: SNAPSHOT_KEEP_DAYS,
+    },
+  });
+});
+
+// Take a snapshot now
+app.post('/api/snapshots', requireAdmin, async (req, res) => {
+  try {
+    const snapshot = await createSnapshot(`manual (${req.device.name})`);
+    res.json({ success: true, snapshot });
+  } catch (err) {
+    console.error('Snapshot failed:', err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
+app.post('/api/snapshots/:id/restore', requireAdmin, async (req, res) => {
+  const { id } = req.params;
+  if (!listSnapshots().some(s => s.id === id)) {
+    return res.status(404).json({ success: false, error: 'Snapshot not found' });
+  }
+
+  try {
+    await restoreSnapshot(id);
+    // The restore rewrote every farm's files, not just the farm of this request
+    broadcastChange('*', req, true);
+    res.json({ success: true, message: `Snapshot ${id} restored` });
+  } catch (err) {
+    console.error('Restore failed:', err);
+    res.status(500).json({ success: false, error: err.message });
+  }
+});
+
 // ============ Version & Update Endpoints ============
 
 // Get current version
@@ -521,8 +1340,8 @@ app.get('/api/check-update', async (req, res) => {
   res.json(result);
 });
 
-// Trigger update (manual)
-app.post('/api/update', async (req, res) => {
+// Trigger update (manual, admin)
+app.post('/api/update', requireAdmin, async (req, res) => {
   console.log('Manual update triggered via API');
   const checkResult = await checkForUpdates();
 
@@ -534,8 +1353,8 @@ app.post('/api/update', async (req, res) => {
   res.json(updateResult);
 });
 
-// Force update (skip version check)
-app.post('/api/force-update', async (req, res) => {
+// Force update (skip version check, admin)
+app.post('/api/force-update', requireAdmin, async (req, res) => {
   console.log('Force update triggered via API');
   const updateResult = await performUpdate();
   res.json(updateResult);
@@ -546,7 +1365,16 @@ app.get('*', (req, res) => {
   res.sendFile(join(__dirname, 'docs', 'index.html'));
 });
 
+// Unreadable data files and other handler errors come back as JSON
+// (Express only treats a four-argument middleware as an error handler)
+app.use((err, req, res, _next) => {
+  console.error(`${req.method} ${req.path} failed:`, err.message);
+  res.status(500).json({ success: false, error: err.message });
+});
+
 app.listen(PORT, () => {
+  const adminPairing = createPairingCode('admin');
+
   console.log(`
 ╔═══════════════════════════════════════════════════════════╗
 ║     Farm Attendance Sync Server v${CURRENT_VERSION.padEnd(24)}║
@@ -562,13 +1390,31 @@ app.listen(PORT, () => {
 ║    - expenseCategories.json                               ║
 ║    - expenses.json                                        ║
 ║    - payments.json                                        ║
+║    - workerLedger.json                                    ║
+║    - attendanceCodes.json                                 ║
+║    - auditLog.json (change history)                       ║
+║    - users.json (user profiles)                           ║
+║    - contractors.json (labour contractors)                ║
 ║    - months/*.json                                        ║
+║    - devices.json (paired devices)                        ║
+║    - farms/<id>/ (same files for each extra farm)         ║
+║                                                           ║
+║  Snapshots in: ./data-snapshots/                          ║
+║    - every ${String(SNAPSHOT_INTERVAL_MS / 60000).padEnd(4)} minutes when data changed                 ║
+║                                                           ║
+║  Admin pairing code: ${adminPairing.code} (valid 10 minutes)            ║
+║  Paired devices: ${String(devices.filter(d => !d.revoked).length).padEnd(41)}║
 ║                                                           ║
 ║  Auto-update: Enabled (every 6 hours)                     ║
 ║  API endpoints:                                           ║
+║    POST /api/pair         - Pair a device with a code     ║
+║    GET  /api/farms        - List farm workspaces          ║
+║    GET  /api/devices      - List paired devices (admin)   ║
+║    GET  /api/events       - Live change notifications     ║
+║    GET  /api/snapshots    - List data snapshots (admin)   ║
 ║    GET  /api/version      - Current version               ║
 ║    GET  /api/check-update - Check for updates             ║
-║    POST /api/update       - Apply available update        ║
+║    POST /api/update       - Apply update (admin)          ║
 ║                                                           ║
 ║  To expose via Tailscale Funnel:                          ║
 ║  tailscale funnel ${PORT}                                    ║
@@ -576,6 +1422,15 @@ app.listen(PORT, () => {
 ╚═══════════════════════════════════════════════════════════╝
   `);
 
+  // Snapshot on startup, then whenever data has changed since the last one
+  if (readdirSync(DATA_DIR).some(f => f.endsWith('.json'))) {
+    createSnapshot('startup').catch(err => console.error('Startup snapshot failed:', err));
+  }
+  setInterval(() => {
+    if (!dataChangedSinceSnapshot) return;
+    createSnapshot('scheduled').catch(err => console.error('Scheduled snapshot failed:', err));
+  }, SNAPSHOT_INTERVAL_MS);
+
   // Schedule auto-update checks
   console.log('Auto-update scheduler started. Checking every 6 hours.');
 
@@ -585,7 +1440,7 @@ app.listen(PORT, () => {
     const result = await checkForUpdates();
     if (result.hasUpdate) {
       console.log(`\n*** UPDATE AVAILABLE: ${result.currentVersion} → ${result.newVersion} ***`);
-      console.log('To update, run: curl -X POST http://localhost:' + PORT + '/api/update\n');
+      console.log('To update, use Settings → Server Management on an admin device\n');
     }
   }, 30000);
 
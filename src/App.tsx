@@ -14,9 +14,17 @@ import Reports from './pages/Reports';
 import LabourCost from './pages/LabourCost';
 import Settings from './pages/Settings';
 import ExpenseCategories from './pages/ExpenseCategories';
+import AttendanceCodes from './pages/AttendanceCodes';
 import Expenses from './pages/Expenses';
 import Payments from './pages/Payments';
+import WorkerLedger from './pages/WorkerLedger';
 import FarmExpenses from './pages/FarmExpenses';
+import History from './pages/History';
+import Review from './pages/Review';
+import Users from './pages/Users';
+import FarmsReport from './pages/FarmsReport';
+import Contractors from './pages/Contractors';
+import WorkerDetail from './pages/WorkerDetail';
 
 function App() {
   return (
@@ -39,14 +47,22 @@ function App() {
           <Route path="admin" element={<AdminLayout />}>
             <Route index element={<Dashboard />} />
             <Route path="workers" element={<Workers />} />
+            <Route path="workers/:workerId" element={<WorkerDetail />} />
             <Route path="groups" element={<Groups />} />
             <Route path="areas" element={<Areas />} />
             <Route path="activities" element={<Activities />} />
+            <Route path="attendance-codes" element={<AttendanceCodes />} />
             <Route path="expense-categories" element={<ExpenseCategories />} />
             <Route path="expenses" element={<Expenses />} />
             <Route path="payments" element={<Payments />} />
+            <Route path="contractors" element={<Contractors />} />
+            <Route path="worker-ledger" element={<WorkerLedger />} />
             <Route path="reports" element={<Reports />} />
             <Route path="labour-cost" element={<LabourCost />} />
+            <Route path="farms-report" element={<FarmsReport />} />
+            <Route path="review" element={<Review />} />
+            <Route path="history" element={<History />} />
+            <Route path="users" element={<Users />} />
             <Route path="settings" element={<Settings />} />
           </Route>
         </Routes>
@@ -1,9 +1,15 @@
 import React, { useState } from 'react';
-import { Outlet, NavLink, useNavigate } from 'react-router-dom';
+import { Outlet, NavLink, Navigate, useNavigate, useLocation } from 'react-router-dom';
 import { useApp } from '../../context/AppContext';
 import { useTranslation } from '../../data/translations';
 import { useAutoSync } from '../../hooks/useAutoSync';
+import { useUndoShortcuts } from '../../hooks/useUndoShortcuts';
 import { getSyncUrl } from '../../utils/sync';
+import SyncQueue from './SyncQueue';
+import UndoRedo from './UndoRedo';
+import { PinLogin, FirstAdminSetup } from './PinLogin';
+import { getActiveUsers, canOpenAdmin, canOpenAdminPage } from '../../utils/auth';
+import { getWorkspaces, getActiveWorkspace, getWorkspaceName } from '../../utils/workspaces';
 import {
   LayoutDashboard,
   Users,
@@ -17,23 +23,37 @@ import {
   X,
   Globe,
   ArrowLeft,
-  Cloud,
   Shield,
   Wallet,
   CreditCard,
   Tags,
+  BookUser,
+  ListChecks,
+  History,
+  ClipboardCheck,
+  UserCog,
+  LogOut,
+  Tractor,
+  HardHat,
 } from 'lucide-react';
 
 const AdminLayout: React.FC = () => {
   const navigate = useNavigate();
-  const { data, settings, setLanguage } = useApp();
+  const location = useLocation();
+  const { data, settings, setLanguage, mergeRemoteData, currentUser, logout } = useApp();
   const t = useTranslation(settings.language);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const isMarathi = settings.language === 'mr';
 
-  // Auto-sync when data changes
+  // Auto-sync: push local changes and pull other devices' changes
   const syncUrl = getSyncUrl();
-  useAutoSync(data, !!syncUrl);
+  const { forceSave } = useAutoSync(data, !!syncUrl, mergeRemoteData);
+
+  // Ctrl+Z / Ctrl+Shift+Z undo and redo local edits
+  useUndoShortcuts();
+
+  // With several farms on this device, show which one is open and the cross-farm report
+  const hasFarms = getWorkspaces().length > 1;
 
   const navItems = [
     { path: '/admin', icon: LayoutDashboard, label: t('dashboard'), end: true },
@@ -41,13 +61,20 @@ const AdminLayout: React.FC = () => {
     { path: '/admin/groups', icon: Users2, label: t('groups') },
     { path: '/admin/areas', icon: MapPin, label: t('areas') },
     { path: '/admin/activities', icon: ClipboardList, label: t('activities') },
+    { path: '/admin/attendance-codes', icon: ListChecks, label: isMarathi ? 'हजेरी कोड' : 'Attendance Codes' },
     { path: '/admin/expense-categories', icon: Tags, label: isMarathi ? 'खर्च प्रकार' : 'Expense Types' },
     { path: '/admin/expenses', icon: Wallet, label: isMarathi ? 'खर्च' : 'Expenses' },
     { path: '/admin/payments', icon: CreditCard, label: isMarathi ? 'पेमेंट' : 'Payments' },
+    { path: '/admin/contractors', icon: HardHat, label: isMarathi ? 'ठेकेदार' : 'Contractors' },
+    { path: '/admin/worker-ledger', icon: BookUser, label: isMarathi ? 'मजूर खाते' : 'Worker Ledger' },
     { path: '/admin/reports', icon: BarChart3, label: t('reports') },
     { path: '/admin/labour-cost', icon: IndianRupee, label: t('labourCost') },
+    ...(hasFarms ? [{ path: '/admin/farms-report', icon: Tractor, label: isMarathi ? 'सर्व शेते' : 'All Farms' }] : []),
+    { path: '/admin/review', icon: ClipboardCheck, label: isMarathi ? 'हजेरी तपासणी' : 'Attendance Review' },
+    { path: '/admin/history', icon: History, label: isMarathi ? 'बदलांचा इतिहास' : 'Change History' },
+    { path: '/admin/users', icon: UserCog, label: isMarathi ? 'वापरकर्ते' : 'Users' },
     { path: '/admin/settings', icon: Settings, label: t('settings') },
-  ];
+  ].filter(item => !currentUser || canOpenAdminPage(currentUser.role, item.path));
 
   const handleGoBack = () => {
     // Navigate to first active group's attendance page
@@ -68,6 +95,17 @@ const AdminLayout: React.FC = () => {
     setLanguage(settings.language === 'en' ? 'mr' : 'en');
   };
 
+  const handleLogout = () => {
+    logout();
+    navigate('/');
+  };
+
+  // Admin pages need a profile with access to them
+  if (getActiveUsers(data).length === 0) return <FirstAdminSetup />;
+  if (!currentUser) return <PinLogin />;
+  if (!canOpenAdmin(currentUser.role)) return <Navigate to="/" replace />;
+  if (!canOpenAdminPage(currentUser.role, location.pathname)) return <Navigate to="/admin" replace />;
+
   return (
     <div className="min-h-screen bg-slate-50">
       {/* Mobile Header */}
@@ -82,10 +120,9 @@ const AdminLayout: React.FC = () => {
           <Shield size={18} />
           <h1 className="text-lg font-semibold">{isMarathi ? 'व्यवस्थापन' : 'Admin'}</h1>
           {syncUrl && (
-            <span title="Auto-sync enabled">
-              <Cloud size={16} className="text-slate-300" />
-            </span>
+            <SyncQueue onRetry={forceSave} iconClassName="text-slate-300" />
           )}
+          <UndoRedo />
         </div>
         <button
           onClick={toggleLanguage}
@@ -119,14 +156,15 @@ const AdminLayout: React.FC = () => {
             <Shield size={24} />
             <div className="flex flex-col leading-none">
               <span className="text-sm font-semibold">{isMarathi ? 'व्यवस्थापन' : 'Admin Panel'}</span>
-              <span className="text-xs text-slate-300">ग्रामीनो</span>
+              <span className="text-xs text-slate-300">
+                {hasFarms ? getWorkspaceName(getActiveWorkspace(), isMarathi) : 'ग्रामीनो'}
+              </span>
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <UndoRedo className="hidden lg:flex" />
             {syncUrl && (
-              <span className="flex items-center gap-1 text-slate-300" title="Auto-sync enabled">
-                <Cloud size={16} />
-              </span>
+              <SyncQueue onRetry={forceSave} iconClassName="text-slate-300" />
             )}
             <button
               onClick={closeSidebar}
@@ -176,7 +214,7 @@ const AdminLayout: React.FC = () => {
         </nav>
 
         {/* Back to Attendance */}
-        <div className="p-4 border-t border-slate-600">
+        <div className="p-4 border-t border-slate-600 space-y-1">
           <button
             onClick={handleGoBack}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-slate-200 hover:bg-slate-600 hover:text-white transition-colors"
@@ -184,6 +222,13 @@ const AdminLayout: React.FC = () => {
             <ArrowLeft size={20} />
             <span>{isMarathi ? 'हजेरी पृष्ठ' : 'Back to Attendance'}</span>
           </button>
+          <button
+            onClick={handleLogout}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-slate-200 hover:bg-slate-600 hover:text-white transition-colors"
+          >
+            <LogOut size={20} />
+            <span className="truncate">{isMarathi ? 'बाहेर पडा' : 'Log out'} ({currentUser.name})</span>
+          </button>
         </div>
       </aside>
 
@@ -1,60 +1,52 @@
-import React, { useState, useRef } from 'react';
-import { Outlet, NavLink, useNavigate } from 'react-router-dom';
+import React, { useState } from 'react';
+import { Outlet, NavLink, Navigate, useNavigate, useLocation } from 'react-router-dom';
 import { useApp } from '../../context/AppContext';
 import { useTranslation } from '../../data/translations';
 import { useAutoSync } from '../../hooks/useAutoSync';
+import { useUndoShortcuts } from '../../hooks/useUndoShortcuts';
 import { getSyncUrl } from '../../utils/sync';
+import SyncQueue from './SyncQueue';
+import UndoRedo from './UndoRedo';
+import { PinLogin } from './PinLogin';
+import { getActiveUsers, canOpenAdmin, canAccessGroup } from '../../utils/auth';
+import { getWorkspaces, getActiveWorkspace, getWorkspaceName } from '../../utils/workspaces';
 import {
   Menu,
   X,
   Globe,
   Home,
-  Cloud,
   Printer,
   Calendar,
   IndianRupee,
   Wallet,
+  RefreshCw,
+  Shield,
+  LogOut,
 } from 'lucide-react';
 
 const AttendanceLayout: React.FC = () => {
   const navigate = useNavigate();
-  const { data, settings, setLanguage } = useApp();
+  const location = useLocation();
+  const { data, settings, setLanguage, mergeRemoteData, currentUser, logout } = useApp();
   const t = useTranslation(settings.language);
   const [sidebarOpen, setSidebarOpen] = useState(false);
   const isMarathi = settings.language === 'mr';
 
-  // Secret admin access: tap logo 5 times quickly
-  const tapCountRef = useRef(0);
-  const tapTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-
-  const handleSecretTap = () => {
-    tapCountRef.current += 1;
-
-    // Reset timeout on each tap
-    if (tapTimeoutRef.current) {
-      clearTimeout(tapTimeoutRef.current);
-    }
-
-    // If 5 taps within 2 seconds, go to admin
-    if (tapCountRef.current >= 5) {
-      tapCountRef.current = 0;
-      navigate('/admin');
-      return;
-    }
-
-    // Reset count after 2 seconds of no taps
-    tapTimeoutRef.current = setTimeout(() => {
-      tapCountRef.current = 0;
-    }, 2000);
-  };
+  // Profiles set up: log in first. Supervisors only get their groups' sheets.
+  const hasUsers = getActiveUsers(data).length > 0;
+  const isSupervisor = currentUser?.role === 'supervisor';
+  const showAdminLink = !hasUsers || (!!currentUser && canOpenAdmin(currentUser.role));
 
-  // Auto-sync when data changes
+  // Auto-sync: push local changes and pull other devices' changes
   const syncUrl = getSyncUrl();
-  useAutoSync(data, !!syncUrl);
+  const { remoteUpdate, forceSave } = useAutoSync(data, !!syncUrl, mergeRemoteData);
+
+  // Ctrl+Z / Ctrl+Shift+Z undo and redo local edits
+  useUndoShortcuts();
 
   // Get active groups sorted by order (exclude soft-deleted)
   const activeGroups = (data.groups || [])
-    .filter(g => g.status === 'active' && !g.deleted)
+    .filter(g => g.status === 'active' && !g.deleted && canAccessGroup(currentUser, g.id))
     .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
 
   // Build navigation items dynamically from groups
@@ -64,24 +56,26 @@ const AttendanceLayout: React.FC = () => {
     icon: Calendar,
   }));
 
-  // Add Print and Labour Cost at the end
-  navItems.push({
-    path: '/print',
-    label: t('print'),
-    icon: Printer,
-  });
-
-  navItems.push({
-    path: '/labour-cost',
-    label: t('labourCost'),
-    icon: IndianRupee,
-  });
-
-  navItems.push({
-    path: '/expenses',
-    label: isMarathi ? 'खर्च' : 'Expenses',
-    icon: Wallet,
-  });
+  // Add Print and Labour Cost at the end (not for supervisors: they cover every group)
+  if (!isSupervisor) {
+    navItems.push({
+      path: '/print',
+      label: t('print'),
+      icon: Printer,
+    });
+
+    navItems.push({
+      path: '/labour-cost',
+      label: t('labourCost'),
+      icon: IndianRupee,
+    });
+
+    navItems.push({
+      path: '/expenses',
+      label: isMarathi ? 'खर्च' : 'Expenses',
+      icon: Wallet,
+    });
+  }
 
   const handleGoHome = () => {
     navigate('/');
@@ -93,6 +87,16 @@ const AttendanceLayout: React.FC = () => {
     setLanguage(settings.language === 'en' ? 'mr' : 'en');
   };
 
+  const handleLogout = () => {
+    logout();
+    navigate('/');
+  };
+
+  if (hasUsers && !currentUser) return <PinLogin />;
+  if (isSupervisor && !location.pathname.startsWith('/attendance/')) {
+    return <Navigate to={activeGroups.length > 0 ? `/attendance/${activeGroups[0].id}` : '/'} replace />;
+  }
+
   return (
     <div className="min-h-screen bg-slate-50">
       {/* Mobile Header */}
@@ -104,15 +108,11 @@ const AttendanceLayout: React.FC = () => {
           <Menu size={24} />
         </button>
         <div className="flex items-center gap-2">
-          <h1
-            className="text-lg font-semibold cursor-pointer select-none"
-            onClick={handleSecretTap}
-          >ग्रामीनो</h1>
+          <h1 className="text-lg font-semibold select-none">ग्रामीनो</h1>
           {syncUrl && (
-            <span title="Auto-sync enabled">
-              <Cloud size={16} className="text-graminno-200" />
-            </span>
+            <SyncQueue onRetry={forceSave} iconClassName="text-graminno-200" />
           )}
+          <UndoRedo />
         </div>
         <button
           onClick={toggleLanguage}
@@ -142,21 +142,19 @@ const AttendanceLayout: React.FC = () => {
       >
         {/* Sidebar Header */}
         <div className="h-14 flex items-center justify-between px-4 border-b border-graminno-500">
-          <div
-            className="flex items-center gap-2 cursor-pointer select-none"
-            onClick={handleSecretTap}
-          >
+          <div className="flex items-center gap-2 select-none">
             <span className="text-2xl font-bold">ग्रा</span>
             <div className="flex flex-col leading-none">
               <span className="text-sm">ग्रामीनो</span>
-              <span className="text-xs text-graminno-200">GRAMINNO</span>
+              <span className="text-xs text-graminno-200">
+                {getWorkspaces().length > 1 ? getWorkspaceName(getActiveWorkspace(), isMarathi) : 'GRAMINNO'}
+              </span>
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <UndoRedo className="hidden lg:flex" />
             {syncUrl && (
-              <span className="flex items-center gap-1 text-graminno-200" title="Auto-sync enabled">
-                <Cloud size={16} />
-              </span>
+              <SyncQueue onRetry={forceSave} iconClassName="text-graminno-200" />
             )}
             <button
               onClick={closeSidebar}
@@ -208,7 +206,17 @@ const AttendanceLayout: React.FC = () => {
         </nav>
 
         {/* Exit Session */}
-        <div className="p-4 border-t border-graminno-500">
+        <div className="p-4 border-t border-graminno-500 space-y-1">
+          {showAdminLink && (
+            <NavLink
+              to="/admin"
+              onClick={closeSidebar}
+              className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-graminno-200 hover:bg-graminno-500 hover:text-white transition-colors"
+            >
+              <Shield size={20} />
+              <span>{isMarathi ? 'व्यवस्थापन' : 'Admin'}</span>
+            </NavLink>
+          )}
           <button
             onClick={handleGoHome}
             className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-graminno-200 hover:bg-graminno-500 hover:text-white transition-colors"
@@ -216,9 +224,26 @@ const AttendanceLayout: React.FC = () => {
             <Home size={20} />
             <span>{isMarathi ? 'मुख्यपृष्ठ' : 'Exit Session'}</span>
           </button>
+          {currentUser && (
+            <button
+              onClick={handleLogout}
+              className="w-full flex items-center gap-3 px-4 py-3 rounded-lg text-graminno-200 hover:bg-graminno-500 hover:text-white transition-colors"
+            >
+              <LogOut size={20} />
+              <span className="truncate">{isMarathi ? 'बाहेर पडा' : 'Log out'} ({currentUser.name})</span>
+            </button>
+          )}
         </div>
       </aside>
 
+      {/* Another device's changes were just merged in */}
+      {remoteUpdate && (
+        <div className="fixed top-16 lg:top-4 right-4 z-40 flex items-center gap-2 px-3 py-2 bg-white border border-graminno-200 text-graminno-700 text-sm rounded-lg shadow-md">
+          <RefreshCw size={14} />
+          <span>{isMarathi ? 'दुसऱ्या डिव्हाइसवरून अपडेट झाले' : 'Updated by another device'}</span>
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="lg:ml-64 pt-14 lg:pt-0 min-h-screen">
         <div className="p-4 lg:p-6">
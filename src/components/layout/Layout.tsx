@@ -3,7 +3,10 @@ import { Outlet, NavLink, useNavigate } from 'react-router-dom';
 import { useApp } from '../../context/AppContext';
 import { useTranslation } from '../../data/translations';
 import { useAutoSync } from '../../hooks/useAutoSync';
+import { useUndoShortcuts } from '../../hooks/useUndoShortcuts';
 import { getSyncUrl } from '../../utils/sync';
+import SyncQueue from './SyncQueue';
+import UndoRedo from './UndoRedo';
 import {
   LayoutDashboard,
   Users,
@@ -18,18 +21,20 @@ import {
   Printer,
   Globe,
   Home,
-  Cloud,
 } from 'lucide-react';
 
 const Layout: React.FC = () => {
   const navigate = useNavigate();
-  const { data, settings, setLanguage } = useApp();
+  const { data, settings, setLanguage, mergeRemoteData } = useApp();
   const t = useTranslation(settings.language);
   const [sidebarOpen, setSidebarOpen] = useState(false);
 
-  // Auto-sync when data changes
+  // Auto-sync: push local changes and pull other devices' changes
   const syncUrl = getSyncUrl();
-  useAutoSync(data, !!syncUrl);
+  const { forceSave } = useAutoSync(data, !!syncUrl, mergeRemoteData);
+
+  // Ctrl+Z / Ctrl+Shift+Z undo and redo local edits
+  useUndoShortcuts();
 
   const navItems = [
     { path: '/dashboard', icon: LayoutDashboard, label: t('dashboard') },
@@ -66,10 +71,9 @@ const Layout: React.FC = () => {
         <div className="flex items-center gap-2">
           <h1 className="text-lg font-semibold">ग्रामीनो</h1>
           {syncUrl && (
-            <span title="Auto-sync enabled">
-              <Cloud size={16} className="text-graminno-200" />
-            </span>
+            <SyncQueue onRetry={forceSave} iconClassName="text-graminno-200" />
           )}
+          <UndoRedo />
         </div>
         {/* Language Toggle Button */}
         <button
@@ -108,10 +112,9 @@ const Layout: React.FC = () => {
             </div>
           </div>
           <div className="flex items-center gap-2">
+            <UndoRedo className="hidden lg:flex" />
             {syncUrl && (
-              <span className="flex items-center gap-1 text-graminno-200" title="Auto-sync enabled">
-                <Cloud size={16} />
-              </span>
+              <SyncQueue onRetry={forceSave} iconClassName="text-graminno-200" />
             )}
             <button
               onClick={closeSidebar}
@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useApp } from '../../context/AppContext';
+import Button from '../ui/Button';
+import Input from '../ui/Input';
+import { getActiveUsers, canManageUsers, MIN_PIN_LENGTH } from '../../utils/auth';
+import type { UserRole } from '../../types';
+import { KeyRound, UserCircle, ArrowLeft, ShieldPlus } from 'lucide-react';
+
+// Full-screen card shared by the login and first-admin screens
+const LoginCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="min-h-screen bg-gradient-to-br from-graminno-50 to-graminno-100 flex items-center justify-center p-4">
+    <div className="bg-white rounded-2xl shadow-xl p-8 w-full max-w-sm">
+      <div className="text-center mb-6">
+        <KeyRound size={36} className="mx-auto mb-2 text-graminno-600" />
+        <h1 className="text-xl font-bold text-slate-800">{title}</h1>
+      </div>
+      {children}
+    </div>
+  </div>
+);
+
+/**
+ * Pick a profile and enter its PIN
+ */
+export const PinLogin: React.FC = () => {
+  const navigate = useNavigate();
+  const { data, settings, login } = useApp();
+  const isMarathi = settings.language === 'mr';
+
+  const [userId, setUserId] = useState<string | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState(false);
+
+  const users = getActiveUsers(data).sort((a, b) => a.name.localeCompare(b.name));
+  const selectedUser = users.find(u => u.id === userId);
+
+  const roleLabels: Record<UserRole, string> = {
+    admin: isMarathi ? 'प्रशासक' : 'Admin',
+    accountant: isMarathi ? 'लेखापाल' : 'Accountant',
+    supervisor: isMarathi ? 'पर्यवेक्षक' : 'Supervisor',
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!userId || !login(userId, pin)) {
+      setError(true);
+      setPin('');
+    }
+  };
+
+  if (!selectedUser) {
+    return (
+      <LoginCard title={isMarathi ? 'तुमचे नाव निवडा' : 'Who is using the app?'}>
+        <div className="space-y-2">
+          {users.map(user => (
+            <button
+              key={user.id}
+              onClick={() => { setUserId(user.id); setError(false); }}
+              className="w-full flex items-center gap-3 p-3 rounded-lg bg-slate-50 border border-slate-200 hover:bg-graminno-50 hover:border-graminno-200 transition-colors text-left"
+            >
+              <UserCircle size={28} className="text-slate-400" />
+              <div>
+                <div className="font-medium text-slate-800">{user.name}</div>
+                <div className="text-xs text-slate-500">{roleLabels[user.role]}</div>
+              </div>
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => navigate('/')}
+          className="mt-6 w-full text-sm text-slate-500 hover:text-slate-700"
+        >
+          {isMarathi ? 'मुख्यपृष्ठ' : 'Home'}
+        </button>
+      </LoginCard>
+    );
+  }
+
+  return (
+    <LoginCard title={selectedUser.name}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          label={isMarathi ? 'पिन' : 'PIN'}
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          autoFocus
+          value={pin}
+          onChange={e => { setPin(e.target.value); setError(false); }}
+          error={error ? (isMarathi ? 'चुकीचा पिन' : 'Wrong PIN') : undefined}
+        />
+        <Button type="submit" className="w-full" disabled={pin.length < MIN_PIN_LENGTH}>
+          {isMarathi ? 'लॉग इन' : 'Log in'}
+        </Button>
+      </form>
+      <button
+        onClick={() => { setUserId(null); setPin(''); setError(false); }}
+        className="mt-4 w-full flex items-center justify-center gap-1 text-sm text-slate-500 hover:text-slate-700"
+      >
+        <ArrowLeft size={14} />
+        {isMarathi ? 'दुसरे नाव' : 'Someone else'}
+      </button>
+    </LoginCard>
+  );
+};
+
+/**
+ * Shown on the admin pages until the first profile exists
+ */
+export const FirstAdminSetup: React.FC = () => {
+  const { settings, addUser } = useApp();
+  const isMarathi = settings.language === 'mr';
+
+  const [name, setName] = useState('');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+
+  const pinValid = /^\d+$/.test(pin) && pin.length >= MIN_PIN_LENGTH;
+  const canSave = name.trim() && pinValid && pin === confirmPin;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    addUser({ name: name.trim(), role: 'admin' }, pin);
+  };
+
+  // Profiles made here wouldn't reach the server, so they are set up on the admin device
+  if (!canManageUsers()) {
+    return (
+      <LoginCard title={isMarathi ? 'प्रशासक प्रोफाइल नाही' : 'No admin profile yet'}>
+        <p className="text-sm text-slate-600">
+          {isMarathi
+            ? 'पहिला प्रशासक प्रशासक उपकरणावर तयार करा; पुढील सिंकनंतर तो येथे दिसेल.'
+            : 'Create the first admin on the admin device; it appears here after the next sync.'}
+        </p>
+      </LoginCard>
+    );
+  }
+
+  return (
+    <LoginCard title={isMarathi ? 'प्रशासक प्रोफाइल तयार करा' : 'Create the admin profile'}>
+      <p className="text-sm text-slate-600 mb-4">
+        {isMarathi
+          ? 'व्यवस्थापन पृष्ठे आता पिनने सुरक्षित आहेत. पहिला प्रशासक तयार करा, मग इतर वापरकर्ते जोडा.'
+          : 'Admin pages are protected by a PIN. Create the first admin, then add the other users.'}
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          label={isMarathi ? 'नाव' : 'Name'}
+          value={name}
+          onChange={e => setName(e.target.value)}
+          required
+        />
+        <Input
+          label={isMarathi ? `पिन (किमान ${MIN_PIN_LENGTH} अंक)` : `PIN (at least ${MIN_PIN_LENGTH} digits)`}
+          type="password"
+          inputMode="numeric"
+          autoComplete="new-password"
+          value={pin}
+          onChange={e => setPin(e.target.value)}
+          error={pin && !pinValid ? (isMarathi ? 'फक्त अंक' : 'Digits only') : undefined}
+        />
+        <Input
+          label={isMarathi ? 'पिन पुन्हा' : 'Repeat PIN'}
+          type="password"
+          inputMode="numeric"
+          autoComplete="new-password"
+          value={confirmPin}
+          onChange={e => setConfirmPin(e.target.value)}
+          error={confirmPin && pin !== confirmPin ? (isMarathi ? 'पिन जुळत नाही' : 'PINs do not match') : undefined}
+        />
+        <Button type="submit" className="w-full" disabled={!canSave}>
+          <ShieldPlus size={18} />
+          {isMarathi ? 'तयार करा' : 'Create'}
+        </Button>
+      </form>
+    </LoginCard>
+  );
+};
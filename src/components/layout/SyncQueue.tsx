@@ -0,0 +1,141 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useApp } from '../../context/AppContext';
+import { useTranslation } from '../../data/translations';
+import { getSyncQueue, formatLastSync, type SyncQueueItem } from '../../utils/sync';
+import { OUTBOX_CHANGE_EVENT } from '../../utils/outbox';
+import Modal from '../ui/Modal';
+import Button from '../ui/Button';
+import { Cloud, CloudOff, RefreshCw, Check } from 'lucide-react';
+
+const QUEUE_REFRESH_MS = 5000; // Dirty flags don't fire events, so re-read the queue now and then
+
+interface SyncQueueProps {
+  onRetry: () => void;
+  iconClassName?: string;
+}
+
+// Cloud icon with a count of changes not yet on the server; tap to see the queue
+const SyncQueue: React.FC<SyncQueueProps> = ({ onRetry, iconClassName = '' }) => {
+  const { settings } = useApp();
+  const t = useTranslation(settings.language);
+  const isMarathi = settings.language === 'mr';
+
+  const [items, setItems] = useState<SyncQueueItem[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setItems(await getSyncQueue());
+  }, []);
+
+  useEffect(() => {
+    const handleChange = () => {
+      refresh();
+    };
+
+    handleChange();
+    const interval = setInterval(handleChange, QUEUE_REFRESH_MS);
+    window.addEventListener(OUTBOX_CHANGE_EVENT, handleChange);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener(OUTBOX_CHANGE_EVENT, handleChange);
+    };
+  }, [refresh]);
+
+  const getFileLabel = (file: string) => {
+    if (file.startsWith('months/')) {
+      return `${t('attendance')} ${file.slice('months/'.length)}`;
+    }
+    switch (file) {
+      case 'workers': return t('workers');
+      case 'areas': return t('areas');
+      case 'activities': return t('activities');
+      case 'groups': return t('groups');
+      case 'expenses': return t('expenses');
+      case 'payments': return t('payments');
+      case 'expenseCategories': return isMarathi ? 'खर्च प्रकार' : 'Expense Types';
+      case 'workerLedger': return isMarathi ? 'मजूर खाते' : 'Worker Ledger';
+      case 'attendanceCodes': return isMarathi ? 'हजेरी कोड' : 'Attendance Codes';
+      case 'auditLog': return isMarathi ? 'बदलांचा इतिहास' : 'Change History';
+      case 'users': return isMarathi ? 'वापरकर्ते' : 'Users';
+      case 'contractors': return isMarathi ? 'ठेकेदार' : 'Contractors';
+      default: return file;
+    }
+  };
+
+  const hasErrors = items.some(item => item.attempts > 0);
+
+  const handleRetry = () => {
+    onRetry();
+    refresh();
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`relative flex items-center ${iconClassName}`}
+        title={isMarathi ? 'सर्व्हरवर न पोहोचलेले बदल' : 'Changes not yet on the server'}
+      >
+        {hasErrors ? <CloudOff size={16} /> : <Cloud size={16} />}
+        {items.length > 0 && (
+          <span className="absolute -top-2 -right-2 min-w-4 h-4 px-1 rounded-full bg-amber-500 text-white text-[10px] leading-4 text-center">
+            {items.length}
+          </span>
+        )}
+      </button>
+
+      <Modal
+        isOpen={isOpen}
+        onClose={() => setIsOpen(false)}
+        title={isMarathi ? 'सिंक रांग' : 'Sync Queue'}
+      >
+        {items.length === 0 ? (
+          <div className="flex items-center gap-2 text-green-700">
+            <Check size={18} />
+            {isMarathi ? 'सर्व बदल सर्व्हरवर आहेत' : 'All changes are on the server'}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600">
+              {isMarathi
+                ? 'हे बदल या डिव्हाइसवर सुरक्षित आहेत आणि सर्व्हर मिळताच पाठवले जातील.'
+                : 'These changes are safe on this device and will be sent as soon as the server is reachable.'}
+            </p>
+
+            <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+              {items.map(item => (
+                <div key={item.file} className="p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-slate-800">{getFileLabel(item.file)}</span>
+                    <span className="text-xs text-slate-500">{formatLastSync(item.modifiedAt, isMarathi)}</span>
+                  </div>
+                  {item.attempts > 0 && (
+                    <div className="mt-1 text-xs text-red-600">
+                      {isMarathi ? `${item.attempts} प्रयत्न अयशस्वी` : `${item.attempts} failed attempt${item.attempts > 1 ? 's' : ''}`}
+                      {item.lastError && ` · ${item.lastError}`}
+                      {item.nextAttemptAt && (
+                        <span className="text-slate-500">
+                          {' · '}
+                          {isMarathi ? 'पुढील प्रयत्न ' : 'Next try at '}
+                          {new Date(item.nextAttemptAt).toLocaleTimeString(isMarathi ? 'mr-IN' : 'en-IN')}
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+
+            <Button onClick={handleRetry} className="w-full flex items-center justify-center gap-2">
+              <RefreshCw size={18} />
+              {isMarathi ? 'आता पाठवा' : 'Send Now'}
+            </Button>
+          </div>
+        )}
+      </Modal>
+    </>
+  );
+};
+
+export default SyncQueue;
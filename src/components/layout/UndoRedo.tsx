@@ -0,0 +1,38 @@
+import React from 'react';
+import { useApp } from '../../context/AppContext';
+import { Undo2, Redo2 } from 'lucide-react';
+
+interface UndoRedoProps {
+  className?: string;
+}
+
+// Undo/redo buttons for the layout headers
+const UndoRedo: React.FC<UndoRedoProps> = ({ className = '' }) => {
+  const { settings, undo, redo, canUndo, canRedo } = useApp();
+  const isMarathi = settings.language === 'mr';
+
+  const buttonClass = 'p-1.5 rounded-lg transition-colors hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className={`flex items-center ${className}`}>
+      <button
+        onClick={undo}
+        disabled={!canUndo}
+        className={buttonClass}
+        title={isMarathi ? 'मागे घ्या (Ctrl+Z)' : 'Undo (Ctrl+Z)'}
+      >
+        <Undo2 size={18} />
+      </button>
+      <button
+        onClick={redo}
+        disabled={!canRedo}
+        className={buttonClass}
+        title={isMarathi ? 'पुन्हा करा (Ctrl+Shift+Z)' : 'Redo (Ctrl+Shift+Z)'}
+      >
+        <Redo2 size={18} />
+      </button>
+    </div>
+  );
+};
+
+export default UndoRedo;
@@ -1,9 +1,32 @@
-import React, { createContext, useContext, type ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useSyncExternalStore, type ReactNode } from 'react';
 import { useLocalStorage } from '../hooks/useLocalStorage';
-import type { AppData, AppSettings, Worker, Area, Activity, Group, MonthData, MonthActivityGroup, GroupDayEntry, AttendanceStatus, Language, ExpenseCategory, SundryExpense, Payment } from '../types';
-import { sampleExpenseCategories } from '../data/sampleData';
-import { initialAppData, sampleGroups } from '../data/sampleData';
+import { useAppStorage } from '../hooks/useAppStorage';
+import type { AppData, AppSettings, Worker, Area, Activity, Group, MonthData, MonthActivityGroup, GroupDayEntry, GroupDayUpdate, DayReview, DayQuantities, DaySegment, GangEntry, AttendanceStatus, Language, ExpenseCategory, SundryExpense, Payment, WorkerLedgerEntry, AttendanceCode, MembershipStamps, UserProfile, Contractor } from '../types';
+import { initialAppData } from '../data/sampleData';
+import { runMigrations } from '../data/migrations';
 import { v4 as uuidv4 } from 'uuid';
+import { nextStamp, receiveStamp, getDeviceId } from '../utils/hlc';
+import { mergeAppData, getLatestMonthStamp } from '../utils/merge';
+import { resolveReferences, ensureUniqueCodes } from '../utils/references';
+import { mergeWorkerInMonth, getClosedMonthsWithWorker, fillMissingWorkerDetails, redirectMergedWorkers } from '../utils/duplicates';
+import { withAuditLog } from '../utils/audit';
+import { isMonthClosed as isGroupMonthClosed, getMonthGroupMasterId, isEntryLocked, canReopenMonths } from '../utils/closures';
+import { getDeviceName, markFileDirty } from '../utils/sync';
+import { reviewAfterEdit } from '../utils/review';
+import { createPinHash, verifyPin, getActiveUsers, canManageUsers, getSessionUserId, setSessionUserId, subscribeSession } from '../utils/auth';
+import {
+  diffUndoable,
+  recordUndoStep,
+  takeUndoStep,
+  applyUndoStep,
+  clearUndoHistory,
+  subscribeUndo,
+  getUndoSnapshot,
+  type UndoDirection,
+} from '../utils/undo';
+import { format } from 'date-fns';
+import { getWorkerRateOnDate, calculateClosureSnapshot } from '../utils/calculations';
+import { getStatusDayValue } from '../utils/attendanceCodes';
 
 interface AppContextType {
   // Data
@@ -14,6 +37,9 @@ interface AppContextType {
   addWorker: (worker: Omit<Worker, 'id'>) => void;
   updateWorker: (id: string, worker: Partial<Worker>) => void;
   deleteWorker: (id: string) => void;
+  mergeWorkers: (keepId: string, duplicateId: string) => void; // Duplicate's attendance and ledger move to keepId
+  addWorkerRate: (workerId: string, rate: number, effectiveFrom: string) => void;
+  removeWorkerRate: (workerId: string, effectiveFrom: string) => void;
 
   // Area operations
   addArea: (area: Omit<Area, 'id'>) => void;
@@ -25,6 +51,11 @@ interface AppContextType {
   updateActivity: (id: string, activity: Partial<Activity>) => void;
   deleteActivity: (id: string) => void;
 
+  // Contractor operations
+  addContractor: (contractor: Omit<Contractor, 'id'>) => void;
+  updateContractor: (id: string, contractor: Partial<Contractor>) => void;
+  deleteContractor: (id: string) => void;
+
   // Group operations (master data)
   addGroup: (group: Omit<Group, 'id'>) => void;
   updateGroup: (id: string, group: Partial<Group>) => void;
@@ -42,8 +73,29 @@ interface AppContextType {
 
   // Attendance operations (within groups)
   updateGroupAttendance: (month: string, groupId: string, date: string, workerId: string, status: AttendanceStatus) => void;
-  updateGroupDayActivity: (month: string, groupId: string, date: string, activityCode?: string, areaCode?: string) => void;
-  getWorkerDayTotal: (month: string, date: string, workerId: string) => number; // Returns 0, 0.5, or 1
+  updateGroupDayActivity: (month: string, groupId: string, date: string, activityId?: string, areaId?: string) => void;
+  updateGroupDayQuantities: (month: string, groupId: string, date: string, quantities: DayQuantities) => void; // Piece-rate output per worker
+  updateGroupDayWorkerAssignment: (month: string, groupId: string, date: string, workerIds: string[], activityId: string, areaId: string) => void; // '' = same as the group
+  updateGroupDaySegments: (month: string, groupId: string, date: string, segments: DaySegment[]) => void; // [] = not split
+  updateGroupDayGangs: (month: string, groupId: string, date: string, gangs: GangEntry[]) => void; // Contractor headcounts
+  updateGroupDays: (month: string, groupId: string, updates: GroupDayUpdate[]) => void; // Bulk grid actions
+  getWorkerDayTotal: (month: string, date: string, workerId: string) => number; // Sum of day values across groups
+
+  // Month close (per master group, see utils/closures.ts)
+  closeMonth: (month: string, groupId: string) => void;
+  reopenMonth: (month: string, groupId: string, reason: string) => boolean; // false without admin rights or a reason
+  isMonthClosed: (month: string, groupId: string) => boolean;
+
+  // Daily attendance review (see utils/review.ts)
+  submitGroupDays: (month: string, monthGroupId: string, dates: string[]) => void;
+  approveGroupDays: (days: { month: string; monthGroupId: string; date: string }[]) => void;
+  returnGroupDay: (month: string, monthGroupId: string, date: string, comment: string) => void;
+
+  // Attendance code operations (master data)
+  addAttendanceCode: (code: Omit<AttendanceCode, 'id'>) => void;
+  updateAttendanceCode: (id: string, code: Partial<AttendanceCode>) => void;
+  deleteAttendanceCode: (id: string) => void;
+  reorderAttendanceCode: (id: string, direction: 'up' | 'down') => void;
 
   // Expense Category operations
   addExpenseCategory: (category: Omit<ExpenseCategory, 'id'>) => void;
@@ -64,57 +116,143 @@ interface AppContextType {
   getPaymentsByMonth: (month: string) => Payment[];
   getPaymentsByGroup: (groupId: string, month?: string) => Payment[];
 
+  // Worker ledger operations
+  addWorkerLedgerEntry: (entry: Omit<WorkerLedgerEntry, 'id' | 'createdAt'>) => void;
+  updateWorkerLedgerEntry: (id: string, entry: Partial<WorkerLedgerEntry>) => void;
+  deleteWorkerLedgerEntry: (id: string) => void;
+  getWorkerLedgerByMonth: (month: string) => WorkerLedgerEntry[];
+  getWorkerLedgerByWorker: (workerId: string) => WorkerLedgerEntry[];
+
+  // User profiles and PIN login (see utils/auth.ts)
+  currentUser: UserProfile | null;
+  login: (userId: string, pin: string) => boolean;
+  logout: () => void;
+  addUser: (user: Omit<UserProfile, 'id' | 'pinHash' | 'pinSalt'>, pin: string) => void;
+  updateUser: (id: string, user: Partial<Omit<UserProfile, 'id' | 'pinHash' | 'pinSalt'>>, pin?: string) => void;
+  deleteUser: (id: string) => void;
+
+  // Undo/redo of local edits (see utils/undo.ts)
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+
   // Settings
   setLanguage: (language: Language) => void;
 
   // Data management
   exportData: () => string;
   importData: (jsonString: string) => boolean;
+  mergeRemoteData: (remote: Partial<AppData>) => void;
   resetData: () => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
 
+// Closed months reject edits to the group's attendance
+const isMonthGroupClosed = (data: AppData, month: string, monthGroupId: string): boolean =>
+  isGroupMonthClosed(data, month, getMonthGroupMasterId(data, month, monthGroupId));
+
+// Stamp every worker whose membership changed between two workerIds lists
+const stampMembership = (
+  oldIds: string[] | undefined,
+  newIds: string[],
+  oldStamps: MembershipStamps = {}
+): MembershipStamps => {
+  const stamp = nextStamp();
+  const stamps = { ...oldStamps };
+  const before = new Set(oldIds || []);
+  const after = new Set(newIds);
+  for (const workerId of new Set([...before, ...after])) {
+    if (before.has(workerId) !== after.has(workerId)) {
+      stamps[workerId] = stamp;
+    }
+  }
+  return stamps;
+};
+
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [data, setData] = useLocalStorage<AppData>('graminno-attendance-data', initialAppData);
+  const [data, setStoredData, isLoaded] = useAppStorage(initialAppData);
   const [settings, setSettings] = useLocalStorage<AppSettings>('graminno-attendance-settings', {
     language: 'en',
   });
 
-  // Migration: Ensure data has groups array (for existing users upgrading)
-  useEffect(() => {
-    if (!data.groups) {
-      setData(prev => ({
-        ...prev,
-        groups: sampleGroups,
-      }));
-    } else {
-      // Migration: Ensure all groups have order values
-      const groupsNeedOrder = data.groups.some(g => g.order === undefined);
-      if (groupsNeedOrder) {
-        setData(prev => ({
-          ...prev,
-          groups: (prev.groups || []).map((g, index) => ({
-            ...g,
-            order: g.order ?? (index + 1),
-          })),
-        }));
+  // Local edits go through here so every change lands in the audit log and can be
+  // undone. Merged, imported and reset data use setStoredData directly.
+  const setData = (update: (prev: AppData) => AppData, undoable: boolean = true) => {
+    const stepId = uuidv4();
+    setStoredData(prev => {
+      const next = update(prev);
+      if (undoable) {
+        recordUndoStep(stepId, diffUndoable(prev, next));
       }
-    }
-  }, [data.groups, setData]);
+      return withAuditLog(prev, next);
+    });
+  };
 
-  // Migration: Ensure data has accounting arrays (for existing users upgrading)
-  useEffect(() => {
-    const needsMigration = !data.expenseCategories || !data.expenses || !data.payments;
-    if (needsMigration) {
-      setData(prev => ({
-        ...prev,
-        expenseCategories: prev.expenseCategories || sampleExpenseCategories,
-        expenses: prev.expenses || [],
-        payments: prev.payments || [],
-      }));
+  const { canUndo, canRedo } = useSyncExternalStore(subscribeUndo, getUndoSnapshot);
+
+  const applyHistory = (direction: UndoDirection) => {
+    const step = takeUndoStep(direction);
+    if (step) {
+      setData(prev => applyUndoStep(prev, step, direction), false);
     }
-  }, [data.expenseCategories, data.expenses, data.payments, setData]);
+  };
+
+  const undo = () => applyHistory('undo');
+  const redo = () => applyHistory('redo');
+
+  // Logged-in profile; a deleted profile is logged out
+  const sessionUserId = useSyncExternalStore(subscribeSession, getSessionUserId);
+  const currentUser = getActiveUsers(data).find(u => u.id === sessionUserId) || null;
+
+  const login = (userId: string, pin: string): boolean => {
+    const user = getActiveUsers(data).find(u => u.id === userId);
+    if (!user || !verifyPin(user, pin)) return false;
+    setSessionUserId(user.id);
+    clearUndoHistory();
+    return true;
+  };
+
+  const logout = () => {
+    setSessionUserId(null);
+    clearUndoHistory();
+  };
+
+  // User profile operations; once sync is set up only an admin device may change profiles,
+  // so an unpaired or standard device can't make itself an admin
+  const addUser = (user: Omit<UserProfile, 'id' | 'pinHash' | 'pinSalt'>, pin: string) => {
+    if (!canManageUsers()) return;
+    const newUser: UserProfile = {
+      ...user,
+      ...createPinHash(pin),
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+    };
+    setData(prev => ({ ...prev, users: [...(prev.users || []), newUser] }));
+  };
+
+  const updateUser = (id: string, userUpdate: Partial<Omit<UserProfile, 'id' | 'pinHash' | 'pinSalt'>>, pin?: string) => {
+    if (!canManageUsers()) return;
+    const pinUpdate = pin ? createPinHash(pin) : {};
+    setData(prev => ({
+      ...prev,
+      users: (prev.users || []).map(u =>
+        u.id === id ? { ...u, ...userUpdate, ...pinUpdate, modifiedAt: new Date().toISOString() } : u
+      ),
+    }));
+  };
+
+  const deleteUser = (id: string) => {
+    if (!canManageUsers()) return;
+    // Soft delete for sync compatibility
+    setData(prev => ({
+      ...prev,
+      users: (prev.users || []).map(u =>
+        u.id === id ? { ...u, deleted: true, deletedAt: new Date().toISOString() } : u
+      ),
+    }));
+  };
 
   // Worker operations
   const addWorker = (worker: Omit<Worker, 'id'>) => {
@@ -138,6 +276,67 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }));
   };
 
+  // Merge a duplicate record of the same person: its attendance, group memberships
+  // and ledger entries move to the kept worker, which also takes any profile details
+  // it lacks, and the duplicate is soft-deleted. Refused while the duplicate has
+  // attendance in a closed month, as that can't be moved.
+  const mergeWorkers = (keepId: string, duplicateId: string) => {
+    setData(prev => {
+      const keep = prev.workers.find(w => w.id === keepId);
+      const duplicate = prev.workers.find(w => w.id === duplicateId);
+      if (!keep || !duplicate || keepId === duplicateId) return prev;
+      if (getClosedMonthsWithWorker(prev, duplicateId).length > 0) return prev;
+
+      const stamp = nextStamp();
+      const now = new Date().toISOString();
+      return {
+        ...prev,
+        workers: prev.workers.map(w => {
+          if (w.id === keepId) return { ...w, ...fillMissingWorkerDetails(keep, duplicate) };
+          if (w.id === duplicateId) return { ...w, mergedInto: keepId, deleted: true, deletedAt: now };
+          return w;
+        }),
+        months: prev.months.map(month => mergeWorkerInMonth(prev, month, duplicateId, keepId, stamp)),
+        workerLedger: (prev.workerLedger || []).map(e =>
+          e.workerId === duplicateId ? { ...e, workerId: keepId, modifiedAt: now } : e
+        ),
+      };
+    });
+  };
+
+  // Wage rate history - dailyRate always mirrors the rate effective today
+  const addWorkerRate = (workerId: string, rate: number, effectiveFrom: string) => {
+    setData(prev => ({
+      ...prev,
+      workers: prev.workers.map(w => {
+        if (w.id !== workerId) return w;
+        // First raise: keep the existing rate as the base for all earlier dates
+        const history = w.rateHistory && w.rateHistory.length > 0
+          ? w.rateHistory
+          : [{ rate: w.dailyRate, effectiveFrom: '' }];
+        const rateHistory = [
+          ...history.filter(r => r.effectiveFrom !== effectiveFrom),
+          { rate, effectiveFrom },
+        ].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+        const updated = { ...w, rateHistory };
+        return { ...updated, dailyRate: getWorkerRateOnDate(updated, format(new Date(), 'yyyy-MM-dd')) };
+      }),
+    }));
+  };
+
+  const removeWorkerRate = (workerId: string, effectiveFrom: string) => {
+    setData(prev => ({
+      ...prev,
+      workers: prev.workers.map(w => {
+        if (w.id !== workerId || !w.rateHistory) return w;
+        const rateHistory = w.rateHistory.filter(r => r.effectiveFrom !== effectiveFrom);
+        if (rateHistory.length === 0) return w; // Always keep at least one rate
+        const updated = { ...w, rateHistory };
+        return { ...updated, dailyRate: getWorkerRateOnDate(updated, format(new Date(), 'yyyy-MM-dd')) };
+      }),
+    }));
+  };
+
   // Area operations
   const addArea = (area: Omit<Area, 'id'>) => {
     const newArea: Area = { ...area, id: uuidv4() };
@@ -147,7 +346,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const updateArea = (id: string, areaUpdate: Partial<Area>) => {
     setData(prev => ({
       ...prev,
-      areas: prev.areas.map(a => (a.id === id ? { ...a, ...areaUpdate } : a)),
+      areas: prev.areas.map(a => (a.id === id ? { ...a, ...areaUpdate, modifiedAt: new Date().toISOString() } : a)),
     }));
   };
 
@@ -169,7 +368,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   const updateActivity = (id: string, activityUpdate: Partial<Activity>) => {
     setData(prev => ({
       ...prev,
-      activities: prev.activities.map(a => (a.id === id ? { ...a, ...activityUpdate } : a)),
+      activities: prev.activities.map(a => (a.id === id ? { ...a, ...activityUpdate, modifiedAt: new Date().toISOString() } : a)),
     }));
   };
 
@@ -182,6 +381,30 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }));
   };
 
+  // Contractor operations
+  const addContractor = (contractor: Omit<Contractor, 'id'>) => {
+    const newContractor: Contractor = { ...contractor, id: uuidv4(), createdAt: new Date().toISOString() };
+    setData(prev => ({ ...prev, contractors: [...(prev.contractors || []), newContractor] }));
+  };
+
+  const updateContractor = (id: string, contractorUpdate: Partial<Contractor>) => {
+    setData(prev => ({
+      ...prev,
+      contractors: (prev.contractors || []).map(c =>
+        c.id === id ? { ...c, ...contractorUpdate, modifiedAt: new Date().toISOString() } : c
+      ),
+    }));
+  };
+
+  const deleteContractor = (id: string) => {
+    setData(prev => ({
+      ...prev,
+      contractors: (prev.contractors || []).map(c =>
+        c.id === id ? { ...c, deleted: true, deletedAt: new Date().toISOString() } : c
+      ),
+    }));
+  };
+
   // Group operations (master data)
   const addGroup = (group: Omit<Group, 'id'>) => {
     setData(prev => {
@@ -242,6 +465,62 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     });
   };
 
+  // Attendance code operations
+  const addAttendanceCode = (code: Omit<AttendanceCode, 'id'>) => {
+    setData(prev => {
+      const codes = prev.attendanceCodes || [];
+      const maxOrder = codes.reduce((max, c) => Math.max(max, c.order ?? 0), 0);
+      const newCode: AttendanceCode = { ...code, id: uuidv4(), order: code.order ?? maxOrder + 1 };
+      return { ...prev, attendanceCodes: [...codes, newCode] };
+    });
+  };
+
+  const updateAttendanceCode = (id: string, codeUpdate: Partial<AttendanceCode>) => {
+    setData(prev => ({
+      ...prev,
+      attendanceCodes: (prev.attendanceCodes || []).map(c => (c.id === id ? { ...c, ...codeUpdate } : c)),
+    }));
+  };
+
+  const deleteAttendanceCode = (id: string) => {
+    // Soft delete for sync compatibility
+    setData(prev => ({
+      ...prev,
+      attendanceCodes: (prev.attendanceCodes || []).map(c =>
+        c.id === id ? { ...c, deleted: true, deletedAt: new Date().toISOString() } : c
+      ),
+    }));
+  };
+
+  const reorderAttendanceCode = (id: string, direction: 'up' | 'down') => {
+    setData(prev => {
+      const codes = [...(prev.attendanceCodes || [])];
+      const sortedCodes = codes
+        .filter(c => !c.deleted)
+        .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+      const currentIndex = sortedCodes.findIndex(c => c.id === id);
+
+      if (currentIndex === -1) return prev;
+
+      const targetIndex = direction === 'up' ? currentIndex - 1 : currentIndex + 1;
+      if (targetIndex < 0 || targetIndex >= sortedCodes.length) return prev;
+
+      // Swap order values
+      const currentCode = sortedCodes[currentIndex];
+      const targetCode = sortedCodes[targetIndex];
+      const currentOrder = currentCode.order ?? currentIndex;
+      const targetOrder = targetCode.order ?? targetIndex;
+
+      const updatedCodes = codes.map(c => {
+        if (c.id === currentCode.id) return { ...c, order: targetOrder };
+        if (c.id === targetCode.id) return { ...c, order: currentOrder };
+        return c;
+      });
+
+      return { ...prev, attendanceCodes: updatedCodes };
+    });
+  };
+
   // Expense Category operations
   const addExpenseCategory = (category: Omit<ExpenseCategory, 'id'>) => {
     const newCategory: ExpenseCategory = { ...category, id: uuidv4() };
@@ -277,29 +556,36 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       id: uuidv4(),
       createdAt: new Date().toISOString(),
     };
-    setData(prev => ({
-      ...prev,
-      expenses: [...(prev.expenses || []), newExpense],
-    }));
+    setData(prev => {
+      if (isEntryLocked(prev, newExpense)) return prev;
+      return { ...prev, expenses: [...(prev.expenses || []), newExpense] };
+    });
   };
 
   const updateExpense = (id: string, expenseUpdate: Partial<SundryExpense>) => {
-    setData(prev => ({
-      ...prev,
-      expenses: (prev.expenses || []).map(e =>
-        e.id === id ? { ...e, ...expenseUpdate, modifiedAt: new Date().toISOString() } : e
-      ),
-    }));
+    setData(prev => {
+      const existing = (prev.expenses || []).find(e => e.id === id);
+      if (isEntryLocked(prev, existing) || isEntryLocked(prev, { ...existing, ...expenseUpdate })) return prev;
+      return {
+        ...prev,
+        expenses: (prev.expenses || []).map(e =>
+          e.id === id ? { ...e, ...expenseUpdate, modifiedAt: new Date().toISOString() } : e
+        ),
+      };
+    });
   };
 
   const deleteExpense = (id: string) => {
     // Soft delete for sync compatibility
-    setData(prev => ({
-      ...prev,
-      expenses: (prev.expenses || []).map(e =>
-        e.id === id ? { ...e, deleted: true, deletedAt: new Date().toISOString() } : e
-      ),
-    }));
+    setData(prev => {
+      if (isEntryLocked(prev, (prev.expenses || []).find(e => e.id === id))) return prev;
+      return {
+        ...prev,
+        expenses: (prev.expenses || []).map(e =>
+          e.id === id ? { ...e, deleted: true, deletedAt: new Date().toISOString() } : e
+        ),
+      };
+    });
   };
 
   const getExpensesByMonth = (month: string): SundryExpense[] => {
@@ -327,29 +613,36 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       id: uuidv4(),
       createdAt: new Date().toISOString(),
     };
-    setData(prev => ({
-      ...prev,
-      payments: [...(prev.payments || []), newPayment],
-    }));
+    setData(prev => {
+      if (isEntryLocked(prev, newPayment)) return prev;
+      return { ...prev, payments: [...(prev.payments || []), newPayment] };
+    });
   };
 
   const updatePayment = (id: string, paymentUpdate: Partial<Payment>) => {
-    setData(prev => ({
-      ...prev,
-      payments: (prev.payments || []).map(p =>
-        p.id === id ? { ...p, ...paymentUpdate, modifiedAt: new Date().toISOString() } : p
-      ),
-    }));
+    setData(prev => {
+      const existing = (prev.payments || []).find(p => p.id === id);
+      if (isEntryLocked(prev, existing) || isEntryLocked(prev, { ...existing, ...paymentUpdate })) return prev;
+      return {
+        ...prev,
+        payments: (prev.payments || []).map(p =>
+          p.id === id ? { ...p, ...paymentUpdate, modifiedAt: new Date().toISOString() } : p
+        ),
+      };
+    });
   };
 
   const deletePayment = (id: string) => {
     // Soft delete for sync compatibility
-    setData(prev => ({
-      ...prev,
-      payments: (prev.payments || []).map(p =>
-        p.id === id ? { ...p, deleted: true, deletedAt: new Date().toISOString() } : p
-      ),
-    }));
+    setData(prev => {
+      if (isEntryLocked(prev, (prev.payments || []).find(p => p.id === id))) return prev;
+      return {
+        ...prev,
+        payments: (prev.payments || []).map(p =>
+          p.id === id ? { ...p, deleted: true, deletedAt: new Date().toISOString() } : p
+        ),
+      };
+    });
   };
 
   const getPaymentsByMonth = (month: string): Payment[] => {
@@ -364,6 +657,54 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     });
   };
 
+  // Worker ledger operations
+  const addWorkerLedgerEntry = (entry: Omit<WorkerLedgerEntry, 'id' | 'createdAt'>) => {
+    const newEntry: WorkerLedgerEntry = {
+      ...entry,
+      id: uuidv4(),
+      createdAt: new Date().toISOString(),
+    };
+    // Group-tagged entries are labour payments, so a closed month locks them like payments
+    setData(prev => {
+      if (isEntryLocked(prev, newEntry)) return prev;
+      return { ...prev, workerLedger: [...(prev.workerLedger || []), newEntry] };
+    });
+  };
+
+  const updateWorkerLedgerEntry = (id: string, entryUpdate: Partial<WorkerLedgerEntry>) => {
+    setData(prev => {
+      const existing = (prev.workerLedger || []).find(e => e.id === id);
+      if (isEntryLocked(prev, existing) || isEntryLocked(prev, { ...existing, ...entryUpdate })) return prev;
+      return {
+        ...prev,
+        workerLedger: (prev.workerLedger || []).map(e =>
+          e.id === id ? { ...e, ...entryUpdate, modifiedAt: new Date().toISOString() } : e
+        ),
+      };
+    });
+  };
+
+  const deleteWorkerLedgerEntry = (id: string) => {
+    // Soft delete for sync compatibility
+    setData(prev => {
+      if (isEntryLocked(prev, (prev.workerLedger || []).find(e => e.id === id))) return prev;
+      return {
+        ...prev,
+        workerLedger: (prev.workerLedger || []).map(e =>
+          e.id === id ? { ...e, deleted: true, deletedAt: new Date().toISOString() } : e
+        ),
+      };
+    });
+  };
+
+  const getWorkerLedgerByMonth = (month: string): WorkerLedgerEntry[] => {
+    return (data.workerLedger || []).filter(e => e.month === month && !e.deleted);
+  };
+
+  const getWorkerLedgerByWorker = (workerId: string): WorkerLedgerEntry[] => {
+    return (data.workerLedger || []).filter(e => e.workerId === workerId && !e.deleted);
+  };
+
   // Helper to get groups for a month (handles legacy data)
   const migrateMonthToGroups = (monthData: MonthData): MonthActivityGroup[] => {
     if (monthData.groups && monthData.groups.length > 0) {
@@ -393,12 +734,17 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       if (monthIndex === -1) {
         return {
           ...prev,
-          months: [...prev.months, { month, workerIds, groups: [] }],
+          months: [...prev.months, { month, workerIds, workerStamps: stampMembership(undefined, workerIds), groups: [] }],
         };
       }
 
+      const existingMonth = prev.months[monthIndex];
       const newMonths = [...prev.months];
-      newMonths[monthIndex] = { ...newMonths[monthIndex], workerIds };
+      newMonths[monthIndex] = {
+        ...existingMonth,
+        workerIds,
+        workerStamps: stampMembership(existingMonth.workerIds, workerIds, existingMonth.workerStamps),
+      };
 
       return { ...prev, months: newMonths };
     });
@@ -409,6 +755,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     const newMonthGroupId = uuidv4();
 
     setData(prev => {
+      if (isGroupMonthClosed(prev, month, groupId)) return prev;
       const monthIndex = prev.months.findIndex(m => m.month === month);
 
       const newMonthGroup: MonthActivityGroup = {
@@ -444,6 +791,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setData(prev => {
       const monthIndex = prev.months.findIndex(m => m.month === month);
       if (monthIndex === -1) return prev;
+      if (isMonthGroupClosed(prev, month, groupId)) return prev;
 
       const existingMonth = prev.months[monthIndex];
       const existingGroups = migrateMonthToGroups(existingMonth);
@@ -457,6 +805,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       newMonths[monthIndex] = {
         ...existingMonth,
         groups: newGroups,
+        // Tombstone so other devices drop the group instead of restoring it
+        deletedGroups: { ...(existingMonth.deletedGroups || {}), [groupId]: nextStamp() },
         days: undefined,
       };
 
@@ -468,12 +818,15 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setData(prev => {
       const monthIndex = prev.months.findIndex(m => m.month === month);
       if (monthIndex === -1) return prev;
+      if (isMonthGroupClosed(prev, month, groupId)) return prev;
 
       const existingMonth = prev.months[monthIndex];
       const existingGroups = migrateMonthToGroups(existingMonth);
 
       const newGroups = existingGroups.map(g =>
-        g.id === groupId ? { ...g, workerIds } : g
+        g.id === groupId
+          ? { ...g, workerIds, workerStamps: stampMembership(g.workerIds, workerIds, g.workerStamps) }
+          : g
       );
 
       const newMonths = [...prev.months];
@@ -493,6 +846,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setData(prev => {
       const monthIndex = prev.months.findIndex(m => m.month === month);
       if (monthIndex === -1) return prev; // Month must exist with groups
+      if (isMonthGroupClosed(prev, month, monthGroupId)) return prev;
 
       const existingMonth = prev.months[monthIndex];
       const existingGroups = migrateMonthToGroups(existingMonth);
@@ -503,14 +857,25 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         const dayIndex = g.days.findIndex(d => d.date === date);
         let newDays: GroupDayEntry[];
 
+        const stamp = nextStamp();
+
         if (dayIndex === -1) {
-          newDays = [...g.days, { date, attendance: { [workerId]: status } }];
+          newDays = [...g.days, { date, attendance: { [workerId]: status }, stamps: { attendance: { [workerId]: stamp } } }];
         } else {
-          newDays = g.days.map((d, i) =>
-            i === dayIndex
-              ? { ...d, attendance: { ...d.attendance, [workerId]: status } }
-              : d
-          );
+          newDays = g.days.map((d, i) => {
+            if (i !== dayIndex) return d;
+            const review = reviewAfterEdit(d);
+            return {
+              ...d,
+              attendance: { ...d.attendance, [workerId]: status },
+              review,
+              stamps: {
+                ...d.stamps,
+                attendance: { ...d.stamps?.attendance, [workerId]: stamp },
+                review: review !== d.review ? stamp : d.stamps?.review,
+              },
+            };
+          });
         }
 
         return { ...g, days: newDays };
@@ -527,10 +892,11 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     });
   };
 
-  const updateGroupDayActivity = (month: string, monthGroupId: string, date: string, activityCode?: string, areaCode?: string) => {
+  const updateGroupDayActivity = (month: string, monthGroupId: string, date: string, activityId?: string, areaId?: string) => {
     setData(prev => {
       const monthIndex = prev.months.findIndex(m => m.month === month);
       if (monthIndex === -1) return prev; // Month must exist with groups
+      if (isMonthGroupClosed(prev, month, monthGroupId)) return prev;
 
       const existingMonth = prev.months[monthIndex];
       const existingGroups = migrateMonthToGroups(existingMonth);
@@ -542,11 +908,19 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         let newDays: GroupDayEntry[];
 
         if (dayIndex === -1) {
-          newDays = [...g.days, { date, activityCode, areaCode, attendance: {} }];
+          const stamp = nextStamp();
+          newDays = [...g.days, { date, activityId, areaId, attendance: {}, stamps: { activityId: stamp, areaId: stamp } }];
         } else {
-          newDays = g.days.map((d, i) =>
-            i === dayIndex ? { ...d, activityCode, areaCode } : d
-          );
+          newDays = g.days.map((d, i) => {
+            if (i !== dayIndex) return d;
+            // Only stamp the fields that changed, so a concurrent edit of the other one survives
+            const stamps = { ...d.stamps };
+            if (d.activityId !== activityId) stamps.activityId = nextStamp();
+            if (d.areaId !== areaId) stamps.areaId = nextStamp();
+            const review = reviewAfterEdit(d);
+            if (review !== d.review) stamps.review = nextStamp();
+            return { ...d, activityId, areaId, review, stamps };
+          });
         }
 
         return { ...g, days: newDays };
@@ -563,6 +937,260 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     });
   };
 
+  // Piece-rate output for the listed workers (0 clears); only changed entries are stamped
+  const updateGroupDayQuantities = (month: string, monthGroupId: string, date: string, quantities: DayQuantities) => {
+    setData(prev => {
+      const monthIndex = prev.months.findIndex(m => m.month === month);
+      if (monthIndex === -1) return prev; // Month must exist with groups
+      if (isMonthGroupClosed(prev, month, monthGroupId)) return prev;
+
+      const existingMonth = prev.months[monthIndex];
+      const existingGroups = migrateMonthToGroups(existingMonth);
+
+      const newGroups = existingGroups.map(g => {
+        if (g.id !== monthGroupId) return g;
+
+        const day: GroupDayEntry = g.days.find(d => d.date === date) || { date, attendance: {} };
+        const changed = Object.entries(quantities).filter(([workerId, quantity]) =>
+          (day.quantities?.[workerId] || 0) !== quantity
+        );
+        if (changed.length === 0) return g;
+
+        const stamp = nextStamp();
+        const review = reviewAfterEdit(day);
+        const newDay: GroupDayEntry = {
+          ...day,
+          quantities: { ...day.quantities, ...Object.fromEntries(changed) },
+          review,
+          stamps: {
+            ...day.stamps,
+            quantities: { ...day.stamps?.quantities, ...Object.fromEntries(changed.map(([workerId]) => [workerId, stamp])) },
+            review: review !== day.review ? stamp : day.stamps?.review,
+          },
+        };
+
+        const hasDay = g.days.some(d => d.date === date);
+        return { ...g, days: hasDay ? g.days.map(d => (d.date === date ? newDay : d)) : [...g.days, newDay] };
+      });
+
+      const newMonths = [...prev.months];
+      newMonths[monthIndex] = {
+        ...existingMonth,
+        groups: newGroups,
+        days: undefined,
+      };
+
+      return { ...prev, months: newMonths };
+    });
+  };
+
+  // Per-worker activity/area overrides; a code equal to the group's (or '') clears the override
+  const updateGroupDayWorkerAssignment = (
+    month: string,
+    monthGroupId: string,
+    date: string,
+    workerIds: string[],
+    activityId: string,
+    areaId: string
+  ) => {
+    setData(prev => {
+      const monthIndex = prev.months.findIndex(m => m.month === month);
+      if (monthIndex === -1) return prev; // Month must exist with groups
+      if (isMonthGroupClosed(prev, month, monthGroupId)) return prev;
+
+      const existingMonth = prev.months[monthIndex];
+      const existingGroups = migrateMonthToGroups(existingMonth);
+
+      const newGroups = existingGroups.map(g => {
+        if (g.id !== monthGroupId) return g;
+
+        const day: GroupDayEntry = g.days.find(d => d.date === date) || { date, attendance: {} };
+        const activityOverride = activityId && activityId !== day.activityId ? activityId : '';
+        const areaOverride = areaId && areaId !== day.areaId ? areaId : '';
+        const activityChanged = workerIds.filter(id => (day.workerActivityIds?.[id] || '') !== activityOverride);
+        const areaChanged = workerIds.filter(id => (day.workerAreaIds?.[id] || '') !== areaOverride);
+        if (activityChanged.length === 0 && areaChanged.length === 0) return g;
+
+        const stamp = nextStamp();
+        const review = reviewAfterEdit(day);
+        const newDay: GroupDayEntry = {
+          ...day,
+          workerActivityIds: { ...day.workerActivityIds, ...Object.fromEntries(activityChanged.map(id => [id, activityOverride])) },
+          workerAreaIds: { ...day.workerAreaIds, ...Object.fromEntries(areaChanged.map(id => [id, areaOverride])) },
+          review,
+          stamps: {
+            ...day.stamps,
+            workerActivityIds: { ...day.stamps?.workerActivityIds, ...Object.fromEntries(activityChanged.map(id => [id, stamp])) },
+            workerAreaIds: { ...day.stamps?.workerAreaIds, ...Object.fromEntries(areaChanged.map(id => [id, stamp])) },
+            review: review !== day.review ? stamp : day.stamps?.review,
+          },
+        };
+
+        const hasDay = g.days.some(d => d.date === date);
+        return { ...g, days: hasDay ? g.days.map(d => (d.date === date ? newDay : d)) : [...g.days, newDay] };
+      });
+
+      const newMonths = [...prev.months];
+      newMonths[monthIndex] = {
+        ...existingMonth,
+        groups: newGroups,
+        days: undefined,
+      };
+
+      return { ...prev, months: newMonths };
+    });
+  };
+
+  // Split a day into segments; the whole list is stamped and synced as one field
+  const updateGroupDaySegments = (month: string, monthGroupId: string, date: string, segments: DaySegment[]) => {
+    setData(prev => {
+      const monthIndex = prev.months.findIndex(m => m.month === month);
+      if (monthIndex === -1) return prev; // Month must exist with groups
+      if (isMonthGroupClosed(prev, month, monthGroupId)) return prev;
+
+      const existingMonth = prev.months[monthIndex];
+      const existingGroups = migrateMonthToGroups(existingMonth);
+
+      const newGroups = existingGroups.map(g => {
+        if (g.id !== monthGroupId) return g;
+
+        const day: GroupDayEntry = g.days.find(d => d.date === date) || { date, attendance: {} };
+        if (JSON.stringify(day.segments || []) === JSON.stringify(segments)) return g;
+
+        const stamp = nextStamp();
+        const review = reviewAfterEdit(day);
+        const newDay: GroupDayEntry = {
+          ...day,
+          segments,
+          review,
+          stamps: { ...day.stamps, segments: stamp, review: review !== day.review ? stamp : day.stamps?.review },
+        };
+
+        const hasDay = g.days.some(d => d.date === date);
+        return { ...g, days: hasDay ? g.days.map(d => (d.date === date ? newDay : d)) : [...g.days, newDay] };
+      });
+
+      const newMonths = [...prev.months];
+      newMonths[monthIndex] = {
+        ...existingMonth,
+        groups: newGroups,
+        days: undefined,
+      };
+
+      return { ...prev, months: newMonths };
+    });
+  };
+
+  // Several days at once (bulk actions on the grid); only values that change are stamped
+  const updateGroupDays = (month: string, monthGroupId: string, updates: GroupDayUpdate[]) => {
+    setData(prev => {
+      const monthIndex = prev.months.findIndex(m => m.month === month);
+      if (monthIndex === -1) return prev; // Month must exist with groups
+      if (isMonthGroupClosed(prev, month, monthGroupId)) return prev;
+
+      const existingMonth = prev.months[monthIndex];
+      const existingGroups = migrateMonthToGroups(existingMonth);
+
+      const newGroups = existingGroups.map(g => {
+        if (g.id !== monthGroupId) return g;
+
+        let days = g.days;
+        updates.forEach(update => {
+          const day: GroupDayEntry = days.find(d => d.date === update.date) || { date: update.date, attendance: {} };
+          const stamp = nextStamp();
+          const newDay: GroupDayEntry = { ...day, stamps: { ...day.stamps } };
+          const stamps = newDay.stamps!;
+          let changed = false;
+
+          // Per-worker maps: only the listed workers whose value differs
+          const mergeWorkerValues = (field: 'attendance' | 'workerActivityIds' | 'workerAreaIds') => {
+            const changes = Object.entries(update[field] || {}).filter(([workerId, value]) => (day[field]?.[workerId] || '') !== value);
+            if (changes.length === 0) return;
+            newDay[field] = { ...day[field], ...Object.fromEntries(changes) };
+            stamps[field] = { ...stamps[field], ...Object.fromEntries(changes.map(([workerId]) => [workerId, stamp])) };
+            changed = true;
+          };
+          mergeWorkerValues('attendance');
+          mergeWorkerValues('workerActivityIds');
+          mergeWorkerValues('workerAreaIds');
+
+          if (update.activityId !== undefined && update.activityId !== day.activityId) {
+            newDay.activityId = update.activityId;
+            stamps.activityId = stamp;
+            changed = true;
+          }
+          if (update.areaId !== undefined && update.areaId !== day.areaId) {
+            newDay.areaId = update.areaId;
+            stamps.areaId = stamp;
+            changed = true;
+          }
+          if (update.segments && JSON.stringify(day.segments || []) !== JSON.stringify(update.segments)) {
+            newDay.segments = update.segments;
+            stamps.segments = stamp;
+            changed = true;
+          }
+          if (!changed) return;
+
+          newDay.review = reviewAfterEdit(day);
+          if (newDay.review !== day.review) stamps.review = stamp;
+          const hasDay = days.some(d => d.date === update.date);
+          days = hasDay ? days.map(d => (d.date === update.date ? newDay : d)) : [...days, newDay];
+        });
+
+        return days === g.days ? g : { ...g, days };
+      });
+
+      const newMonths = [...prev.months];
+      newMonths[monthIndex] = {
+        ...existingMonth,
+        groups: newGroups,
+        days: undefined,
+      };
+
+      return { ...prev, months: newMonths };
+    });
+  };
+
+  // Contractor gangs of a day; like segments, the list is stamped as one field
+  const updateGroupDayGangs = (month: string, monthGroupId: string, date: string, gangs: GangEntry[]) => {
+    setData(prev => {
+      const monthIndex = prev.months.findIndex(m => m.month === month);
+      if (monthIndex === -1) return prev; // Month must exist with groups
+      if (isMonthGroupClosed(prev, month, monthGroupId)) return prev;
+
+      const existingMonth = prev.months[monthIndex];
+      const existingGroups = migrateMonthToGroups(existingMonth);
+
+      const newGroups = existingGroups.map(g => {
+        if (g.id !== monthGroupId) return g;
+
+        const day: GroupDayEntry = g.days.find(d => d.date === date) || { date, attendance: {} };
+        if (JSON.stringify(day.gangs || []) === JSON.stringify(gangs)) return g;
+
+        const stamp = nextStamp();
+        const review = reviewAfterEdit(day);
+        const newDay: GroupDayEntry = {
+          ...day,
+          gangs,
+          review,
+          stamps: { ...day.stamps, gangs: stamp, review: review !== day.review ? stamp : day.stamps?.review },
+        };
+
+        const hasDay = g.days.some(d => d.date === date);
+        return { ...g, days: hasDay ? g.days.map(d => (d.date === date ? newDay : d)) : [...g.days, newDay] };
+      });
+
+      const newMonths = [...prev.months];
+      newMonths[monthIndex] = {
+        ...existingMonth,
+        groups: newGroups,
+        days: undefined,
+      };
+
+      return { ...prev, months: newMonths };
+    });
+  };
+
   const getWorkerDayTotal = (month: string, date: string, workerId: string): number => {
     const groups = getMonthGroups(month);
     let total = 0;
@@ -570,15 +1198,139 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     for (const group of groups) {
       const dayEntry = group.days.find(d => d.date === date);
       if (dayEntry?.attendance[workerId]) {
-        const status = dayEntry.attendance[workerId];
-        if (status === 'P') total += 1;
-        else if (status === 'H') total += 0.5;
+        total += getStatusDayValue(data.attendanceCodes, dayEntry.attendance[workerId]);
       }
     }
 
     return total;
   };
 
+  // Month close: freeze the group's balance and lock its attendance, expenses, payments and ledger entries
+  const closeMonth = (month: string, groupId: string) => {
+    setData(prev => {
+      if (isGroupMonthClosed(prev, month, groupId)) return prev;
+
+      const closure = {
+        closed: true,
+        closedAt: new Date().toISOString(),
+        closedBy: currentUser?.name || getDeviceName() || getDeviceId(),
+        closedByUserId: getSessionUserId() || undefined,
+        snapshot: calculateClosureSnapshot(prev, month, groupId),
+        stamp: nextStamp(),
+      };
+
+      const monthIndex = prev.months.findIndex(m => m.month === month);
+      if (monthIndex === -1) {
+        return { ...prev, months: [...prev.months, { month, groups: [], closures: { [groupId]: closure } }] };
+      }
+
+      const existingMonth = prev.months[monthIndex];
+      const newMonths = [...prev.months];
+      newMonths[monthIndex] = {
+        ...existingMonth,
+        closures: { ...existingMonth.closures, [groupId]: closure },
+      };
+      return { ...prev, months: newMonths };
+    }, false);
+  };
+
+  const reopenMonth = (month: string, groupId: string, reason: string): boolean => {
+    if (!canReopenMonths(currentUser?.role) || !reason.trim()) return false;
+
+    setData(prev => {
+      const monthIndex = prev.months.findIndex(m => m.month === month);
+      const existingMonth = prev.months[monthIndex];
+      const closure = existingMonth?.closures?.[groupId];
+      if (!closure?.closed) return prev;
+
+      const newMonths = [...prev.months];
+      newMonths[monthIndex] = {
+        ...existingMonth,
+        closures: {
+          ...existingMonth.closures,
+          [groupId]: {
+            ...closure,
+            closed: false,
+            snapshot: undefined,
+            reopenedAt: new Date().toISOString(),
+            reopenedBy: currentUser?.name || getDeviceName() || getDeviceId(),
+            reopenedByUserId: getSessionUserId() || undefined,
+            reopenReason: reason.trim(),
+            stamp: nextStamp(),
+          },
+        },
+      };
+      return { ...prev, months: newMonths };
+    }, false);
+    return true;
+  };
+
+  const isMonthClosed = (month: string, groupId: string): boolean => isGroupMonthClosed(data, month, groupId);
+
+  // Daily attendance review: set the review of the given group-days
+  const setDayReviews = (
+    days: { month: string; monthGroupId: string; date: string }[],
+    makeReview: (day: GroupDayEntry) => DayReview | null // null = leave the day alone
+  ) => {
+    setData(prev => {
+      let months = prev.months;
+
+      for (const { month, monthGroupId, date } of days) {
+        if (isMonthGroupClosed(prev, month, monthGroupId)) continue;
+        const monthIndex = months.findIndex(m => m.month === month);
+        if (monthIndex === -1) continue;
+
+        const existingMonth = months[monthIndex];
+        const newGroups = migrateMonthToGroups(existingMonth).map(g => {
+          if (g.id !== monthGroupId) return g;
+          const existing = g.days.find(d => d.date === date);
+          const review = makeReview(existing || { date, attendance: {} });
+          if (!review) return g;
+          const stamps = { ...existing?.stamps, review: nextStamp() };
+          const days = existing
+            ? g.days.map(d => (d === existing ? { ...d, review, stamps } : d))
+            : [...g.days, { date, attendance: {}, review, stamps }];
+          return { ...g, days };
+        });
+
+        months = [...months];
+        months[monthIndex] = { ...existingMonth, groups: newGroups, days: undefined };
+      }
+
+      return months === prev.months ? prev : { ...prev, months };
+    }, false);
+  };
+
+  const submitGroupDays = (month: string, monthGroupId: string, dates: string[]) => {
+    const submittedAt = new Date().toISOString();
+    const submittedBy = getDeviceName() || getDeviceId();
+    setDayReviews(
+      dates.map(date => ({ month, monthGroupId, date })),
+      day => {
+        const status = day.review?.status || 'draft';
+        return status === 'draft' || status === 'returned' ? { status: 'submitted', submittedAt, submittedBy } : null;
+      }
+    );
+  };
+
+  const approveGroupDays = (days: { month: string; monthGroupId: string; date: string }[]) => {
+    const reviewedAt = new Date().toISOString();
+    const reviewedBy = getDeviceName() || getDeviceId();
+    setDayReviews(days, day =>
+      day.review?.status === 'submitted' ? { ...day.review, status: 'approved', reviewedAt, reviewedBy } : null
+    );
+  };
+
+  const returnGroupDay = (month: string, monthGroupId: string, date: string, comment: string) => {
+    const reviewedAt = new Date().toISOString();
+    const reviewedBy = getDeviceName() || getDeviceId();
+    setDayReviews([{ month, monthGroupId, date }], day =>
+      day.review?.status === 'submitted' || day.review?.status === 'approved'
+        ? { ...day.review, status: 'returned', comment: comment.trim() || undefined, reviewedAt, reviewedBy }
+        : null
+    );
+  };
+
   // Settings
   const setLanguage = (language: Language) => {
     setSettings(prev => ({ ...prev, language }));
@@ -602,7 +1354,9 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         throw new Error('Invalid data structure');
       }
 
-      setData(imported);
+      // Backups from older versions are upgraded to the current schema
+      setStoredData(runMigrations(imported).data);
+      clearUndoHistory();
       return true;
     } catch (error) {
       console.error('Import error:', error);
@@ -610,8 +1364,26 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   };
 
+  // Merge data pulled from the server without dropping local edits that haven't synced yet
+  const mergeRemoteData = (remote: Partial<AppData>) => {
+    for (const month of remote.months || []) {
+      receiveStamp(getLatestMonthStamp(month));
+    }
+    // Days other devices saved before activities and areas were referenced by id,
+    // and attendance saved under a worker that has since been merged into another
+    setStoredData(prev => {
+      const merged = redirectMergedWorkers(resolveReferences(mergeAppData(prev, remote)), nextStamp);
+      // Codes repeated by the pull are renumbered and pushed back, so the rename sticks
+      const unique = ensureUniqueCodes(merged);
+      if (unique.activities !== merged.activities) markFileDirty('activities');
+      if (unique.areas !== merged.areas) markFileDirty('areas');
+      return unique;
+    });
+  };
+
   const resetData = () => {
-    setData(initialAppData);
+    setStoredData(initialAppData);
+    clearUndoHistory();
   };
 
   const value: AppContextType = {
@@ -620,12 +1392,18 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     addWorker,
     updateWorker,
     deleteWorker,
+    mergeWorkers,
+    addWorkerRate,
+    removeWorkerRate,
     addArea,
     updateArea,
     deleteArea,
     addActivity,
     updateActivity,
     deleteActivity,
+    addContractor,
+    updateContractor,
+    deleteContractor,
     addGroup,
     updateGroup,
     deleteGroup,
@@ -639,7 +1417,22 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     updateGroupWorkers,
     updateGroupAttendance,
     updateGroupDayActivity,
+    updateGroupDayQuantities,
+    updateGroupDayWorkerAssignment,
+    updateGroupDaySegments,
+    updateGroupDayGangs,
+    updateGroupDays,
     getWorkerDayTotal,
+    closeMonth,
+    reopenMonth,
+    isMonthClosed,
+    submitGroupDays,
+    approveGroupDays,
+    returnGroupDay,
+    addAttendanceCode,
+    updateAttendanceCode,
+    deleteAttendanceCode,
+    reorderAttendanceCode,
     addExpenseCategory,
     updateExpenseCategory,
     deleteExpenseCategory,
@@ -653,12 +1446,31 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     deletePayment,
     getPaymentsByMonth,
     getPaymentsByGroup,
+    addWorkerLedgerEntry,
+    updateWorkerLedgerEntry,
+    deleteWorkerLedgerEntry,
+    getWorkerLedgerByMonth,
+    getWorkerLedgerByWorker,
+    currentUser,
+    login,
+    logout,
+    addUser,
+    updateUser,
+    deleteUser,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
     setLanguage,
     exportData,
     importData,
+    mergeRemoteData,
     resetData,
   };
 
+  // Render nothing until the stored data is read, so pages never see the empty defaults
+  if (!isLoaded) return null;
+
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
 };
 
@@ -0,0 +1,122 @@
+/**
+ * AppData schema migrations
+ *
+ * Each migration upgrades data saved by an older version of the app. The runner
+ * applies, in order, every migration newer than `AppData.version` and stamps the
+ * result with DATA_VERSION. Migrations also run on imported backups, so they only
+ * fill in what is missing and never assume the previous step ran.
+ *
+ * To change the schema: add a migration with the next version and bump DATA_VERSION
+ * (and `initialAppData.version` in sampleData.ts).
+ */
+
+import type { AppData } from '../types';
+import { sampleGroups, sampleExpenseCategories, sampleAttendanceCodes } from './sampleData';
+import { resolveReferences, makeCodesUnique } from '../utils/references';
+
+export const DATA_VERSION = '1.7.0';
+
+interface Migration {
+  version: string;
+  description: string;
+  migrate: (data: AppData) => AppData;
+}
+
+const migrations: Migration[] = [
+  {
+    version: '1.1.0',
+    description: 'Activity groups master list with display order',
+    migrate: data => ({
+      ...data,
+      groups: data.groups
+        ? data.groups.map((g, index) => ({ ...g, order: g.order ?? (index + 1) }))
+        : sampleGroups,
+    }),
+  },
+  {
+    version: '1.2.0',
+    description: 'Accounting: expense categories, expenses and payments',
+    migrate: data => ({
+      ...data,
+      expenseCategories: data.expenseCategories || sampleExpenseCategories,
+      expenses: data.expenses || [],
+      payments: data.payments || [],
+    }),
+  },
+  {
+    version: '1.3.0',
+    description: 'Configurable attendance codes and worker ledger',
+    migrate: data => ({
+      ...data,
+      attendanceCodes: data.attendanceCodes || sampleAttendanceCodes,
+      workerLedger: data.workerLedger || [],
+    }),
+  },
+  {
+    version: '1.4.0',
+    description: 'Audit trail of data changes',
+    migrate: data => ({
+      ...data,
+      auditLog: data.auditLog || [],
+    }),
+  },
+  {
+    version: '1.5.0',
+    description: 'User profiles with PIN login',
+    migrate: data => ({
+      ...data,
+      users: data.users || [],
+    }),
+  },
+  {
+    version: '1.6.0',
+    description: 'Days reference activities and areas by id; codes made unique',
+    migrate: data => {
+      // Codes are resolved before they are renumbered
+      const resolved = resolveReferences({ ...data, activities: data.activities || [], areas: data.areas || [], months: data.months || [] });
+      return {
+        ...resolved,
+        activities: makeCodesUnique(resolved.activities),
+        areas: makeCodesUnique(resolved.areas),
+      };
+    },
+  },
+  {
+    version: '1.7.0',
+    description: 'Labour contractors and gang headcounts',
+    migrate: data => ({
+      ...data,
+      contractors: data.contractors || [],
+    }),
+  },
+];
+
+// Compare dotted version strings numerically ('1.10.0' > '1.9.0')
+export function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff > 0 ? 1 : -1;
+  }
+  return 0;
+}
+
+export function runMigrations(data: AppData): { data: AppData; applied: string[] } {
+  const fromVersion = data.version || '0.0.0';
+  const pending = migrations.filter(m => compareVersions(m.version, fromVersion) > 0);
+  if (pending.length === 0) {
+    return { data, applied: [] };
+  }
+
+  let migrated = data;
+  for (const migration of pending) {
+    console.log(`[Migrations] ${migration.version}: ${migration.description}`);
+    migrated = migration.migrate(migrated);
+  }
+
+  return {
+    data: { ...migrated, version: DATA_VERSION },
+    applied: pending.map(m => m.version),
+  };
+}
@@ -1,4 +1,4 @@
-import type { Worker, Area, Activity, Group, ExpenseCategory, AppData } from '../types';
+import type { Worker, Area, Activity, Group, ExpenseCategory, AttendanceCode, AppData } from '../types';
 
 export const sampleWorkers: Worker[] = [
   { id: 'w01', name: 'Babaram Karade', marathiName: 'बाबाराम कराडे', dailyRate: 500, status: 'active' },
@@ -43,7 +43,7 @@ export const sampleActivities: Activity[] = [
   { id: 'act8', code: 'MU', marathiCode: 'आच', name: 'Mulching', marathiName: 'आच्छादन', category: 'Field Work' },
   { id: 'act9', code: 'CL', marathiCode: 'सा', name: 'Cleaning', marathiName: 'साफसफाई', category: 'Maintenance' },
   { id: 'act10', code: 'FN', marathiCode: 'कुं', name: 'Fencing', marathiName: 'कुंपण', category: 'Maintenance' },
-  { id: 'act11', code: 'GN', marathiCode: 'सा', name: 'General Work', marathiName: 'सामान्य काम', category: 'Other' },
+  { id: 'act11', code: 'GN', marathiCode: 'सामा', name: 'General Work', marathiName: 'सामान्य काम', category: 'Other' },
 ];
 
 export const sampleGroups: Group[] = [
@@ -64,6 +64,17 @@ export const sampleExpenseCategories: ExpenseCategory[] = [
   { id: 'exp8', code: 'MISC', marathiCode: 'इतर', name: 'Miscellaneous', marathiName: 'इतर खर्च', status: 'active' },
 ];
 
+// Default attendance codes - P/A/H active, extra codes available to switch on
+export const sampleAttendanceCodes: AttendanceCode[] = [
+  { id: 'att-p', code: 'P', label: 'Present', marathiLabel: 'हजर', color: 'green', dayValue: 1, paid: true, status: 'active', order: 1 },
+  { id: 'att-a', code: 'A', label: 'Absent', marathiLabel: 'गैरहजर', color: 'red', dayValue: 0, paid: false, status: 'active', order: 2 },
+  { id: 'att-h', code: 'H', label: 'Half Day', marathiLabel: 'अर्धा दिवस', color: 'yellow', dayValue: 0.5, paid: true, status: 'active', order: 3 },
+  { id: 'att-q', code: 'Q', label: 'Quarter Day', marathiLabel: 'पाव दिवस', color: 'orange', dayValue: 0.25, paid: true, status: 'inactive', order: 4 },
+  { id: 'att-ot', code: 'OT', label: 'Overtime', marathiLabel: 'जादा वेळ', color: 'purple', dayValue: 1.5, paid: true, status: 'inactive', order: 5 },
+  { id: 'att-l', code: 'L', label: 'Paid Leave', marathiLabel: 'पगारी रजा', color: 'blue', dayValue: 1, paid: true, status: 'inactive', order: 6 },
+  { id: 'att-r', code: 'R', label: 'Rain Stopped', marathiLabel: 'पावसामुळे बंद', color: 'teal', dayValue: 0.5, paid: true, status: 'inactive', order: 7 },
+];
+
 export const initialAppData: AppData = {
   workers: sampleWorkers,
   areas: sampleAreas,
@@ -73,5 +84,10 @@ export const initialAppData: AppData = {
   expenseCategories: sampleExpenseCategories,
   expenses: [],
   payments: [],
-  version: '1.2.0',
+  workerLedger: [],
+  attendanceCodes: sampleAttendanceCodes,
+  auditLog: [],
+  users: [],
+  contractors: [],
+  version: '1.7.0',
 };
@@ -0,0 +1,224 @@
+/**
+ * IndexedDB app data store
+ *
+ * AppData is kept as one record per entity (worker, area, expense, ...) and one per
+ * month, so an edit only rewrites the records that changed instead of the whole
+ * dataset, and storage isn't limited by the ~5MB localStorage quota.
+ *
+ * Records look like { collection: 'workers', key: '<id>', value: Worker }.
+ * Top-level fields such as `version` live in the 'meta' collection.
+ * Each farm workspace has its own database (see utils/workspaces).
+ */
+
+import type { AppData } from '../types';
+import { openDatabase, runTransaction } from '../utils/idb';
+import { getActiveWorkspaceId, workspaceKey } from '../utils/workspaces';
+
+const DB_NAME = 'graminno-attendance';
+const DB_VERSION = 1;
+const STORE_NAME = 'records';
+
+// Where all data lived before the IndexedDB store
+const LEGACY_STORAGE_KEY = 'graminno-attendance-data';
+
+// Collections of items with an `id`
+const ENTITY_COLLECTIONS = [
+  'workers',
+  'areas',
+  'activities',
+  'groups',
+  'expenseCategories',
+  'expenses',
+  'payments',
+  'workerLedger',
+  'attendanceCodes',
+  'auditLog',
+  'users',
+  'contractors',
+] as const;
+
+type EntityCollection = typeof ENTITY_COLLECTIONS[number];
+
+// Top-level scalar fields
+const META_KEYS = ['version', 'exportedAt'] as const;
+
+interface StoredRecord {
+  collection: string;
+  key: string;
+  value: unknown;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openWorkspaceDb(workspaceId: string): Promise<IDBDatabase> {
+  return openDatabase(workspaceKey(DB_NAME, workspaceId), DB_VERSION, db => {
+    db.createObjectStore(STORE_NAME, { keyPath: ['collection', 'key'] });
+  });
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openWorkspaceDb(getActiveWorkspaceId()).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// Stored order of items, kept with each entity so a reload keeps the list order
+// (IndexedDB returns records sorted by key)
+interface Ordered {
+  __order?: number;
+}
+
+function stripOrder<T>(value: T): T {
+  if (value && typeof value === 'object' && '__order' in value) {
+    const rest = { ...value } as T & Ordered;
+    delete rest.__order;
+    return rest;
+  }
+  return value;
+}
+
+async function readAll(db: IDBDatabase): Promise<AppData | null> {
+  const request = await runTransaction(db, STORE_NAME, 'readonly', transaction =>
+    transaction.objectStore(STORE_NAME).getAll() as IDBRequest<StoredRecord[]>
+  );
+  if (request.result.length === 0) return null;
+
+  const data: Record<string, unknown> = { months: [] };
+  for (const collection of ENTITY_COLLECTIONS) {
+    data[collection] = [];
+  }
+
+  for (const record of request.result) {
+    if (record.collection === 'meta') {
+      data[record.key] = record.value;
+    } else {
+      (data[record.collection] as unknown[] | undefined)?.push(record.value);
+    }
+  }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (Array.isArray(value)) {
+      data[key] = value
+        .sort((a: Ordered, b: Ordered) => (a.__order ?? 0) - (b.__order ?? 0))
+        .map(stripOrder);
+    }
+  }
+
+  return data as unknown as AppData;
+}
+
+// Load everything; null if nothing has been saved yet
+export async function loadAppData(): Promise<AppData | null> {
+  return readAll(await openDb());
+}
+
+// Read another workspace's data (for cross-farm reports) without keeping it open
+export async function loadWorkspaceData(workspaceId: string): Promise<AppData | null> {
+  const db = await openWorkspaceDb(workspaceId);
+  try {
+    return await readAll(db);
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Write the difference between what is stored (`previous`) and `next`.
+ * Items are compared by reference: AppContext mutators replace only the items
+ * they change, so unchanged items are skipped without serializing them.
+ * Pass `previous = null` to replace the whole store.
+ * Returns the names of the collections that changed.
+ */
+export async function saveAppChanges(previous: AppData | null, next: AppData): Promise<string[]> {
+  const db = await openDb();
+  const changed = new Set<string>();
+
+  await runTransaction(db, STORE_NAME, 'readwrite', transaction => {
+    const store = transaction.objectStore(STORE_NAME);
+    if (!previous) {
+      store.clear();
+    }
+
+    const syncCollection = <T,>(
+      collection: string,
+      previousItems: T[] | undefined,
+      nextItems: T[] | undefined,
+      getKey: (item: T) => string
+    ) => {
+      if (previous && previousItems === nextItems) return;
+
+      const before = new Map((previous ? previousItems || [] : []).map((item, index) => [getKey(item), { item, index }]));
+      const after = new Set<string>();
+
+      (nextItems || []).forEach((item, index) => {
+        const key = getKey(item);
+        after.add(key);
+        const stored = before.get(key);
+        if (!stored || stored.item !== item || stored.index !== index) {
+          store.put({ collection, key, value: { ...item, __order: index } });
+          changed.add(collection);
+        }
+      });
+
+      for (const key of before.keys()) {
+        if (!after.has(key)) {
+          store.delete([collection, key]);
+          changed.add(collection);
+        }
+      }
+    };
+
+    for (const collection of ENTITY_COLLECTIONS) {
+      syncCollection<{ id: string }>(
+        collection,
+        previous?.[collection as EntityCollection],
+        next[collection as EntityCollection],
+        item => item.id
+      );
+    }
+    syncCollection(
+      'months',
+      previous?.months,
+      next.months,
+      month => month.month
+    );
+
+    for (const key of META_KEYS) {
+      if (previous && previous[key] === next[key]) continue;
+      if (next[key] === undefined) {
+        store.delete(['meta', key]);
+      } else {
+        store.put({ collection: 'meta', key, value: next[key] });
+      }
+      changed.add('meta');
+    }
+  });
+
+  return [...changed];
+}
+
+// ============ localStorage migration ============
+
+export function readLegacyData(): AppData | null {
+  try {
+    const stored = localStorage.getItem(workspaceKey(LEGACY_STORAGE_KEY));
+    return stored ? (JSON.parse(stored) as AppData) : null;
+  } catch (error) {
+    console.warn('Error reading legacy localStorage data:', error);
+    return null;
+  }
+}
+
+// Fallback for browsers where IndexedDB can't be opened (e.g. some private modes)
+export function writeLegacyData(data: AppData): void {
+  localStorage.setItem(workspaceKey(LEGACY_STORAGE_KEY), JSON.stringify(data));
+}
+
+// Free the localStorage quota once the data is safely in IndexedDB
+export function clearLegacyData(): void {
+  localStorage.removeItem(workspaceKey(LEGACY_STORAGE_KEY));
+}
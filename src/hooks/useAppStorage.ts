@@ -0,0 +1,109 @@
+import { useState, useEffect, useRef, type Dispatch, type SetStateAction } from 'react';
+import type { AppData } from '../types';
+import { loadAppData, saveAppChanges, readLegacyData, writeLegacyData, clearLegacyData } from '../data/storage';
+import { runMigrations } from '../data/migrations';
+import { workspaceKey } from '../utils/workspaces';
+
+// Tells other open tabs (on the same workspace) which collections changed so they reload from IndexedDB
+const CHANNEL_NAME = workspaceKey('graminno-attendance-data');
+
+/**
+ * App data kept in IndexedDB (see data/storage.ts).
+ * Loading is async, so `isLoaded` stays false until the stored data (migrated from
+ * localStorage on first run, and upgraded to the current schema) is in state.
+ */
+export function useAppStorage(initialValue: AppData): [AppData, Dispatch<SetStateAction<AppData>>, boolean] {
+  const [data, setData] = useState<AppData>(initialValue);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  // What IndexedDB currently holds; null = nothing yet, write everything
+  const persistedRef = useRef<AppData | null>(null);
+  // Saves run one at a time so each diff starts from what the previous one wrote
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const legacyPendingRef = useRef(false);
+  const storageFailedRef = useRef(false);
+  const channelRef = useRef<BroadcastChannel | null>(null);
+
+  // Load once on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      let stored: AppData | null = null;
+      try {
+        stored = await loadAppData();
+      } catch (error) {
+        // Don't risk overwriting data we couldn't read; keep using localStorage instead
+        console.error('[Storage] IndexedDB unavailable, falling back to localStorage:', error);
+        storageFailedRef.current = true;
+      }
+
+      const legacy = stored ? null : readLegacyData();
+      const { data: migrated, applied } = runMigrations(stored || legacy || initialValue);
+      if (cancelled) return;
+
+      if (applied.length > 0) {
+        console.log(`[Storage] Data upgraded to ${migrated.version}`);
+      }
+      persistedRef.current = stored;
+      legacyPendingRef.current = !!legacy;
+      setData(migrated);
+      setIsLoaded(true);
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [initialValue]);
+
+  // Reload when another tab saves
+  useEffect(() => {
+    if (typeof BroadcastChannel === 'undefined') return;
+
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channelRef.current = channel;
+    channel.onmessage = () => {
+      saveQueueRef.current = saveQueueRef.current.then(async () => {
+        const stored = await loadAppData();
+        if (stored) {
+          persistedRef.current = stored;
+          setData(stored);
+        }
+      }).catch(error => console.error('[Storage] Reload failed:', error));
+    };
+
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
+  // Persist every change
+  useEffect(() => {
+    if (!isLoaded || data === persistedRef.current) return;
+
+    if (storageFailedRef.current) {
+      try {
+        writeLegacyData(data);
+      } catch (error) {
+        console.warn('Error saving data to localStorage:', error);
+      }
+      return;
+    }
+
+    saveQueueRef.current = saveQueueRef.current.then(async () => {
+      const changed = await saveAppChanges(persistedRef.current, data);
+      persistedRef.current = data;
+      if (legacyPendingRef.current) {
+        clearLegacyData();
+        legacyPendingRef.current = false;
+      }
+      if (changed.length > 0) {
+        channelRef.current?.postMessage({ changed });
+      }
+    }).catch(error => console.error('[Storage] Save failed:', error));
+  }, [data, isLoaded]);
+
+  return [data, setData, isLoaded];
+}
@@ -1,22 +1,41 @@
-import { useEffect, useRef, useCallback } from 'react';
+import { useEffect, useRef, useCallback, useState } from 'react';
 import {
   getSyncUrl,
   syncDirtyFiles,
+  pullChangedFiles,
+  subscribeToServerEvents,
   hasDirtyFiles,
   markFileDirty,
   markMonthDirty,
   getDirtyFiles,
 } from '../utils/sync';
+import { getOutboxEntries, OUTBOX_FLUSH_MESSAGE } from '../utils/outbox';
 import type { AppData } from '../types';
 
 const DEBOUNCE_MS = 2000; // Wait 2 seconds after last change before saving
+const PULL_INTERVAL_MS = 30000; // Check the server for other devices' changes every 30 seconds
+const REMOTE_UPDATE_NOTICE_MS = 5000; // How long the "updated by another device" notice stays up
 
 // Re-export for convenience
 export { hasDirtyFiles, getDirtyFiles, markFileDirty, markMonthDirty };
 
-export function useAutoSync(data: AppData, enabled: boolean = true) {
+export function useAutoSync(
+  data: AppData,
+  enabled: boolean = true,
+  onRemoteData?: (remote: Partial<AppData>) => void
+) {
   const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const isSavingRef = useRef(false);
+  const isPullingRef = useRef(false);
+  const pullAgainRef = useRef(false);
+  const noticeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [remoteUpdate, setRemoteUpdate] = useState<{ files: string[]; at: string } | null>(null);
+  // When the outbox next wants to retry a failed push (epoch ms)
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const dataRef = useRef(data);
+  const onRemoteDataRef = useRef(onRemoteData);
+  // Set when pulled data is merged in, so the next change check doesn't mark it dirty again
+  const skipDirtyCheckRef = useRef(false);
 
   // Track previous data to detect changes
   const prevWorkersRef = useRef<string>('');
@@ -26,14 +45,19 @@ export function useAutoSync(data: AppData, enabled: boolean = true) {
   const prevExpenseCategoriesRef = useRef<string>('');
   const prevExpensesRef = useRef<string>('');
   const prevPaymentsRef = useRef<string>('');
+  const prevWorkerLedgerRef = useRef<string>('');
+  const prevAttendanceCodesRef = useRef<string>('');
+  const prevUsersRef = useRef<string>('');
+  const prevContractorsRef = useRef<string>('');
   const prevMonthsRef = useRef<{ [key: string]: string }>({});
 
-  const saveToServer = useCallback(async (dataToSave: AppData) => {
+  // `force` ignores the outbox's retry backoff (manual save, back online)
+  const saveToServer = useCallback(async (dataToSave: AppData, force: boolean = false) => {
     const syncUrl = getSyncUrl();
     if (!syncUrl || isSavingRef.current) return;
 
-    // Check if there are dirty files to sync
-    if (!hasDirtyFiles()) {
+    // Check if there are dirty files or queued payloads to sync
+    if (!hasDirtyFiles() && (await getOutboxEntries()).length === 0) {
       console.log('[AutoSync] No dirty files to sync');
       return;
     }
@@ -42,13 +66,14 @@ export function useAutoSync(data: AppData, enabled: boolean = true) {
     try {
       const result = await syncDirtyFiles(dataToSave, {
         onProgress: (msg) => console.log('[AutoSync]', msg),
-      });
+      }, { force });
 
       if (result.success) {
         console.log('[AutoSync] Synced files:', result.syncedFiles);
       } else {
         console.error('[AutoSync] Failed files:', result.failedFiles);
       }
+      setRetryAt(result.nextRetryAt);
     } catch (error) {
       console.error('[AutoSync] Error:', error);
     } finally {
@@ -56,6 +81,48 @@ export function useAutoSync(data: AppData, enabled: boolean = true) {
     }
   }, []);
 
+  // Pull files other devices changed (per /api/manifest) and merge them in.
+  // Dirty files are pushed first so the pull brings back the server's merged copy.
+  // `only` limits the pull to the files named in a server change event.
+  const pullFromServer = useCallback(async (only?: string[]): Promise<string[]> => {
+    const syncUrl = getSyncUrl();
+    if (!syncUrl || !onRemoteDataRef.current) return [];
+    if (isPullingRef.current || isSavingRef.current) {
+      // Don't drop a change that arrives mid-pull; check everything once this one finishes
+      pullAgainRef.current = true;
+      return [];
+    }
+
+    isPullingRef.current = true;
+    let pulled: string[] = [];
+    try {
+      await saveToServer(dataRef.current);
+
+      const { data: remote, pulledFiles } = await pullChangedFiles(only);
+      if (pulledFiles.length > 0) {
+        console.log('[AutoSync] Pulled files:', pulledFiles);
+        skipDirtyCheckRef.current = true;
+        onRemoteDataRef.current?.(remote);
+      }
+      pulled = pulledFiles;
+    } catch (error) {
+      console.error('[AutoSync] Pull error:', error);
+    } finally {
+      isPullingRef.current = false;
+    }
+
+    if (pullAgainRef.current) {
+      pullAgainRef.current = false;
+      pulled = [...pulled, ...(await pullFromServer())];
+    }
+    return pulled;
+  }, [saveToServer]);
+
+  useEffect(() => {
+    dataRef.current = data;
+    onRemoteDataRef.current = onRemoteData;
+  }, [data, onRemoteData]);
+
   useEffect(() => {
     if (!enabled) return;
 
@@ -70,6 +137,31 @@ export function useAutoSync(data: AppData, enabled: boolean = true) {
     const expenseCategoriesStr = JSON.stringify(data.expenseCategories || []);
     const expensesStr = JSON.stringify(data.expenses || []);
     const paymentsStr = JSON.stringify(data.payments || []);
+    const workerLedgerStr = JSON.stringify(data.workerLedger || []);
+    const attendanceCodesStr = JSON.stringify(data.attendanceCodes || []);
+    const usersStr = JSON.stringify(data.users || []);
+    const contractorsStr = JSON.stringify(data.contractors || []);
+
+    // Data just merged from the server is already there - remember it without marking dirty.
+    // Files with unsynced local edits were dirty before the pull and stay dirty.
+    if (skipDirtyCheckRef.current) {
+      skipDirtyCheckRef.current = false;
+      prevWorkersRef.current = workersStr;
+      prevAreasRef.current = areasStr;
+      prevActivitiesRef.current = activitiesStr;
+      prevGroupsRef.current = groupsStr;
+      prevExpenseCategoriesRef.current = expenseCategoriesStr;
+      prevExpensesRef.current = expensesStr;
+      prevPaymentsRef.current = paymentsStr;
+      prevWorkerLedgerRef.current = workerLedgerStr;
+      prevAttendanceCodesRef.current = attendanceCodesStr;
+      prevUsersRef.current = usersStr;
+      prevContractorsRef.current = contractorsStr;
+      for (const month of data.months) {
+        if (month.month) prevMonthsRef.current[month.month] = JSON.stringify(month);
+      }
+      return;
+    }
 
     let hasChanges = false;
 
@@ -122,6 +214,36 @@ export function useAutoSync(data: AppData, enabled: boolean = true) {
     }
     prevPaymentsRef.current = paymentsStr;
 
+    // Check worker ledger
+    if (workerLedgerStr !== prevWorkerLedgerRef.current && prevWorkerLedgerRef.current !== '') {
+      markFileDirty('workerLedger');
+      hasChanges = true;
+    }
+    prevWorkerLedgerRef.current = workerLedgerStr;
+
+    // Check attendance codes
+    if (attendanceCodesStr !== prevAttendanceCodesRef.current && prevAttendanceCodesRef.current !== '') {
+      markFileDirty('attendanceCodes');
+      hasChanges = true;
+    }
+    prevAttendanceCodesRef.current = attendanceCodesStr;
+
+    // The audit log isn't compared: withAuditLog marks it dirty as it adds entries
+
+    // Check user profiles
+    if (usersStr !== prevUsersRef.current && prevUsersRef.current !== '') {
+      markFileDirty('users');
+      hasChanges = true;
+    }
+    prevUsersRef.current = usersStr;
+
+    // Check contractors
+    if (contractorsStr !== prevContractorsRef.current && prevContractorsRef.current !== '') {
+      markFileDirty('contractors');
+      hasChanges = true;
+    }
+    prevContractorsRef.current = contractorsStr;
+
     // Check each month
     for (const month of data.months) {
       if (!month.month) continue;
@@ -159,18 +281,27 @@ export function useAutoSync(data: AppData, enabled: boolean = true) {
     if (timeoutRef.current) {
       clearTimeout(timeoutRef.current);
     }
-    saveToServer(data);
+    saveToServer(data, true);
   }, [data, saveToServer]);
 
+  // Retry failed pushes when the outbox's backoff runs out
+  useEffect(() => {
+    if (!enabled || retryAt === null) return;
+
+    const timer = setTimeout(() => {
+      saveToServer(dataRef.current);
+    }, Math.max(0, retryAt - Date.now()));
+
+    return () => clearTimeout(timer);
+  }, [enabled, retryAt, saveToServer]);
+
   // Listen for online events to sync when back online
   useEffect(() => {
     if (!enabled) return;
 
     const handleOnline = () => {
       console.log('[AutoSync] Back online, syncing dirty files...');
-      if (hasDirtyFiles()) {
-        saveToServer(data);
-      }
+      saveToServer(data, true);
     };
 
     // Listen to both native 'online' event and custom 'app-online' event
@@ -183,8 +314,74 @@ export function useAutoSync(data: AppData, enabled: boolean = true) {
     };
   }, [enabled, data, saveToServer]);
 
+  // The service worker's Background Sync hands the push to the app while it is open
+  useEffect(() => {
+    if (!enabled || !('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== OUTBOX_FLUSH_MESSAGE) return;
+      console.log('[AutoSync] Background sync, syncing dirty files...');
+      saveToServer(dataRef.current, true);
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [enabled, saveToServer]);
+
+  // Pull other devices' changes on start, periodically, and when the app regains focus
+  const canPull = !!onRemoteData;
+  useEffect(() => {
+    if (!enabled || !canPull) return;
+
+    const handlePull = () => {
+      pullFromServer();
+    };
+
+    const handleVisible = () => {
+      if (document.visibilityState === 'visible') {
+        pullFromServer();
+      }
+    };
+
+    pullFromServer();
+    const interval = setInterval(handleVisible, PULL_INTERVAL_MS);
+    window.addEventListener('focus', handlePull);
+    window.addEventListener('online', handlePull);
+    document.addEventListener('visibilitychange', handleVisible);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', handlePull);
+      window.removeEventListener('online', handlePull);
+      document.removeEventListener('visibilitychange', handleVisible);
+    };
+  }, [enabled, canPull, pullFromServer]);
+
+  // Live updates: the server announces each changed file, and we pull just that slice
+  useEffect(() => {
+    if (!enabled || !canPull) return;
+
+    const unsubscribe = subscribeToServerEvents(async (event) => {
+      const pulledFiles = await pullFromServer(event.file === '*' ? undefined : [event.file]);
+      if (pulledFiles.length > 0) {
+        setRemoteUpdate({ files: pulledFiles, at: event.timestamp });
+        if (noticeTimeoutRef.current) {
+          clearTimeout(noticeTimeoutRef.current);
+        }
+        noticeTimeoutRef.current = setTimeout(() => setRemoteUpdate(null), REMOTE_UPDATE_NOTICE_MS);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (noticeTimeoutRef.current) {
+        clearTimeout(noticeTimeoutRef.current);
+      }
+    };
+  }, [enabled, canPull, pullFromServer]);
+
   // Track online status
   const isOnline = typeof navigator !== 'undefined' ? navigator.onLine : true;
 
-  return { forceSave, hasDirtyFiles, isOnline };
+  return { forceSave, pullFromServer, remoteUpdate, hasDirtyFiles, isOnline };
 }
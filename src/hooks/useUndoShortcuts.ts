@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+import { useApp } from '../context/AppContext';
+
+// Ctrl/Cmd+Z undoes, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes.
+// Text fields keep their own undo, so shortcuts typed there are left alone.
+export function useUndoShortcuts() {
+  const { undo, redo } = useApp();
+  const actionsRef = useRef({ undo, redo });
+
+  useEffect(() => {
+    actionsRef.current = { undo, redo };
+  }, [undo, redo]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey) return;
+
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        actionsRef.current.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        actionsRef.current.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+}
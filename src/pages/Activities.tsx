@@ -5,9 +5,12 @@ import PageHeader from '../components/layout/PageHeader';
 import Button from '../components/ui/Button';
 import Modal from '../components/ui/Modal';
 import Input from '../components/ui/Input';
-import type { Activity } from '../types';
+import Select from '../components/ui/Select';
+import type { Activity, ActivityWageType } from '../types';
+import { formatCurrency } from '../utils/calculations';
 import { Plus, Pencil, Trash2, Search, Wand2 } from 'lucide-react';
 import { transliterateToMarathi, generateMarathiCode } from '../utils/transliteration';
+import { findDuplicateCode } from '../utils/references';
 
 const Activities: React.FC = () => {
   const { data, settings, addActivity, updateActivity, deleteActivity } = useApp();
@@ -25,6 +28,10 @@ const Activities: React.FC = () => {
     name: '',
     marathiName: '',
     category: '',
+    wageType: 'daily' as ActivityWageType,
+    unit: '',
+    marathiUnit: '',
+    pieceRate: '',
   });
 
   // Get display name based on language
@@ -35,6 +42,11 @@ const Activities: React.FC = () => {
     return activity.name;
   };
 
+  const getUnitName = (activity: Activity) => {
+    if (isMarathi && activity.marathiUnit) return activity.marathiUnit;
+    return activity.unit || (isMarathi ? 'नग' : 'unit');
+  };
+
   const filteredActivities = data.activities.filter(activity => {
     // Exclude soft-deleted activities
     if (activity.deleted) return false;
@@ -48,7 +60,7 @@ const Activities: React.FC = () => {
 
   const openAddModal = () => {
     setEditingActivity(null);
-    setFormData({ code: '', marathiCode: '', name: '', marathiName: '', category: '' });
+    setFormData({ code: '', marathiCode: '', name: '', marathiName: '', category: '', wageType: 'daily', unit: '', marathiUnit: '', pieceRate: '' });
     setIsModalOpen(true);
   };
 
@@ -60,6 +72,10 @@ const Activities: React.FC = () => {
       name: activity.name,
       marathiName: activity.marathiName || '',
       category: activity.category || '',
+      wageType: activity.wageType || 'daily',
+      unit: activity.unit || '',
+      marathiUnit: activity.marathiUnit || '',
+      pieceRate: activity.pieceRate ? String(activity.pieceRate) : '',
     });
     setIsModalOpen(true);
   };
@@ -78,14 +94,33 @@ const Activities: React.FC = () => {
     }
   };
 
+  // Codes are display labels (days reference the activity by id) but must stay unique
+  const codeTakenBy = findDuplicateCode(data.activities, formData.code, undefined, editingActivity?.id);
+  const marathiCodeTakenBy = findDuplicateCode(data.activities, '', formData.marathiCode, editingActivity?.id);
+  const getTakenMessage = (item: { name: string; marathiName?: string }) =>
+    isMarathi ? `${item.marathiName || item.name} साठी वापरला आहे` : `Already used by ${item.name}`;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.code.trim() || !formData.name.trim()) return;
+    if (!formData.code.trim() || !formData.name.trim() || codeTakenBy || marathiCodeTakenBy) return;
+
+    const isPiece = formData.wageType === 'piece';
+    const activity = {
+      code: formData.code,
+      marathiCode: formData.marathiCode,
+      name: formData.name,
+      marathiName: formData.marathiName,
+      category: formData.category,
+      wageType: formData.wageType,
+      unit: isPiece ? formData.unit.trim() || undefined : undefined,
+      marathiUnit: isPiece ? formData.marathiUnit.trim() || undefined : undefined,
+      pieceRate: isPiece ? parseFloat(formData.pieceRate) || 0 : undefined,
+    };
 
     if (editingActivity) {
-      updateActivity(editingActivity.id, formData);
+      updateActivity(editingActivity.id, activity);
     } else {
-      addActivity(formData);
+      addActivity(activity);
     }
     setIsModalOpen(false);
   };
@@ -152,6 +187,11 @@ const Activities: React.FC = () => {
                     {!isMarathi && activity.marathiName && (
                       <div className="text-xs text-slate-400">{activity.marathiName}</div>
                     )}
+                    {activity.wageType === 'piece' && (
+                      <div className="text-xs text-amber-700">
+                        {isMarathi ? 'नगावर' : 'Piece rate'}: {formatCurrency(activity.pieceRate || 0)} / {getUnitName(activity)}
+                      </div>
+                    )}
                   </td>
                   <td className="py-3 px-4">
                     {activity.category && (
@@ -200,6 +240,7 @@ const Activities: React.FC = () => {
               label={t('code') + ' (EN)'}
               value={formData.code}
               onChange={e => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+              error={codeTakenBy ? getTakenMessage(codeTakenBy) : undefined}
               placeholder="e.g., WD"
               required
             />
@@ -221,10 +262,18 @@ const Activities: React.FC = () => {
                 onChange={e => setFormData({ ...formData, marathiCode: e.target.value })}
                 placeholder="e.g., नि"
                 lang="mr"
-                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500"
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500 ${marathiCodeTakenBy ? 'border-red-500' : 'border-slate-300'}`}
               />
+              {marathiCodeTakenBy && <p className="mt-1 text-sm text-red-600">{getTakenMessage(marathiCodeTakenBy)}</p>}
             </div>
           </div>
+          {editingActivity && (
+            <p className="text-xs text-slate-500 -mt-2">
+              {isMarathi
+                ? 'कोड बदलल्यास जुनी हजेरी याच नोंदीशी जोडलेली राहते.'
+                : 'Changing a code keeps past attendance linked to this entry.'}
+            </p>
+          )}
           <Input
             label={t('name') + ' (English)'}
             value={formData.name}
@@ -265,11 +314,47 @@ const Activities: React.FC = () => {
               <option key={cat} value={cat} />
             ))}
           </datalist>
+          <Select
+            label={isMarathi ? 'मजुरी प्रकार' : 'Wage type'}
+            value={formData.wageType}
+            onChange={e => setFormData({ ...formData, wageType: e.target.value as ActivityWageType })}
+            options={[
+              { value: 'daily', label: isMarathi ? 'रोजंदारी' : 'Daily wage' },
+              { value: 'piece', label: isMarathi ? 'नगावर (उत्पादनानुसार)' : 'Piece rate (by output)' },
+            ]}
+          />
+          {formData.wageType === 'piece' && (
+            <div className="grid grid-cols-3 gap-3">
+              <Input
+                label={isMarathi ? 'एकक' : 'Unit'}
+                value={formData.unit}
+                onChange={e => setFormData({ ...formData, unit: e.target.value })}
+                placeholder="e.g., kg"
+                required
+              />
+              <Input
+                label={isMarathi ? 'एकक (मराठी)' : 'Unit (MR)'}
+                value={formData.marathiUnit}
+                onChange={e => setFormData({ ...formData, marathiUnit: e.target.value })}
+                placeholder="e.g., किलो"
+                lang="mr"
+              />
+              <Input
+                label={isMarathi ? 'दर / एकक' : 'Rate / unit'}
+                type="number"
+                min="0"
+                step="0.01"
+                value={formData.pieceRate}
+                onChange={e => setFormData({ ...formData, pieceRate: e.target.value })}
+                required
+              />
+            </div>
+          )}
           <div className="flex gap-3 pt-4">
             <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)} className="flex-1">
               {t('cancel')}
             </Button>
-            <Button type="submit" className="flex-1">
+            <Button type="submit" className="flex-1" disabled={!!codeTakenBy || !!marathiCodeTakenBy}>
               {t('save')}
             </Button>
           </div>
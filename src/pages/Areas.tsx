@@ -9,6 +9,7 @@ import Select from '../components/ui/Select';
 import type { Area } from '../types';
 import { Plus, Pencil, Trash2, Search, Wand2 } from 'lucide-react';
 import { transliterateToMarathi, transliterateNumbers } from '../utils/transliteration';
+import { findDuplicateCode } from '../utils/references';
 
 const Areas: React.FC = () => {
   const { data, settings, addArea, updateArea, deleteArea, getGroupById } = useApp();
@@ -82,9 +83,15 @@ const Areas: React.FC = () => {
     }
   };
 
+  // Codes are display labels (days reference the area by id) but must stay unique
+  const codeTakenBy = findDuplicateCode(data.areas, formData.code, undefined, editingArea?.id);
+  const marathiCodeTakenBy = findDuplicateCode(data.areas, '', formData.marathiCode, editingArea?.id);
+  const getTakenMessage = (item: { name: string; marathiName?: string }) =>
+    isMarathi ? `${item.marathiName || item.name} साठी वापरला आहे` : `Already used by ${item.name}`;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.code.trim() || !formData.name.trim()) return;
+    if (!formData.code.trim() || !formData.name.trim() || codeTakenBy || marathiCodeTakenBy) return;
 
     // Convert empty groupId to undefined
     const areaData = {
@@ -211,6 +218,7 @@ const Areas: React.FC = () => {
               label={t('code') + ' (EN)'}
               value={formData.code}
               onChange={e => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+              error={codeTakenBy ? getTakenMessage(codeTakenBy) : undefined}
               placeholder="e.g., A1"
               required
             />
@@ -232,10 +240,18 @@ const Areas: React.FC = () => {
                 onChange={e => setFormData({ ...formData, marathiCode: e.target.value })}
                 placeholder="e.g., अ१"
                 lang="mr"
-                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500"
+                className={`w-full px-3 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500 ${marathiCodeTakenBy ? 'border-red-500' : 'border-slate-300'}`}
               />
+              {marathiCodeTakenBy && <p className="mt-1 text-sm text-red-600">{getTakenMessage(marathiCodeTakenBy)}</p>}
             </div>
           </div>
+          {editingArea && (
+            <p className="text-xs text-slate-500 -mt-2">
+              {isMarathi
+                ? 'कोड बदलल्यास जुनी हजेरी याच नोंदीशी जोडलेली राहते.'
+                : 'Changing a code keeps past attendance linked to this entry.'}
+            </p>
+          )}
           <Input
             label={t('name') + ' (English)'}
             value={formData.name}
@@ -286,7 +302,7 @@ const Areas: React.FC = () => {
             <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)} className="flex-1">
               {t('cancel')}
             </Button>
-            <Button type="submit" className="flex-1">
+            <Button type="submit" className="flex-1" disabled={!!codeTakenBy || !!marathiCodeTakenBy}>
               {t('save')}
             </Button>
           </div>
@@ -6,9 +6,17 @@ import Button from '../components/ui/Button';
 import Select from '../components/ui/Select';
 import Modal from '../components/ui/Modal';
 import { format, parseISO } from 'date-fns';
-import { getDaysArrayForMonth, formatCurrency, formatMonthYear } from '../utils/calculations';
+import { getDaysArrayForMonth, formatCurrency, formatMonthYear, getWorkerRateOnDate } from '../utils/calculations';
+import {
+  attendanceColorClasses,
+  findAttendanceCode,
+  getStatusDayValue,
+  getStatusPayFactor,
+  getNextAttendanceStatus,
+  formatStatusCounts,
+} from '../utils/attendanceCodes';
 import { ChevronLeft, ChevronRight, Users } from 'lucide-react';
-import type { MonthActivityGroup, AttendanceStatus } from '../types';
+import type { MonthActivityGroup, AttendanceStatus, StatusCounts } from '../types';
 
 const Attendance: React.FC = () => {
   const {
@@ -143,8 +151,8 @@ const Attendance: React.FC = () => {
     const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
     const dayEntry = group.days.find(d => d.date === dateStr);
     return {
-      activityCode: dayEntry?.activityCode || '',
-      areaCode: dayEntry?.areaCode || '',
+      activityId: dayEntry?.activityId || '',
+      areaId: dayEntry?.areaId || '',
     };
   };
 
@@ -157,69 +165,46 @@ const Attendance: React.FC = () => {
     const currentTotal = getWorkerDayTotal(currentMonth, dateStr, workerId);
 
     // Calculate what this worker has in OTHER groups
-    const otherGroupsTotal = currentTotal - (current === 'P' ? 1 : current === 'H' ? 0.5 : 0);
-
-    let next: AttendanceStatus = '';
-    switch (current) {
-      case '':
-        // Can add P only if no other attendance, else H if <= 0.5 remaining
-        if (otherGroupsTotal === 0) next = 'P';
-        else if (otherGroupsTotal <= 0.5) next = 'H';
-        else next = 'A';
-        break;
-      case 'P':
-        next = 'A';
-        break;
-      case 'A':
-        // Can add H only if <= 0.5 total in other groups
-        if (otherGroupsTotal <= 0.5) next = 'H';
-        else next = '';
-        break;
-      case 'H':
-        next = '';
-        break;
-    }
+    const otherGroupsTotal = currentTotal - getStatusDayValue(data.attendanceCodes, current);
+
+    // Cycle through active codes, skipping any that would exceed a full day
+    const next = getNextAttendanceStatus(data.attendanceCodes, current, otherGroupsTotal);
 
     updateGroupAttendance(currentMonth, groupId, dateStr, workerId, next);
   };
 
   // Calculate totals for a worker in a group
   const calculateWorkerGroupTotal = (group: MonthActivityGroup, workerId: string) => {
-    let daysWorked = 0;
-    let halfDays = 0;
+    const statusCounts: StatusCounts = {};
+    let totalDays = 0;
+    let total = 0;
+
+    const worker = data.workers.find(w => w.id === workerId);
 
     days.forEach(day => {
       const status = getAttendanceStatus(group, workerId, day);
-      if (status === 'P') daysWorked++;
-      if (status === 'H') halfDays++;
+      const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
+      const rate = worker ? getWorkerRateOnDate(worker, dateStr) : 0;
+      if (status) statusCounts[status] = (statusCounts[status] || 0) + 1;
+      totalDays += getStatusDayValue(data.attendanceCodes, status);
+      total += rate * getStatusPayFactor(data.attendanceCodes, status);
     });
 
-    const worker = data.workers.find(w => w.id === workerId);
-    const rate = worker?.dailyRate || 0;
-    const total = (daysWorked * rate) + (halfDays * rate * 0.5);
-
-    return { daysWorked, halfDays, total };
+    return { totalDays, summary: formatStatusCounts(data.attendanceCodes, statusCounts), total };
   };
 
   // Calculate grand total across all groups
-  const grandTotal = useMemo(() => {
-    let total = 0;
-    for (const group of groups) {
-      const groupWorkers = getGroupWorkers(group);
-      for (const worker of groupWorkers) {
-        total += calculateWorkerGroupTotal(group, worker.id).total;
-      }
+  let grandTotal = 0;
+  for (const group of groups) {
+    for (const worker of getGroupWorkers(group)) {
+      grandTotal += calculateWorkerGroupTotal(group, worker.id).total;
     }
-    return total;
-  }, [groups, monthWorkers, currentMonth]);
+  }
 
   const getStatusClass = (status: string) => {
-    switch (status) {
-      case 'P': return 'bg-green-100 text-green-700 hover:bg-green-200';
-      case 'A': return 'bg-red-100 text-red-700 hover:bg-red-200';
-      case 'H': return 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200';
-      default: return 'bg-slate-50 text-slate-400 hover:bg-slate-100';
-    }
+    const code = findAttendanceCode(data.attendanceCodes, status);
+    if (!code) return 'bg-slate-50 text-slate-400 hover:bg-slate-100';
+    return attendanceColorClasses[code.color].cell;
   };
 
   // Check if worker has exceeded daily limit
@@ -289,46 +274,46 @@ const Attendance: React.FC = () => {
     setEditingGroupForWorkers(null);
   };
 
-  const handleActivityChange = (groupId: string, day: number, activityCode: string) => {
+  const handleActivityChange = (groupId: string, day: number, activityId: string) => {
     const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
     const group = groups.find(g => g.id === groupId);
-    const { areaCode } = getGroupDayActivity(group!, day);
-    updateGroupDayActivity(currentMonth, groupId, dateStr, activityCode || undefined, areaCode || undefined);
+    const { areaId } = getGroupDayActivity(group!, day);
+    updateGroupDayActivity(currentMonth, groupId, dateStr, activityId || undefined, areaId || undefined);
   };
 
-  const handleAreaChange = (groupId: string, day: number, areaCode: string) => {
+  const handleAreaChange = (groupId: string, day: number, areaId: string) => {
     const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
     const group = groups.find(g => g.id === groupId);
-    const { activityCode } = getGroupDayActivity(group!, day);
-    updateGroupDayActivity(currentMonth, groupId, dateStr, activityCode || undefined, areaCode || undefined);
+    const { activityId } = getGroupDayActivity(group!, day);
+    updateGroupDayActivity(currentMonth, groupId, dateStr, activityId || undefined, areaId || undefined);
   };
 
   // Get short display name for activity (code in English, marathiCode in Marathi)
-  const getActivityShortName = (code: string): string => {
-    if (!code) return '';
-    const activity = data.activities.find(a => a.code === code);
-    if (!activity) return code;
+  const getActivityShortName = (id: string): string => {
+    if (!id) return '';
+    const activity = data.activities.find(a => a.id === id);
+    if (!activity) return '';
     if (isMarathi && activity.marathiCode) {
       return activity.marathiCode;
     }
-    return code;
+    return activity.code;
   };
 
   // Get short display name for area (code in English, marathiCode in Marathi)
-  const getAreaShortName = (code: string): string => {
-    if (!code) return '';
-    const area = data.areas.find(a => a.code === code);
-    if (!area) return code;
+  const getAreaShortName = (id: string): string => {
+    if (!id) return '';
+    const area = data.areas.find(a => a.id === id);
+    if (!area) return '';
     if (isMarathi && area.marathiCode) {
       return area.marathiCode;
     }
-    return code;
+    return area.code;
   };
 
   const getActivityOptions = () => [
     { value: '', label: isMarathi ? '-- कार्य निवडा --' : '-- Select Activity --' },
     ...data.activities.map(a => ({
-      value: a.code,
+      value: a.id,
       label: isMarathi && a.marathiName ? a.marathiName : `${a.code} - ${a.name}`,
     })),
   ];
@@ -343,7 +328,7 @@ const Attendance: React.FC = () => {
     return [
       { value: '', label: isMarathi ? '-- क्षेत्र निवडा --' : '-- Select Area --' },
       ...filteredAreas.map(a => ({
-        value: a.code,
+        value: a.id,
         label: isMarathi && a.marathiName ? a.marathiName : `${a.code} - ${a.name}`,
       })),
     ];
@@ -430,19 +415,19 @@ const Attendance: React.FC = () => {
                         <div className="text-xs">{isMarathi ? 'क्षेत्र' : 'Area'}</div>
                       </th>
                       {days.map(day => {
-                        const { activityCode, areaCode } = getGroupDayActivity(group, day);
-                        const activityDisplay = getActivityShortName(activityCode);
-                        const areaDisplay = getAreaShortName(areaCode);
+                        const { activityId, areaId } = getGroupDayActivity(group, day);
+                        const activityDisplay = getActivityShortName(activityId);
+                        const areaDisplay = getAreaShortName(areaId);
                         return (
                           <th key={day} className="py-1 px-0.5 text-center min-w-[28px] sm:min-w-[36px]">
                             <div className="flex flex-col gap-0.5">
                               {/* Activity selector - shows short name, dropdown has full names */}
                               <div className="relative">
-                                <div className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded cursor-pointer hover:bg-graminno-100 ${activityCode ? 'text-graminno-700 bg-graminno-50' : 'text-slate-400'}`}>
+                                <div className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded cursor-pointer hover:bg-graminno-100 ${activityId ? 'text-graminno-700 bg-graminno-50' : 'text-slate-400'}`}>
                                   {activityDisplay || '·'}
                                 </div>
                                 <select
-                                  value={activityCode}
+                                  value={activityId}
                                   onChange={e => handleActivityChange(group.id, day, e.target.value)}
                                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                                   title={isMarathi ? 'कार्य निवडा' : 'Select Activity'}
@@ -454,11 +439,11 @@ const Attendance: React.FC = () => {
                               </div>
                               {/* Area selector - shows short name, dropdown has full names (filtered by group) */}
                               <div className="relative">
-                                <div className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded cursor-pointer hover:bg-amber-100 ${areaCode ? 'text-amber-700 bg-amber-50' : 'text-slate-400'}`}>
+                                <div className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded cursor-pointer hover:bg-amber-100 ${areaId ? 'text-amber-700 bg-amber-50' : 'text-slate-400'}`}>
                                   {areaDisplay || '·'}
                                 </div>
                                 <select
-                                  value={areaCode}
+                                  value={areaId}
                                   onChange={e => handleAreaChange(group.id, day, e.target.value)}
                                   className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                                   title={isMarathi ? 'क्षेत्र निवडा' : 'Select Area'}
@@ -507,11 +492,11 @@ const Attendance: React.FC = () => {
                                 </td>
                               );
                             })}
-                            <td className="py-1.5 px-1 sm:px-2 text-center font-medium text-slate-700 text-xs sm:text-sm">
-                              {totals.daysWorked}
-                              {totals.halfDays > 0 && (
-                                <span className="text-[10px] sm:text-xs text-slate-500">+{totals.halfDays}H</span>
-                              )}
+                            <td
+                              className="py-1.5 px-1 sm:px-2 text-center font-medium text-slate-700 text-xs sm:text-sm"
+                              title={totals.summary}
+                            >
+                              {totals.totalDays}
                             </td>
                             <td className="py-1.5 px-1 sm:px-2 text-center font-medium text-slate-800 text-xs sm:text-sm whitespace-nowrap">
                               {formatCurrency(totals.total)}
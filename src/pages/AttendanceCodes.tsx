@@ -0,0 +1,360 @@
+import React, { useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { useTranslation } from '../data/translations';
+import PageHeader from '../components/layout/PageHeader';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import Select from '../components/ui/Select';
+import type { AttendanceCode, AttendanceCodeColor } from '../types';
+import { Plus, Pencil, Trash2, X, Check, ChevronUp, ChevronDown } from 'lucide-react';
+import { attendanceColorClasses, attendanceColors } from '../utils/attendanceCodes';
+
+const AttendanceCodes: React.FC = () => {
+  const { data, settings, addAttendanceCode, updateAttendanceCode, deleteAttendanceCode, reorderAttendanceCode } = useApp();
+  const t = useTranslation(settings.language);
+  const isMarathi = settings.language === 'mr';
+
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState({
+    code: '',
+    label: '',
+    marathiLabel: '',
+    color: 'green' as AttendanceCodeColor,
+    dayValue: '1',
+    paid: true,
+    status: 'active' as 'active' | 'inactive',
+  });
+
+  const getDisplayLabel = (code: AttendanceCode) => {
+    if (isMarathi && code.marathiLabel) {
+      return code.marathiLabel;
+    }
+    return code.label;
+  };
+
+  // Filter out soft-deleted codes, in cycle order
+  const codes = (data.attendanceCodes || [])
+    .filter(c => !c.deleted)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+  const canMoveUp = (code: AttendanceCode) => {
+    const index = codes.findIndex(c => c.id === code.id);
+    return index > 0;
+  };
+
+  const canMoveDown = (code: AttendanceCode) => {
+    const index = codes.findIndex(c => c.id === code.id);
+    return index < codes.length - 1;
+  };
+
+  const resetForm = () => {
+    setFormData({ code: '', label: '', marathiLabel: '', color: 'green', dayValue: '1', paid: true, status: 'active' });
+  };
+
+  const openAddForm = () => {
+    setEditingId(null);
+    resetForm();
+    setShowAddForm(true);
+  };
+
+  const startEdit = (code: AttendanceCode) => {
+    setShowAddForm(false);
+    setEditingId(code.id);
+    setFormData({
+      code: code.code,
+      label: code.label,
+      marathiLabel: code.marathiLabel || '',
+      color: code.color,
+      dayValue: String(code.dayValue),
+      paid: code.paid,
+      status: code.status,
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setShowAddForm(false);
+    resetForm();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = formData.code.trim().toUpperCase();
+    const dayValue = parseFloat(formData.dayValue);
+    if (!code || !formData.label.trim() || isNaN(dayValue) || dayValue < 0) return;
+
+    // Codes are stored in attendance cells, so they must stay unique
+    if (codes.some(c => c.code === code && c.id !== editingId)) {
+      alert(isMarathi ? `कोड "${code}" आधीच वापरात आहे` : `Code "${code}" is already in use`);
+      return;
+    }
+
+    const codeData = {
+      code,
+      label: formData.label.trim(),
+      marathiLabel: formData.marathiLabel.trim() || undefined,
+      color: formData.color,
+      dayValue,
+      paid: formData.paid,
+      status: formData.status,
+    };
+
+    if (editingId) {
+      updateAttendanceCode(editingId, codeData);
+      setEditingId(null);
+    } else {
+      addAttendanceCode(codeData);
+      setShowAddForm(false);
+    }
+    resetForm();
+  };
+
+  const handleDelete = (code: AttendanceCode) => {
+    if (confirm(`${t('confirmDelete')} "${code.code} - ${getDisplayLabel(code)}"?`)) {
+      deleteAttendanceCode(code.id);
+    }
+  };
+
+  const renderForm = (isEditing: boolean = false) => (
+    <form onSubmit={handleSubmit} className="bg-graminno-50 border border-graminno-200 rounded-lg p-4 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-graminno-800">
+          {isEditing ? (isMarathi ? 'संपादन' : 'Edit Code') : (isMarathi ? 'नवीन कोड' : 'New Code')}
+        </h3>
+        <button type="button" onClick={cancelEdit} className="text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 mb-3">
+        <Input
+          label={isMarathi ? 'कोड' : 'Code'}
+          value={formData.code}
+          onChange={e => setFormData({ ...formData, code: e.target.value.toUpperCase() })}
+          placeholder="OT"
+          maxLength={3}
+          required
+        />
+        <Input
+          label={isMarathi ? 'दिवस मूल्य' : 'Day Value'}
+          type="number"
+          step="0.25"
+          min="0"
+          value={formData.dayValue}
+          onChange={e => setFormData({ ...formData, dayValue: e.target.value })}
+          required
+        />
+        <Select
+          label={isMarathi ? 'रंग' : 'Colour'}
+          value={formData.color}
+          onChange={e => setFormData({ ...formData, color: e.target.value as AttendanceCodeColor })}
+          options={attendanceColors.map(color => ({ value: color, label: color }))}
+        />
+        <div className="flex items-end">
+          <span
+            className={`w-full text-center py-2 rounded-lg font-medium ${attendanceColorClasses[formData.color].badge}`}
+          >
+            {formData.code || '?'}
+          </span>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+        <Input
+          label={`${t('name')} (English)`}
+          value={formData.label}
+          onChange={e => setFormData({ ...formData, label: e.target.value })}
+          placeholder="Overtime"
+          required
+        />
+        <Input
+          label={t('marathiName')}
+          value={formData.marathiLabel}
+          onChange={e => setFormData({ ...formData, marathiLabel: e.target.value })}
+          placeholder="जादा वेळ"
+          lang="mr"
+        />
+      </div>
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={formData.paid}
+            onChange={e => setFormData({ ...formData, paid: e.target.checked })}
+            className="rounded border-slate-300 text-graminno-600 focus:ring-graminno-500"
+          />
+          {isMarathi ? 'पगारी' : 'Paid'}
+        </label>
+        <Select
+          value={formData.status}
+          onChange={e => setFormData({ ...formData, status: e.target.value as 'active' | 'inactive' })}
+          options={[
+            { value: 'active', label: t('active') },
+            { value: 'inactive', label: t('inactive') },
+          ]}
+          className="w-32"
+        />
+        <div className="flex-1" />
+        <Button type="button" variant="secondary" onClick={cancelEdit} size="sm">
+          {t('cancel')}
+        </Button>
+        <Button type="submit" size="sm">
+          <Check size={16} />
+          {t('save')}
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="pb-20 lg:pb-0">
+      <PageHeader
+        title={isMarathi ? 'हजेरी कोड' : 'Attendance Codes'}
+        subtitle={
+          isMarathi
+            ? 'सक्रिय कोड हजेरी तक्त्यात या क्रमाने फिरतात'
+            : 'Active codes cycle in the attendance grid in this order'
+        }
+        action={
+          !showAddForm && !editingId && (
+            <Button onClick={openAddForm}>
+              <Plus size={18} />
+              {t('add')}
+            </Button>
+          )
+        }
+      />
+
+      {/* Add Form (inline at top) */}
+      {showAddForm && renderForm(false)}
+
+      {/* Codes List */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-center py-3 px-2 font-medium text-slate-600 w-20">
+                  {isMarathi ? 'क्रम' : 'Order'}
+                </th>
+                <th className="text-left py-3 px-4 font-medium text-slate-600 w-20">
+                  {isMarathi ? 'कोड' : 'Code'}
+                </th>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{t('name')}</th>
+                <th className="text-center py-3 px-4 font-medium text-slate-600">
+                  {isMarathi ? 'दिवस मूल्य' : 'Day Value'}
+                </th>
+                <th className="text-center py-3 px-4 font-medium text-slate-600">
+                  {isMarathi ? 'पगारी' : 'Paid'}
+                </th>
+                <th className="text-center py-3 px-4 font-medium text-slate-600">{t('status')}</th>
+                <th className="text-center py-3 px-4 font-medium text-slate-600">{t('actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {codes.map(code => (
+                <React.Fragment key={code.id}>
+                  {editingId === code.id ? (
+                    <tr>
+                      <td colSpan={7} className="p-0">
+                        {renderForm(true)}
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr className="border-b border-slate-100 hover:bg-slate-50">
+                      <td className="py-3 px-2">
+                        <div className="flex items-center justify-center gap-1">
+                          <button
+                            onClick={() => reorderAttendanceCode(code.id, 'up')}
+                            disabled={!canMoveUp(code)}
+                            className={`p-1 rounded transition-colors ${
+                              canMoveUp(code)
+                                ? 'hover:bg-graminno-100 text-graminno-600'
+                                : 'text-slate-300 cursor-not-allowed'
+                            }`}
+                            title={isMarathi ? 'वर हलवा' : 'Move up'}
+                          >
+                            <ChevronUp size={18} />
+                          </button>
+                          <button
+                            onClick={() => reorderAttendanceCode(code.id, 'down')}
+                            disabled={!canMoveDown(code)}
+                            className={`p-1 rounded transition-colors ${
+                              canMoveDown(code)
+                                ? 'hover:bg-graminno-100 text-graminno-600'
+                                : 'text-slate-300 cursor-not-allowed'
+                            }`}
+                            title={isMarathi ? 'खाली हलवा' : 'Move down'}
+                          >
+                            <ChevronDown size={18} />
+                          </button>
+                        </div>
+                      </td>
+                      <td className="py-3 px-4">
+                        <span
+                          className={`inline-flex w-10 justify-center py-1 rounded font-medium text-sm ${attendanceColorClasses[code.color].badge}`}
+                        >
+                          {code.code}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="font-medium text-slate-800">{getDisplayLabel(code)}</div>
+                        {isMarathi && code.marathiLabel && (
+                          <div className="text-xs text-slate-400">{code.label}</div>
+                        )}
+                        {!isMarathi && code.marathiLabel && (
+                          <div className="text-xs text-slate-400">{code.marathiLabel}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-center text-slate-600">{code.dayValue}</td>
+                      <td className="py-3 px-4 text-center">
+                        {code.paid ? (
+                          <Check size={16} className="inline text-green-600" />
+                        ) : (
+                          <X size={16} className="inline text-slate-400" />
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-center">
+                        <span
+                          className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${
+                            code.status === 'active'
+                              ? 'bg-green-100 text-green-700'
+                              : 'bg-slate-100 text-slate-600'
+                          }`}
+                        >
+                          {t(code.status)}
+                        </span>
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center justify-center gap-2">
+                          <button
+                            onClick={() => startEdit(code)}
+                            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                          >
+                            <Pencil size={16} className="text-slate-500" />
+                          </button>
+                          <button
+                            onClick={() => handleDelete(code)}
+                            className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                          >
+                            <Trash2 size={16} className="text-red-500" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {codes.length === 0 && (
+          <div className="text-center py-12 text-slate-500">{t('noData')}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AttendanceCodes;
@@ -0,0 +1,258 @@
+import React, { useState, useMemo } from 'react';
+import { useApp } from '../context/AppContext';
+import { useTranslation } from '../data/translations';
+import PageHeader from '../components/layout/PageHeader';
+import Button from '../components/ui/Button';
+import Modal from '../components/ui/Modal';
+import Input from '../components/ui/Input';
+import type { Contractor } from '../types';
+import { calculateContractorBalances, formatCurrency } from '../utils/calculations';
+import { transliterateToMarathi } from '../utils/transliteration';
+import { Plus, Pencil, Trash2, Wand2, HardHat } from 'lucide-react';
+
+// Convert Marathi numerals to ASCII and strip non-numeric
+const toAsciiDigits = (value: string) =>
+  value.replace(/[०-९]/g, d => String('०१२३४५६७८९'.indexOf(d))).replace(/[^0-9]/g, '');
+
+/**
+ * Labour contractors who bring gangs paid by headcount, with what each is owed:
+ * gang wages from the group days less labour payments made to them
+ */
+const Contractors: React.FC = () => {
+  const { data, settings, addContractor, updateContractor, deleteContractor } = useApp();
+  const t = useTranslation(settings.language);
+  const isMarathi = settings.language === 'mr';
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingContractor, setEditingContractor] = useState<Contractor | null>(null);
+
+  // Form state - defaultRate is string to avoid input issues
+  const [formData, setFormData] = useState({
+    name: '',
+    marathiName: '',
+    phone: '',
+    defaultRate: '400',
+    notes: '',
+  });
+
+  const contractors = (data.contractors || [])
+    .filter(c => !c.deleted)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const balances = useMemo(() => calculateContractorBalances(data), [data]);
+  const getBalance = (contractorId: string) => balances.find(b => b.contractorId === contractorId);
+
+  const totals = balances.reduce((acc, b) => ({
+    wages: acc.wages + b.wages,
+    payments: acc.payments + b.payments,
+    balance: acc.balance + b.balance,
+  }), { wages: 0, payments: 0, balance: 0 });
+
+  const getDisplayName = (contractor: Contractor) =>
+    isMarathi && contractor.marathiName ? contractor.marathiName : contractor.name;
+
+  const openAddModal = () => {
+    setEditingContractor(null);
+    setFormData({ name: '', marathiName: '', phone: '', defaultRate: '400', notes: '' });
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (contractor: Contractor) => {
+    setEditingContractor(contractor);
+    setFormData({
+      name: contractor.name,
+      marathiName: contractor.marathiName || '',
+      phone: contractor.phone || '',
+      defaultRate: String(contractor.defaultRate),
+      notes: contractor.notes || '',
+    });
+    setIsModalOpen(true);
+  };
+
+  const autoTransliterateName = () => {
+    if (formData.name) {
+      setFormData({ ...formData, marathiName: transliterateToMarathi(formData.name) });
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    const contractor = {
+      name: formData.name.trim(),
+      marathiName: formData.marathiName.trim() || undefined,
+      phone: formData.phone.trim() || undefined,
+      defaultRate: Number(formData.defaultRate) || 0,
+      notes: formData.notes.trim() || undefined,
+    };
+
+    if (editingContractor) {
+      updateContractor(editingContractor.id, contractor);
+    } else {
+      addContractor(contractor);
+    }
+    setIsModalOpen(false);
+  };
+
+  const handleDelete = (contractor: Contractor) => {
+    if (confirm(`${t('confirmDelete')} "${getDisplayName(contractor)}"?`)) {
+      deleteContractor(contractor.id);
+    }
+  };
+
+  return (
+    <div className="pb-20 lg:pb-0">
+      <PageHeader
+        title={isMarathi ? 'ठेकेदार' : 'Contractors'}
+        subtitle={`${contractors.length} ${isMarathi ? 'ठेकेदार' : 'contractors'} · ${isMarathi ? 'देणे' : 'Payable'} ${formatCurrency(totals.balance)}`}
+        action={
+          <Button onClick={openAddModal}>
+            <Plus size={18} />
+            {t('add')}
+          </Button>
+        }
+      />
+
+      {/* Contractors List */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{t('name')}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'दर' : 'Rate'}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'मनुष्य-दिवस' : 'Person-days'}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'मजुरी' : 'Wages'}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'भरले' : 'Paid'}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'बाकी' : 'Balance'}</th>
+                <th className="text-center py-3 px-4 font-medium text-slate-600">{t('actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {contractors.map(contractor => {
+                const balance = getBalance(contractor.id);
+                return (
+                  <tr key={contractor.id} className="border-b border-slate-100 hover:bg-slate-50">
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2 font-medium text-slate-800">
+                        <HardHat size={16} className="text-slate-400" />
+                        {getDisplayName(contractor)}
+                      </div>
+                      {contractor.phone && (
+                        <div className="text-xs text-slate-400">{contractor.phone}</div>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(contractor.defaultRate)}</td>
+                    <td className="py-3 px-4 text-right text-slate-600">{balance?.personDays ?? 0}</td>
+                    <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(balance?.wages ?? 0)}</td>
+                    <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(balance?.payments ?? 0)}</td>
+                    <td className={`py-3 px-4 text-right font-medium ${(balance?.balance ?? 0) > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatCurrency(balance?.balance ?? 0)}
+                    </td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center justify-center gap-2">
+                        <button
+                          onClick={() => openEditModal(contractor)}
+                          className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                        >
+                          <Pencil size={16} className="text-slate-500" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(contractor)}
+                          className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 size={16} className="text-red-500" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {contractors.length === 0 && (
+          <div className="text-center py-12 text-slate-500">{t('noData')}</div>
+        )}
+      </div>
+
+      <p className="mt-3 text-xs text-slate-500">
+        {isMarathi
+          ? 'ठेकेदाराला दिलेले पैसे पेमेंट पृष्ठावर मजूर पेमेंट म्हणून ठेकेदार निवडून नोंदवा.'
+          : 'Record money paid to a contractor on the Payments page as a labour payment with the contractor selected.'}
+      </p>
+
+      {/* Add/Edit Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={editingContractor
+          ? `${t('edit')} ${isMarathi ? 'ठेकेदार' : 'Contractor'}`
+          : `${t('add')} ${isMarathi ? 'ठेकेदार' : 'Contractor'}`}
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label={t('name') + ' (English)'}
+            value={formData.name}
+            onChange={e => setFormData({ ...formData, name: e.target.value })}
+            required
+          />
+          <div>
+            <label className="block text-sm font-medium text-slate-700 mb-1">
+              {t('marathiName')}
+              <button
+                type="button"
+                onClick={autoTransliterateName}
+                className="ml-2 text-graminno-600 hover:text-graminno-700"
+                title={isMarathi ? 'स्वयं भाषांतर' : 'Auto translate'}
+              >
+                <Wand2 size={14} className="inline" />
+              </button>
+            </label>
+            <input
+              type="text"
+              value={formData.marathiName}
+              onChange={e => setFormData({ ...formData, marathiName: e.target.value })}
+              lang="mr"
+              className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500"
+            />
+          </div>
+          <Input
+            label={isMarathi ? 'फोन' : 'Phone'}
+            type="tel"
+            value={formData.phone}
+            onChange={e => setFormData({ ...formData, phone: e.target.value })}
+            lang="en"
+          />
+          <Input
+            label={isMarathi ? 'प्रति व्यक्ती दैनिक दर' : 'Daily rate per person'}
+            type="text"
+            inputMode="numeric"
+            pattern="[0-9]*"
+            value={formData.defaultRate}
+            onChange={e => setFormData({ ...formData, defaultRate: toAsciiDigits(e.target.value) })}
+            required
+            lang="en"
+          />
+          <Input
+            label={t('notes')}
+            value={formData.notes}
+            onChange={e => setFormData({ ...formData, notes: e.target.value })}
+          />
+          <div className="flex gap-3 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)} className="flex-1">
+              {t('cancel')}
+            </Button>
+            <Button type="submit" className="flex-1" disabled={!formData.name.trim()}>
+              {t('save')}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
+
+export default Contractors;
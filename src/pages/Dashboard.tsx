@@ -4,6 +4,7 @@ import { useApp } from '../context/AppContext';
 import { useTranslation } from '../data/translations';
 import PageHeader from '../components/layout/PageHeader';
 import { formatCurrency, calculateMonthlyReport, calculateCostByGroupForMonth } from '../utils/calculations';
+import { formatStatusCounts } from '../utils/attendanceCodes';
 import { format } from 'date-fns';
 import {
   Users,
@@ -21,7 +22,7 @@ const Dashboard: React.FC = () => {
 
   const currentMonth = format(new Date(), 'yyyy-MM');
   const currentMonthData = data.months.find(m => m.month === currentMonth);
-  const monthlyReport = calculateMonthlyReport(data.workers, currentMonthData);
+  const monthlyReport = calculateMonthlyReport(data.workers, currentMonthData, data.attendanceCodes, data.activities);
   const groupReport = calculateCostByGroupForMonth(data, currentMonth);
   const isMarathi = settings.language === 'mr';
 
@@ -182,14 +183,14 @@ const Dashboard: React.FC = () => {
               </thead>
               <tbody>
                 {monthlyReport.workers
-                  .filter(w => w.daysWorked > 0 || w.halfDays > 0)
+                  .filter(w => w.totalDays > 0 || w.totalCost > 0)
                   .slice(0, 5)
                   .map(worker => (
                     <tr key={worker.workerId} className="border-b border-slate-100">
                       <td className="py-2 px-3 text-slate-800">{worker.workerName}</td>
                       <td className="py-2 px-3 text-center text-slate-600">
-                        {worker.daysWorked}
-                        {worker.halfDays > 0 && <span className="text-slate-400"> + {worker.halfDays}H</span>}
+                        {worker.totalDays}
+                        <span className="text-slate-400"> ({formatStatusCounts(data.attendanceCodes, worker.statusCounts)})</span>
                       </td>
                       <td className="py-2 px-3 text-right font-medium text-slate-800">
                         {formatCurrency(worker.totalCost)}
@@ -6,7 +6,8 @@ import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Select from '../components/ui/Select';
 import type { SundryExpense, GroupAllocation } from '../types';
-import { Plus, Pencil, Trash2, X, Check, ChevronLeft, ChevronRight, Users } from 'lucide-react';
+import { Plus, Pencil, Trash2, X, Check, ChevronLeft, ChevronRight, Users, Lock } from 'lucide-react';
+import { isEntryLocked } from '../utils/closures';
 import { format, parseISO } from 'date-fns';
 import { formatCurrency } from '../utils/calculations';
 
@@ -131,6 +132,11 @@ const Expenses: React.FC = () => {
       notes: formData.notes.trim() || undefined,
     };
 
+    if (isEntryLocked(data, expenseData)) {
+      alert(isMarathi ? 'या गटाचा हा महिना बंद आहे' : 'This month is closed for the group');
+      return;
+    }
+
     if (editingId) {
       updateExpense(editingId, expenseData);
       setEditingId(null);
@@ -408,20 +414,26 @@ const Expenses: React.FC = () => {
                         {formatCurrency(expense.amount)}
                       </td>
                       <td className="py-3 px-4">
-                        <div className="flex items-center justify-center gap-2">
-                          <button
-                            onClick={() => startEdit(expense)}
-                            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
-                          >
-                            <Pencil size={16} className="text-slate-500" />
-                          </button>
-                          <button
-                            onClick={() => handleDelete(expense)}
-                            className="p-2 hover:bg-red-50 rounded-lg transition-colors"
-                          >
-                            <Trash2 size={16} className="text-red-500" />
-                          </button>
-                        </div>
+                        {isEntryLocked(data, expense) ? (
+                          <div className="flex justify-center p-2" title={isMarathi ? 'महिना बंद' : 'Month closed'}>
+                            <Lock size={16} className="text-slate-400" />
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-center gap-2">
+                            <button
+                              onClick={() => startEdit(expense)}
+                              className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                            >
+                              <Pencil size={16} className="text-slate-500" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(expense)}
+                              className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                            >
+                              <Trash2 size={16} className="text-red-500" />
+                            </button>
+                          </div>
+                        )}
                       </td>
                     </tr>
                   )}
@@ -6,7 +6,8 @@ import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Select from '../components/ui/Select';
 import type { SundryExpense } from '../types';
-import { Plus, Pencil, Trash2, X, Check, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Plus, Pencil, Trash2, X, Check, ChevronLeft, ChevronRight, Lock } from 'lucide-react';
+import { isEntryLocked } from '../utils/closures';
 import { format, parseISO } from 'date-fns';
 import { formatCurrency } from '../utils/calculations';
 
@@ -123,6 +124,11 @@ const FarmExpenses: React.FC = () => {
       groupId: formData.groupId || undefined,
     };
 
+    if (isEntryLocked(data, expenseData)) {
+      alert(isMarathi ? 'या गटाचा हा महिना बंद आहे' : 'This month is closed for the group');
+      return;
+    }
+
     if (editingId) {
       updateExpense(editingId, expenseData);
       setEditingId(null);
@@ -293,20 +299,26 @@ const FarmExpenses: React.FC = () => {
                         {formatCurrency(expense.amount)}
                       </div>
                     </div>
-                    <div className="flex flex-col gap-1">
-                      <button
-                        onClick={() => startEdit(expense)}
-                        className="p-1.5 hover:bg-slate-100 rounded transition-colors"
-                      >
-                        <Pencil size={14} className="text-slate-400" />
-                      </button>
-                      <button
-                        onClick={() => handleDelete(expense)}
-                        className="p-1.5 hover:bg-red-50 rounded transition-colors"
-                      >
-                        <Trash2 size={14} className="text-red-400" />
-                      </button>
-                    </div>
+                    {isEntryLocked(data, expense) ? (
+                      <div className="p-1.5" title={isMarathi ? 'महिना बंद' : 'Month closed'}>
+                        <Lock size={14} className="text-slate-400" />
+                      </div>
+                    ) : (
+                      <div className="flex flex-col gap-1">
+                        <button
+                          onClick={() => startEdit(expense)}
+                          className="p-1.5 hover:bg-slate-100 rounded transition-colors"
+                        >
+                          <Pencil size={14} className="text-slate-400" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(expense)}
+                          className="p-1.5 hover:bg-red-50 rounded transition-colors"
+                        >
+                          <Trash2 size={14} className="text-red-400" />
+                        </button>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useApp } from '../context/AppContext';
+import { useTranslation } from '../data/translations';
+import PageHeader from '../components/layout/PageHeader';
+import Select from '../components/ui/Select';
+import Button from '../components/ui/Button';
+import { format, parseISO } from 'date-fns';
+import type { AppData } from '../types';
+import { loadWorkspaceData } from '../data/storage';
+import { runMigrations } from '../data/migrations';
+import { calculateMonthlyCostSummary, formatCurrency, formatMonthYear } from '../utils/calculations';
+import { getWorkspaces, getActiveWorkspaceId, getWorkspaceName } from '../utils/workspaces';
+import { ChevronLeft, ChevronRight, Loader2, Tractor } from 'lucide-react';
+
+interface FarmTotals {
+  workspaceId: string;
+  name: string;
+  workers: number;
+  labourCost: number;
+  expenseCost: number;
+  totalPayments: number;
+  totalBalance: number;
+}
+
+/**
+ * One line per farm workspace on this device for a month, with the overall total.
+ * Other farms are read from their own local databases, so they are as current as
+ * their last sync on this device.
+ */
+const FarmsReport: React.FC = () => {
+  const { data, settings } = useApp();
+  const t = useTranslation(settings.language);
+  const isMarathi = settings.language === 'mr';
+
+  const [selectedMonth, setSelectedMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [otherFarms, setOtherFarms] = useState<Record<string, AppData | null> | null>(null);
+
+  const workspaces = useMemo(() => getWorkspaces(), []);
+  const activeWorkspaceId = getActiveWorkspaceId();
+
+  // Load the other farms once
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const loaded: Record<string, AppData | null> = {};
+      for (const workspace of getWorkspaces()) {
+        if (workspace.id === getActiveWorkspaceId()) continue;
+        try {
+          const stored = await loadWorkspaceData(workspace.id);
+          loaded[workspace.id] = stored ? runMigrations(stored).data : null;
+        } catch (error) {
+          console.error(`[FarmsReport] Could not read ${workspace.id}:`, error);
+          loaded[workspace.id] = null;
+        }
+      }
+      if (!cancelled) setOtherFarms(loaded);
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const monthOptions = useMemo(() => {
+    const options = [];
+    const today = new Date();
+    for (let i = -12; i <= 0; i++) {
+      const date = new Date(today.getFullYear(), today.getMonth() + i, 1);
+      options.push({ value: format(date, 'yyyy-MM'), label: format(date, 'MMMM yyyy') });
+    }
+    return options;
+  }, []);
+
+  const prevMonth = () => {
+    const date = parseISO(`${selectedMonth}-01`);
+    date.setMonth(date.getMonth() - 1);
+    setSelectedMonth(format(date, 'yyyy-MM'));
+  };
+
+  const nextMonth = () => {
+    const date = parseISO(`${selectedMonth}-01`);
+    date.setMonth(date.getMonth() + 1);
+    setSelectedMonth(format(date, 'yyyy-MM'));
+  };
+
+  const rows = useMemo((): FarmTotals[] => {
+    if (!otherFarms) return [];
+    return workspaces.map(workspace => {
+      const farmData = workspace.id === activeWorkspaceId ? data : otherFarms[workspace.id];
+      const summary = farmData ? calculateMonthlyCostSummary(farmData, selectedMonth) : [];
+      return {
+        workspaceId: workspace.id,
+        name: getWorkspaceName(workspace, isMarathi),
+        workers: farmData ? farmData.workers.filter(w => w.status === 'active' && !w.deleted).length : 0,
+        labourCost: summary.reduce((sum, g) => sum + g.labourCost, 0),
+        expenseCost: summary.reduce((sum, g) => sum + g.expenseCost, 0),
+        totalPayments: summary.reduce((sum, g) => sum + g.totalPayments, 0),
+        totalBalance: summary.reduce((sum, g) => sum + g.totalBalance, 0),
+      };
+    });
+  }, [workspaces, activeWorkspaceId, data, otherFarms, selectedMonth, isMarathi]);
+
+  const totals = rows.reduce((acc, row) => ({
+    workers: acc.workers + row.workers,
+    labourCost: acc.labourCost + row.labourCost,
+    expenseCost: acc.expenseCost + row.expenseCost,
+    totalPayments: acc.totalPayments + row.totalPayments,
+    totalBalance: acc.totalBalance + row.totalBalance,
+  }), { workers: 0, labourCost: 0, expenseCost: 0, totalPayments: 0, totalBalance: 0 });
+
+  return (
+    <div className="pb-20 lg:pb-0">
+      <PageHeader
+        title={isMarathi ? 'सर्व शेतांचा अहवाल' : 'All Farms Report'}
+        subtitle={isMarathi
+          ? `${workspaces.length} शेते · ${formatMonthYear(selectedMonth)}`
+          : `${workspaces.length} farm${workspaces.length === 1 ? '' : 's'} · ${formatMonthYear(selectedMonth)}`}
+      />
+
+      {/* Month selector */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100 mb-6">
+        <div className="flex items-center justify-between gap-4">
+          <Button variant="ghost" onClick={prevMonth}>
+            <ChevronLeft size={20} />
+          </Button>
+          <Select
+            value={selectedMonth}
+            onChange={e => setSelectedMonth(e.target.value)}
+            options={monthOptions}
+            className="flex-1 max-w-xs"
+          />
+          <Button variant="ghost" onClick={nextMonth}>
+            <ChevronRight size={20} />
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        {!otherFarms ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-slate-500">
+            <Loader2 size={20} className="animate-spin" />
+            {isMarathi ? 'लोड होत आहे...' : 'Loading...'}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-slate-50 border-b border-slate-200">
+                <tr>
+                  <th className="text-left py-3 px-4 font-medium text-slate-600">{isMarathi ? 'शेत' : 'Farm'}</th>
+                  <th className="text-right py-3 px-4 font-medium text-slate-600">{t('workers')}</th>
+                  <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'मजूर' : 'Labour'}</th>
+                  <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'खर्च' : 'Expenses'}</th>
+                  <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'भरले' : 'Paid'}</th>
+                  <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'बाकी' : 'Balance'}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.workspaceId} className="border-b border-slate-100">
+                    <td className="py-3 px-4">
+                      <div className="flex items-center gap-2 font-medium text-slate-800">
+                        <Tractor size={16} className="text-slate-400" />
+                        {row.name}
+                      </div>
+                      {row.workspaceId !== activeWorkspaceId && !otherFarms[row.workspaceId] && (
+                        <div className="text-xs text-slate-400">{isMarathi ? 'या डिव्हाइसवर डेटा नाही' : 'No data on this device'}</div>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-right text-slate-600">{row.workers}</td>
+                    <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(row.labourCost)}</td>
+                    <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(row.expenseCost)}</td>
+                    <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(row.totalPayments)}</td>
+                    <td className={`py-3 px-4 text-right font-medium ${row.totalBalance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatCurrency(row.totalBalance)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot className="bg-slate-50 border-t border-slate-200 font-semibold text-slate-800">
+                <tr>
+                  <td className="py-3 px-4">{isMarathi ? 'एकूण' : 'Total'}</td>
+                  <td className="py-3 px-4 text-right">{totals.workers}</td>
+                  <td className="py-3 px-4 text-right">{formatCurrency(totals.labourCost)}</td>
+                  <td className="py-3 px-4 text-right">{formatCurrency(totals.expenseCost)}</td>
+                  <td className="py-3 px-4 text-right">{formatCurrency(totals.totalPayments)}</td>
+                  <td className={`py-3 px-4 text-right ${totals.totalBalance > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                    {formatCurrency(totals.totalBalance)}
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FarmsReport;
@@ -6,10 +6,28 @@ import PageHeader from '../components/layout/PageHeader';
 import Button from '../components/ui/Button';
 import Select from '../components/ui/Select';
 import Modal from '../components/ui/Modal';
+import Input from '../components/ui/Input';
 import { format, parseISO } from 'date-fns';
-import { getDaysArrayForMonth, formatMonthYear } from '../utils/calculations';
-import { ChevronLeft, ChevronRight, Users } from 'lucide-react';
-import type { AttendanceStatus } from '../types';
+import { getDaysArrayForMonth, formatMonthYear, getPieceRateActivity, getWorkerDayAssignment, getWorkerPieceRateActivity } from '../utils/calculations';
+import {
+  getActiveAttendanceCodes,
+  findAttendanceCode,
+  getStatusDayValue,
+  getNextAttendanceStatus,
+  getDayLimit,
+  fitsDayLimit,
+  getPresentStatus,
+  addStatusCount,
+  formatStatusCounts,
+  attendanceColorClasses,
+} from '../utils/attendanceCodes';
+import { ChevronLeft, ChevronRight, Users, Lock, LockOpen, Send, Scale, Split, Plus, Trash2, HardHat, ListChecks } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
+import { canReopenMonths, getMonthClosure } from '../utils/closures';
+import { canAccessGroup } from '../utils/auth';
+import { getDayReviewStatus, isDaySubmittable, hasDayAttendance } from '../utils/review';
+import { buildCopyUpdates, buildFillUpdates, getDateRange, shiftDate, type BulkMarkResult } from '../utils/bulkAttendance';
+import type { AttendanceStatus, StatusCounts, DaySegment, GangEntry } from '../types';
 
 const GroupAttendance: React.FC = () => {
   const { groupId } = useParams<{ groupId: string }>();
@@ -23,8 +41,17 @@ const GroupAttendance: React.FC = () => {
     updateGroupWorkers,
     updateGroupAttendance,
     updateGroupDayActivity,
+    updateGroupDayQuantities,
+    updateGroupDayWorkerAssignment,
+    updateGroupDaySegments,
+    updateGroupDayGangs,
+    updateGroupDays,
     getWorkerDayTotal,
     getGroupById,
+    closeMonth,
+    reopenMonth,
+    submitGroupDays,
+    currentUser,
   } = useApp();
   const t = useTranslation(settings.language);
   const isMarathi = settings.language === 'mr';
@@ -35,15 +62,46 @@ const GroupAttendance: React.FC = () => {
   const [groupWorkerModalOpen, setGroupWorkerModalOpen] = useState(false);
   const [groupSelectedWorkerIds, setGroupSelectedWorkerIds] = useState<string[]>([]);
 
+  // Piece-rate output entry for one day
+  const [quantityDay, setQuantityDay] = useState<number | null>(null);
+  const [quantityDraft, setQuantityDraft] = useState<Record<string, string>>({});
+
+  // Per-worker activity/area for one day
+  const [assignDay, setAssignDay] = useState<number | null>(null);
+  const [assignWorkerIds, setAssignWorkerIds] = useState<string[]>([]);
+  const [assignActivityId, setAssignActivityId] = useState('');
+  const [assignAreaId, setAssignAreaId] = useState('');
+  const [assignMode, setAssignMode] = useState<'workers' | 'segments'>('workers');
+  const [segmentDraft, setSegmentDraft] = useState<DaySegment[]>([]);
+  const [segmentWorkersOpen, setSegmentWorkersOpen] = useState<string | null>(null);
+
+  // Contractor gangs (headcounts) for one day
+  const [gangDay, setGangDay] = useState<number | null>(null);
+  const [gangDraft, setGangDraft] = useState<GangEntry[]>([]);
+
+  // Bulk actions: mark a day present, copy the previous day, fill a range, repeat last week
+  const [bulkOpen, setBulkOpen] = useState(false);
+  const [bulkAction, setBulkAction] = useState<'present' | 'copy' | 'range' | 'pattern'>('present');
+  const [bulkFrom, setBulkFrom] = useState(1);
+  const [bulkTo, setBulkTo] = useState(1);
+  const [bulkStatus, setBulkStatus] = useState<AttendanceStatus>('');
+  const [bulkWorkerIds, setBulkWorkerIds] = useState<string[]>([]);
+  const [bulkOverwrite, setBulkOverwrite] = useState(false);
+
+  // Reopening a closed month
+  const [reopenModalOpen, setReopenModalOpen] = useState(false);
+  const [reopenReason, setReopenReason] = useState('');
+
   // Get master group info
   const masterGroup = groupId ? getGroupById(groupId) : undefined;
 
-  // Redirect if group not found
+  // Redirect if group not found or not one of the supervisor's groups
+  const canAccess = !!groupId && canAccessGroup(currentUser, groupId);
   useEffect(() => {
-    if (groupId && !masterGroup) {
+    if (groupId && (!masterGroup || !canAccess)) {
       navigate('/attendance');
     }
-  }, [groupId, masterGroup, navigate]);
+  }, [groupId, masterGroup, canAccess, navigate]);
 
   // Get display name
   const getWorkerDisplayName = (worker: { name: string; marathiName?: string }) => {
@@ -73,7 +131,12 @@ const GroupAttendance: React.FC = () => {
   // Find the month group for this master group
   const monthGroup = monthGroups.find(mg => mg.groupId === groupId);
 
+  // Closed months are read-only
+  const closure = getMonthClosure(data.months, currentMonth, groupId);
+  const isClosed = !!closure?.closed;
+
   const days = getDaysArrayForMonth(currentMonth);
+  const attendanceCodes = getActiveAttendanceCodes(data.attendanceCodes);
 
   // Get workers for this month (use workerIds if set, otherwise all active workers)
   const monthWorkers = useMemo(() => {
@@ -116,6 +179,37 @@ const GroupAttendance: React.FC = () => {
     setCurrentMonth(format(date, 'yyyy-MM'));
   };
 
+  const handleCloseMonth = () => {
+    if (!groupId) return;
+    const message = isMarathi
+      ? `${formatMonthYear(currentMonth)} महिना बंद करायचा? हजेरी, खर्च आणि पेमेंट बदलता येणार नाहीत.`
+      : `Close ${formatMonthYear(currentMonth)}? Attendance, expenses and payments will be locked.`;
+    if (confirm(message)) {
+      closeMonth(currentMonth, groupId);
+    }
+  };
+
+  // Filled-in days not yet submitted for approval, and days an admin returned
+  const unsubmittedDates = (monthGroup?.days || [])
+    .filter(d => isDaySubmittable(d) && hasDayAttendance(d))
+    .map(d => d.date);
+  const returnedDays = (monthGroup?.days || [])
+    .filter(d => getDayReviewStatus(d) === 'returned')
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const handleSubmitDays = () => {
+    if (!monthGroup || unsubmittedDates.length === 0) return;
+    submitGroupDays(currentMonth, monthGroup.id, unsubmittedDates);
+  };
+
+  const handleReopenMonth = () => {
+    if (!groupId || !reopenReason.trim()) return;
+    if (reopenMonth(currentMonth, groupId, reopenReason)) {
+      setReopenModalOpen(false);
+      setReopenReason('');
+    }
+  };
+
   const getAttendanceStatus = (workerId: string, day: number): AttendanceStatus => {
     if (!monthGroup) return '';
     const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
@@ -124,72 +218,105 @@ const GroupAttendance: React.FC = () => {
   };
 
   const getDayActivity = (day: number) => {
-    if (!monthGroup) return { activityCode: '', areaCode: '' };
+    if (!monthGroup) return { activityId: '', areaId: '' };
     const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
     const dayEntry = monthGroup.days.find(d => d.date === dateStr);
     return {
-      activityCode: dayEntry?.activityCode || '',
-      areaCode: dayEntry?.areaCode || '',
+      activityId: dayEntry?.activityId || '',
+      areaId: dayEntry?.areaId || '',
     };
   };
 
+  const getDayEntry = (day: number) => {
+    const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
+    return monthGroup?.days.find(d => d.date === dateStr);
+  };
+
+  const getDayQuantities = (day: number) => getDayEntry(day)?.quantities || {};
+
+  // What a worker did on a day, following the group unless overridden
+  const getWorkerAssignment = (workerId: string, day: number) => {
+    const dayEntry = getDayEntry(day);
+    return dayEntry ? getWorkerDayAssignment(dayEntry, workerId) : {};
+  };
+
+  const getDaySegments = (day: number) => getDayEntry(day)?.segments || [];
+
+  // Overrides only apply on days that aren't split into segments
+  const isWorkerOverridden = (workerId: string, day: number): boolean => {
+    const dayEntry = getDayEntry(day);
+    if (dayEntry?.segments?.length) return false;
+    return !!(dayEntry?.workerActivityIds?.[workerId] || dayEntry?.workerAreaIds?.[workerId]);
+  };
+
+  // Workers on a piece-rate activity for some of the day
+  const getWorkerPieceActivity = (workerId: string, day: number) => {
+    const dayEntry = getDayEntry(day);
+    return dayEntry ? getWorkerPieceRateActivity(dayEntry, workerId, data.activities) : undefined;
+  };
+
+  const getPieceRateWorkers = (day: number) =>
+    groupWorkers.filter(w => getWorkerPieceActivity(w.id, day));
+
+  const getDayReview = (day: number) => {
+    const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
+    const dayEntry = monthGroup?.days.find(d => d.date === dateStr);
+    return { status: getDayReviewStatus(dayEntry), comment: dayEntry?.review?.comment };
+  };
+
+  const reviewDotClasses = {
+    draft: '',
+    submitted: 'bg-blue-300',
+    approved: 'bg-green-300',
+    returned: 'bg-red-400',
+  };
+
+  const reviewLabels = {
+    draft: isMarathi ? 'मसुदा' : 'Draft',
+    submitted: isMarathi ? 'सादर केले' : 'Submitted',
+    approved: isMarathi ? 'मंजूर' : 'Approved',
+    returned: isMarathi ? 'परत पाठवले' : 'Returned',
+  };
+
   const cycleAttendance = (workerId: string, day: number) => {
-    if (!monthGroup) return;
+    if (!monthGroup || isClosed) return;
     const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
     const current = getAttendanceStatus(workerId, day);
     const currentTotal = getWorkerDayTotal(currentMonth, dateStr, workerId);
 
     // Calculate what this worker has in OTHER groups
-    const otherGroupsTotal = currentTotal - (current === 'P' ? 1 : current === 'H' ? 0.5 : 0);
-
-    let next: AttendanceStatus = '';
-    switch (current) {
-      case '':
-        if (otherGroupsTotal === 0) next = 'P';
-        else if (otherGroupsTotal <= 0.5) next = 'H';
-        else next = 'A';
-        break;
-      case 'P':
-        next = 'A';
-        break;
-      case 'A':
-        if (otherGroupsTotal <= 0.5) next = 'H';
-        else next = '';
-        break;
-      case 'H':
-        next = '';
-        break;
-    }
+    const otherGroupsTotal = currentTotal - getStatusDayValue(data.attendanceCodes, current);
+
+    // Cycle through active codes, skipping any that would exceed a full day
+    const next = getNextAttendanceStatus(data.attendanceCodes, current, otherGroupsTotal);
 
     updateGroupAttendance(currentMonth, monthGroup.id, dateStr, workerId, next);
   };
 
   // Calculate totals for a worker
   const calculateWorkerTotal = (workerId: string) => {
-    let daysWorked = 0;
-    let halfDays = 0;
+    const statusCounts: StatusCounts = {};
+    let totalDays = 0;
 
     days.forEach(day => {
       const status = getAttendanceStatus(workerId, day);
-      if (status === 'P') daysWorked++;
-      if (status === 'H') halfDays++;
+      addStatusCount(statusCounts, status);
+      totalDays += getStatusDayValue(data.attendanceCodes, status);
     });
 
-    return { daysWorked, halfDays };
+    return { totalDays, summary: formatStatusCounts(data.attendanceCodes, statusCounts) };
   };
 
   const getStatusClass = (status: string) => {
-    switch (status) {
-      case 'P': return 'bg-green-100 text-green-700 hover:bg-green-200';
-      case 'A': return 'bg-red-100 text-red-700 hover:bg-red-200';
-      case 'H': return 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200';
-      default: return 'bg-slate-50 text-slate-400 hover:bg-slate-100';
-    }
+    const code = findAttendanceCode(data.attendanceCodes, status);
+    if (!code) return 'bg-slate-50 text-slate-400 hover:bg-slate-100';
+    return attendanceColorClasses[code.color].cell;
   };
 
   const hasExceededLimit = (workerId: string, day: number): boolean => {
     const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
-    return getWorkerDayTotal(currentMonth, dateStr, workerId) > 1;
+    const status = getAttendanceStatus(workerId, day);
+    return getWorkerDayTotal(currentMonth, dateStr, workerId) > getDayLimit(data.attendanceCodes, status);
   };
 
   // Group worker management handlers
@@ -222,45 +349,224 @@ const GroupAttendance: React.FC = () => {
     setGroupWorkerModalOpen(false);
   };
 
-  const handleActivityChange = (day: number, activityCode: string) => {
-    if (!monthGroup) return;
+  const handleActivityChange = (day: number, activityId: string) => {
+    if (!monthGroup || isClosed) return;
     const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
-    const { areaCode } = getDayActivity(day);
-    updateGroupDayActivity(currentMonth, monthGroup.id, dateStr, activityCode || undefined, areaCode || undefined);
+    const { areaId } = getDayActivity(day);
+    updateGroupDayActivity(currentMonth, monthGroup.id, dateStr, activityId || undefined, areaId || undefined);
   };
 
-  const handleAreaChange = (day: number, areaCode: string) => {
-    if (!monthGroup) return;
+  const handleAreaChange = (day: number, areaId: string) => {
+    if (!monthGroup || isClosed) return;
     const dateStr = `${currentMonth}-${day.toString().padStart(2, '0')}`;
-    const { activityCode } = getDayActivity(day);
-    updateGroupDayActivity(currentMonth, monthGroup.id, dateStr, activityCode || undefined, areaCode || undefined);
+    const { activityId } = getDayActivity(day);
+    updateGroupDayActivity(currentMonth, monthGroup.id, dateStr, activityId || undefined, areaId || undefined);
+  };
+
+  const openQuantityModal = (day: number) => {
+    const quantities = getDayQuantities(day);
+    setQuantityDraft(Object.fromEntries(getPieceRateWorkers(day).map(w => [w.id, quantities[w.id] ? String(quantities[w.id]) : ''])));
+    setQuantityDay(day);
+  };
+
+  // Starts with the workers marked present, on the group's activity and area
+  const openAssignModal = (day: number) => {
+    const { activityId, areaId } = getDayActivity(day);
+    setAssignWorkerIds(groupWorkers.filter(w => getAttendanceStatus(w.id, day)).map(w => w.id));
+    setAssignActivityId(activityId);
+    setAssignAreaId(areaId);
+    setSegmentDraft(getDaySegments(day));
+    setSegmentWorkersOpen(null);
+    setAssignMode(getDaySegments(day).length > 0 ? 'segments' : 'workers');
+    setAssignDay(day);
+  };
+
+  const addSegment = () => {
+    setSegmentDraft(prev => [...prev, { id: uuidv4(), activityId: '', areaId: '', share: 4 }]);
+  };
+
+  const updateSegment = (id: string, update: Partial<DaySegment>) => {
+    setSegmentDraft(prev => prev.map(s => (s.id === id ? { ...s, ...update } : s)));
+  };
+
+  // Unticking a worker turns "everyone" into an explicit list
+  const toggleSegmentWorker = (segment: DaySegment, workerId: string) => {
+    const current = segment.workerIds || groupWorkers.map(w => w.id);
+    const workerIds = current.includes(workerId) ? current.filter(id => id !== workerId) : [...current, workerId];
+    updateSegment(segment.id, { workerIds: workerIds.length === groupWorkers.length ? undefined : workerIds });
+  };
+
+  const saveSegments = () => {
+    if (!monthGroup || assignDay === null || isClosed) return;
+    const dateStr = `${currentMonth}-${assignDay.toString().padStart(2, '0')}`;
+    const segments = segmentDraft
+      .filter(s => s.share > 0)
+      .map(s => ({
+        ...s,
+        activityId: s.activityId || undefined,
+        areaId: s.areaId || undefined,
+      }));
+    updateGroupDaySegments(currentMonth, monthGroup.id, dateStr, segments);
+    setAssignDay(null);
+  };
+
+  const toggleAssignWorker = (workerId: string) => {
+    setAssignWorkerIds(prev =>
+      prev.includes(workerId) ? prev.filter(id => id !== workerId) : [...prev, workerId]
+    );
+  };
+
+  const applyAssignment = (reset: boolean) => {
+    if (!monthGroup || assignDay === null || isClosed || assignWorkerIds.length === 0) return;
+    const dateStr = `${currentMonth}-${assignDay.toString().padStart(2, '0')}`;
+    updateGroupDayWorkerAssignment(
+      currentMonth,
+      monthGroup.id,
+      dateStr,
+      assignWorkerIds,
+      reset ? '' : assignActivityId,
+      reset ? '' : assignAreaId
+    );
+    setAssignWorkerIds([]);
+  };
+
+  const saveQuantities = () => {
+    if (!monthGroup || quantityDay === null || isClosed) return;
+    const dateStr = `${currentMonth}-${quantityDay.toString().padStart(2, '0')}`;
+    const quantities = Object.fromEntries(
+      Object.entries(quantityDraft).map(([workerId, value]) => [workerId, Math.max(0, parseFloat(value) || 0)])
+    );
+    updateGroupDayQuantities(currentMonth, monthGroup.id, dateStr, quantities);
+    setQuantityDay(null);
+  };
+
+  const contractors = (data.contractors || [])
+    .filter(c => !c.deleted)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const getDayGangs = (day: number) => getDayEntry(day)?.gangs || [];
+
+  const openGangModal = (day: number) => {
+    setGangDraft(getDayGangs(day));
+    setGangDay(day);
+  };
+
+  // New gangs start as present at the contractor's rate
+  const addGang = () => {
+    const contractor = contractors[0];
+    const status = (attendanceCodes.find(c => c.dayValue === 1) || attendanceCodes[0])?.code || '';
+    setGangDraft(prev => [...prev, {
+      id: uuidv4(),
+      contractorId: contractor?.id || '',
+      headcount: 0,
+      status,
+      rate: contractor?.defaultRate || 0,
+    }]);
+  };
+
+  const updateGang = (id: string, update: Partial<GangEntry>) => {
+    setGangDraft(prev => prev.map(g => (g.id === id ? { ...g, ...update } : g)));
+  };
+
+  const changeGangContractor = (id: string, contractorId: string) => {
+    const contractor = contractors.find(c => c.id === contractorId);
+    updateGang(id, { contractorId, ...(contractor ? { rate: contractor.defaultRate } : {}) });
+  };
+
+  const saveGangs = () => {
+    if (!monthGroup || gangDay === null || isClosed) return;
+    const dateStr = `${currentMonth}-${gangDay.toString().padStart(2, '0')}`;
+    updateGroupDayGangs(currentMonth, monthGroup.id, dateStr, gangDraft.filter(g => g.contractorId && g.headcount > 0));
+    setGangDay(null);
+  };
+
+  // Bulk actions
+  const openBulkModal = (day?: number) => {
+    if (!monthGroup || isClosed) return;
+    const today = new Date();
+    const startDay = day ?? (format(today, 'yyyy-MM') === currentMonth ? today.getDate() : 1);
+    setBulkAction('present');
+    setBulkFrom(startDay);
+    setBulkTo(startDay);
+    setBulkStatus(getPresentStatus(data.attendanceCodes));
+    setBulkWorkerIds(groupWorkers.map(w => w.id));
+    setBulkOverwrite(false);
+    setBulkOpen(true);
+  };
+
+  const toggleBulkWorker = (workerId: string) => {
+    setBulkWorkerIds(prev =>
+      prev.includes(workerId) ? prev.filter(id => id !== workerId) : [...prev, workerId]
+    );
+  };
+
+  // This group's day on any date (copies can reach back into the previous month)
+  const getGroupDayOn = (date: string) =>
+    getMonthGroups(date.slice(0, 7)).find(mg => mg.groupId === groupId)?.days.find(d => d.date === date);
+
+  // Same check as tapping a cell: what the worker has in other groups plus the new mark
+  const isWithinDayLimit = (date: string, workerId: string, status: AttendanceStatus) => {
+    const current = monthGroup?.days.find(d => d.date === date)?.attendance[workerId] || '';
+    const otherGroupsTotal = getWorkerDayTotal(currentMonth, date, workerId) - getStatusDayValue(data.attendanceCodes, current);
+    return fitsDayLimit(data.attendanceCodes, status, otherGroupsTotal);
+  };
+
+  const getBulkResult = (): BulkMarkResult => {
+    const toDate = (day: number) => `${currentMonth}-${day.toString().padStart(2, '0')}`;
+    const options = { workerIds: bulkWorkerIds, overwrite: bulkOverwrite, fitsDayLimit: isWithinDayLimit };
+    const getDay = (date: string) => monthGroup?.days.find(d => d.date === date);
+    switch (bulkAction) {
+      case 'present':
+        return buildFillUpdates([toDate(bulkFrom)], getPresentStatus(data.attendanceCodes), getDay, options);
+      case 'copy':
+        return buildCopyUpdates([toDate(bulkFrom)], date => getGroupDayOn(shiftDate(date, -1)), getDay, options);
+      case 'range':
+        return buildFillUpdates(getDateRange(toDate(bulkFrom), toDate(bulkTo)), bulkStatus, getDay, options);
+      case 'pattern':
+        return buildCopyUpdates(getDateRange(toDate(bulkFrom), toDate(bulkTo)), date => getGroupDayOn(shiftDate(date, -7)), getDay, options);
+    }
+  };
+
+  const bulkResult = bulkOpen ? getBulkResult() : null;
+
+  const applyBulk = () => {
+    if (!monthGroup || isClosed || !bulkResult) return;
+    updateGroupDays(currentMonth, monthGroup.id, bulkResult.updates);
+    setBulkOpen(false);
+  };
+
+  const getUnitName = (activityId: string | undefined): string => {
+    const activity = getPieceRateActivity(data.activities, activityId);
+    if (!activity) return '';
+    if (isMarathi && activity.marathiUnit) return activity.marathiUnit;
+    return activity.unit || '';
   };
 
   // Get short display names
-  const getActivityShortName = (code: string): string => {
-    if (!code) return '';
-    const activity = data.activities.find(a => a.code === code);
-    if (!activity) return code;
+  const getActivityShortName = (id: string): string => {
+    if (!id) return '';
+    const activity = data.activities.find(a => a.id === id);
+    if (!activity) return '';
     if (isMarathi && activity.marathiCode) {
       return activity.marathiCode;
     }
-    return code;
+    return activity.code;
   };
 
-  const getAreaShortName = (code: string): string => {
-    if (!code) return '';
-    const area = data.areas.find(a => a.code === code);
-    if (!area) return code;
+  const getAreaShortName = (id: string): string => {
+    if (!id) return '';
+    const area = data.areas.find(a => a.id === id);
+    if (!area) return '';
     if (isMarathi && area.marathiCode) {
       return area.marathiCode;
     }
-    return code;
+    return area.code;
   };
 
   const getActivityOptions = () => [
     { value: '', label: isMarathi ? '-- कार्य निवडा --' : '-- Select Activity --' },
     ...data.activities.map(a => ({
-      value: a.code,
+      value: a.id,
       label: isMarathi && a.marathiName ? a.marathiName : `${a.code} - ${a.name}`,
     })),
   ];
@@ -274,13 +580,13 @@ const GroupAttendance: React.FC = () => {
     return [
       { value: '', label: isMarathi ? '-- क्षेत्र निवडा --' : '-- Select Area --' },
       ...filteredAreas.map(a => ({
-        value: a.code,
+        value: a.id,
         label: isMarathi && a.marathiName ? a.marathiName : `${a.code} - ${a.name}`,
       })),
     ];
   };
 
-  if (!masterGroup) {
+  if (!masterGroup || !canAccess) {
     return null;
   }
 
@@ -290,13 +596,88 @@ const GroupAttendance: React.FC = () => {
         title={groupDisplayName}
         subtitle={formatMonthYear(currentMonth)}
         action={
-          <Button variant="secondary" onClick={openGroupWorkerModal}>
-            <Users size={18} />
-            {groupWorkers.length}/{monthWorkers.length}
-          </Button>
+          <div className="flex gap-2">
+            {isClosed ? (
+              canReopenMonths(currentUser?.role) && (
+                <Button variant="secondary" onClick={() => setReopenModalOpen(true)}>
+                  <LockOpen size={18} />
+                  <span className="hidden sm:inline">{isMarathi ? 'पुन्हा उघडा' : 'Reopen'}</span>
+                </Button>
+              )
+            ) : (
+              <>
+                <Button onClick={handleSubmitDays} disabled={unsubmittedDates.length === 0}>
+                  <Send size={18} />
+                  <span className="hidden sm:inline">{isMarathi ? 'सादर करा' : 'Submit'}</span>
+                  {unsubmittedDates.length > 0 && ` (${unsubmittedDates.length})`}
+                </Button>
+                {currentUser?.role !== 'supervisor' && (
+                  <Button variant="secondary" onClick={handleCloseMonth}>
+                    <Lock size={18} />
+                    <span className="hidden sm:inline">{isMarathi ? 'महिना बंद करा' : 'Close Month'}</span>
+                  </Button>
+                )}
+              </>
+            )}
+            <Button variant="secondary" onClick={() => openBulkModal()} disabled={isClosed || !monthGroup}>
+              <ListChecks size={18} />
+              <span className="hidden sm:inline">{isMarathi ? 'एकत्र हजेरी' : 'Bulk'}</span>
+            </Button>
+            <Button variant="secondary" onClick={openGroupWorkerModal} disabled={isClosed}>
+              <Users size={18} />
+              {groupWorkers.length}/{monthWorkers.length}
+            </Button>
+          </div>
         }
       />
 
+      {/* Closed month banner */}
+      {isClosed && closure && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-4 flex items-start gap-3 text-sm text-amber-800">
+          <Lock size={18} className="shrink-0 mt-0.5" />
+          <div>
+            <div className="font-medium">
+              {isMarathi ? 'हा महिना बंद आहे' : 'This month is closed'}
+            </div>
+            <div>
+              {closure.closedAt && format(parseISO(closure.closedAt), 'dd MMM yyyy, HH:mm')}
+              {closure.closedBy && ` · ${closure.closedBy}`}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Days returned by an admin */}
+      {returnedDays.length > 0 && (
+        <div className="bg-red-50 border border-red-200 rounded-xl p-4 mb-4 text-sm text-red-800">
+          <div className="font-medium mb-1">
+            {isMarathi ? 'दुरुस्तीसाठी परत आलेले दिवस' : 'Days returned for correction'}
+          </div>
+          <ul className="space-y-0.5">
+            {returnedDays.map(d => (
+              <li key={d.date}>
+                {format(parseISO(d.date), 'dd MMM')}
+                {d.review?.comment && ` – ${d.review.comment}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {/* Last reopen, until the month is closed again */}
+      {!isClosed && closure?.reopenReason && (
+        <div className="bg-slate-50 border border-slate-200 rounded-xl p-4 mb-4 flex items-start gap-3 text-sm text-slate-600">
+          <LockOpen size={18} className="shrink-0 mt-0.5" />
+          <div>
+            <div className="font-medium">
+              {isMarathi ? 'महिना पुन्हा उघडला' : 'Month reopened'}
+              {closure.reopenedBy && ` · ${closure.reopenedBy}`}
+            </div>
+            <div>{closure.reopenReason}</div>
+          </div>
+        </div>
+      )}
+
       {/* Month Navigation */}
       <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100 mb-4">
         <div className="flex items-center justify-between gap-4">
@@ -327,11 +708,27 @@ const GroupAttendance: React.FC = () => {
                 <th className="sticky left-0 z-10 bg-graminno-600 py-2 px-2 sm:px-3 text-left font-medium min-w-[100px] sm:min-w-[140px] text-xs sm:text-sm">
                   {t('worker')}
                 </th>
-                {days.map(day => (
-                  <th key={day} className="py-2 px-0.5 sm:px-1 text-center font-medium w-8 min-w-[28px] sm:min-w-[32px] text-xs sm:text-sm">
-                    {day}
-                  </th>
-                ))}
+                {days.map(day => {
+                  const review = getDayReview(day);
+                  return (
+                    <th
+                      key={day}
+                      className="py-2 px-0.5 sm:px-1 text-center font-medium w-8 min-w-[28px] sm:min-w-[32px] text-xs sm:text-sm"
+                      title={review.status === 'draft' ? undefined : [reviewLabels[review.status], review.comment].filter(Boolean).join(': ')}
+                    >
+                      <button
+                        onClick={() => openBulkModal(day)}
+                        disabled={isClosed}
+                        className="w-full rounded hover:bg-graminno-700 disabled:hover:bg-transparent"
+                      >
+                        {day}
+                      </button>
+                      {review.status !== 'draft' && (
+                        <span className={`block mx-auto mt-0.5 w-1.5 h-1.5 rounded-full ${reviewDotClasses[review.status]}`} />
+                      )}
+                    </th>
+                  );
+                })}
                 <th className="py-2 px-1 sm:px-2 text-center font-medium min-w-[40px] sm:min-w-[50px] text-xs sm:text-sm">{isMarathi ? 'दिवस' : 'Days'}</th>
               </tr>
 
@@ -340,22 +737,30 @@ const GroupAttendance: React.FC = () => {
                 <th className="sticky left-0 z-10 bg-slate-50 py-1 px-2 sm:px-3 text-left font-medium text-slate-600 min-w-[100px] sm:min-w-[140px]">
                   <div className="text-xs">{isMarathi ? 'कार्य' : 'Act'}</div>
                   <div className="text-xs">{isMarathi ? 'क्षेत्र' : 'Area'}</div>
+                  <div className="text-xs">{isMarathi ? 'विभागणी' : 'Split'}</div>
+                  <div className="text-xs">{isMarathi ? 'ठेका' : 'Gang'}</div>
                 </th>
                 {days.map(day => {
-                  const { activityCode, areaCode } = getDayActivity(day);
-                  const activityDisplay = getActivityShortName(activityCode);
-                  const areaDisplay = getAreaShortName(areaCode);
+                  const { activityId, areaId } = getDayActivity(day);
+                  const activityDisplay = getActivityShortName(activityId);
+                  const areaDisplay = getAreaShortName(areaId);
+                  const isPieceRate = getPieceRateWorkers(day).length > 0;
+                  const overrideCount = groupWorkers.filter(w => isWorkerOverridden(w.id, day)).length;
+                  const segmentCount = getDaySegments(day).length;
+                  const dayOutput = Object.values(getDayQuantities(day)).reduce((sum, q) => sum + q, 0);
+                  const gangHeadcount = getDayGangs(day).reduce((sum, g) => sum + g.headcount, 0);
                   return (
                     <th key={day} className="py-1 px-0.5 text-center min-w-[28px] sm:min-w-[36px]">
                       <div className="flex flex-col gap-0.5">
                         {/* Activity selector */}
                         <div className="relative">
-                          <div className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded cursor-pointer hover:bg-graminno-100 ${activityCode ? 'text-graminno-700 bg-graminno-50' : 'text-slate-400'}`}>
+                          <div className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded cursor-pointer hover:bg-graminno-100 ${activityId ? 'text-graminno-700 bg-graminno-50' : 'text-slate-400'}`}>
                             {activityDisplay || '·'}
                           </div>
                           <select
-                            value={activityCode}
+                            value={activityId}
                             onChange={e => handleActivityChange(day, e.target.value)}
+                            disabled={isClosed}
                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                             title={isMarathi ? 'कार्य निवडा' : 'Select Activity'}
                           >
@@ -366,12 +771,13 @@ const GroupAttendance: React.FC = () => {
                         </div>
                         {/* Area selector */}
                         <div className="relative">
-                          <div className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded cursor-pointer hover:bg-amber-100 ${areaCode ? 'text-amber-700 bg-amber-50' : 'text-slate-400'}`}>
+                          <div className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded cursor-pointer hover:bg-amber-100 ${areaId ? 'text-amber-700 bg-amber-50' : 'text-slate-400'}`}>
                             {areaDisplay || '·'}
                           </div>
                           <select
-                            value={areaCode}
+                            value={areaId}
                             onChange={e => handleAreaChange(day, e.target.value)}
+                            disabled={isClosed}
                             className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
                             title={isMarathi ? 'क्षेत्र निवडा' : 'Select Area'}
                           >
@@ -380,6 +786,34 @@ const GroupAttendance: React.FC = () => {
                             ))}
                           </select>
                         </div>
+                        {/* Per-worker activity/area */}
+                        <button
+                          onClick={() => openAssignModal(day)}
+                          className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded hover:bg-sky-100 ${overrideCount || segmentCount ? 'text-sky-700 bg-sky-50' : 'text-slate-300'}`}
+                          title={segmentCount
+                            ? getDaySegments(day).map(s => [getActivityShortName(s.activityId || ''), getAreaShortName(s.areaId || ''), s.share].filter(Boolean).join(' ')).join(' | ')
+                            : (isMarathi ? 'कामगारांचे वेगळे कार्य/क्षेत्र किंवा पाळ्या' : 'Split workers or the day across activities/areas')}
+                        >
+                          {segmentCount ? `${segmentCount}×` : overrideCount || <Split size={12} className="mx-auto" />}
+                        </button>
+                        {/* Contractor gangs */}
+                        <button
+                          onClick={() => openGangModal(day)}
+                          className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded hover:bg-orange-100 ${gangHeadcount ? 'text-orange-700 bg-orange-50' : 'text-slate-300'}`}
+                          title={isMarathi ? 'ठेकेदाराची टोळी' : 'Contractor gangs'}
+                        >
+                          {gangHeadcount || <HardHat size={12} className="mx-auto" />}
+                        </button>
+                        {/* Piece-rate output */}
+                        {isPieceRate && (
+                          <button
+                            onClick={() => openQuantityModal(day)}
+                            className={`text-[10px] sm:text-xs font-semibold px-0.5 py-0.5 rounded hover:bg-purple-100 ${dayOutput ? 'text-purple-700 bg-purple-50' : 'text-slate-400'}`}
+                            title={isMarathi ? 'उत्पादन भरा' : 'Enter output'}
+                          >
+                            {dayOutput || <Scale size={12} className="mx-auto" />}
+                          </button>
+                        )}
                       </div>
                     </th>
                   );
@@ -406,23 +840,31 @@ const GroupAttendance: React.FC = () => {
                       {days.map(day => {
                         const status = getAttendanceStatus(worker.id, day);
                         const exceeded = hasExceededLimit(worker.id, day);
+                        const overridden = isWorkerOverridden(worker.id, day);
+                        const assignment = overridden ? getWorkerAssignment(worker.id, day) : {};
                         return (
                           <td key={day} className="py-0.5 px-0.5">
                             <button
                               onClick={() => cycleAttendance(worker.id, day)}
-                              className={`w-full h-7 sm:h-8 rounded text-[10px] sm:text-xs font-medium transition-colors ${getStatusClass(status)} ${exceeded ? 'ring-2 ring-red-500' : ''}`}
-                              title={exceeded ? (isMarathi ? 'दैनिक मर्यादा ओलांडली!' : 'Exceeds daily limit!') : ''}
+                              disabled={isClosed}
+                              className={`relative w-full h-7 sm:h-8 rounded text-[10px] sm:text-xs font-medium transition-colors ${getStatusClass(status)} ${exceeded ? 'ring-2 ring-red-500' : ''}`}
+                              title={exceeded
+                                ? (isMarathi ? 'दैनिक मर्यादा ओलांडली!' : 'Exceeds daily limit!')
+                                : overridden ? [getActivityShortName(assignment.activityId || ''), getAreaShortName(assignment.areaId || '')].filter(Boolean).join(' · ') : ''}
                             >
                               {status || '-'}
+                              {overridden && (
+                                <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-sky-500" />
+                              )}
                             </button>
                           </td>
                         );
                       })}
-                      <td className="py-1.5 px-1 sm:px-2 text-center font-medium text-slate-700 text-xs sm:text-sm">
-                        {totals.daysWorked}
-                        {totals.halfDays > 0 && (
-                          <span className="text-[10px] sm:text-xs text-slate-500">+{totals.halfDays}H</span>
-                        )}
+                      <td
+                        className="py-1.5 px-1 sm:px-2 text-center font-medium text-slate-700 text-xs sm:text-sm"
+                        title={totals.summary}
+                      >
+                        {totals.totalDays}
                       </td>
                     </tr>
                   );
@@ -435,24 +877,169 @@ const GroupAttendance: React.FC = () => {
 
       {/* Legend */}
       <div className="mt-4 flex flex-wrap gap-4 text-sm">
-        <div className="flex items-center gap-2">
-          <span className="w-6 h-6 rounded bg-green-100 text-green-700 flex items-center justify-center text-xs font-medium">P</span>
-          <span className="text-slate-600">{t('present')}</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <span className="w-6 h-6 rounded bg-red-100 text-red-700 flex items-center justify-center text-xs font-medium">A</span>
-          <span className="text-slate-600">{t('absent')}</span>
-        </div>
-        <div className="flex items-center gap-2">
-          <span className="w-6 h-6 rounded bg-yellow-100 text-yellow-700 flex items-center justify-center text-xs font-medium">H</span>
-          <span className="text-slate-600">{t('halfDay')}</span>
-        </div>
+        {attendanceCodes.map(code => (
+          <div key={code.id} className="flex items-center gap-2">
+            <span className={`min-w-6 h-6 px-1 rounded flex items-center justify-center text-xs font-medium ${attendanceColorClasses[code.color].badge}`}>
+              {code.code}
+            </span>
+            <span className="text-slate-600">{isMarathi && code.marathiLabel ? code.marathiLabel : code.label}</span>
+          </div>
+        ))}
         <div className="flex items-center gap-2">
           <span className="w-6 h-6 rounded ring-2 ring-red-500 flex items-center justify-center text-xs font-medium text-slate-400">!</span>
           <span className="text-slate-600">{isMarathi ? 'मर्यादा ओलांडली' : 'Exceeds limit'}</span>
         </div>
+        <div className="flex items-center gap-2">
+          <span className="relative w-6 h-6 rounded bg-slate-100">
+            <span className="absolute top-0.5 right-0.5 w-1.5 h-1.5 rounded-full bg-sky-500" />
+          </span>
+          <span className="text-slate-600">{isMarathi ? 'वेगळे कार्य/क्षेत्र' : 'Own activity/area'}</span>
+        </div>
       </div>
 
+      {/* Bulk Attendance Modal */}
+      <Modal
+        isOpen={bulkOpen}
+        onClose={() => setBulkOpen(false)}
+        title={isMarathi ? 'एकत्र हजेरी' : 'Bulk Attendance'}
+      >
+        <div className="space-y-4">
+          <Select
+            label={isMarathi ? 'काय करायचे' : 'Action'}
+            value={bulkAction}
+            onChange={e => setBulkAction(e.target.value as typeof bulkAction)}
+            options={[
+              { value: 'present', label: isMarathi ? 'संपूर्ण दिवस हजर' : 'Mark the whole day present' },
+              { value: 'copy', label: isMarathi ? 'आदल्या दिवसाची हजेरी कॉपी करा' : 'Copy the previous day' },
+              { value: 'range', label: isMarathi ? 'तारखांच्या कालावधीत भरा' : 'Fill a date range' },
+              { value: 'pattern', label: isMarathi ? 'मागील आठवड्याप्रमाणे भरा' : "Apply last week's pattern" },
+            ]}
+          />
+
+          <div className="flex gap-3">
+            <Select
+              label={bulkAction === 'range' || bulkAction === 'pattern' ? (isMarathi ? 'पासून' : 'From') : (isMarathi ? 'दिवस' : 'Day')}
+              value={String(bulkFrom)}
+              onChange={e => {
+                const day = Number(e.target.value);
+                setBulkFrom(day);
+                if (bulkTo < day) setBulkTo(day);
+              }}
+              options={days.map(day => ({
+                value: String(day),
+                label: format(parseISO(`${currentMonth}-${day.toString().padStart(2, '0')}`), 'dd MMM, EEE'),
+              }))}
+            />
+            {(bulkAction === 'range' || bulkAction === 'pattern') && (
+              <Select
+                label={isMarathi ? 'पर्यंत' : 'To'}
+                value={String(bulkTo)}
+                onChange={e => setBulkTo(Number(e.target.value))}
+                options={days.filter(day => day >= bulkFrom).map(day => ({
+                  value: String(day),
+                  label: format(parseISO(`${currentMonth}-${day.toString().padStart(2, '0')}`), 'dd MMM, EEE'),
+                }))}
+              />
+            )}
+          </div>
+
+          {bulkAction === 'range' && (
+            <Select
+              label={isMarathi ? 'हजेरी' : 'Mark'}
+              value={bulkStatus}
+              onChange={e => setBulkStatus(e.target.value)}
+              options={attendanceCodes.map(code => ({
+                value: code.code,
+                label: `${code.code} - ${isMarathi && code.marathiLabel ? code.marathiLabel : code.label}`,
+              }))}
+            />
+          )}
+
+          {bulkAction === 'copy' && (
+            <p className="text-xs text-slate-500">
+              {isMarathi
+                ? 'आदल्या दिवसाची हजेरी, कार्य व क्षेत्र कॉपी होईल.'
+                : "Copies the previous day's marks, activity and area."}
+            </p>
+          )}
+          {bulkAction === 'pattern' && (
+            <p className="text-xs text-slate-500">
+              {isMarathi
+                ? 'प्रत्येक दिवसासाठी सात दिवस आधीची हजेरी, कार्य व क्षेत्र कॉपी होईल.'
+                : 'Each day copies the marks, activity and area of the same weekday a week earlier.'}
+            </p>
+          )}
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <span className="text-sm font-medium text-slate-700">{t('workers')}</span>
+              <div className="flex gap-3 text-sm">
+                <button type="button" onClick={() => setBulkWorkerIds(groupWorkers.map(w => w.id))} className="text-graminno-600 hover:text-graminno-700">
+                  {t('all')}
+                </button>
+                <button type="button" onClick={() => setBulkWorkerIds([])} className="text-graminno-600 hover:text-graminno-700">
+                  {isMarathi ? 'काहीही नाही' : 'None'}
+                </button>
+              </div>
+            </div>
+            <div className="max-h-60 overflow-y-auto space-y-1">
+              {groupWorkers.map(worker => (
+                <label
+                  key={worker.id}
+                  className={`flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer transition-colors ${
+                    bulkWorkerIds.includes(worker.id)
+                      ? 'bg-graminno-50 border border-graminno-200'
+                      : 'bg-slate-50 border border-slate-200 hover:bg-slate-100'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={bulkWorkerIds.includes(worker.id)}
+                    onChange={() => toggleBulkWorker(worker.id)}
+                    className="w-4 h-4 rounded border-slate-300 text-graminno-600 focus:ring-graminno-500"
+                  />
+                  <span className="text-sm text-slate-800">{getWorkerDisplayName(worker)}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={bulkOverwrite}
+              onChange={e => setBulkOverwrite(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-graminno-600 focus:ring-graminno-500"
+            />
+            {isMarathi ? 'आधी भरलेली हजेरी बदला' : 'Replace marks already entered'}
+          </label>
+
+          {bulkResult && (
+            <div className="text-sm bg-slate-50 rounded-lg p-3 space-y-1">
+              <div className="text-slate-700">
+                {bulkResult.marked} {isMarathi ? 'नोंदी भरल्या जातील' : 'cells will be marked'}
+              </div>
+              {bulkResult.skipped > 0 && (
+                <div className="text-red-600">
+                  {bulkResult.skipped} {isMarathi
+                    ? 'नोंदी वगळल्या: कामगार दुसऱ्या गटात आधीच पूर्ण दिवस आहे'
+                    : 'skipped: the worker already has a full day in another group'}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <Button variant="secondary" onClick={() => setBulkOpen(false)} className="flex-1">
+              {t('cancel')}
+            </Button>
+            <Button onClick={applyBulk} className="flex-1" disabled={!bulkResult || bulkResult.updates.length === 0}>
+              {t('save')}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
       {/* Group Worker Selection Modal */}
       <Modal
         isOpen={groupWorkerModalOpen}
@@ -510,6 +1097,354 @@ const GroupAttendance: React.FC = () => {
           </div>
         </div>
       </Modal>
+
+      {/* Piece-rate Output Modal */}
+      <Modal
+        isOpen={quantityDay !== null}
+        onClose={() => setQuantityDay(null)}
+        title={quantityDay !== null
+          ? `${isMarathi ? 'उत्पादन' : 'Output'} · ${format(parseISO(`${currentMonth}-${quantityDay.toString().padStart(2, '0')}`), 'dd MMM')}`
+          : ''}
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">
+            {isMarathi
+              ? 'प्रत्येक कामगाराचे उत्पादन. नगावरील कामासाठी रोजंदारीऐवजी उत्पादनानुसार मजुरी दिली जाते.'
+              : 'Output per worker. Piece-rate work pays by output instead of the day wage.'}
+          </p>
+
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {(quantityDay !== null ? getPieceRateWorkers(quantityDay) : []).map(worker => (
+              <div key={worker.id} className="flex items-center gap-3">
+                <div className="flex-1 font-medium text-slate-800 truncate">{getWorkerDisplayName(worker)}</div>
+                <span className="text-sm text-slate-500">
+                  {quantityDay !== null && getUnitName(getWorkerPieceActivity(worker.id, quantityDay)?.id)}
+                </span>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  inputMode="decimal"
+                  value={quantityDraft[worker.id] || ''}
+                  onChange={e => setQuantityDraft(prev => ({ ...prev, [worker.id]: e.target.value }))}
+                  disabled={isClosed}
+                  className="w-28 px-3 py-2 border border-slate-300 rounded-lg text-right focus:outline-none focus:ring-2 focus:ring-graminno-500"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-3 pt-2">
+            <Button variant="secondary" onClick={() => setQuantityDay(null)} className="flex-1">
+              {t('cancel')}
+            </Button>
+            <Button onClick={saveQuantities} disabled={isClosed} className="flex-1">
+              {t('save')}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Per-worker Activity/Area Modal */}
+      <Modal
+        isOpen={assignDay !== null}
+        onClose={() => setAssignDay(null)}
+        title={assignDay !== null
+          ? `${isMarathi ? 'कामाची विभागणी' : 'Split Work'} · ${format(parseISO(`${currentMonth}-${assignDay.toString().padStart(2, '0')}`), 'dd MMM')}`
+          : ''}
+      >
+        <div className="space-y-4">
+          <div className="flex rounded-lg bg-slate-100 p-1 text-sm font-medium">
+            {(['workers', 'segments'] as const).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setAssignMode(mode)}
+                className={`flex-1 py-1.5 rounded-md transition-colors ${assignMode === mode ? 'bg-white shadow-sm text-slate-800' : 'text-slate-500'}`}
+              >
+                {mode === 'workers'
+                  ? (isMarathi ? 'कामगार' : 'Workers')
+                  : (isMarathi ? 'पाळ्या' : 'Segments')}
+              </button>
+            ))}
+          </div>
+
+          {assignMode === 'segments' ? (
+            <>
+              <p className="text-sm text-slate-600">
+                {isMarathi
+                  ? 'दिवस भागांत विभागा: प्रत्येक भागाचे कार्य, क्षेत्र आणि तास. मजुरी तासांच्या प्रमाणात विभागली जाते.'
+                  : 'Split the day into segments, each with its own activity, area and hours. Wages are divided in proportion to the hours.'}
+              </p>
+
+              <div className="max-h-80 overflow-y-auto space-y-3">
+                {segmentDraft.map((segment, index) => (
+                  <div key={segment.id} className="p-3 rounded-lg bg-slate-50 border border-slate-200 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-semibold text-slate-500">{index + 1}</span>
+                      <Select
+                        value={segment.activityId || ''}
+                        onChange={e => updateSegment(segment.id, { activityId: e.target.value })}
+                        options={getActivityOptions()}
+                        className="flex-1"
+                      />
+                      <Select
+                        value={segment.areaId || ''}
+                        onChange={e => updateSegment(segment.id, { areaId: e.target.value })}
+                        options={getAreaOptions()}
+                        className="flex-1"
+                      />
+                      <button
+                        onClick={() => setSegmentDraft(prev => prev.filter(s => s.id !== segment.id))}
+                        className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 size={16} className="text-red-500" />
+                      </button>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.5"
+                        inputMode="decimal"
+                        value={segment.share || ''}
+                        onChange={e => updateSegment(segment.id, { share: parseFloat(e.target.value) || 0 })}
+                        className="w-24"
+                      />
+                      <span className="text-xs text-slate-500">{isMarathi ? 'तास' : 'hours'}</span>
+                      <button
+                        onClick={() => setSegmentWorkersOpen(segmentWorkersOpen === segment.id ? null : segment.id)}
+                        className="ml-auto text-xs text-sky-700 hover:underline"
+                      >
+                        {segment.workerIds
+                          ? `${segment.workerIds.length} ${isMarathi ? 'कामगार' : 'workers'}`
+                          : (isMarathi ? 'सर्व कामगार' : 'All workers')}
+                      </button>
+                    </div>
+                    {segmentWorkersOpen === segment.id && (
+                      <div className="max-h-40 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100 bg-white">
+                        {groupWorkers.map(worker => (
+                          <label key={worker.id} className="flex items-center gap-2 px-3 py-2 text-sm text-slate-700 cursor-pointer">
+                            <input
+                              type="checkbox"
+                              checked={!segment.workerIds || segment.workerIds.includes(worker.id)}
+                              onChange={() => toggleSegmentWorker(segment, worker.id)}
+                              className="rounded border-slate-300 text-graminno-600 focus:ring-graminno-500"
+                            />
+                            {getWorkerDisplayName(worker)}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              <Button variant="ghost" onClick={addSegment} disabled={isClosed} className="w-full">
+                <Plus size={16} />
+                {isMarathi ? 'भाग जोडा' : 'Add segment'}
+              </Button>
+
+              <div className="flex gap-3 pt-2">
+                <Button variant="secondary" onClick={() => setAssignDay(null)} className="flex-1">
+                  {t('cancel')}
+                </Button>
+                <Button onClick={saveSegments} disabled={isClosed} className="flex-1">
+                  {t('save')}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <>
+              {assignDay !== null && getDaySegments(assignDay).length > 0 && (
+                <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-2">
+                  {isMarathi
+                    ? 'हा दिवस भागांत विभागलेला आहे; कामगारांचे वेगळे कार्य/क्षेत्र भाग काढल्यावरच लागू होईल.'
+                    : 'This day is split into segments; per-worker changes only apply once the segments are removed.'}
+                </p>
+              )}
+              <p className="text-sm text-slate-600">
+                {isMarathi
+                  ? 'कामगार निवडा आणि त्यांचे कार्य व क्षेत्र लावा. बाकीचे गटाच्या कार्य/क्षेत्रावर राहतात.'
+                  : 'Pick workers and set their activity and area. Everyone else stays on the group\'s.'}
+              </p>
+
+              <div className="grid grid-cols-2 gap-3">
+                <Select
+                  label={isMarathi ? 'कार्य' : 'Activity'}
+                  value={assignActivityId}
+                  onChange={e => setAssignActivityId(e.target.value)}
+                  options={getActivityOptions()}
+                />
+                <Select
+                  label={isMarathi ? 'क्षेत्र' : 'Area'}
+                  value={assignAreaId}
+                  onChange={e => setAssignAreaId(e.target.value)}
+                  options={getAreaOptions()}
+                />
+              </div>
+
+              <div className="max-h-72 overflow-y-auto space-y-2">
+                {groupWorkers.map(worker => {
+                  const assignment = assignDay !== null ? getWorkerAssignment(worker.id, assignDay) : {};
+                  const overridden = assignDay !== null && isWorkerOverridden(worker.id, assignDay);
+                  return (
+                    <label
+                      key={worker.id}
+                      className={`flex items-center gap-3 p-3 rounded-lg cursor-pointer transition-colors ${
+                        assignWorkerIds.includes(worker.id)
+                          ? 'bg-graminno-50 border border-graminno-200'
+                          : 'bg-slate-50 border border-slate-200 hover:bg-slate-100'
+                      }`}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={assignWorkerIds.includes(worker.id)}
+                        onChange={() => toggleAssignWorker(worker.id)}
+                        className="w-5 h-5 rounded border-slate-300 text-graminno-600 focus:ring-graminno-500"
+                      />
+                      <div className="flex-1 font-medium text-slate-800 truncate">{getWorkerDisplayName(worker)}</div>
+                      <span className={`text-xs font-mono ${overridden ? 'text-sky-700' : 'text-slate-400'}`}>
+                        {[getActivityShortName(assignment.activityId || ''), getAreaShortName(assignment.areaId || '')].filter(Boolean).join(' · ') || '-'}
+                      </span>
+                    </label>
+                  );
+                })}
+              </div>
+
+              <div className="flex gap-3 pt-2">
+                <Button variant="secondary" onClick={() => applyAssignment(true)} disabled={isClosed || assignWorkerIds.length === 0} className="flex-1">
+                  {isMarathi ? 'गटाप्रमाणे' : 'Same as group'}
+                </Button>
+                <Button onClick={() => applyAssignment(false)} disabled={isClosed || assignWorkerIds.length === 0} className="flex-1">
+                  {isMarathi ? 'लावा' : 'Apply'} ({assignWorkerIds.length})
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </Modal>
+
+      {/* Contractor Gangs Modal */}
+      <Modal
+        isOpen={gangDay !== null}
+        onClose={() => setGangDay(null)}
+        title={gangDay !== null
+          ? `${isMarathi ? 'ठेकेदार टोळी' : 'Contractor Gangs'} · ${format(parseISO(`${currentMonth}-${gangDay.toString().padStart(2, '0')}`), 'dd MMM')}`
+          : ''}
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">
+            {isMarathi
+              ? 'ठेकेदाराने आणलेल्या मजुरांची संख्या, हजेरी कोड आणि प्रति व्यक्ती दर. टोळी गटाच्या कार्य/क्षेत्रावर मोजली जाते.'
+              : 'Headcount, attendance code and rate per person for each contractor\'s gang. Gangs count on the group\'s activity and area.'}
+          </p>
+
+          {contractors.length === 0 ? (
+            <p className="text-sm text-amber-700 bg-amber-50 rounded-lg p-2">
+              {isMarathi
+                ? 'आधी प्रशासन → ठेकेदार मध्ये ठेकेदार जोडा.'
+                : 'Add contractors first under Admin → Contractors.'}
+            </p>
+          ) : (
+            <>
+              <div className="max-h-80 overflow-y-auto space-y-3">
+                {gangDraft.map(gang => (
+                  <div key={gang.id} className="p-3 rounded-lg bg-slate-50 border border-slate-200 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Select
+                        value={gang.contractorId}
+                        onChange={e => changeGangContractor(gang.id, e.target.value)}
+                        options={contractors.map(c => ({
+                          value: c.id,
+                          label: isMarathi && c.marathiName ? c.marathiName : c.name,
+                        }))}
+                        className="flex-1"
+                      />
+                      <button
+                        onClick={() => setGangDraft(prev => prev.filter(g => g.id !== gang.id))}
+                        className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 size={16} className="text-red-500" />
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-3 gap-2">
+                      <Input
+                        label={isMarathi ? 'संख्या' : 'Headcount'}
+                        type="number"
+                        min="0"
+                        step="1"
+                        inputMode="numeric"
+                        value={gang.headcount || ''}
+                        onChange={e => updateGang(gang.id, { headcount: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                      />
+                      <Select
+                        label={isMarathi ? 'हजेरी' : 'Attendance'}
+                        value={gang.status}
+                        onChange={e => updateGang(gang.id, { status: e.target.value })}
+                        options={attendanceCodes.map(c => ({
+                          value: c.code,
+                          label: `${c.code} - ${isMarathi && c.marathiLabel ? c.marathiLabel : c.label}`,
+                        }))}
+                      />
+                      <Input
+                        label={isMarathi ? 'दर (₹)' : 'Rate (₹)'}
+                        type="number"
+                        min="0"
+                        inputMode="decimal"
+                        value={gang.rate || ''}
+                        onChange={e => updateGang(gang.id, { rate: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <Button variant="ghost" onClick={addGang} disabled={isClosed} className="w-full">
+                <Plus size={16} />
+                {isMarathi ? 'टोळी जोडा' : 'Add gang'}
+              </Button>
+            </>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <Button variant="secondary" onClick={() => setGangDay(null)} className="flex-1">
+              {t('cancel')}
+            </Button>
+            <Button onClick={saveGangs} disabled={isClosed || contractors.length === 0} className="flex-1">
+              {t('save')}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Reopen Month Modal */}
+      <Modal
+        isOpen={reopenModalOpen}
+        onClose={() => setReopenModalOpen(false)}
+        title={isMarathi ? 'महिना पुन्हा उघडा' : 'Reopen Month'}
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-slate-600">
+            {isMarathi
+              ? 'गोठवलेली शिल्लक काढली जाईल आणि हजेरी पुन्हा बदलता येईल.'
+              : 'The frozen balance is discarded and attendance can be edited again.'}
+          </p>
+          <Input
+            label={isMarathi ? 'कारण' : 'Reason'}
+            value={reopenReason}
+            onChange={e => setReopenReason(e.target.value)}
+            required
+          />
+          <div className="flex gap-3 pt-2">
+            <Button variant="secondary" onClick={() => setReopenModalOpen(false)} className="flex-1">
+              {t('cancel')}
+            </Button>
+            <Button onClick={handleReopenMonth} disabled={!reopenReason.trim()} className="flex-1">
+              {isMarathi ? 'उघडा' : 'Reopen'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
     </div>
   );
 };
@@ -0,0 +1,284 @@
+import React, { useState, useMemo } from 'react';
+import { useApp } from '../context/AppContext';
+import { useTranslation } from '../data/translations';
+import PageHeader from '../components/layout/PageHeader';
+import Button from '../components/ui/Button';
+import Select from '../components/ui/Select';
+import type { AuditEntity, AuditEntry, AuditValue } from '../types';
+import { History as HistoryIcon, ArrowRight, Smartphone } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+const PAGE_SIZE = 100; // Entries shown before "Show more"
+
+const History: React.FC = () => {
+  const { data, settings } = useApp();
+  const t = useTranslation(settings.language);
+  const isMarathi = settings.language === 'mr';
+
+  const [workerId, setWorkerId] = useState('');
+  const [month, setMonth] = useState('');
+  const [groupId, setGroupId] = useState('');
+  const [entity, setEntity] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const entityLabels: Record<AuditEntity, string> = {
+    worker: t('worker'),
+    area: isMarathi ? 'क्षेत्र' : 'Area',
+    activity: isMarathi ? 'काम' : 'Activity',
+    group: isMarathi ? 'गट' : 'Group',
+    attendanceCode: isMarathi ? 'हजेरी कोड' : 'Attendance Code',
+    expenseCategory: isMarathi ? 'खर्च प्रकार' : 'Expense Type',
+    expense: isMarathi ? 'खर्च' : 'Expense',
+    payment: isMarathi ? 'पेमेंट' : 'Payment',
+    workerLedger: isMarathi ? 'मजूर खाते' : 'Worker Ledger',
+    month: isMarathi ? 'महिना' : 'Month',
+    monthGroup: isMarathi ? 'महिन्याचा गट' : 'Month Group',
+    day: isMarathi ? 'दिवसाचे काम' : 'Day Work',
+    attendance: isMarathi ? 'हजेरी' : 'Attendance',
+    closure: isMarathi ? 'महिना बंद' : 'Month Close',
+    user: isMarathi ? 'वापरकर्ता' : 'User',
+    contractor: isMarathi ? 'ठेकेदार' : 'Contractor',
+  };
+
+  const actionLabels = {
+    create: isMarathi ? 'जोडले' : 'Added',
+    update: isMarathi ? 'बदलले' : 'Changed',
+    delete: isMarathi ? 'काढले' : 'Deleted',
+  };
+
+  const getWorkerName = (id?: string): string => {
+    if (!id) return '-';
+    const worker = data.workers.find(w => w.id === id);
+    if (!worker) return '-';
+    return isMarathi && worker.marathiName ? worker.marathiName : worker.name;
+  };
+
+  const getGroupName = (id?: string): string => {
+    if (!id) return '-';
+    const group = (data.groups || []).find(g => g.id === id);
+    if (!group) return '-';
+    return isMarathi && group.marathiName ? group.marathiName : group.name;
+  };
+
+  const getActivityCode = (id: string): string => {
+    const activity = data.activities.find(a => a.id === id);
+    if (!activity) return id;
+    return isMarathi && activity.marathiCode ? activity.marathiCode : activity.code;
+  };
+
+  const getAreaCode = (id: string): string => {
+    const area = data.areas.find(a => a.id === id);
+    if (!area) return id;
+    return isMarathi && area.marathiCode ? area.marathiCode : area.code;
+  };
+
+  // What the entry is about, e.g. "Ramesh · 12 Dec" for an attendance cell
+  const getSubject = (entry: AuditEntry): string => {
+    const find = <T extends { id: string }>(items: T[] | undefined) => (items || []).find(i => i.id === entry.entityId);
+    switch (entry.entity) {
+      case 'worker':
+        return getWorkerName(entry.entityId);
+      case 'group':
+      case 'monthGroup':
+        return getGroupName(entry.groupId);
+      case 'area': {
+        const area = find(data.areas);
+        return area ? (isMarathi && area.marathiName ? area.marathiName : area.name) : '-';
+      }
+      case 'activity': {
+        const activity = find(data.activities);
+        return activity ? (isMarathi && activity.marathiName ? activity.marathiName : activity.name) : '-';
+      }
+      case 'attendanceCode':
+        return find(data.attendanceCodes)?.code || '-';
+      case 'expenseCategory': {
+        const category = find(data.expenseCategories);
+        return category ? (isMarathi && category.marathiName ? category.marathiName : category.name) : '-';
+      }
+      case 'expense':
+        return find(data.expenses)?.description || '-';
+      case 'payment':
+      case 'workerLedger':
+        return entry.workerId ? getWorkerName(entry.workerId) : getGroupName(entry.groupId);
+      case 'month':
+        return entry.entityId;
+      case 'day':
+        return `${getGroupName(entry.groupId)} · ${entry.date ? format(parseISO(entry.date), 'dd MMM') : ''}`;
+      case 'attendance':
+        return `${getWorkerName(entry.workerId)} · ${entry.date ? format(parseISO(entry.date), 'dd MMM') : ''}`;
+      case 'closure':
+        return `${getGroupName(entry.groupId)} · ${entry.month || ''}`;
+      case 'user':
+        return find(data.users)?.name || '-';
+      case 'contractor': {
+        const contractor = find(data.contractors);
+        return contractor ? (isMarathi && contractor.marathiName ? contractor.marathiName : contractor.name) : '-';
+      }
+    }
+  };
+
+  const formatValue = (entry: AuditEntry, value: AuditValue | undefined): string => {
+    if (value === null || value === undefined) return '—';
+    if (entry.field === 'workerIds') {
+      return value ? (isMarathi ? 'सदस्य' : 'Member') : (isMarathi ? 'नाही' : 'Not a member');
+    }
+    if (entry.field === 'closed') {
+      return value ? (isMarathi ? 'बंद' : 'Closed') : (isMarathi ? 'उघडा' : 'Open');
+    }
+    // Days reference activities and areas by id; show their current codes
+    if (entry.field === 'activityId') return getActivityCode(String(value));
+    if (entry.field === 'areaId') return getAreaCode(String(value));
+    if (entry.field === 'segments') {
+      return String(value).split(', ').map(part => {
+        const [ids, share] = part.split(' ');
+        const [activityId, areaId] = ids.split('/');
+        return `${getActivityCode(activityId)}/${getAreaCode(areaId)} ${share}`;
+      }).join(', ');
+    }
+    if (entry.field === 'gangs') {
+      return String(value).split(', ').map(part => {
+        const [contractorId, headcount, code, rate] = part.split(' ');
+        const contractor = (data.contractors || []).find(c => c.id === contractorId);
+        const name = contractor ? (isMarathi && contractor.marathiName ? contractor.marathiName : contractor.name) : contractorId;
+        return `${name} ${headcount}×${code} @${rate}`;
+      }).join(', ');
+    }
+    return String(value);
+  };
+
+  // Newest first
+  const entries = useMemo(
+    () => [...(data.auditLog || [])].sort((a, b) => b.timestamp.localeCompare(a.timestamp)),
+    [data.auditLog]
+  );
+
+  const filteredEntries = useMemo(() =>
+    entries.filter(entry =>
+      (!workerId || entry.workerId === workerId) &&
+      (!month || entry.month === month || (!entry.month && entry.timestamp.startsWith(month))) &&
+      (!groupId || entry.groupId === groupId) &&
+      (!entity || entry.entity === entity)
+    ),
+    [entries, workerId, month, groupId, entity]
+  );
+
+  const monthOptions = useMemo(() => {
+    const months = new Set<string>();
+    for (const m of data.months) months.add(m.month);
+    for (const entry of entries) months.add(entry.month || entry.timestamp.slice(0, 7));
+    return [...months].sort().reverse();
+  }, [data.months, entries]);
+
+  const workerOptions = [...data.workers].sort((a, b) => a.name.localeCompare(b.name));
+  const groupOptions = (data.groups || []).filter(g => !g.deleted);
+
+  const resetPaging = () => setVisibleCount(PAGE_SIZE);
+
+  return (
+    <div className="pb-20 lg:pb-0">
+      <PageHeader
+        title={isMarathi ? 'बदलांचा इतिहास' : 'Change History'}
+        subtitle={isMarathi
+          ? `${filteredEntries.length} नोंदी`
+          : `${filteredEntries.length} change${filteredEntries.length === 1 ? '' : 's'}`}
+      />
+
+      {/* Filters */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100 mb-4 grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Select
+          label={t('worker')}
+          value={workerId}
+          onChange={e => { setWorkerId(e.target.value); resetPaging(); }}
+          options={[
+            { value: '', label: isMarathi ? 'सर्व मजूर' : 'All workers' },
+            ...workerOptions.map(w => ({ value: w.id, label: isMarathi && w.marathiName ? w.marathiName : w.name })),
+          ]}
+        />
+        <Select
+          label={isMarathi ? 'महिना' : 'Month'}
+          value={month}
+          onChange={e => { setMonth(e.target.value); resetPaging(); }}
+          options={[
+            { value: '', label: isMarathi ? 'सर्व महिने' : 'All months' },
+            ...monthOptions.map(m => ({ value: m, label: format(parseISO(`${m}-01`), 'MMMM yyyy') })),
+          ]}
+        />
+        <Select
+          label={isMarathi ? 'गट' : 'Group'}
+          value={groupId}
+          onChange={e => { setGroupId(e.target.value); resetPaging(); }}
+          options={[
+            { value: '', label: isMarathi ? 'सर्व गट' : 'All groups' },
+            ...groupOptions.map(g => ({ value: g.id, label: isMarathi && g.marathiName ? g.marathiName : g.name })),
+          ]}
+        />
+        <Select
+          label={isMarathi ? 'प्रकार' : 'Type'}
+          value={entity}
+          onChange={e => { setEntity(e.target.value); resetPaging(); }}
+          options={[
+            { value: '', label: isMarathi ? 'सर्व प्रकार' : 'All types' },
+            ...(Object.keys(entityLabels) as AuditEntity[]).map(key => ({ value: key, label: entityLabels[key] })),
+          ]}
+        />
+      </div>
+
+      {/* Entries */}
+      {filteredEntries.length === 0 ? (
+        <div className="bg-white rounded-xl p-8 shadow-sm border border-slate-100 text-center text-slate-500">
+          <HistoryIcon size={40} className="mx-auto mb-2 text-slate-300" />
+          {isMarathi ? 'कोणतेही बदल नोंदलेले नाहीत' : 'No changes recorded'}
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-100 divide-y divide-slate-100 mb-4">
+          {filteredEntries.slice(0, visibleCount).map(entry => (
+            <div key={entry.id} className="p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs font-medium px-2 py-0.5 rounded bg-slate-100 text-slate-600">
+                    {entityLabels[entry.entity]}
+                  </span>
+                  <span className="font-medium text-slate-800">{getSubject(entry)}</span>
+                </div>
+                <span className="text-xs text-slate-500">
+                  {format(parseISO(entry.timestamp), 'dd MMM yyyy, HH:mm')}
+                </span>
+              </div>
+
+              <div className="mt-1 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+                <span>{actionLabels[entry.action]}</span>
+                {entry.field && entry.field !== 'status' && (
+                  <span className="font-mono text-xs text-slate-500">{entry.field}</span>
+                )}
+                {entry.action === 'update' && (
+                  <span className="flex items-center gap-1 min-w-0">
+                    <span className="truncate max-w-48 text-red-600 line-through">{formatValue(entry, entry.oldValue)}</span>
+                    <ArrowRight size={14} className="text-slate-400 shrink-0" />
+                    <span className="truncate max-w-48 text-green-700">{formatValue(entry, entry.newValue)}</span>
+                  </span>
+                )}
+                {entry.action === 'create' && entry.newValue !== undefined && entry.entity !== 'month' && entry.entity !== 'monthGroup' && (
+                  <span className="truncate max-w-48 text-green-700">{formatValue(entry, entry.newValue)}</span>
+                )}
+              </div>
+
+              <div className="mt-1 flex items-center gap-1 text-xs text-slate-400">
+                <Smartphone size={12} />
+                {entry.deviceName || entry.deviceId.slice(0, 8)}
+                {entry.userId && ` · ${(data.users || []).find(u => u.id === entry.userId)?.name || ''}`}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {filteredEntries.length > visibleCount && (
+        <Button variant="secondary" onClick={() => setVisibleCount(count => count + PAGE_SIZE)} className="w-full">
+          {isMarathi ? 'आणखी दाखवा' : 'Show more'}
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default History;
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useApp } from '../context/AppContext';
-import { getSyncUrl, setSyncUrl, pullData, pushData, checkServerStatus, hasDirtyFiles, clearAllDirtyFlags } from '../utils/sync';
+import { getSyncUrl, setSyncUrl, pullData, pushData, checkServerStatus, hasDirtyFiles, clearAllDirtyFlags, isDevicePaired, getDeviceRole, pairDevice } from '../utils/sync';
+import { getWorkspaces, getActiveWorkspaceId, getWorkspaceName, switchWorkspace, addWorkspace, toWorkspaceId, isValidWorkspaceId } from '../utils/workspaces';
 import Button from '../components/ui/Button';
-import { Loader2, Wifi, WifiOff, Play, Globe, AlertCircle, RefreshCw, ChevronDown, ChevronUp, Download } from 'lucide-react';
+import { Loader2, Wifi, WifiOff, Play, Globe, AlertCircle, RefreshCw, ChevronDown, ChevronUp, Download, KeyRound, ShieldCheck, Tractor, Plus } from 'lucide-react';
 
 // PWA Install prompt interface
 interface BeforeInstallPromptEvent extends Event {
@@ -13,7 +14,7 @@ interface BeforeInstallPromptEvent extends Event {
 
 const Home: React.FC = () => {
   const navigate = useNavigate();
-  const { data, importData, settings, setLanguage } = useApp();
+  const { data, mergeRemoteData, settings, setLanguage } = useApp();
   const isMarathi = settings.language === 'mr';
 
   // Get first active group for default navigation (exclude soft-deleted)
@@ -35,6 +36,20 @@ const Home: React.FC = () => {
   const [pendingChanges, setPendingChanges] = useState(false);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const [showSyncOptions, setShowSyncOptions] = useState(false);
+  const [isPaired, setIsPaired] = useState(isDevicePaired());
+  const [isPairing, setIsPairing] = useState(false);
+  const [pairingCode, setPairingCode] = useState('');
+  const [deviceName, setDeviceName] = useState('');
+
+  // Farm workspaces
+  const workspaces = getWorkspaces();
+  const activeWorkspaceId = getActiveWorkspaceId();
+  const [isAddingFarm, setIsAddingFarm] = useState(false);
+  const [farmName, setFarmName] = useState('');
+  const [farmId, setFarmId] = useState('');
+  const [farmIdEdited, setFarmIdEdited] = useState(false);
+  const newFarmId = farmIdEdited ? farmId : toWorkspaceId(farmName);
+  const farmIdTaken = workspaces.some(w => w.id === newFarmId);
 
   // PWA Install state
   const [installPrompt, setInstallPrompt] = useState<BeforeInstallPromptEvent | null>(null);
@@ -113,11 +128,40 @@ const Home: React.FC = () => {
     setServerStatus('unknown');
   };
 
+  const handlePair = async () => {
+    if (!syncUrl) {
+      setError(isMarathi ? 'कृपया सर्व्हर URL प्रविष्ट करा' : 'Please enter server URL');
+      return;
+    }
+    if (!pairingCode.trim()) {
+      setError(isMarathi ? 'कृपया जोडणी कोड प्रविष्ट करा' : 'Please enter the pairing code');
+      return;
+    }
+
+    setIsPairing(true);
+    setError(null);
+    setSyncUrl(syncUrl);
+
+    const result = await pairDevice(syncUrl, pairingCode, deviceName);
+    if (result.success) {
+      setIsPaired(true);
+      setPairingCode('');
+      setServerStatus('online');
+    } else {
+      setError(isMarathi ? `जोडणी अयशस्वी: ${result.message}` : `Pairing failed: ${result.message}`);
+    }
+    setIsPairing(false);
+  };
+
   const handleStartWithSync = async () => {
     if (!syncUrl) {
       setError(isMarathi ? 'कृपया सर्व्हर URL प्रविष्ट करा' : 'Please enter server URL');
       return;
     }
+    if (!isPaired) {
+      setError(isMarathi ? 'आधी हे डिव्हाइस सर्व्हरशी जोडा' : 'Pair this device with the server first');
+      return;
+    }
 
     setIsLoading(true);
     setError(null);
@@ -155,14 +199,9 @@ const Home: React.FC = () => {
       const result = await pullData();
 
       if (result.success && result.data) {
-        const importSuccess = importData(JSON.stringify(result.data));
-        if (importSuccess) {
-          // Clear dirty flags after importing synced data
-          clearAllDirtyFlags();
-          navigate(defaultPath);
-        } else {
-          setError(isMarathi ? 'डेटा लोड अयशस्वी' : 'Failed to load data');
-        }
+        // Merge rather than replace, so changes that failed to save above are kept (and stay dirty)
+        mergeRemoteData(result.data);
+        navigate(defaultPath);
       } else if (result.success) {
         // No data on server, just clear flags and proceed
         clearAllDirtyFlags();
@@ -178,6 +217,12 @@ const Home: React.FC = () => {
     }
   };
 
+  const handleAddFarm = () => {
+    if (!farmName.trim() || !isValidWorkspaceId(newFarmId) || farmIdTaken) return;
+    addWorkspace(farmName, newFarmId);
+    switchWorkspace(newFarmId);
+  };
+
   const handleStartOffline = () => {
     // Clear any error and proceed to attendance
     setError(null);
@@ -206,6 +251,71 @@ const Home: React.FC = () => {
           </p>
         </div>
 
+        {/* Farm Workspace */}
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-slate-700 mb-1">
+            {isMarathi ? 'शेत' : 'Farm'}
+          </label>
+          <div className="flex gap-2">
+            <div className="flex-1 relative">
+              <Tractor size={18} className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-400" />
+              <select
+                value={activeWorkspaceId}
+                onChange={e => switchWorkspace(e.target.value)}
+                className="w-full pl-10 pr-3 py-2 border border-slate-300 rounded-lg bg-white text-slate-800 focus:outline-none focus:ring-2 focus:ring-graminno-500"
+              >
+                {workspaces.map(workspace => (
+                  <option key={workspace.id} value={workspace.id}>
+                    {getWorkspaceName(workspace, isMarathi)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <button
+              onClick={() => setIsAddingFarm(!isAddingFarm)}
+              className="px-3 py-2 bg-slate-100 rounded-lg hover:bg-slate-200"
+              title={isMarathi ? 'नवीन शेत' : 'New farm'}
+            >
+              <Plus size={20} className="text-slate-600" />
+            </button>
+          </div>
+
+          {isAddingFarm && (
+            <div className="mt-2 p-3 bg-slate-50 rounded-lg space-y-2">
+              <input
+                type="text"
+                value={farmName}
+                onChange={e => setFarmName(e.target.value)}
+                placeholder={isMarathi ? 'शेताचे नाव' : 'Farm name'}
+                className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500 text-sm"
+              />
+              <div>
+                <input
+                  type="text"
+                  value={newFarmId}
+                  onChange={e => { setFarmId(e.target.value.toLowerCase()); setFarmIdEdited(true); }}
+                  placeholder={isMarathi ? 'सर्व्हर फोल्डर' : 'Server folder'}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500 text-sm font-mono"
+                />
+                <p className={`text-xs mt-1 ${newFarmId && (!isValidWorkspaceId(newFarmId) || farmIdTaken) ? 'text-red-600' : 'text-slate-400'}`}>
+                  {farmIdTaken
+                    ? (isMarathi ? 'हे शेत आधीच आहे' : 'This farm already exists')
+                    : (isMarathi
+                      ? 'इतर डिव्हाइसवर हेच फोल्डर नाव वापरा (a-z, 0-9, -)'
+                      : 'Use the same folder name on the other devices (a-z, 0-9, -)')}
+                </p>
+              </div>
+              <Button
+                onClick={handleAddFarm}
+                disabled={!farmName.trim() || !isValidWorkspaceId(newFarmId) || farmIdTaken}
+                className="w-full"
+              >
+                {isMarathi ? 'शेत तयार करा' : 'Create farm'}
+              </Button>
+            </div>
+          )}
+        </div>
+
         {/* Main Start Button - Always Available */}
         <Button
           onClick={handleStartOffline}
@@ -281,6 +391,46 @@ const Home: React.FC = () => {
                 </p>
               )}
 
+              {/* Device Pairing */}
+              {isPaired ? (
+                <p className="text-sm text-green-600 flex items-center gap-1">
+                  <ShieldCheck size={14} />
+                  {getDeviceRole() === 'admin'
+                    ? (isMarathi ? 'प्रशासक डिव्हाइस म्हणून जोडलेले' : 'Paired as admin device')
+                    : (isMarathi ? 'डिव्हाइस जोडलेले आहे' : 'Device is paired')}
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-slate-700">
+                    {isMarathi ? 'हे डिव्हाइस जोडा' : 'Pair this device'}
+                  </label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={pairingCode}
+                    onChange={e => setPairingCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    placeholder={isMarathi ? '६-अंकी जोडणी कोड' : '6-digit pairing code'}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500 text-sm tracking-widest"
+                  />
+                  <input
+                    type="text"
+                    value={deviceName}
+                    onChange={e => setDeviceName(e.target.value)}
+                    placeholder={isMarathi ? 'डिव्हाइसचे नाव (उदा. मुकादम फोन)' : 'Device name (e.g. Supervisor phone)'}
+                    className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500 text-sm"
+                  />
+                  <Button
+                    variant="secondary"
+                    onClick={handlePair}
+                    disabled={isPairing || !syncUrl || pairingCode.length !== 6}
+                    className="w-full flex items-center justify-center gap-2"
+                  >
+                    {isPairing ? <Loader2 size={18} className="animate-spin" /> : <KeyRound size={18} />}
+                    {isMarathi ? 'जोडा' : 'Pair'}
+                  </Button>
+                </div>
+              )}
+
               {/* Error Message */}
               {error && (
                 <div className="p-3 bg-red-50 text-red-700 rounded-lg text-sm">
@@ -300,7 +450,7 @@ const Home: React.FC = () => {
               <Button
                 variant="secondary"
                 onClick={handleStartWithSync}
-                disabled={isLoading || !syncUrl}
+                disabled={isLoading || !syncUrl || !isPaired}
                 className="w-full py-3 flex items-center justify-center gap-2"
               >
                 {isLoading ? (
@@ -324,6 +474,7 @@ const Home: React.FC = () => {
                 <ul className="text-xs text-slate-400 space-y-1">
                   <li>• {isMarathi ? 'प्राथमिक डिव्हाइसवर सर्व्हर चालवा' : 'Run the server on your primary device'}</li>
                   <li>• {isMarathi ? 'Tailscale/ngrok URL येथे प्रविष्ट करा' : 'Enter the Tailscale/ngrok URL here'}</li>
+                  <li>• {isMarathi ? 'सर्व्हर कन्सोल किंवा प्रशासक डिव्हाइसवरील जोडणी कोड वापरा' : 'Use the pairing code from the server console or an admin device'}</li>
                   <li>• {isMarathi ? 'बदल स्वयंचलितपणे सर्व्हरवर सेव्ह होतील' : 'Changes will auto-save to server'}</li>
                 </ul>
               </div>
@@ -9,8 +9,11 @@ import {
   calculateLabourCostByGroup,
   formatCurrency,
   formatMonthYear,
+  formatPieceQuantities,
 } from '../utils/calculations';
-import { Users2, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, IndianRupee, CheckCircle, AlertCircle, Clock } from 'lucide-react';
+import { formatStatusCounts, sumStatusCounts } from '../utils/attendanceCodes';
+import { filterApprovedAttendance } from '../utils/review';
+import { Users2, ChevronDown, ChevronUp, ChevronLeft, ChevronRight, IndianRupee, CheckCircle, AlertCircle, Clock, Lock } from 'lucide-react';
 import Button from '../components/ui/Button';
 import { parseISO } from 'date-fns';
 
@@ -21,6 +24,7 @@ const LabourCost: React.FC = () => {
 
   const [selectedMonth, setSelectedMonth] = useState(format(new Date(), 'yyyy-MM'));
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
+  const [approvedOnly, setApprovedOnly] = useState(false);
 
   // Generate month options
   const monthOptions = useMemo(() => {
@@ -47,16 +51,22 @@ const LabourCost: React.FC = () => {
     setSelectedMonth(format(date, 'yyyy-MM'));
   };
 
+  // Attendance figures can be limited to days an admin has approved
+  const reportData = useMemo(
+    () => (approvedOnly ? filterApprovedAttendance(data) : data),
+    [data, approvedOnly]
+  );
+
   // Calculate balance report with opening/closing balances
   const balanceReport = useMemo(() =>
-    calculateGroupMonthBalance(data, selectedMonth),
-    [data, selectedMonth]
+    calculateGroupMonthBalance(reportData, selectedMonth),
+    [reportData, selectedMonth]
   );
 
   // Calculate labour cost details for worker breakdown
   const labourCostData = useMemo(() =>
-    calculateLabourCostByGroup(data, selectedMonth),
-    [data, selectedMonth]
+    calculateLabourCostByGroup(reportData, selectedMonth),
+    [reportData, selectedMonth]
   );
 
   // Grand totals
@@ -115,6 +125,17 @@ const LabourCost: React.FC = () => {
       <PageHeader
         title={t('labourCost')}
         subtitle={isMarathi ? 'मासिक मजूर खर्च आणि देय रक्कम' : 'Monthly labour cost and payable amount'}
+        action={
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={approvedOnly}
+              onChange={e => setApprovedOnly(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-graminno-600 focus:ring-graminno-500"
+            />
+            {isMarathi ? 'फक्त मंजूर हजेरी' : 'Approved attendance only'}
+          </label>
+        }
       />
 
       {/* Month selector */}
@@ -271,8 +292,11 @@ const LabourCost: React.FC = () => {
                     )}
                   </div>
                   <div className="text-left">
-                    <div className="font-semibold text-slate-800">
+                    <div className="font-semibold text-slate-800 flex items-center gap-1">
                       {getGroupName(group)}
+                      {group.closed && (
+                        <Lock size={14} className="text-slate-400" aria-label={isMarathi ? 'महिना बंद' : 'Month closed'} />
+                      )}
                     </div>
                     {isMarathi && group.marathiName && (
                       <div className="text-xs text-slate-400">{group.groupName}</div>
@@ -332,16 +356,22 @@ const LabourCost: React.FC = () => {
               </button>
 
               {/* Worker details table - expandable */}
-              {isExpanded && labourData && labourData.workers.length > 0 && (
+              {isExpanded && labourData && (labourData.workers.length > 0 || labourData.gangs.length > 0) && (
                 <div className="overflow-x-auto">
                   <table className="w-full text-sm">
                     <thead className="bg-slate-50 border-b border-slate-200">
                       <tr>
                         <th className="text-left py-3 px-4 font-medium text-slate-600">{t('worker')}</th>
-                        <th className="text-center py-3 px-4 font-medium text-slate-600">{t('daysWorked')}</th>
-                        <th className="text-center py-3 px-4 font-medium text-slate-600">{t('halfDay')}</th>
+                        <th className="text-center py-3 px-4 font-medium text-slate-600">{isMarathi ? 'तपशील' : 'Breakdown'}</th>
                         <th className="text-center py-3 px-4 font-medium text-slate-600">{t('totalDays')}</th>
                         <th className="text-right py-3 px-4 font-medium text-slate-600">{t('dailyRate')}</th>
+                        {labourData.pieceWages > 0 && (
+                          <>
+                            <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'रोजंदारी' : 'Day Wages'}</th>
+                            <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'उत्पादन' : 'Output'}</th>
+                            <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'नगावर मजुरी' : 'Piece Wages'}</th>
+                          </>
+                        )}
                         <th className="text-right py-3 px-4 font-medium text-slate-600">{t('total')}</th>
                       </tr>
                     </thead>
@@ -357,32 +387,66 @@ const LabourCost: React.FC = () => {
                               <div className="text-xs text-slate-400">{worker.marathiName}</div>
                             )}
                           </td>
-                          <td className="py-3 px-4 text-center text-slate-600">{worker.daysWorked}</td>
-                          <td className="py-3 px-4 text-center text-slate-600">{worker.halfDays}</td>
+                          <td className="py-3 px-4 text-center text-slate-600">
+                            {formatStatusCounts(data.attendanceCodes, worker.statusCounts)}
+                          </td>
                           <td className="py-3 px-4 text-center font-medium text-slate-700">{worker.totalDays}</td>
                           <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(worker.dailyRate)}</td>
+                          {labourData.pieceWages > 0 && (
+                            <>
+                              <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(worker.dayWages)}</td>
+                              <td className="py-3 px-4 text-right text-slate-600">{formatPieceQuantities(worker.pieceQuantities) || '-'}</td>
+                              <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(worker.pieceWages)}</td>
+                            </>
+                          )}
                           <td className="py-3 px-4 text-right font-semibold text-slate-800">{formatCurrency(worker.totalCost)}</td>
                         </tr>
                       ))}
+                      {/* Contractor gangs, paid per head */}
+                      {labourData.gangs.map(gang => (
+                        <tr key={gang.contractorId} className="border-b border-slate-100 bg-orange-50/40">
+                          <td className="py-3 px-4">
+                            <div className="font-medium text-slate-800">
+                              {isMarathi && gang.marathiName ? gang.marathiName : gang.contractorName}
+                            </div>
+                            <div className="text-xs text-orange-600">{isMarathi ? 'ठेकेदार टोळी' : 'Contractor gang'}</div>
+                          </td>
+                          <td className="py-3 px-4 text-center text-slate-400">-</td>
+                          <td className="py-3 px-4 text-center font-medium text-slate-700">{gang.personDays}</td>
+                          <td className="py-3 px-4"></td>
+                          {labourData.pieceWages > 0 && (
+                            <>
+                              <td className="py-3 px-4"></td>
+                              <td className="py-3 px-4"></td>
+                              <td className="py-3 px-4"></td>
+                            </>
+                          )}
+                          <td className="py-3 px-4 text-right font-semibold text-slate-800">{formatCurrency(gang.totalCost)}</td>
+                        </tr>
+                      ))}
                     </tbody>
                     <tfoot className="bg-graminno-50">
                       <tr>
                         <td className="py-3 px-4 font-bold text-graminno-800">{t('groupTotal')}</td>
                         <td className="py-3 px-4 text-center font-medium text-graminno-700">
-                          {labourData.workers.reduce((sum, w) => sum + w.daysWorked, 0)}
-                        </td>
-                        <td className="py-3 px-4 text-center font-medium text-graminno-700">
-                          {labourData.workers.reduce((sum, w) => sum + w.halfDays, 0)}
+                          {formatStatusCounts(data.attendanceCodes, sumStatusCounts(labourData.workers.map(w => w.statusCounts)))}
                         </td>
                         <td className="py-3 px-4 text-center font-bold text-graminno-700">{labourData.totalDays}</td>
                         <td className="py-3 px-4"></td>
+                        {labourData.pieceWages > 0 && (
+                          <>
+                            <td className="py-3 px-4 text-right font-medium text-graminno-700">{formatCurrency(labourData.dayWages)}</td>
+                            <td className="py-3 px-4"></td>
+                            <td className="py-3 px-4 text-right font-medium text-graminno-700">{formatCurrency(labourData.pieceWages)}</td>
+                          </>
+                        )}
                         <td className="py-3 px-4 text-right font-bold text-graminno-800">{formatCurrency(labourData.totalCost)}</td>
                       </tr>
                     </tfoot>
                   </table>
                 </div>
               )}
-              {isExpanded && (!labourData || labourData.workers.length === 0) && group.expenseCost > 0 && (
+              {isExpanded && (!labourData || (labourData.workers.length === 0 && labourData.gangs.length === 0)) && group.expenseCost > 0 && (
                 <div className="p-4 text-sm text-slate-500">
                   {isMarathi ? 'या महिन्यात फक्त खर्च आहेत, मजूर नाहीत' : 'Only expenses this month, no labour costs'}
                 </div>
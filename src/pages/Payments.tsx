@@ -6,7 +6,8 @@ import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Select from '../components/ui/Select';
 import type { Payment } from '../types';
-import { Plus, Pencil, Trash2, X, Check, ChevronLeft, ChevronRight, Wallet, Briefcase } from 'lucide-react';
+import { Plus, Pencil, Trash2, X, Check, ChevronLeft, ChevronRight, Wallet, Briefcase, Lock } from 'lucide-react';
+import { isEntryLocked } from '../utils/closures';
 import { format, parseISO } from 'date-fns';
 import { formatCurrency } from '../utils/calculations';
 
@@ -26,6 +27,7 @@ const Payments: React.FC = () => {
     paymentFor: 'labour' as 'labour' | 'expense',
     groupId: '',
     expenseId: '',
+    contractorId: '',
     description: '',
     notes: '',
   });
@@ -57,6 +59,15 @@ const Payments: React.FC = () => {
     return isMarathi && group.marathiName ? group.marathiName : group.name;
   };
 
+  // Contractors a labour payment can be made to
+  const contractors = (data.contractors || []).filter(c => !c.deleted);
+
+  const getContractorName = (contractorId: string): string => {
+    const contractor = (data.contractors || []).find(c => c.id === contractorId);
+    if (!contractor) return '';
+    return isMarathi && contractor.marathiName ? contractor.marathiName : contractor.name;
+  };
+
   const getExpenseDescription = (expenseId?: string): string => {
     if (!expenseId) return '';
     const expense = (data.expenses || []).find(e => e.id === expenseId);
@@ -78,6 +89,7 @@ const Payments: React.FC = () => {
       paymentFor: 'labour',
       groupId: '',
       expenseId: '',
+      contractorId: '',
       description: '',
       notes: '',
     });
@@ -103,6 +115,7 @@ const Payments: React.FC = () => {
       paymentFor: payment.paymentFor,
       groupId: payment.groupId,
       expenseId: payment.expenseId || '',
+      contractorId: payment.contractorId || '',
       description: payment.description || '',
       notes: payment.notes || '',
     });
@@ -125,10 +138,16 @@ const Payments: React.FC = () => {
       paymentFor: formData.paymentFor,
       groupId: formData.groupId,
       expenseId: formData.paymentFor === 'expense' && formData.expenseId ? formData.expenseId : undefined,
+      contractorId: formData.paymentFor === 'labour' && formData.contractorId ? formData.contractorId : undefined,
       description: formData.description.trim() || undefined,
       notes: formData.notes.trim() || undefined,
     };
 
+    if (isEntryLocked(data, paymentData)) {
+      alert(isMarathi ? 'या गटाचा हा महिना बंद आहे' : 'This month is closed for the group');
+      return;
+    }
+
     if (editingId) {
       updatePayment(editingId, paymentData);
       setEditingId(null);
@@ -231,6 +250,24 @@ const Payments: React.FC = () => {
         </div>
       )}
 
+      {/* Paid to a labour contractor (optional) */}
+      {formData.paymentFor === 'labour' && contractors.length > 0 && (
+        <div className="mb-3">
+          <Select
+            label={isMarathi ? 'ठेकेदार (पर्यायी)' : 'Contractor (Optional)'}
+            value={formData.contractorId}
+            onChange={e => setFormData({ ...formData, contractorId: e.target.value })}
+            options={[
+              { value: '', label: isMarathi ? '-- निवडा (पर्यायी) --' : '-- Select (Optional) --' },
+              ...contractors.map(c => ({
+                value: c.id,
+                label: isMarathi && c.marathiName ? c.marathiName : c.name,
+              })),
+            ]}
+          />
+        </div>
+      )}
+
       <div className="mb-3">
         <Input
           label={isMarathi ? 'वर्णन' : 'Description'}
@@ -396,6 +433,11 @@ const Payments: React.FC = () => {
                         {payment.description && (
                           <div className="text-xs text-slate-400">{payment.description}</div>
                         )}
+                        {payment.contractorId && (
+                          <div className="text-xs text-slate-400">
+                            → {getContractorName(payment.contractorId)}
+                          </div>
+                        )}
                         {payment.expenseId && (
                           <div className="text-xs text-slate-400">
                             → {getExpenseDescription(payment.expenseId)}
@@ -409,20 +451,26 @@ const Payments: React.FC = () => {
                         {formatCurrency(payment.amount)}
                       </td>
                       <td className="py-3 px-4">
-                        <div className="flex items-center justify-center gap-2">
-                          <button
-                            onClick={() => startEdit(payment)}
-                            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
-                          >
-                            <Pencil size={16} className="text-slate-500" />
-                          </button>
-                          <button
-                            onClick={() => handleDelete(payment)}
-                            className="p-2 hover:bg-red-50 rounded-lg transition-colors"
-                          >
-                            <Trash2 size={16} className="text-red-500" />
-                          </button>
-                        </div>
+                        {isEntryLocked(data, payment) ? (
+                          <div className="flex justify-center p-2" title={isMarathi ? 'महिना बंद' : 'Month closed'}>
+                            <Lock size={16} className="text-slate-400" />
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-center gap-2">
+                            <button
+                              onClick={() => startEdit(payment)}
+                              className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                            >
+                              <Pencil size={16} className="text-slate-500" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(payment)}
+                              className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                            >
+                              <Trash2 size={16} className="text-red-500" />
+                            </button>
+                          </div>
+                        )}
                       </td>
                     </tr>
                   )}
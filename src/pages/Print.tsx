@@ -7,6 +7,7 @@ import Select from '../components/ui/Select';
 import { format } from 'date-fns';
 import { generatePrintableSheet, printSheet, exportMonthlyAttendanceToExcel } from '../utils/exporters';
 import { formatMonthYear, getDaysArrayForMonth } from '../utils/calculations';
+import { getActiveAttendanceCodes } from '../utils/attendanceCodes';
 import { Printer, FileSpreadsheet } from 'lucide-react';
 
 const Print: React.FC = () => {
@@ -38,14 +39,15 @@ const Print: React.FC = () => {
   const activeWorkers = data.workers.filter(w => w.status === 'active' && !w.deleted);
   const days = getDaysArrayForMonth(selectedMonth);
   const monthData = getMonthData(selectedMonth);
+  const attendanceCodes = getActiveAttendanceCodes(data.attendanceCodes);
 
   const handlePrint = () => {
-    const html = generatePrintableSheet(selectedMonth, activeWorkers, data.areas, data.activities, isMarathi);
+    const html = generatePrintableSheet(selectedMonth, activeWorkers, data.areas, data.activities, isMarathi, data.attendanceCodes);
     printSheet(html);
   };
 
   const handleExportExcel = () => {
-    exportMonthlyAttendanceToExcel(selectedMonth, activeWorkers, monthData);
+    exportMonthlyAttendanceToExcel(selectedMonth, activeWorkers, monthData, data.attendanceCodes, data.activities);
   };
 
   return (
@@ -98,7 +100,10 @@ const Print: React.FC = () => {
 
             {/* Legend */}
             <div className="mb-4 text-xs text-slate-600">
-              <strong>{isMarathi ? 'चिन्हे:' : 'Legend:'}</strong> P = {isMarathi ? 'हजर (Present)' : 'Present (हजर)'}, A = {isMarathi ? 'गैरहजर (Absent)' : 'Absent (गैरहजर)'}, H = {isMarathi ? 'अर्धा दिवस (Half Day)' : 'Half Day (अर्धा दिवस)'}
+              <strong>{isMarathi ? 'चिन्हे:' : 'Legend:'}</strong>{' '}
+              {attendanceCodes
+                .map(c => `${c.code} = ${isMarathi && c.marathiLabel ? `${c.marathiLabel} (${c.label})` : `${c.label}${c.marathiLabel ? ` (${c.marathiLabel})` : ''}`}`)
+                .join(', ')}
             </div>
 
             {/* Table */}
@@ -179,7 +184,7 @@ const Print: React.FC = () => {
         <h3 className="font-medium text-blue-800 mb-2">Instructions</h3>
         <ul className="text-sm text-blue-700 space-y-1">
           <li>• Click "Print" to generate a blank sheet for manual daily attendance</li>
-          <li>• Fill in P (Present), A (Absent), or H (Half-day) for each worker each day</li>
+          <li>• Fill in {attendanceCodes.map(c => `${c.code} (${c.label})`).join(', ')} for each worker each day</li>
           <li>• Write the activity code and area code in the "काम/क्षेत्र" row</li>
           <li>• At month end, enter the data into the app or export Excel for records</li>
         </ul>
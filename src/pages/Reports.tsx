@@ -12,14 +12,17 @@ import {
   calculateCostByGroup,
   formatCurrency,
   formatMonthYear,
+  formatPieceQuantities,
 } from '../utils/calculations';
+import { formatStatusCounts } from '../utils/attendanceCodes';
+import { filterApprovedAttendance } from '../utils/review';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, PieChart, Pie, Cell, Legend } from 'recharts';
 import { Users, ClipboardList, MapPin, Calendar, Users2, CreditCard, AlertCircle } from 'lucide-react';
 
 const COLORS = ['#1B6B7C', '#2A8A9E', '#4ECDC4', '#22C55E', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899'];
 
 const Reports: React.FC = () => {
-  const { data, settings, getMonthData } = useApp();
+  const { data: allData, settings } = useApp();
   const t = useTranslation(settings.language);
   const isMarathi = settings.language === 'mr';
 
@@ -27,6 +30,13 @@ const Reports: React.FC = () => {
   const [selectedMonth, setSelectedMonth] = useState(format(new Date(), 'yyyy-MM'));
   const [startMonth, setStartMonth] = useState(format(new Date(new Date().setMonth(new Date().getMonth() - 2)), 'yyyy-MM'));
   const [endMonth, setEndMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [approvedOnly, setApprovedOnly] = useState(false);
+
+  // Attendance figures can be limited to days an admin has approved
+  const data = useMemo(
+    () => (approvedOnly ? filterApprovedAttendance(allData) : allData),
+    [allData, approvedOnly]
+  );
 
   // Generate month options
   const monthOptions = useMemo(() => {
@@ -41,14 +51,19 @@ const Reports: React.FC = () => {
     return options;
   }, []);
 
-  const monthData = getMonthData(selectedMonth);
-  const monthlyReport = calculateMonthlyReport(data.workers, monthData);
+  const monthData = data.months.find(m => m.month === selectedMonth);
+  const monthlyReport = calculateMonthlyReport(data.workers, monthData, data.attendanceCodes, data.activities);
 
   const activityReport = calculateCostByActivity(data, startMonth, endMonth);
   const areaReport = calculateCostByArea(data, startMonth, endMonth);
   const workerPeriodReport = calculateCostByWorkerForPeriod(data, startMonth, endMonth);
   const groupReport = calculateCostByGroup(data, startMonth, endMonth);
 
+  // Piece-rate columns only appear once some output has been paid
+  const monthlyPieceWages = monthlyReport.workers.reduce((sum, w) => sum + w.pieceWages, 0);
+  const periodPieceWages = workerPeriodReport.reduce((sum, w) => sum + w.pieceWages, 0);
+  const activityPieceWages = activityReport.reduce((sum, a) => sum + a.pieceWages, 0);
+
   // Calculate sundry expenses for the period (by group)
   const expensesByGroup = useMemo(() => {
     const expenses = (data.expenses || []).filter(e => {
@@ -160,6 +175,17 @@ const Reports: React.FC = () => {
       <PageHeader
         title={t('reports')}
         subtitle="View cost summaries and analytics"
+        action={
+          <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={approvedOnly}
+              onChange={e => setApprovedOnly(e.target.checked)}
+              className="w-4 h-4 rounded border-slate-300 text-graminno-600 focus:ring-graminno-500"
+            />
+            {isMarathi ? 'फक्त मंजूर हजेरी' : 'Approved attendance only'}
+          </label>
+        }
       />
 
       {/* Tabs */}
@@ -393,6 +419,11 @@ const Reports: React.FC = () => {
             <div className="text-sm opacity-80">{formatMonthYear(selectedMonth)} - {t('totalCost')}</div>
             <div className="text-3xl font-bold mt-1">{formatCurrency(monthlyReport.totalCost)}</div>
             <div className="text-sm opacity-80 mt-2">{monthlyReport.totalDays} total days worked</div>
+            {monthlyPieceWages > 0 && (
+              <div className="text-sm opacity-80">
+                {isMarathi ? 'नगावर मजुरी' : 'Piece wages'}: {formatCurrency(monthlyPieceWages)}
+              </div>
+            )}
           </div>
 
           {/* Chart */}
@@ -420,8 +451,14 @@ const Reports: React.FC = () => {
                   <tr>
                     <th className="text-left py-3 px-4 font-medium text-slate-600">{t('worker')}</th>
                     <th className="text-center py-3 px-4 font-medium text-slate-600">{t('dailyRate')}</th>
-                    <th className="text-center py-3 px-4 font-medium text-slate-600">{t('daysWorked')}</th>
-                    <th className="text-center py-3 px-4 font-medium text-slate-600">{t('halfDay')}</th>
+                    <th className="text-center py-3 px-4 font-medium text-slate-600">{t('totalDays')}</th>
+                    <th className="text-center py-3 px-4 font-medium text-slate-600">{isMarathi ? 'तपशील' : 'Breakdown'}</th>
+                    {monthlyPieceWages > 0 && (
+                      <>
+                        <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'उत्पादन' : 'Output'}</th>
+                        <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'नगावर मजुरी' : 'Piece Wages'}</th>
+                      </>
+                    )}
                     <th className="text-right py-3 px-4 font-medium text-slate-600">{t('total')}</th>
                   </tr>
                 </thead>
@@ -432,8 +469,14 @@ const Reports: React.FC = () => {
                       <tr key={worker.workerId} className="border-b border-slate-100">
                         <td className="py-3 px-4 font-medium text-slate-800">{worker.workerName}</td>
                         <td className="py-3 px-4 text-center text-slate-600">{formatCurrency(worker.dailyRate)}</td>
-                        <td className="py-3 px-4 text-center text-slate-600">{worker.daysWorked}</td>
-                        <td className="py-3 px-4 text-center text-slate-600">{worker.halfDays}</td>
+                        <td className="py-3 px-4 text-center text-slate-600">{worker.totalDays}</td>
+                        <td className="py-3 px-4 text-center text-slate-600">{formatStatusCounts(data.attendanceCodes, worker.statusCounts)}</td>
+                        {monthlyPieceWages > 0 && (
+                          <>
+                            <td className="py-3 px-4 text-right text-slate-600">{formatPieceQuantities(worker.pieceQuantities) || '-'}</td>
+                            <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(worker.pieceWages)}</td>
+                          </>
+                        )}
                         <td className="py-3 px-4 text-right font-medium text-slate-800">{formatCurrency(worker.totalCost)}</td>
                       </tr>
                     ))}
@@ -441,6 +484,12 @@ const Reports: React.FC = () => {
                 <tfoot className="bg-graminno-50">
                   <tr>
                     <td colSpan={4} className="py-3 px-4 font-bold text-graminno-800">{t('total')}</td>
+                    {monthlyPieceWages > 0 && (
+                      <>
+                        <td className="py-3 px-4"></td>
+                        <td className="py-3 px-4 text-right font-medium text-graminno-700">{formatCurrency(monthlyPieceWages)}</td>
+                      </>
+                    )}
                     <td className="py-3 px-4 text-right font-bold text-graminno-800">{formatCurrency(monthlyReport.totalCost)}</td>
                   </tr>
                 </tfoot>
@@ -508,6 +557,9 @@ const Reports: React.FC = () => {
                     <th className="text-left py-3 px-4 font-medium text-slate-600">{t('code')}</th>
                     <th className="text-left py-3 px-4 font-medium text-slate-600">{t('activity')}</th>
                     <th className="text-center py-3 px-4 font-medium text-slate-600">{t('daysWorked')}</th>
+                    {activityPieceWages > 0 && (
+                      <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'नगावर मजुरी' : 'Piece Wages'}</th>
+                    )}
                     <th className="text-right py-3 px-4 font-medium text-slate-600">{t('totalCost')}</th>
                   </tr>
                 </thead>
@@ -515,7 +567,7 @@ const Reports: React.FC = () => {
                   {activityReport
                     .filter(a => a.totalCost > 0)
                     .map(activity => (
-                      <tr key={activity.activityCode} className="border-b border-slate-100">
+                      <tr key={activity.activityId} className="border-b border-slate-100">
                         <td className="py-3 px-4">
                           <span className="px-2 py-1 bg-purple-100 text-purple-700 rounded font-mono text-xs">
                             {activity.activityCode}
@@ -523,6 +575,9 @@ const Reports: React.FC = () => {
                         </td>
                         <td className="py-3 px-4 font-medium text-slate-800">{activity.activityName}</td>
                         <td className="py-3 px-4 text-center text-slate-600">{activity.totalDays}</td>
+                        {activityPieceWages > 0 && (
+                          <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(activity.pieceWages)}</td>
+                        )}
                         <td className="py-3 px-4 text-right font-medium text-slate-800">{formatCurrency(activity.totalCost)}</td>
                       </tr>
                     ))}
@@ -588,7 +643,7 @@ const Reports: React.FC = () => {
                   {areaReport
                     .filter(a => a.totalCost > 0)
                     .map(area => (
-                      <tr key={area.areaCode} className="border-b border-slate-100">
+                      <tr key={area.areaId} className="border-b border-slate-100">
                         <td className="py-3 px-4">
                           <span className="px-2 py-1 bg-green-100 text-green-700 rounded font-mono text-xs">
                             {area.areaCode}
@@ -645,8 +700,14 @@ const Reports: React.FC = () => {
                 <thead className="bg-slate-50 border-b border-slate-200">
                   <tr>
                     <th className="text-left py-3 px-4 font-medium text-slate-600">{t('worker')}</th>
-                    <th className="text-center py-3 px-4 font-medium text-slate-600">{t('daysWorked')}</th>
-                    <th className="text-center py-3 px-4 font-medium text-slate-600">{t('halfDay')}</th>
+                    <th className="text-center py-3 px-4 font-medium text-slate-600">{t('totalDays')}</th>
+                    <th className="text-center py-3 px-4 font-medium text-slate-600">{isMarathi ? 'तपशील' : 'Breakdown'}</th>
+                    {periodPieceWages > 0 && (
+                      <>
+                        <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'उत्पादन' : 'Output'}</th>
+                        <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'नगावर मजुरी' : 'Piece Wages'}</th>
+                      </>
+                    )}
                     <th className="text-right py-3 px-4 font-medium text-slate-600">{t('totalCost')}</th>
                   </tr>
                 </thead>
@@ -656,8 +717,14 @@ const Reports: React.FC = () => {
                     .map(worker => (
                       <tr key={worker.workerId} className="border-b border-slate-100">
                         <td className="py-3 px-4 font-medium text-slate-800">{worker.workerName}</td>
-                        <td className="py-3 px-4 text-center text-slate-600">{worker.daysWorked}</td>
-                        <td className="py-3 px-4 text-center text-slate-600">{worker.halfDays}</td>
+                        <td className="py-3 px-4 text-center text-slate-600">{worker.totalDays}</td>
+                        <td className="py-3 px-4 text-center text-slate-600">{formatStatusCounts(data.attendanceCodes, worker.statusCounts)}</td>
+                        {periodPieceWages > 0 && (
+                          <>
+                            <td className="py-3 px-4 text-right text-slate-600">{formatPieceQuantities(worker.pieceQuantities) || '-'}</td>
+                            <td className="py-3 px-4 text-right text-slate-600">{formatCurrency(worker.pieceWages)}</td>
+                          </>
+                        )}
                         <td className="py-3 px-4 text-right font-medium text-slate-800">{formatCurrency(worker.totalCost)}</td>
                       </tr>
                     ))}
@@ -665,6 +732,12 @@ const Reports: React.FC = () => {
                 <tfoot className="bg-graminno-50">
                   <tr>
                     <td colSpan={3} className="py-3 px-4 font-bold text-graminno-800">{t('total')}</td>
+                    {periodPieceWages > 0 && (
+                      <>
+                        <td className="py-3 px-4"></td>
+                        <td className="py-3 px-4 text-right font-medium text-graminno-700">{formatCurrency(periodPieceWages)}</td>
+                      </>
+                    )}
                     <td className="py-3 px-4 text-right font-bold text-graminno-800">
                       {formatCurrency(workerPeriodReport.reduce((sum, w) => sum + w.totalCost, 0))}
                     </td>
@@ -0,0 +1,163 @@
+import React, { useState, useMemo } from 'react';
+import { useApp } from '../context/AppContext';
+import { useTranslation } from '../data/translations';
+import PageHeader from '../components/layout/PageHeader';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import Modal from '../components/ui/Modal';
+import { getPendingReviews, type PendingReviewDay } from '../utils/review';
+import { formatCurrency } from '../utils/calculations';
+import { ClipboardCheck, Check, Undo2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+
+const Review: React.FC = () => {
+  const { data, settings, approveGroupDays, returnGroupDay } = useApp();
+  const t = useTranslation(settings.language);
+  const isMarathi = settings.language === 'mr';
+
+  const [returning, setReturning] = useState<PendingReviewDay | null>(null);
+  const [comment, setComment] = useState('');
+
+  const pending = useMemo(() => getPendingReviews(data), [data]);
+  const totalCost = pending.reduce((sum, p) => sum + p.cost, 0);
+  const totalDays = pending.reduce((sum, p) => sum + p.totalDays, 0);
+
+  const getGroupName = (groupId: string): string => {
+    const group = (data.groups || []).find(g => g.id === groupId);
+    if (!group) return '-';
+    return isMarathi && group.marathiName ? group.marathiName : group.name;
+  };
+
+  const approveAll = () => {
+    approveGroupDays(pending.map(({ month, monthGroupId, date }) => ({ month, monthGroupId, date })));
+  };
+
+  const openReturn = (day: PendingReviewDay) => {
+    setReturning(day);
+    setComment('');
+  };
+
+  const handleReturn = () => {
+    if (!returning || !comment.trim()) return;
+    returnGroupDay(returning.month, returning.monthGroupId, returning.date, comment);
+    setReturning(null);
+  };
+
+  return (
+    <div className="pb-20 lg:pb-0">
+      <PageHeader
+        title={isMarathi ? 'हजेरी तपासणी' : 'Attendance Review'}
+        subtitle={isMarathi
+          ? `${pending.length} दिवस मंजुरीसाठी बाकी`
+          : `${pending.length} day${pending.length === 1 ? '' : 's'} waiting for approval`}
+        action={pending.length > 0 && (
+          <Button onClick={approveAll}>
+            <Check size={18} />
+            {isMarathi ? 'सर्व मंजूर करा' : 'Approve all'}
+          </Button>
+        )}
+      />
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 gap-4 mb-4">
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+          <div className="text-sm text-slate-500">{isMarathi ? 'एकूण दिवस' : 'Total days'}</div>
+          <div className="text-2xl font-bold text-slate-800">{totalDays}</div>
+        </div>
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+          <div className="text-sm text-slate-500">{isMarathi ? 'खर्चावर परिणाम' : 'Cost impact'}</div>
+          <div className="text-2xl font-bold text-slate-800">{formatCurrency(totalCost)}</div>
+        </div>
+      </div>
+
+      {pending.length === 0 ? (
+        <div className="bg-white rounded-xl p-8 shadow-sm border border-slate-100 text-center text-slate-500">
+          <ClipboardCheck size={40} className="mx-auto mb-2 text-slate-300" />
+          {isMarathi ? 'तपासणीसाठी काहीही बाकी नाही' : 'Nothing waiting for review'}
+        </div>
+      ) : (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="bg-slate-50 border-b border-slate-200">
+                  <th className="text-left py-3 px-4 font-medium text-slate-600">{t('date')}</th>
+                  <th className="text-left py-3 px-4 font-medium text-slate-600">{isMarathi ? 'गट' : 'Group'}</th>
+                  <th className="text-right py-3 px-4 font-medium text-slate-600">{t('workers')}</th>
+                  <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'दिवस' : 'Days'}</th>
+                  <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'खर्च' : 'Cost'}</th>
+                  <th className="py-3 px-4"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {pending.map(day => (
+                  <tr key={`${day.monthGroupId}:${day.date}`} className="border-b border-slate-100 last:border-0">
+                    <td className="py-3 px-4 text-slate-800">
+                      {format(parseISO(day.date), 'dd MMM yyyy')}
+                      {day.day.review?.submittedBy && (
+                        <div className="text-xs text-slate-400">{day.day.review.submittedBy}</div>
+                      )}
+                    </td>
+                    <td className="py-3 px-4 text-slate-600">{getGroupName(day.groupId)}</td>
+                    <td className="py-3 px-4 text-right text-slate-600">{day.workerCount}</td>
+                    <td className="py-3 px-4 text-right text-slate-600">{day.totalDays}</td>
+                    <td className="py-3 px-4 text-right font-medium text-slate-800">{formatCurrency(day.cost)}</td>
+                    <td className="py-3 px-4">
+                      <div className="flex items-center justify-end gap-2">
+                        <button
+                          onClick={() => approveGroupDays([{ month: day.month, monthGroupId: day.monthGroupId, date: day.date }])}
+                          className="p-2 hover:bg-green-50 rounded-lg transition-colors"
+                          title={isMarathi ? 'मंजूर करा' : 'Approve'}
+                        >
+                          <Check size={16} className="text-green-600" />
+                        </button>
+                        <button
+                          onClick={() => openReturn(day)}
+                          className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                          title={isMarathi ? 'परत पाठवा' : 'Return'}
+                        >
+                          <Undo2 size={16} className="text-red-500" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Return Modal */}
+      <Modal
+        isOpen={!!returning}
+        onClose={() => setReturning(null)}
+        title={isMarathi ? 'दिवस परत पाठवा' : 'Return Day'}
+      >
+        <div className="space-y-4">
+          {returning && (
+            <p className="text-sm text-slate-600">
+              {getGroupName(returning.groupId)} · {format(parseISO(returning.date), 'dd MMM yyyy')}
+            </p>
+          )}
+          <Input
+            label={isMarathi ? 'टिप्पणी' : 'Comment'}
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            required
+          />
+          <div className="flex gap-3 pt-2">
+            <Button variant="secondary" onClick={() => setReturning(null)} className="flex-1">
+              {t('cancel')}
+            </Button>
+            <Button variant="danger" onClick={handleReturn} disabled={!comment.trim()} className="flex-1">
+              {isMarathi ? 'परत पाठवा' : 'Return'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default Review;
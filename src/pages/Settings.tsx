@@ -6,8 +6,14 @@ import Button from '../components/ui/Button';
 import Select from '../components/ui/Select';
 import { exportToJson, shareViaWhatsApp, exportWorkersToExcel, exportAreasToExcel, exportActivitiesToExcel } from '../utils/exporters';
 import { importAppDataFromJson, importWorkersFromExcel, importAreasFromExcel, importActivitiesFromExcel } from '../utils/importers';
-import { getSyncUrl, setSyncUrl, checkServerStatus, syncData, pullData, getLastSync, formatLastSync, clearAllDirtyFlags } from '../utils/sync';
-import { Download, Upload, Share2, FileSpreadsheet, RefreshCw, AlertTriangle, Cloud, CloudOff, Loader2, Smartphone, Check, Server } from 'lucide-react';
+import {
+  getSyncUrl, setSyncUrl, checkServerStatus, syncData, pullData, getLastSync, formatLastSync, clearAllDirtyFlags,
+  apiHeaders, isDevicePaired, getDeviceRole, pairDevice, unpairDevice, createPairingCode, listDevices, revokeDevice,
+} from '../utils/sync';
+import type { PairedDevice, DeviceRole } from '../utils/sync';
+import { getDeviceId } from '../utils/hlc';
+import { canViewWorkerDetails } from '../utils/auth';
+import { Download, Upload, Share2, FileSpreadsheet, RefreshCw, AlertTriangle, Cloud, CloudOff, Loader2, Smartphone, Check, Server, KeyRound, ShieldCheck, Ban } from 'lucide-react';
 
 // PWA Install prompt interface
 interface BeforeInstallPromptEvent extends Event {
@@ -16,7 +22,7 @@ interface BeforeInstallPromptEvent extends Event {
 }
 
 const Settings: React.FC = () => {
-  const { data, settings, setLanguage, importData, resetData, addWorker, addArea, addActivity } = useApp();
+  const { data, settings, currentUser, setLanguage, importData, mergeRemoteData, resetData, addWorker, addArea, addActivity } = useApp();
   const t = useTranslation(settings.language);
   const isMarathi = settings.language === 'mr';
 
@@ -77,6 +83,18 @@ const Settings: React.FC = () => {
   const [isSyncing, setIsSyncing] = useState(false);
   const [lastSync] = useState(getLastSync());
 
+  // Device pairing state
+  const [isPaired, setIsPaired] = useState(isDevicePaired());
+  const [isPairing, setIsPairing] = useState(false);
+  const [pairingCode, setPairingCode] = useState('');
+  const [deviceName, setDeviceName] = useState('');
+  const isAdminDevice = isPaired && getDeviceRole() === 'admin';
+
+  // Paired devices (admin only)
+  const [devices, setDevices] = useState<PairedDevice[]>([]);
+  const [newCodeRole, setNewCodeRole] = useState<DeviceRole>('standard');
+  const [generatedCode, setGeneratedCode] = useState<{ code: string; expiresAt: string } | null>(null);
+
   // Server update state
   const [serverVersion, setServerVersion] = useState<string | null>(null);
   const [isUpdating, setIsUpdating] = useState(false);
@@ -90,7 +108,7 @@ const Settings: React.FC = () => {
         // Fetch server version if online
         if (online) {
           try {
-            const res = await fetch(`${syncUrl}/api/version`);
+            const res = await fetch(`${syncUrl}/api/version`, { headers: apiHeaders() });
             if (res.ok) {
               const data = await res.json();
               setServerVersion(data.version);
@@ -98,6 +116,9 @@ const Settings: React.FC = () => {
           } catch {
             // Ignore version fetch errors
           }
+          if (isAdminDevice) {
+            setDevices((await listDevices()) || []);
+          }
         }
       } else {
         setIsServerOnline(null);
@@ -105,7 +126,7 @@ const Settings: React.FC = () => {
       }
     };
     checkStatus();
-  }, [syncUrl]);
+  }, [syncUrl, isAdminDevice]);
 
   const handleSaveSyncUrl = () => {
     setSyncUrl(syncUrl || null);
@@ -113,6 +134,58 @@ const Settings: React.FC = () => {
     setTimeout(() => setImportStatus(null), 3000);
   };
 
+  const handlePair = async () => {
+    if (!syncUrl) {
+      setImportStatus({ type: 'error', message: isMarathi ? 'सिंक URL सेट करा' : 'Please set sync URL first' });
+      setTimeout(() => setImportStatus(null), 3000);
+      return;
+    }
+
+    setIsPairing(true);
+    setSyncUrl(syncUrl);
+    const result = await pairDevice(syncUrl, pairingCode, deviceName);
+    if (result.success) {
+      setIsPaired(true);
+      setPairingCode('');
+      setImportStatus({ type: 'success', message: isMarathi ? 'डिव्हाइस जोडले' : 'Device paired' });
+    } else {
+      setImportStatus({ type: 'error', message: isMarathi ? `जोडणी अयशस्वी: ${result.message}` : `Pairing failed: ${result.message}` });
+    }
+    setIsPairing(false);
+    setTimeout(() => setImportStatus(null), 3000);
+  };
+
+  const handleUnpair = () => {
+    if (confirm(isMarathi ? 'हे डिव्हाइस सर्व्हरपासून वेगळे करायचे?' : 'Unpair this device from the server?')) {
+      unpairDevice();
+      setIsPaired(false);
+      setDevices([]);
+      setGeneratedCode(null);
+    }
+  };
+
+  const handleCreatePairingCode = async () => {
+    const result = await createPairingCode(newCodeRole);
+    if (result.success && result.code && result.expiresAt) {
+      setGeneratedCode({ code: result.code, expiresAt: result.expiresAt });
+    } else {
+      setImportStatus({ type: 'error', message: result.message });
+      setTimeout(() => setImportStatus(null), 3000);
+    }
+  };
+
+  const handleRevokeDevice = async (device: PairedDevice) => {
+    if (!confirm(isMarathi ? `"${device.name}" चा प्रवेश रद्द करायचा?` : `Revoke access for "${device.name}"?`)) return;
+
+    const result = await revokeDevice(device.id);
+    if (result.success) {
+      setDevices((await listDevices()) || []);
+    } else {
+      setImportStatus({ type: 'error', message: result.message });
+      setTimeout(() => setImportStatus(null), 3000);
+    }
+  };
+
   const handleSync = async () => {
     if (!syncUrl) {
       setImportStatus({ type: 'error', message: isMarathi ? 'सिंक URL सेट करा' : 'Please set sync URL first' });
@@ -156,15 +229,10 @@ const Settings: React.FC = () => {
     try {
       const result = await pullData();
       if (result.success && result.data) {
-        const importSuccess = importData(JSON.stringify(result.data));
-        if (importSuccess) {
-          // Clear dirty flags after importing synced data
-          clearAllDirtyFlags();
-          setImportStatus({ type: 'success', message: isMarathi ? 'सर्व्हरवरून डेटा आणला! पेज रीलोड होत आहे...' : 'Data pulled from server! Reloading...' });
-          setTimeout(() => window.location.reload(), 1000);
-        } else {
-          setImportStatus({ type: 'error', message: isMarathi ? 'डेटा इम्पोर्ट अयशस्वी' : 'Failed to import data' });
-        }
+        // Merge field by field; local edits not yet synced are kept and stay dirty
+        mergeRemoteData(result.data);
+        setImportStatus({ type: 'success', message: isMarathi ? 'सर्व्हरवरून डेटा आणला! पेज रीलोड होत आहे...' : 'Data pulled from server! Reloading...' });
+        setTimeout(() => window.location.reload(), 1000);
       } else if (result.success) {
         setImportStatus({ type: 'error', message: isMarathi ? 'सर्व्हरवर डेटा नाही' : 'No data on server yet' });
       } else {
@@ -184,7 +252,7 @@ const Settings: React.FC = () => {
       setImportStatus({ type: 'success', message: isMarathi ? 'सर्व्हर ऑनलाइन आहे' : 'Server is online' });
       // Also fetch version
       try {
-        const res = await fetch(`${syncUrl}/api/version`);
+        const res = await fetch(`${syncUrl}/api/version`, { headers: apiHeaders() });
         if (res.ok) {
           const data = await res.json();
           setServerVersion(data.version);
@@ -203,7 +271,7 @@ const Settings: React.FC = () => {
 
     setIsUpdating(true);
     try {
-      const res = await fetch(`${syncUrl}/api/update`, { method: 'POST' });
+      const res = await fetch(`${syncUrl}/api/update`, { method: 'POST', headers: apiHeaders() });
       if (res.ok) {
         setImportStatus({
           type: 'success',
@@ -443,11 +511,55 @@ const Settings: React.FC = () => {
             </Button>
           </div>
 
+          {/* Device Pairing */}
+          {isPaired ? (
+            <div className="flex items-center justify-between gap-2 text-sm">
+              <span className="flex items-center gap-1 text-green-600">
+                <ShieldCheck size={16} />
+                {isAdminDevice
+                  ? (isMarathi ? 'प्रशासक डिव्हाइस म्हणून जोडलेले' : 'Paired as admin device')
+                  : (isMarathi ? 'डिव्हाइस जोडलेले आहे' : 'Device is paired')}
+              </span>
+              <Button variant="secondary" size="sm" onClick={handleUnpair}>
+                {isMarathi ? 'वेगळे करा' : 'Unpair'}
+              </Button>
+            </div>
+          ) : (
+            <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-2">
+              <p className="text-sm text-amber-800">
+                {isMarathi
+                  ? 'सर्व्हर वापरण्यासाठी हे डिव्हाइस जोडा. कोड सर्व्हर कन्सोलवर किंवा प्रशासक डिव्हाइसवर मिळेल.'
+                  : 'Pair this device to use the server. Get a code from the server console or an admin device.'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  value={pairingCode}
+                  onChange={e => setPairingCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                  placeholder={isMarathi ? '६-अंकी कोड' : '6-digit code'}
+                  className="w-32 px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500 tracking-widest"
+                />
+                <input
+                  type="text"
+                  value={deviceName}
+                  onChange={e => setDeviceName(e.target.value)}
+                  placeholder={isMarathi ? 'डिव्हाइसचे नाव' : 'Device name'}
+                  className="flex-1 min-w-0 px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-graminno-500"
+                />
+                <Button onClick={handlePair} disabled={!syncUrl || isPairing || pairingCode.length !== 6}>
+                  {isPairing ? <Loader2 size={18} className="animate-spin" /> : <KeyRound size={18} />}
+                  {isMarathi ? 'जोडा' : 'Pair'}
+                </Button>
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-2 gap-3">
             <Button
               variant="secondary"
               onClick={handlePullFromServer}
-              disabled={!syncUrl || isSyncing}
+              disabled={!syncUrl || !isPaired || isSyncing}
               className="flex items-center justify-center gap-2 py-4 text-base"
             >
               <Download size={20} />
@@ -458,7 +570,7 @@ const Settings: React.FC = () => {
 
             <Button
               onClick={handleSync}
-              disabled={!syncUrl || isSyncing}
+              disabled={!syncUrl || !isPaired || isSyncing}
               className="flex items-center justify-center gap-2 py-4 text-base"
             >
               {isSyncing ? (
@@ -514,7 +626,7 @@ const Settings: React.FC = () => {
             <Button
               variant="secondary"
               onClick={handleServerUpdate}
-              disabled={isUpdating}
+              disabled={isUpdating || !isAdminDevice}
               className="flex items-center gap-2"
             >
               {isUpdating ? (
@@ -526,6 +638,85 @@ const Settings: React.FC = () => {
                 ? (isMarathi ? 'अपडेट होत आहे...' : 'Updating...')
                 : (isMarathi ? 'सर्व्हर अपडेट करा' : 'Update Server')}
             </Button>
+            {!isAdminDevice && (
+              <p className="text-xs text-slate-400">
+                {isMarathi ? 'फक्त प्रशासक डिव्हाइस सर्व्हर अपडेट करू शकते' : 'Only an admin device can update the server'}
+              </p>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Paired Devices (admin only) */}
+      {syncUrl && isServerOnline && isAdminDevice && (
+        <div className="bg-white rounded-xl p-6 shadow-sm border border-slate-100 mb-6">
+          <div className="flex items-center gap-2 mb-4">
+            <Smartphone size={20} className="text-graminno-600" />
+            <h2 className="text-lg font-semibold text-slate-800">
+              {isMarathi ? 'जोडलेली डिव्हाइस' : 'Paired Devices'}
+            </h2>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <Select
+                label={isMarathi ? 'नवीन डिव्हाइसची भूमिका' : 'Role for new device'}
+                value={newCodeRole}
+                onChange={e => setNewCodeRole(e.target.value as DeviceRole)}
+                options={[
+                  { value: 'standard', label: isMarathi ? 'सामान्य' : 'Standard' },
+                  { value: 'admin', label: isMarathi ? 'प्रशासक' : 'Admin' },
+                ]}
+                className="w-40"
+              />
+              <Button variant="secondary" onClick={handleCreatePairingCode}>
+                <KeyRound size={18} />
+                {isMarathi ? 'जोडणी कोड तयार करा' : 'Generate Pairing Code'}
+              </Button>
+            </div>
+
+            {generatedCode && (
+              <div className="bg-graminno-50 border border-graminno-200 rounded-lg p-3 text-sm text-graminno-800">
+                <span className="font-mono text-2xl tracking-widest mr-3">{generatedCode.code}</span>
+                {isMarathi
+                  ? `${new Date(generatedCode.expiresAt).toLocaleTimeString('mr-IN')} पर्यंत एकदाच वापरता येईल`
+                  : `Single use, valid until ${new Date(generatedCode.expiresAt).toLocaleTimeString('en-IN')}`}
+              </div>
+            )}
+
+            <div className="divide-y divide-slate-100 border border-slate-100 rounded-lg">
+              {devices.map(device => (
+                <div key={device.id} className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <div className={`font-medium ${device.revoked ? 'text-slate-400 line-through' : 'text-slate-800'}`}>
+                      {device.name}
+                      {device.id === getDeviceId() && (
+                        <span className="ml-2 text-xs text-graminno-600">{isMarathi ? '(हे डिव्हाइस)' : '(this device)'}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {device.role === 'admin' ? (isMarathi ? 'प्रशासक' : 'Admin') : (isMarathi ? 'सामान्य' : 'Standard')}
+                      {' · '}
+                      {device.revoked
+                        ? (isMarathi ? 'प्रवेश रद्द' : 'Revoked')
+                        : `${isMarathi ? 'शेवटचे दिसले: ' : 'Last seen: '}${formatLastSync(device.lastSeen || device.pairedAt, isMarathi)}`}
+                    </div>
+                  </div>
+                  {!device.revoked && device.id !== getDeviceId() && (
+                    <button
+                      onClick={() => handleRevokeDevice(device)}
+                      className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                      title={isMarathi ? 'प्रवेश रद्द करा' : 'Revoke access'}
+                    >
+                      <Ban size={16} className="text-red-500" />
+                    </button>
+                  )}
+                </div>
+              ))}
+              {devices.length === 0 && (
+                <div className="text-center py-6 text-sm text-slate-500">{t('noData')}</div>
+              )}
+            </div>
           </div>
         </div>
       )}
@@ -555,7 +746,7 @@ const Settings: React.FC = () => {
           <div>
             <h3 className="font-medium text-slate-700 mb-2">Export Masters (Excel)</h3>
             <div className="flex flex-wrap gap-3">
-              <Button variant="secondary" onClick={() => exportWorkersToExcel(data.workers)}>
+              <Button variant="secondary" onClick={() => exportWorkersToExcel(data.workers, canViewWorkerDetails(currentUser))}>
                 <FileSpreadsheet size={18} />
                 {t('workers')}
               </Button>
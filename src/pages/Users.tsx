@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { useApp } from '../context/AppContext';
+import { useTranslation } from '../data/translations';
+import PageHeader from '../components/layout/PageHeader';
+import Button from '../components/ui/Button';
+import Modal from '../components/ui/Modal';
+import Input from '../components/ui/Input';
+import Select from '../components/ui/Select';
+import type { UserProfile, UserRole } from '../types';
+import { getActiveUsers, canManageUsers, MIN_PIN_LENGTH } from '../utils/auth';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+
+const Users: React.FC = () => {
+  const { data, settings, currentUser, addUser, updateUser, deleteUser } = useApp();
+  const t = useTranslation(settings.language);
+  const isMarathi = settings.language === 'mr';
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<UserProfile | null>(null);
+
+  const [formData, setFormData] = useState({
+    name: '',
+    role: 'supervisor' as UserRole,
+    groupIds: [] as string[],
+    pin: '',
+  });
+
+  const roleLabels: Record<UserRole, string> = {
+    admin: isMarathi ? 'प्रशासक' : 'Admin',
+    accountant: isMarathi ? 'लेखापाल' : 'Accountant',
+    supervisor: isMarathi ? 'पर्यवेक्षक' : 'Supervisor',
+  };
+
+  // Profile changes only sync from an admin device
+  const canManage = canManageUsers();
+
+  const users = getActiveUsers(data).sort((a, b) => a.name.localeCompare(b.name));
+  const adminCount = users.filter(u => u.role === 'admin').length;
+
+  const groups = (data.groups || [])
+    .filter(g => !g.deleted)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+
+  const getGroupName = (groupId: string): string => {
+    const group = groups.find(g => g.id === groupId);
+    if (!group) return '-';
+    return isMarathi && group.marathiName ? group.marathiName : group.name;
+  };
+
+  // The last admin can't be removed or demoted, or nobody could manage profiles
+  const isLastAdmin = (user: UserProfile | null) =>
+    !!user && user.role === 'admin' && adminCount <= 1;
+
+  // PIN is required for new profiles; blank on edit keeps the old one
+  const pinValid = formData.pin
+    ? /^\d+$/.test(formData.pin) && formData.pin.length >= MIN_PIN_LENGTH
+    : !!editingUser;
+
+  const openAddModal = () => {
+    setEditingUser(null);
+    setFormData({ name: '', role: 'supervisor', groupIds: [], pin: '' });
+    setIsModalOpen(true);
+  };
+
+  const openEditModal = (user: UserProfile) => {
+    setEditingUser(user);
+    setFormData({
+      name: user.name,
+      role: user.role,
+      groupIds: user.groupIds || [],
+      pin: '',
+    });
+    setIsModalOpen(true);
+  };
+
+  const toggleGroup = (groupId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      groupIds: prev.groupIds.includes(groupId)
+        ? prev.groupIds.filter(id => id !== groupId)
+        : [...prev.groupIds, groupId],
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim() || !pinValid) return;
+
+    const profile = {
+      name: formData.name.trim(),
+      role: formData.role,
+      groupIds: formData.role === 'supervisor' ? formData.groupIds : undefined,
+    };
+
+    if (editingUser) {
+      updateUser(editingUser.id, profile, formData.pin || undefined);
+    } else {
+      addUser(profile, formData.pin);
+    }
+    setIsModalOpen(false);
+  };
+
+  const handleDelete = (user: UserProfile) => {
+    if (confirm(`${t('confirmDelete')} "${user.name}"?`)) {
+      deleteUser(user.id);
+    }
+  };
+
+  return (
+    <div className="pb-20 lg:pb-0">
+      <PageHeader
+        title={isMarathi ? 'वापरकर्ते' : 'Users'}
+        subtitle={`${users.length} ${isMarathi ? 'प्रोफाइल' : 'profiles'}`}
+        action={
+          <Button onClick={openAddModal} disabled={!canManage}>
+            <Plus size={18} />
+            {t('add')}
+          </Button>
+        }
+      />
+
+      {!canManage && (
+        <div className="bg-amber-50 border border-amber-200 rounded-xl p-4 mb-4 text-sm text-amber-800">
+          {isMarathi
+            ? 'वापरकर्ते फक्त प्रशासक उपकरणावरून बदलता येतात.'
+            : 'Users can only be changed from an admin device.'}
+        </div>
+      )}
+
+      {/* Users List */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{t('name')}</th>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{isMarathi ? 'भूमिका' : 'Role'}</th>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{isMarathi ? 'गट' : 'Groups'}</th>
+                <th className="text-center py-3 px-4 font-medium text-slate-600">{t('actions')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map(user => (
+                <tr key={user.id} className="border-b border-slate-100 hover:bg-slate-50">
+                  <td className="py-3 px-4">
+                    <div className="font-medium text-slate-800">{user.name}</div>
+                    {user.id === currentUser?.id && (
+                      <div className="text-xs text-slate-400">{isMarathi ? 'तुम्ही' : 'You'}</div>
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-slate-600">{roleLabels[user.role]}</td>
+                  <td className="py-3 px-4 text-sm text-slate-600">
+                    {user.role === 'supervisor'
+                      ? (user.groupIds || []).map(getGroupName).join(', ') || '-'
+                      : (isMarathi ? 'सर्व' : 'All')}
+                  </td>
+                  <td className="py-3 px-4">
+                    <div className="flex items-center justify-center gap-2">
+                      <button
+                        onClick={() => openEditModal(user)}
+                        disabled={!canManage}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        <Pencil size={16} className="text-slate-500" />
+                      </button>
+                      {canManage && user.id !== currentUser?.id && !isLastAdmin(user) && (
+                        <button
+                          onClick={() => handleDelete(user)}
+                          className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                        >
+                          <Trash2 size={16} className="text-red-500" />
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {users.length === 0 && (
+          <div className="text-center py-12 text-slate-500">{t('noData')}</div>
+        )}
+      </div>
+
+      {/* Add/Edit Modal */}
+      <Modal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        title={editingUser
+          ? `${t('edit')} ${isMarathi ? 'वापरकर्ता' : 'User'}`
+          : `${t('add')} ${isMarathi ? 'वापरकर्ता' : 'User'}`}
+      >
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <Input
+            label={t('name')}
+            value={formData.name}
+            onChange={e => setFormData({ ...formData, name: e.target.value })}
+            required
+          />
+          <Select
+            label={isMarathi ? 'भूमिका' : 'Role'}
+            value={formData.role}
+            onChange={e => setFormData({ ...formData, role: e.target.value as UserRole })}
+            disabled={isLastAdmin(editingUser)}
+            options={(['admin', 'accountant', 'supervisor'] as UserRole[]).map(role => ({
+              value: role,
+              label: roleLabels[role],
+            }))}
+          />
+          {formData.role === 'supervisor' && (
+            <div>
+              <label className="block text-sm font-medium text-slate-700 mb-1">
+                {isMarathi ? 'गट' : 'Groups'}
+              </label>
+              <div className="max-h-48 overflow-y-auto border border-slate-200 rounded-lg divide-y divide-slate-100">
+                {groups.map(group => (
+                  <label key={group.id} className="flex items-center gap-2 px-3 py-2 text-sm text-slate-700 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={formData.groupIds.includes(group.id)}
+                      onChange={() => toggleGroup(group.id)}
+                      className="rounded border-slate-300 text-graminno-600 focus:ring-graminno-500"
+                    />
+                    {getGroupName(group.id)}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <Input
+            label={editingUser
+              ? (isMarathi ? 'नवीन पिन (बदलायचा नसल्यास रिकामा ठेवा)' : 'New PIN (leave blank to keep)')
+              : (isMarathi ? `पिन (किमान ${MIN_PIN_LENGTH} अंक)` : `PIN (at least ${MIN_PIN_LENGTH} digits)`)}
+            type="password"
+            inputMode="numeric"
+            autoComplete="new-password"
+            value={formData.pin}
+            onChange={e => setFormData({ ...formData, pin: e.target.value })}
+            error={formData.pin && !pinValid ? (isMarathi ? 'फक्त अंक' : 'Digits only') : undefined}
+          />
+          <div className="flex gap-3 pt-4">
+            <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)} className="flex-1">
+              {t('cancel')}
+            </Button>
+            <Button type="submit" className="flex-1" disabled={!formData.name.trim() || !pinValid}>
+              {t('save')}
+            </Button>
+          </div>
+        </form>
+      </Modal>
+    </div>
+  );
+};
+
+export default Users;
@@ -0,0 +1,361 @@
+import React, { useState, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { useApp } from '../context/AppContext';
+import { useTranslation } from '../data/translations';
+import PageHeader from '../components/layout/PageHeader';
+import Button from '../components/ui/Button';
+import {
+  calculateWorkerHistory,
+  calculateWorkerEarningsByMonth,
+  calculateWorkerStatement,
+  formatCurrency,
+  formatMonthYear,
+} from '../utils/calculations';
+import { generateWorkerStatementSheet, printSheet } from '../utils/exporters';
+import { canViewWorkerDetails } from '../utils/auth';
+import { getGenderLabel, getIdTypeLabel, maskValue } from '../utils/workerProfile';
+import { format, parseISO, getDaysInMonth } from 'date-fns';
+import { ArrowLeft, ChevronLeft, ChevronRight, Printer, UserCircle, CalendarDays, IndianRupee, Wallet, Scale } from 'lucide-react';
+
+// Heatmap colour by the day value worked on a date (across all groups)
+const getHeatClass = (dayValue: number | undefined): string => {
+  if (dayValue === undefined) return 'bg-slate-100';
+  if (dayValue === 0) return 'bg-slate-300';
+  if (dayValue < 1) return 'bg-graminno-200';
+  if (dayValue === 1) return 'bg-graminno-500';
+  return 'bg-red-500';
+};
+
+/**
+ * One worker across time: attendance heatmap, groups and activities worked,
+ * earnings per month, payments received and what they are still owed
+ */
+const WorkerDetail: React.FC = () => {
+  const { workerId } = useParams<{ workerId: string }>();
+  const navigate = useNavigate();
+  const { data, settings, currentUser } = useApp();
+  const t = useTranslation(settings.language);
+  const isMarathi = settings.language === 'mr';
+  const showDetails = canViewWorkerDetails(currentUser);
+
+  const worker = data.workers.find(w => w.id === workerId);
+
+  const history = useMemo(() => calculateWorkerHistory(data, workerId || ''), [data, workerId]);
+  const months = useMemo(() => calculateWorkerEarningsByMonth(data, workerId || ''), [data, workerId]);
+  const statement = useMemo(() => calculateWorkerStatement(data, workerId || ''), [data, workerId]);
+
+  // Heatmap shows one calendar year, starting at the latest year worked
+  const years = useMemo(() => {
+    const worked = new Set(history.days.map(d => Number(d.date.slice(0, 4))));
+    worked.add(new Date().getFullYear());
+    return [...worked].sort((a, b) => a - b);
+  }, [history.days]);
+  const [year, setYear] = useState(() => years[years.length - 1]);
+
+  // Day value and marks per date, summed across groups
+  const dayTotals = useMemo(() => {
+    const totals: { [date: string]: { dayValue: number; marks: string[] } } = {};
+    history.days.forEach(day => {
+      const total = (totals[day.date] = totals[day.date] || { dayValue: 0, marks: [] });
+      total.dayValue += day.dayValue;
+      if (day.status) total.marks.push(day.status);
+    });
+    return totals;
+  }, [history.days]);
+
+  const totalDays = months.reduce((sum, m) => sum + m.totalDays, 0);
+  const totalEarnings = months.reduce((sum, m) => sum + m.earnings, 0);
+  const paidOut = statement.filter(line => line.kind === 'advance' || line.kind === 'settlement').reduce((sum, line) => sum + line.debit, 0);
+  const balance = statement.length > 0 ? statement[statement.length - 1].balance : 0;
+
+  const getGroupName = (groupId: string): string => {
+    const group = (data.groups || []).find(g => g.id === groupId);
+    if (!group) return '-';
+    return isMarathi && group.marathiName ? group.marathiName : group.name;
+  };
+
+  const getActivityName = (activityId: string): string => {
+    const activity = data.activities.find(a => a.id === activityId);
+    if (!activity) return isMarathi ? 'कार्य नाही' : 'No activity';
+    return isMarathi && activity.marathiName ? activity.marathiName : activity.name;
+  };
+
+  const kindLabels = {
+    earnings: isMarathi ? 'मजुरी' : 'Earnings',
+    advance: isMarathi ? 'उचल' : 'Advance',
+    deduction: isMarathi ? 'कपात' : 'Deduction',
+    settlement: isMarathi ? 'मजुरी दिली' : 'Settlement',
+  };
+
+  const handlePrint = () => {
+    if (worker) printSheet(generateWorkerStatementSheet(data, worker.id, true));
+  };
+
+  if (!worker) {
+    return (
+      <div className="pb-20 lg:pb-0">
+        <PageHeader title={t('worker')} />
+        <div className="bg-white rounded-xl shadow-sm border border-slate-100 text-center py-12 text-slate-500">
+          {t('noData')}
+        </div>
+      </div>
+    );
+  }
+
+  const displayName = isMarathi && worker.marathiName ? worker.marathiName : worker.name;
+  const calendarMonths = Array.from({ length: 12 }, (_, i) => `${year}-${String(i + 1).padStart(2, '0')}`);
+  const profileDetails = [
+    worker.phone && `${isMarathi ? 'फोन' : 'Phone'}: ${worker.phone}`,
+    worker.village && `${isMarathi ? 'गाव' : 'Village'}: ${worker.village}`,
+    worker.gender && getGenderLabel(worker.gender, isMarathi),
+    worker.idType && `${getIdTypeLabel(worker.idType, isMarathi)}: ${showDetails ? worker.idNumber || '-' : maskValue(worker.idNumber)}`,
+    worker.bankAccount && `${isMarathi ? 'बँक' : 'Bank'}: ${showDetails ? worker.bankAccount : maskValue(worker.bankAccount)}${worker.ifsc && showDetails ? ` (${worker.ifsc})` : ''}`,
+    worker.upiId && `UPI: ${showDetails ? worker.upiId : maskValue(worker.upiId)}`,
+    worker.emergencyContactName && `${isMarathi ? 'आपत्कालीन' : 'Emergency'}: ${worker.emergencyContactName} ${worker.emergencyContactPhone || ''}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="pb-20 lg:pb-0">
+      <PageHeader
+        title={displayName}
+        subtitle={worker.status === 'active' ? t('active') : t('inactive')}
+        action={
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => navigate('/admin/workers')}>
+              <ArrowLeft size={18} />
+              {t('workers')}
+            </Button>
+            <Button onClick={handlePrint}>
+              <Printer size={18} />
+              {isMarathi ? 'छापा' : 'Print (Marathi)'}
+            </Button>
+          </div>
+        }
+      />
+
+      {/* Profile */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100 mb-4 flex items-center gap-4">
+        {worker.photo ? (
+          <img src={worker.photo} alt="" className="w-16 h-16 rounded-full object-cover" />
+        ) : (
+          <UserCircle size={64} className="text-slate-300" />
+        )}
+        <div className="text-sm text-slate-600 space-y-0.5">
+          <div className="font-medium text-slate-800">
+            {worker.name}{worker.marathiName ? ` · ${worker.marathiName}` : ''}
+          </div>
+          <div>{t('dailyRate')}: {formatCurrency(worker.dailyRate)}</div>
+          {profileDetails.map(detail => (
+            <div key={detail as string}>{detail}</div>
+          ))}
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+          <div className="flex items-center gap-2 text-slate-500 mb-1">
+            <CalendarDays size={16} />
+            <span className="text-sm">{t('totalDays')}</span>
+          </div>
+          <div className="text-xl font-bold text-slate-800">{totalDays}</div>
+        </div>
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+          <div className="flex items-center gap-2 text-slate-500 mb-1">
+            <IndianRupee size={16} />
+            <span className="text-sm">{isMarathi ? 'एकूण मजुरी' : 'Total Earnings'}</span>
+          </div>
+          <div className="text-xl font-bold text-slate-800">{formatCurrency(totalEarnings)}</div>
+        </div>
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+          <div className="flex items-center gap-2 text-slate-500 mb-1">
+            <Wallet size={16} />
+            <span className="text-sm">{isMarathi ? 'मिळालेले पैसे' : 'Payments Received'}</span>
+          </div>
+          <div className="text-xl font-bold text-slate-800">{formatCurrency(paidOut)}</div>
+        </div>
+        <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+          <div className="flex items-center gap-2 text-slate-500 mb-1">
+            <Scale size={16} />
+            <span className="text-sm">{isMarathi ? 'बाकी' : 'Balance'}</span>
+          </div>
+          <div className={`text-xl font-bold ${balance > 0 ? 'text-red-600' : 'text-green-600'}`}>{formatCurrency(balance)}</div>
+        </div>
+      </div>
+
+      {/* Attendance heatmap */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100 mb-4">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-medium text-slate-700">{isMarathi ? 'हजेरी' : 'Attendance'}</h3>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setYear(years[years.indexOf(year) - 1])}
+              disabled={years.indexOf(year) <= 0}
+              className="p-1 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30"
+            >
+              <ChevronLeft size={18} />
+            </button>
+            <span className="font-medium text-slate-800">{year}</span>
+            <button
+              onClick={() => setYear(years[years.indexOf(year) + 1])}
+              disabled={years.indexOf(year) >= years.length - 1}
+              className="p-1 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30"
+            >
+              <ChevronRight size={18} />
+            </button>
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <div className="space-y-1 min-w-[560px]">
+            {calendarMonths.map(month => {
+              const daysInMonth = getDaysInMonth(parseISO(`${month}-01`));
+              return (
+                <div key={month} className="flex items-center gap-1">
+                  <div className="w-10 text-xs text-slate-500">{format(parseISO(`${month}-01`), 'MMM')}</div>
+                  {Array.from({ length: 31 }, (_, i) => {
+                    if (i >= daysInMonth) return <div key={i} className="w-3.5 h-3.5" />;
+                    const date = `${month}-${String(i + 1).padStart(2, '0')}`;
+                    const total = dayTotals[date];
+                    return (
+                      <div
+                        key={i}
+                        className={`w-3.5 h-3.5 rounded-sm ${getHeatClass(total?.dayValue)}`}
+                        title={total ? `${format(parseISO(date), 'dd MMM')}: ${total.marks.join(' + ') || '-'}` : undefined}
+                      />
+                    );
+                  })}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        <div className="mt-3 flex flex-wrap gap-4 text-xs text-slate-600">
+          {[
+            { value: 0, label: isMarathi ? 'गैरहजर' : 'Absent' },
+            { value: 0.5, label: isMarathi ? 'अर्धा दिवस' : 'Part day' },
+            { value: 1, label: isMarathi ? 'पूर्ण दिवस' : 'Full day' },
+            { value: 2, label: isMarathi ? 'मर्यादा ओलांडली' : 'Exceeds limit' },
+          ].map(item => (
+            <div key={item.value} className="flex items-center gap-1.5">
+              <span className={`w-3.5 h-3.5 rounded-sm ${getHeatClass(item.value)}`} />
+              {item.label}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-4 mb-4">
+        {/* Groups worked in */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{isMarathi ? 'गट' : 'Group'}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{t('totalDays')}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'मजुरी' : 'Earnings'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.groups.map(group => (
+                <tr key={group.id} className="border-b border-slate-100">
+                  <td className="py-2 px-4 text-slate-800">{getGroupName(group.id)}</td>
+                  <td className="py-2 px-4 text-right text-slate-600">{group.totalDays}</td>
+                  <td className="py-2 px-4 text-right text-slate-600">{formatCurrency(group.earnings)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {history.groups.length === 0 && (
+            <div className="text-center py-6 text-slate-500">{t('noData')}</div>
+          )}
+        </div>
+
+        {/* Activity breakdown */}
+        <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{isMarathi ? 'कार्य' : 'Activity'}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{t('totalDays')}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'मजुरी' : 'Earnings'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.activities.map(activity => (
+                <tr key={activity.id} className="border-b border-slate-100">
+                  <td className="py-2 px-4 text-slate-800">{getActivityName(activity.id)}</td>
+                  <td className="py-2 px-4 text-right text-slate-600">{activity.totalDays}</td>
+                  <td className="py-2 px-4 text-right text-slate-600">{formatCurrency(activity.earnings)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {history.activities.length === 0 && (
+            <div className="text-center py-6 text-slate-500">{t('noData')}</div>
+          )}
+        </div>
+      </div>
+
+      {/* Earnings per month */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden mb-4">
+        <table className="w-full text-sm">
+          <thead className="bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="text-left py-3 px-4 font-medium text-slate-600">{isMarathi ? 'महिना' : 'Month'}</th>
+              <th className="text-right py-3 px-4 font-medium text-slate-600">{t('totalDays')}</th>
+              <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'मजुरी' : 'Earnings'}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...months].reverse().map(month => (
+              <tr key={month.month} className="border-b border-slate-100">
+                <td className="py-2 px-4 text-slate-800">{formatMonthYear(month.month)}</td>
+                <td className="py-2 px-4 text-right text-slate-600">{month.totalDays}</td>
+                <td className="py-2 px-4 text-right text-slate-600">{formatCurrency(month.earnings)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {months.length === 0 && (
+          <div className="text-center py-6 text-slate-500">{t('noData')}</div>
+        )}
+      </div>
+
+      {/* Statement: earnings and payments with running balance */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{isMarathi ? 'तारीख' : 'Date'}</th>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{isMarathi ? 'तपशील' : 'Details'}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'जमा' : 'Earned'}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'दिले' : 'Paid'}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'बाकी' : 'Balance'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...statement].reverse().map((line, index) => (
+                <tr key={line.entryId || `${line.date}-${index}`} className="border-b border-slate-100">
+                  <td className="py-2 px-4 text-slate-600">{format(parseISO(line.date), 'dd MMM yyyy')}</td>
+                  <td className="py-2 px-4 text-slate-800">
+                    {kindLabels[line.kind]}
+                    {line.description && <span className="text-slate-500"> · {line.description}</span>}
+                  </td>
+                  <td className="py-2 px-4 text-right text-green-700">{line.credit ? formatCurrency(line.credit) : ''}</td>
+                  <td className="py-2 px-4 text-right text-red-600">{line.debit ? formatCurrency(line.debit) : ''}</td>
+                  <td className="py-2 px-4 text-right font-medium text-slate-800">{formatCurrency(line.balance)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        {statement.length === 0 && (
+          <div className="text-center py-6 text-slate-500">{t('noData')}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorkerDetail;
@@ -0,0 +1,522 @@
+import React, { useState, useMemo } from 'react';
+import { useApp } from '../context/AppContext';
+import { useTranslation } from '../data/translations';
+import PageHeader from '../components/layout/PageHeader';
+import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
+import Select from '../components/ui/Select';
+import type { WorkerLedgerEntry, WorkerLedgerEntryType } from '../types';
+import { Plus, Pencil, Trash2, X, Check, ChevronLeft, ChevronRight, HandCoins, MinusCircle, Banknote, Lock } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { formatCurrency, calculateWorkerLedgerBalances, calculateWorkerStatement } from '../utils/calculations';
+import { isEntryLocked } from '../utils/closures';
+
+const WorkerLedger: React.FC = () => {
+  const {
+    data,
+    settings,
+    addWorkerLedgerEntry,
+    updateWorkerLedgerEntry,
+    deleteWorkerLedgerEntry,
+    getWorkerLedgerByMonth,
+  } = useApp();
+  const t = useTranslation(settings.language);
+  const isMarathi = settings.language === 'mr';
+
+  // Month navigation
+  const [selectedMonth, setSelectedMonth] = useState(() => format(new Date(), 'yyyy-MM'));
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [statementWorkerId, setStatementWorkerId] = useState<string | null>(null);
+
+  const [formData, setFormData] = useState({
+    date: format(new Date(), 'yyyy-MM-dd'),
+    amount: '',
+    workerId: '',
+    type: 'advance' as WorkerLedgerEntryType,
+    groupId: '',
+    description: '',
+    notes: '',
+  });
+
+  const typeLabels: Record<WorkerLedgerEntryType, string> = {
+    advance: isMarathi ? 'उचल' : 'Advance',
+    deduction: isMarathi ? 'कपात' : 'Deduction',
+    settlement: isMarathi ? 'मजुरी दिली' : 'Settlement',
+  };
+
+  // Get active groups and workers
+  const groups = useMemo(() =>
+    (data.groups || []).filter(g => !g.deleted && g.status === 'active'),
+    [data.groups]
+  );
+
+  const workers = useMemo(() =>
+    data.workers
+      .filter(w => !w.deleted && w.status === 'active')
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [data.workers]
+  );
+
+  const entries = getWorkerLedgerByMonth(selectedMonth);
+  const sortedEntries = [...entries].sort((a, b) =>
+    new Date(b.date).getTime() - new Date(a.date).getTime()
+  );
+
+  const sumOf = (type: WorkerLedgerEntryType) =>
+    entries.filter(e => e.type === type).reduce((sum, e) => sum + e.amount, 0);
+
+  // Balances as of the end of the selected month
+  const balances = useMemo(
+    () => calculateWorkerLedgerBalances(data, selectedMonth),
+    [data, selectedMonth]
+  );
+  const totalOutstanding = balances.reduce((sum, b) => sum + b.balance, 0);
+
+  const statement = useMemo(
+    () => (statementWorkerId ? calculateWorkerStatement(data, statementWorkerId) : []),
+    [data, statementWorkerId]
+  );
+
+  const getWorkerName = (workerId: string): string => {
+    const worker = data.workers.find(w => w.id === workerId);
+    if (!worker) return '-';
+    return isMarathi && worker.marathiName ? worker.marathiName : worker.name;
+  };
+
+  const getGroupName = (groupId?: string): string => {
+    if (!groupId) return '-';
+    const group = (data.groups || []).find(g => g.id === groupId);
+    if (!group) return '-';
+    return isMarathi && group.marathiName ? group.marathiName : group.name;
+  };
+
+  const navigateMonth = (direction: 'prev' | 'next') => {
+    const current = parseISO(`${selectedMonth}-01`);
+    const newDate = direction === 'prev'
+      ? new Date(current.getFullYear(), current.getMonth() - 1, 1)
+      : new Date(current.getFullYear(), current.getMonth() + 1, 1);
+    setSelectedMonth(format(newDate, 'yyyy-MM'));
+  };
+
+  const resetForm = () => {
+    setFormData({
+      date: format(new Date(), 'yyyy-MM-dd'),
+      amount: '',
+      workerId: '',
+      type: 'advance',
+      groupId: '',
+      description: '',
+      notes: '',
+    });
+  };
+
+  const openAddForm = () => {
+    setEditingId(null);
+    resetForm();
+    // Set date to first day of selected month if not current month
+    const today = format(new Date(), 'yyyy-MM');
+    if (selectedMonth !== today) {
+      setFormData(prev => ({ ...prev, date: `${selectedMonth}-01` }));
+    }
+    setShowAddForm(true);
+  };
+
+  const startEdit = (entry: WorkerLedgerEntry) => {
+    setShowAddForm(false);
+    setEditingId(entry.id);
+    setFormData({
+      date: entry.date,
+      amount: entry.amount.toString(),
+      workerId: entry.workerId,
+      type: entry.type,
+      groupId: entry.groupId || '',
+      description: entry.description || '',
+      notes: entry.notes || '',
+    });
+  };
+
+  const cancelEdit = () => {
+    setEditingId(null);
+    setShowAddForm(false);
+    resetForm();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.amount || !formData.workerId) return;
+
+    const entryData = {
+      date: formData.date,
+      month: formData.date.substring(0, 7), // Extract YYYY-MM
+      amount: parseFloat(formData.amount),
+      workerId: formData.workerId,
+      type: formData.type,
+      groupId: formData.groupId || undefined,
+      description: formData.description.trim() || undefined,
+      notes: formData.notes.trim() || undefined,
+    };
+
+    if (isEntryLocked(data, entryData)) {
+      alert(isMarathi ? 'या गटाचा हा महिना बंद आहे' : 'This month is closed for the group');
+      return;
+    }
+
+    if (editingId) {
+      updateWorkerLedgerEntry(editingId, entryData);
+      setEditingId(null);
+    } else {
+      addWorkerLedgerEntry(entryData);
+      setShowAddForm(false);
+    }
+    resetForm();
+  };
+
+  const handleDelete = (entry: WorkerLedgerEntry) => {
+    const desc = `${typeLabels[entry.type]} - ${getWorkerName(entry.workerId)}`;
+    if (confirm(`${t('confirmDelete')} "${desc}"?`)) {
+      deleteWorkerLedgerEntry(entry.id);
+    }
+  };
+
+  const renderTypeIcon = (type: WorkerLedgerEntryType) => {
+    if (type === 'advance') return <HandCoins size={14} className="text-amber-500" />;
+    if (type === 'deduction') return <MinusCircle size={14} className="text-red-500" />;
+    return <Banknote size={14} className="text-green-600" />;
+  };
+
+  const renderForm = (isEditing: boolean = false) => (
+    <form onSubmit={handleSubmit} className="bg-graminno-50 border border-graminno-200 rounded-lg p-4 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="font-medium text-graminno-800">
+          {isEditing ? (isMarathi ? 'नोंद संपादन' : 'Edit Entry') : (isMarathi ? 'नवीन नोंद' : 'New Entry')}
+        </h3>
+        <button type="button" onClick={cancelEdit} className="text-slate-400 hover:text-slate-600">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <Input
+          label={isMarathi ? 'तारीख' : 'Date'}
+          type="date"
+          value={formData.date}
+          onChange={e => setFormData({ ...formData, date: e.target.value })}
+          required
+        />
+        <Input
+          label={isMarathi ? 'रक्कम (₹)' : 'Amount (₹)'}
+          type="number"
+          step="0.01"
+          value={formData.amount}
+          onChange={e => setFormData({ ...formData, amount: e.target.value })}
+          placeholder="0.00"
+          required
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 mb-3">
+        <Select
+          label={t('worker')}
+          value={formData.workerId}
+          onChange={e => setFormData({ ...formData, workerId: e.target.value })}
+          options={[
+            { value: '', label: isMarathi ? '-- निवडा --' : '-- Select --' },
+            ...workers.map(w => ({
+              value: w.id,
+              label: isMarathi && w.marathiName ? w.marathiName : w.name,
+            })),
+          ]}
+          required
+        />
+        <Select
+          label={isMarathi ? 'प्रकार' : 'Type'}
+          value={formData.type}
+          onChange={e => setFormData({ ...formData, type: e.target.value as WorkerLedgerEntryType })}
+          options={[
+            { value: 'advance', label: typeLabels.advance },
+            { value: 'deduction', label: typeLabels.deduction },
+            { value: 'settlement', label: typeLabels.settlement },
+          ]}
+        />
+      </div>
+
+      <div className="mb-3">
+        <Select
+          label={isMarathi ? 'गट (पर्यायी)' : 'Group (Optional)'}
+          value={formData.groupId}
+          onChange={e => setFormData({ ...formData, groupId: e.target.value })}
+          options={[
+            { value: '', label: isMarathi ? '-- गट नाही --' : '-- No group --' },
+            ...groups.map(g => ({
+              value: g.id,
+              label: isMarathi && g.marathiName ? g.marathiName : g.name,
+            })),
+          ]}
+        />
+        <p className="text-xs text-slate-500 mt-1">
+          {isMarathi
+            ? 'गट निवडल्यास ही रक्कम त्या गटाच्या मजूर पेमेंटमध्ये धरली जाते'
+            : "With a group, this amount counts as a labour payment in that group's balance"}
+        </p>
+      </div>
+
+      <div className="mb-3">
+        <Input
+          label={isMarathi ? 'वर्णन' : 'Description'}
+          value={formData.description}
+          onChange={e => setFormData({ ...formData, description: e.target.value })}
+          placeholder={isMarathi ? 'उदा. जेवण, कर्ज हप्ता' : 'e.g., Food, loan instalment'}
+        />
+      </div>
+
+      <div className="mb-3">
+        <Input
+          label={isMarathi ? 'टीप' : 'Notes'}
+          value={formData.notes}
+          onChange={e => setFormData({ ...formData, notes: e.target.value })}
+          placeholder={isMarathi ? 'अतिरिक्त माहिती' : 'Additional notes'}
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <div className="flex-1" />
+        <Button type="button" variant="secondary" onClick={cancelEdit} size="sm">
+          {t('cancel')}
+        </Button>
+        <Button type="submit" size="sm">
+          <Check size={16} />
+          {t('save')}
+        </Button>
+      </div>
+    </form>
+  );
+
+  return (
+    <div className="pb-20 lg:pb-0">
+      <PageHeader
+        title={isMarathi ? 'मजूर खाते' : 'Worker Ledger'}
+        subtitle={`${isMarathi ? 'एकूण देणे' : 'Total owed'}: ${formatCurrency(totalOutstanding)}`}
+        action={
+          !showAddForm && !editingId && (
+            <Button onClick={openAddForm}>
+              <Plus size={18} />
+              {t('add')}
+            </Button>
+          )
+        }
+      />
+
+      {/* Month Navigation */}
+      <div className="bg-white rounded-xl p-4 shadow-sm border border-slate-100 mb-4">
+        <div className="flex items-center justify-center gap-4">
+          <button
+            onClick={() => navigateMonth('prev')}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <ChevronLeft size={20} />
+          </button>
+          <div className="text-lg font-medium text-slate-800 min-w-[160px] text-center">
+            {format(parseISO(`${selectedMonth}-01`), 'MMMM yyyy')}
+          </div>
+          <button
+            onClick={() => navigateMonth('next')}
+            className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+          >
+            <ChevronRight size={20} />
+          </button>
+        </div>
+      </div>
+
+      {/* Summary Cards */}
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        {(['advance', 'deduction', 'settlement'] as WorkerLedgerEntryType[]).map(type => (
+          <div key={type} className="bg-white rounded-xl p-4 shadow-sm border border-slate-100">
+            <div className="flex items-center gap-2 text-slate-500 mb-1">
+              {renderTypeIcon(type)}
+              <span className="text-sm">{typeLabels[type]}</span>
+            </div>
+            <div className="text-xl font-bold text-slate-800">{formatCurrency(sumOf(type))}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Add Form (inline at top) */}
+      {showAddForm && renderForm(false)}
+
+      {/* Entries List */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden mb-4">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left py-3 px-4 font-medium text-slate-600 w-24">
+                  {isMarathi ? 'तारीख' : 'Date'}
+                </th>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{t('worker')}</th>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">
+                  {isMarathi ? 'प्रकार' : 'Type'}
+                </th>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">
+                  {isMarathi ? 'गट' : 'Group'}
+                </th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">
+                  {isMarathi ? 'रक्कम' : 'Amount'}
+                </th>
+                <th className="text-center py-3 px-4 font-medium text-slate-600 w-24">
+                  {t('actions')}
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedEntries.map(entry => (
+                <React.Fragment key={entry.id}>
+                  {editingId === entry.id ? (
+                    <tr>
+                      <td colSpan={6} className="p-0">
+                        {renderForm(true)}
+                      </td>
+                    </tr>
+                  ) : (
+                    <tr className="border-b border-slate-100 hover:bg-slate-50">
+                      <td className="py-3 px-4 text-sm text-slate-600">
+                        {format(parseISO(entry.date), 'dd MMM')}
+                      </td>
+                      <td className="py-3 px-4 text-sm font-medium text-slate-700">
+                        {getWorkerName(entry.workerId)}
+                      </td>
+                      <td className="py-3 px-4">
+                        <div className="flex items-center gap-2">
+                          {renderTypeIcon(entry.type)}
+                          <span className="text-sm font-medium text-slate-700">{typeLabels[entry.type]}</span>
+                        </div>
+                        {entry.description && (
+                          <div className="text-xs text-slate-400">{entry.description}</div>
+                        )}
+                      </td>
+                      <td className="py-3 px-4 text-sm text-slate-600">
+                        {getGroupName(entry.groupId)}
+                      </td>
+                      <td className="py-3 px-4 text-right font-medium text-slate-800">
+                        {formatCurrency(entry.amount)}
+                      </td>
+                      <td className="py-3 px-4">
+                        {isEntryLocked(data, entry) ? (
+                          <div className="flex justify-center p-2" title={isMarathi ? 'महिना बंद' : 'Month closed'}>
+                            <Lock size={16} className="text-slate-400" />
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-center gap-2">
+                            <button
+                              onClick={() => startEdit(entry)}
+                              className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                            >
+                              <Pencil size={16} className="text-slate-500" />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(entry)}
+                              className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                            >
+                              <Trash2 size={16} className="text-red-500" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {sortedEntries.length === 0 && (
+          <div className="text-center py-12 text-slate-500">
+            {isMarathi ? 'या महिन्यात कोणतीही नोंद नाही' : 'No entries this month'}
+          </div>
+        )}
+      </div>
+
+      {/* Worker Balances */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-100 overflow-hidden">
+        <div className="px-4 py-3 border-b border-slate-200">
+          <h3 className="font-semibold text-slate-800">
+            {isMarathi ? 'मजूर शिल्लक' : 'Worker Balances'}
+          </h3>
+          <p className="text-xs text-slate-500">
+            {isMarathi
+              ? `${format(parseISO(`${selectedMonth}-01`), 'MMMM yyyy')} अखेर - तपशीलासाठी नावावर टॅप करा`
+              : `As of end of ${format(parseISO(`${selectedMonth}-01`), 'MMMM yyyy')} - tap a name for the statement`}
+          </p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left py-3 px-4 font-medium text-slate-600">{t('worker')}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'कमाई' : 'Earned'}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{typeLabels.advance}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{typeLabels.deduction}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{typeLabels.settlement}</th>
+                <th className="text-right py-3 px-4 font-medium text-slate-600">{isMarathi ? 'बाकी' : 'Balance'}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {balances.map(b => (
+                <React.Fragment key={b.workerId}>
+                  <tr
+                    onClick={() => setStatementWorkerId(statementWorkerId === b.workerId ? null : b.workerId)}
+                    className="border-b border-slate-100 hover:bg-slate-50 cursor-pointer"
+                  >
+                    <td className="py-3 px-4 text-sm font-medium text-slate-700">
+                      {isMarathi && b.marathiName ? b.marathiName : b.workerName}
+                    </td>
+                    <td className="py-3 px-4 text-right text-sm text-slate-600">{formatCurrency(b.earnings)}</td>
+                    <td className="py-3 px-4 text-right text-sm text-slate-600">{formatCurrency(b.advances)}</td>
+                    <td className="py-3 px-4 text-right text-sm text-slate-600">{formatCurrency(b.deductions)}</td>
+                    <td className="py-3 px-4 text-right text-sm text-slate-600">{formatCurrency(b.settlements)}</td>
+                    <td className={`py-3 px-4 text-right font-bold ${b.balance < 0 ? 'text-red-600' : 'text-slate-800'}`}>
+                      {formatCurrency(b.balance)}
+                    </td>
+                  </tr>
+                  {statementWorkerId === b.workerId && (
+                    <tr>
+                      <td colSpan={6} className="bg-slate-50 px-4 py-3">
+                        <table className="w-full text-sm">
+                          <tbody>
+                            {statement.map((line, idx) => (
+                              <tr key={line.entryId || `${line.date}-${idx}`} className="border-b border-slate-200 last:border-0">
+                                <td className="py-1 pr-2 text-slate-500 w-20">{format(parseISO(line.date), 'dd MMM yy')}</td>
+                                <td className="py-1 pr-2 text-slate-700">
+                                  {line.kind === 'earnings' ? (isMarathi ? 'कमाई' : 'Earnings') : typeLabels[line.kind]}
+                                  {line.description && <span className="text-slate-400"> - {line.description}</span>}
+                                </td>
+                                <td className="py-1 pr-2 text-right text-green-700">
+                                  {line.credit > 0 ? formatCurrency(line.credit) : ''}
+                                </td>
+                                <td className="py-1 pr-2 text-right text-red-600">
+                                  {line.debit > 0 ? formatCurrency(line.debit) : ''}
+                                </td>
+                                <td className="py-1 text-right font-medium text-slate-800">{formatCurrency(line.balance)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {balances.length === 0 && (
+          <div className="text-center py-12 text-slate-500">{t('noData')}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorkerLedger;
@@ -1,4 +1,5 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '../context/AppContext';
 import { useTranslation } from '../data/translations';
 import PageHeader from '../components/layout/PageHeader';
@@ -6,15 +7,64 @@ import Button from '../components/ui/Button';
 import Modal from '../components/ui/Modal';
 import Input from '../components/ui/Input';
 import Select from '../components/ui/Select';
-import type { Worker } from '../types';
+import type { Worker, WorkerGender, WorkerIdType } from '../types';
 import { formatCurrency } from '../utils/calculations';
-import { Plus, Pencil, Trash2, Search, Wand2 } from 'lucide-react';
+import { Plus, Pencil, Trash2, Search, Wand2, TrendingUp, Contact, Camera, UserCircle, Phone, Eye, Users } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { transliterateToMarathi } from '../utils/transliteration';
+import { canViewWorkerDetails } from '../utils/auth';
+import {
+  WORKER_GENDERS,
+  WORKER_ID_TYPES,
+  getGenderLabel,
+  getIdTypeLabel,
+  maskValue,
+  normaliseIdNumber,
+  resizePhoto,
+} from '../utils/workerProfile';
+import { findDuplicateWorkers, getClosedMonthsWithWorker } from '../utils/duplicates';
+
+// Convert Marathi numerals to ASCII and strip non-numeric
+const toAsciiDigits = (value: string) =>
+  value.replace(/[०-९]/g, d => String('०१२३४५६७८९'.indexOf(d))).replace(/[^0-9]/g, '');
+
+// Profile fields of the form, as strings ('' = not set)
+const emptyProfile = {
+  phone: '',
+  gender: '' as WorkerGender | '',
+  village: '',
+  idType: '' as WorkerIdType | '',
+  idNumber: '',
+  bankAccount: '',
+  ifsc: '',
+  upiId: '',
+  emergencyContactName: '',
+  emergencyContactPhone: '',
+  photo: '',
+};
+
+const getProfileForm = (worker: Worker): typeof emptyProfile => ({
+  phone: worker.phone || '',
+  gender: worker.gender || '',
+  village: worker.village || '',
+  idType: worker.idType || '',
+  idNumber: worker.idNumber || '',
+  bankAccount: worker.bankAccount || '',
+  ifsc: worker.ifsc || '',
+  upiId: worker.upiId || '',
+  emergencyContactName: worker.emergencyContactName || '',
+  emergencyContactPhone: worker.emergencyContactPhone || '',
+  photo: worker.photo || '',
+});
 
 const Workers: React.FC = () => {
-  const { data, settings, addWorker, updateWorker, deleteWorker } = useApp();
+  const { data, settings, currentUser, addWorker, updateWorker, deleteWorker, mergeWorkers, addWorkerRate, removeWorkerRate } = useApp();
   const t = useTranslation(settings.language);
   const isMarathi = settings.language === 'mr';
+  const navigate = useNavigate();
+
+  // ID and bank details are shown (and editable) for admins only
+  const showDetails = canViewWorkerDetails(currentUser);
 
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingWorker, setEditingWorker] = useState<Worker | null>(null);
@@ -28,7 +78,21 @@ const Workers: React.FC = () => {
     dailyRate: '400',
     status: 'active' as 'active' | 'inactive',
     notes: '',
+    ...emptyProfile,
   });
+  const [photoError, setPhotoError] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+
+  // Rate raise form (edit mode only)
+  const [raiseRate, setRaiseRate] = useState('');
+  const [raiseDate, setRaiseDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+
+  // Live copy of the worker being edited, so rate history updates show immediately
+  const currentWorker = editingWorker ? data.workers.find(w => w.id === editingWorker.id) : undefined;
+  const rateHistory = [...(currentWorker?.rateHistory || [])].sort((a, b) =>
+    b.effectiveFrom.localeCompare(a.effectiveFrom)
+  );
+  const hasRateHistory = rateHistory.length > 0;
 
   // Get display name based on language
   const getDisplayName = (worker: Worker) => {
@@ -50,7 +114,8 @@ const Workers: React.FC = () => {
 
   const openAddModal = () => {
     setEditingWorker(null);
-    setFormData({ name: '', marathiName: '', dailyRate: '400', status: 'active', notes: '' });
+    setFormData({ name: '', marathiName: '', dailyRate: '400', status: 'active', notes: '', ...emptyProfile });
+    setPhotoError(false);
     setIsModalOpen(true);
   };
 
@@ -62,10 +127,27 @@ const Workers: React.FC = () => {
       dailyRate: String(worker.dailyRate),
       status: worker.status,
       notes: worker.notes || '',
+      ...getProfileForm(worker),
     });
+    setPhotoError(false);
+    setRaiseRate('');
+    setRaiseDate(format(new Date(), 'yyyy-MM-dd'));
     setIsModalOpen(true);
   };
 
+  const handleAddRaise = () => {
+    if (!editingWorker || !raiseRate || !raiseDate) return;
+    addWorkerRate(editingWorker.id, Number(raiseRate), raiseDate);
+    setRaiseRate('');
+  };
+
+  const handleRemoveRate = (effectiveFrom: string) => {
+    if (!editingWorker) return;
+    if (confirm(isMarathi ? 'हा दर काढायचा?' : 'Remove this rate?')) {
+      removeWorkerRate(editingWorker.id, effectiveFrom);
+    }
+  };
+
   // Auto-transliterate handler
   const autoTransliterateName = () => {
     if (formData.name) {
@@ -73,17 +155,56 @@ const Workers: React.FC = () => {
     }
   };
 
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const photo = await resizePhoto(file);
+      setFormData(prev => ({ ...prev, photo }));
+      setPhotoError(false);
+    } catch {
+      setPhotoError(true);
+    }
+  };
+
+  // Profile fields to save; ID and bank details only when the user may see them
+  const getProfileUpdate = (): Partial<Worker> => {
+    const profile: Partial<Worker> = {
+      phone: formData.phone.trim() || undefined,
+      gender: formData.gender || undefined,
+      village: formData.village.trim() || undefined,
+      emergencyContactName: formData.emergencyContactName.trim() || undefined,
+      emergencyContactPhone: formData.emergencyContactPhone.trim() || undefined,
+      photo: formData.photo || undefined,
+    };
+    if (!showDetails) return profile;
+    const idType = formData.idType || undefined;
+    return {
+      ...profile,
+      idType,
+      idNumber: normaliseIdNumber(idType, formData.idNumber) || undefined,
+      bankAccount: formData.bankAccount.replace(/\s/g, '') || undefined,
+      ifsc: formData.ifsc.trim().toUpperCase() || undefined,
+      upiId: formData.upiId.trim() || undefined,
+    };
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.name.trim()) return;
 
-    const submitData = {
-      ...formData,
-      dailyRate: Number(formData.dailyRate) || 0,
-    };
+    const { name, marathiName, status, notes } = formData;
+    const details = { name, marathiName, status, notes, ...getProfileUpdate() };
+    const submitData = { ...details, dailyRate: Number(formData.dailyRate) || 0 };
 
     if (editingWorker) {
-      updateWorker(editingWorker.id, submitData);
+      // With a rate history, dailyRate is derived from it - don't overwrite
+      if (hasRateHistory) {
+        updateWorker(editingWorker.id, details);
+      } else {
+        updateWorker(editingWorker.id, submitData);
+      }
     } else {
       addWorker(submitData);
     }
@@ -96,16 +217,37 @@ const Workers: React.FC = () => {
     }
   };
 
+  // Likely duplicate records, only worked out while the list is open
+  const duplicatePairs = useMemo(
+    () => (isDuplicatesOpen ? findDuplicateWorkers(data) : []),
+    [isDuplicatesOpen, data]
+  );
+
+  const handleMerge = (keep: Worker, duplicate: Worker) => {
+    const message = isMarathi
+      ? `"${getDisplayName(duplicate)}" ची हजेरी व नोंदी "${getDisplayName(keep)}" मध्ये हलवून "${getDisplayName(duplicate)}" हटवायचे?`
+      : `Move the attendance and entries of "${getDisplayName(duplicate)}" to "${getDisplayName(keep)}" and delete "${getDisplayName(duplicate)}"?`;
+    if (confirm(message)) {
+      mergeWorkers(keep.id, duplicate.id);
+    }
+  };
+
   return (
     <div className="pb-20 lg:pb-0">
       <PageHeader
         title={t('workers')}
         subtitle={`${data.workers.length} ${t('workers')}`}
         action={
-          <Button onClick={openAddModal}>
-            <Plus size={18} />
-            {t('add')}
-          </Button>
+          <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => setIsDuplicatesOpen(true)}>
+              <Users size={18} />
+              {isMarathi ? 'दुहेरी नोंदी' : 'Find duplicates'}
+            </Button>
+            <Button onClick={openAddModal}>
+              <Plus size={18} />
+              {t('add')}
+            </Button>
+          </div>
         }
       />
 
@@ -151,17 +293,37 @@ const Workers: React.FC = () => {
               {filteredWorkers.map(worker => (
                 <tr key={worker.id} className="border-b border-slate-100 hover:bg-slate-50">
                   <td className="py-3 px-4">
-                    <div className="font-medium text-slate-800">{getDisplayName(worker)}</div>
-                    {/* Show alternate name in smaller text */}
-                    {isMarathi && worker.name && worker.marathiName && (
-                      <div className="text-xs text-slate-400">{worker.name}</div>
-                    )}
-                    {!isMarathi && worker.marathiName && (
-                      <div className="text-xs text-slate-400">{worker.marathiName}</div>
-                    )}
-                    {worker.notes && (
-                      <div className="text-xs text-slate-500">{worker.notes}</div>
-                    )}
+                    <div className="flex items-center gap-3">
+                      {worker.photo ? (
+                        <img src={worker.photo} alt="" className="w-9 h-9 rounded-full object-cover shrink-0" />
+                      ) : (
+                        <UserCircle size={36} className="text-slate-300 shrink-0" />
+                      )}
+                      <div>
+                        <button
+                          onClick={() => navigate(`/admin/workers/${worker.id}`)}
+                          className="font-medium text-slate-800 hover:text-graminno-700 hover:underline text-left"
+                        >
+                          {getDisplayName(worker)}
+                        </button>
+                        {/* Show alternate name in smaller text */}
+                        {isMarathi && worker.name && worker.marathiName && (
+                          <div className="text-xs text-slate-400">{worker.name}</div>
+                        )}
+                        {!isMarathi && worker.marathiName && (
+                          <div className="text-xs text-slate-400">{worker.marathiName}</div>
+                        )}
+                        {(worker.phone || worker.village) && (
+                          <div className="flex items-center gap-1 text-xs text-slate-500">
+                            {worker.phone && <Phone size={12} />}
+                            {[worker.phone, worker.village].filter(Boolean).join(' · ')}
+                          </div>
+                        )}
+                        {worker.notes && (
+                          <div className="text-xs text-slate-500">{worker.notes}</div>
+                        )}
+                      </div>
+                    </div>
                   </td>
                   <td className="py-3 px-4 text-center font-medium text-slate-700">
                     {formatCurrency(worker.dailyRate)}
@@ -179,6 +341,13 @@ const Workers: React.FC = () => {
                   </td>
                   <td className="py-3 px-4">
                     <div className="flex items-center justify-center gap-2">
+                      <button
+                        onClick={() => navigate(`/admin/workers/${worker.id}`)}
+                        className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+                        title={isMarathi ? 'तपशील' : 'Details'}
+                      >
+                        <Eye size={16} className="text-slate-500" />
+                      </button>
                       <button
                         onClick={() => openEditModal(worker)}
                         className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
@@ -244,17 +413,75 @@ const Workers: React.FC = () => {
             type="text"
             inputMode="numeric"
             pattern="[0-9]*"
-            value={formData.dailyRate}
-            onChange={e => {
-              // Convert Marathi numerals to ASCII and strip non-numeric
-              const converted = e.target.value
-                .replace(/[०-९]/g, d => String('०१२३४५६७८९'.indexOf(d)))
-                .replace(/[^0-9]/g, '');
-              setFormData({ ...formData, dailyRate: converted });
-            }}
+            value={hasRateHistory && currentWorker ? String(currentWorker.dailyRate) : formData.dailyRate}
+            onChange={e => setFormData({ ...formData, dailyRate: toAsciiDigits(e.target.value) })}
+            disabled={hasRateHistory}
             required
             lang="en"
           />
+
+          {/* Rate history - raises apply from their effective date onwards */}
+          {editingWorker && (
+            <div className="border border-slate-200 rounded-lg p-3 space-y-3">
+              <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+                <TrendingUp size={16} className="text-graminno-600" />
+                {isMarathi ? 'दर इतिहास' : 'Rate History'}
+              </div>
+
+              {hasRateHistory ? (
+                <div className="space-y-1">
+                  {rateHistory.map(entry => (
+                    <div key={entry.effectiveFrom} className="flex items-center justify-between text-sm">
+                      <span className="text-slate-600">
+                        {entry.effectiveFrom
+                          ? `${isMarathi ? 'पासून' : 'From'} ${format(parseISO(entry.effectiveFrom), 'dd MMM yyyy')}`
+                          : (isMarathi ? 'सुरुवातीपासून' : 'Original rate')}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-slate-800">{formatCurrency(entry.rate)}</span>
+                        {rateHistory.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => handleRemoveRate(entry.effectiveFrom)}
+                            className="p-1 hover:bg-red-50 rounded transition-colors"
+                          >
+                            <Trash2 size={14} className="text-red-500" />
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-slate-500">
+                  {isMarathi
+                    ? 'सध्याचा दर सर्व तारखांना लागू आहे'
+                    : 'Current rate applies to all dates'}
+                </p>
+              )}
+
+              <div className="flex gap-2 items-end">
+                <Input
+                  label={isMarathi ? 'नवीन दर' : 'New Rate'}
+                  type="text"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  value={raiseRate}
+                  onChange={e => setRaiseRate(toAsciiDigits(e.target.value))}
+                  lang="en"
+                />
+                <Input
+                  label={isMarathi ? 'पासून लागू' : 'Effective From'}
+                  type="date"
+                  value={raiseDate}
+                  onChange={e => setRaiseDate(e.target.value)}
+                />
+                <Button type="button" variant="secondary" onClick={handleAddRaise} disabled={!raiseRate || !raiseDate}>
+                  <Plus size={16} />
+                </Button>
+              </div>
+            </div>
+          )}
           <Select
             label={t('status')}
             value={formData.status}
@@ -270,6 +497,144 @@ const Workers: React.FC = () => {
             onChange={e => setFormData({ ...formData, notes: e.target.value })}
             placeholder="Optional notes"
           />
+
+          {/* Contact, ID and payout details */}
+          <div className="border border-slate-200 rounded-lg p-3 space-y-3">
+            <div className="flex items-center gap-2 text-sm font-medium text-slate-700">
+              <Contact size={16} className="text-graminno-600" />
+              {isMarathi ? 'संपर्क व बँक तपशील' : 'Contact & Payout Details'}
+            </div>
+
+            <div className="flex items-center gap-3">
+              {formData.photo ? (
+                <img src={formData.photo} alt="" className="w-16 h-16 rounded-full object-cover" />
+              ) : (
+                <UserCircle size={64} className="text-slate-300" />
+              )}
+              <label className="inline-flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg bg-slate-100 text-slate-700 hover:bg-slate-200 cursor-pointer">
+                <Camera size={16} />
+                {isMarathi ? 'फोटो' : 'Photo'}
+                <input type="file" accept="image/*" onChange={handlePhotoChange} className="hidden" />
+              </label>
+              {formData.photo && (
+                <button
+                  type="button"
+                  onClick={() => setFormData({ ...formData, photo: '' })}
+                  className="p-2 hover:bg-red-50 rounded-lg transition-colors"
+                  title={isMarathi ? 'फोटो काढा' : 'Remove photo'}
+                >
+                  <Trash2 size={16} className="text-red-500" />
+                </button>
+              )}
+              {photoError && (
+                <span className="text-xs text-red-600">{isMarathi ? 'फोटो वाचता आला नाही' : 'Could not read the photo'}</span>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label={isMarathi ? 'फोन' : 'Phone'}
+                type="tel"
+                value={formData.phone}
+                onChange={e => setFormData({ ...formData, phone: e.target.value })}
+                lang="en"
+              />
+              <Select
+                label={isMarathi ? 'लिंग' : 'Gender'}
+                value={formData.gender}
+                onChange={e => setFormData({ ...formData, gender: e.target.value as WorkerGender | '' })}
+                options={[
+                  { value: '', label: '-' },
+                  ...WORKER_GENDERS.map(gender => ({ value: gender, label: getGenderLabel(gender, isMarathi) })),
+                ]}
+              />
+            </div>
+            <Input
+              label={isMarathi ? 'गाव' : 'Village'}
+              value={formData.village}
+              onChange={e => setFormData({ ...formData, village: e.target.value })}
+            />
+
+            {showDetails ? (
+              <>
+                <div className="grid grid-cols-2 gap-3">
+                  <Select
+                    label={isMarathi ? 'ओळखपत्र' : 'ID Type'}
+                    value={formData.idType}
+                    onChange={e => setFormData({ ...formData, idType: e.target.value as WorkerIdType | '' })}
+                    options={[
+                      { value: '', label: '-' },
+                      ...WORKER_ID_TYPES.map(idType => ({ value: idType, label: getIdTypeLabel(idType, isMarathi) })),
+                    ]}
+                  />
+                  <Input
+                    label={isMarathi ? 'ओळखपत्र क्रमांक' : 'ID Number'}
+                    value={formData.idNumber}
+                    onChange={e => setFormData({ ...formData, idNumber: e.target.value })}
+                    disabled={!formData.idType}
+                    lang="en"
+                  />
+                </div>
+                {formData.idType === 'aadhaar' && (
+                  <p className="text-xs text-slate-500">
+                    {isMarathi
+                      ? 'आधार क्रमांकाचे फक्त शेवटचे ४ अंक जतन केले जातात.'
+                      : 'Only the last 4 digits of the Aadhaar number are saved.'}
+                  </p>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  <Input
+                    label={isMarathi ? 'बँक खाते क्रमांक' : 'Bank Account No.'}
+                    inputMode="numeric"
+                    value={formData.bankAccount}
+                    onChange={e => setFormData({ ...formData, bankAccount: e.target.value })}
+                    lang="en"
+                  />
+                  <Input
+                    label="IFSC"
+                    value={formData.ifsc}
+                    onChange={e => setFormData({ ...formData, ifsc: e.target.value })}
+                    lang="en"
+                  />
+                </div>
+                <Input
+                  label={isMarathi ? 'UPI आयडी' : 'UPI ID'}
+                  value={formData.upiId}
+                  onChange={e => setFormData({ ...formData, upiId: e.target.value })}
+                  placeholder="name@bank"
+                  lang="en"
+                />
+              </>
+            ) : (
+              <div className="text-sm text-slate-600 space-y-1">
+                {formData.idType && (
+                  <div>{getIdTypeLabel(formData.idType, isMarathi)}: {maskValue(formData.idNumber)}</div>
+                )}
+                {formData.bankAccount && (
+                  <div>{isMarathi ? 'बँक खाते' : 'Bank account'}: {maskValue(formData.bankAccount)}</div>
+                )}
+                {formData.upiId && <div>UPI: {maskValue(formData.upiId)}</div>}
+                <p className="text-xs text-slate-400">
+                  {isMarathi ? 'ओळखपत्र व बँक तपशील फक्त प्रशासक पाहू शकतात.' : 'ID and bank details are visible to admins only.'}
+                </p>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <Input
+                label={isMarathi ? 'आपत्कालीन संपर्क' : 'Emergency Contact'}
+                value={formData.emergencyContactName}
+                onChange={e => setFormData({ ...formData, emergencyContactName: e.target.value })}
+              />
+              <Input
+                label={isMarathi ? 'त्यांचा फोन' : 'Their Phone'}
+                type="tel"
+                value={formData.emergencyContactPhone}
+                onChange={e => setFormData({ ...formData, emergencyContactPhone: e.target.value })}
+                lang="en"
+              />
+            </div>
+          </div>
           <div className="flex gap-3 pt-4">
             <Button type="button" variant="secondary" onClick={() => setIsModalOpen(false)} className="flex-1">
               {t('cancel')}
@@ -280,6 +645,83 @@ const Workers: React.FC = () => {
           </div>
         </form>
       </Modal>
+
+      {/* Duplicate Workers Modal */}
+      <Modal
+        isOpen={isDuplicatesOpen}
+        onClose={() => setIsDuplicatesOpen(false)}
+        title={isMarathi ? 'दुहेरी मजूर नोंदी' : 'Duplicate Workers'}
+        size="xl"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-slate-500">
+            {isMarathi
+              ? 'एकाच व्यक्तीच्या दोन नोंदी असल्यास जी ठेवायची ती निवडा; दुसरीची हजेरी, गट व खाते नोंदी तिच्यात हलवल्या जातील.'
+              : 'Where the same person was added twice, pick the record to keep; the other one\'s attendance, groups and ledger entries move to it.'}
+          </p>
+
+          {duplicatePairs.map(pair => {
+            const records = pair.workerIds.map(id => data.workers.find(w => w.id === id)!);
+            return (
+              <div key={pair.workerIds.join('-')} className="border border-slate-200 rounded-lg p-3">
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {pair.similarName && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-700">
+                      {isMarathi ? 'सारखे नाव' : 'Similar name'}
+                    </span>
+                  )}
+                  {pair.sameMarathiName && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-amber-100 text-amber-700">
+                      {isMarathi ? 'सारखे मराठी नाव' : 'Same Marathi name'}
+                    </span>
+                  )}
+                  {pair.sharedDays > 0 && (
+                    <span className="px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-700">
+                      {pair.sharedDays} {isMarathi ? 'एकाच दिवशी हजर' : 'days marked on both'}
+                    </span>
+                  )}
+                </div>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                  {records.map((worker, index) => {
+                    const duplicate = records[1 - index];
+                    const closedMonths = getClosedMonthsWithWorker(data, duplicate.id);
+                    return (
+                      <div key={worker.id} className="bg-slate-50 rounded-lg p-3">
+                        <div className="font-medium text-slate-800">{worker.name}</div>
+                        {worker.marathiName && (
+                          <div className="text-sm text-slate-500" lang="mr">{worker.marathiName}</div>
+                        )}
+                        <div className="text-xs text-slate-500 mt-1">
+                          {pair.days[index]} {isMarathi ? 'दिवस' : 'days'}
+                          {worker.joinedDate && ` · ${format(parseISO(worker.joinedDate), 'dd MMM yyyy')}`}
+                          {worker.phone && ` · ${worker.phone}`}
+                        </div>
+                        {closedMonths.length > 0 ? (
+                          <p className="mt-2 text-xs text-red-600">
+                            {isMarathi
+                              ? `दुसऱ्या नोंदीची हजेरी बंद महिन्यांत आहे (${closedMonths.join(', ')}); आधी ते महिने उघडा.`
+                              : `The other record has attendance in closed months (${closedMonths.join(', ')}); reopen them first.`}
+                          </p>
+                        ) : (
+                          <Button size="sm" className="mt-2" onClick={() => handleMerge(worker, duplicate)}>
+                            {isMarathi ? 'ही ठेवा' : 'Keep this'}
+                          </Button>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+
+          {duplicatePairs.length === 0 && (
+            <div className="text-center py-8 text-slate-500">
+              {isMarathi ? 'दुहेरी नोंदी आढळल्या नाहीत' : 'No likely duplicates found'}
+            </div>
+          )}
+        </div>
+      </Modal>
     </div>
   );
 };
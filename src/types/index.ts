@@ -1,16 +1,38 @@
+// Wage rate valid from a given date (rate history entry)
+export interface WageRate {
+  rate: number;
+  effectiveFrom: string;  // "YYYY-MM-DD"; empty for the worker's original rate
+}
+
 // Worker types
 export interface Worker {
   id: string;
   name: string;           // English name
   marathiName?: string;   // Marathi name (मराठी नाव)
-  dailyRate: number;
+  dailyRate: number;      // Current rate (kept in step with rateHistory)
+  rateHistory?: WageRate[]; // Effective-dated rates (if undefined, dailyRate applies to all dates)
   status: 'active' | 'inactive';
   joinedDate?: string;
   notes?: string;
+  phone?: string;
+  gender?: WorkerGender;
+  village?: string;
+  idType?: WorkerIdType;
+  idNumber?: string;      // Aadhaar is stored masked (last 4 digits only)
+  bankAccount?: string;
+  ifsc?: string;
+  upiId?: string;
+  emergencyContactName?: string;
+  emergencyContactPhone?: string;
+  photo?: string;         // Small JPEG data URL
+  mergedInto?: string;    // Set on a duplicate merged into another worker (see utils/duplicates)
   deleted?: boolean;      // Soft delete flag for sync
   deletedAt?: string;     // Timestamp of deletion for sync conflict resolution
 }
 
+export type WorkerGender = 'male' | 'female' | 'other';
+export type WorkerIdType = 'aadhaar' | 'voterId' | 'pan' | 'other';
+
 // Area types
 export interface Area {
   id: string;
@@ -22,6 +44,7 @@ export interface Area {
   groupId?: string;       // Reference to the group/farm this area belongs to
   deleted?: boolean;      // Soft delete flag for sync
   deletedAt?: string;     // Timestamp of deletion for sync conflict resolution
+  modifiedAt?: string;    // Timestamp of last edit for sync conflict resolution
 }
 
 // Activity types
@@ -32,10 +55,19 @@ export interface Activity {
   name: string;           // English name
   marathiName?: string;   // Marathi name
   category?: string;
+  wageType?: ActivityWageType;  // Default 'daily'
+  unit?: string;          // Piece-rate unit (e.g., "kg", "crate")
+  marathiUnit?: string;
+  pieceRate?: number;     // Wage per unit
   deleted?: boolean;      // Soft delete flag for sync
   deletedAt?: string;     // Timestamp of deletion for sync conflict resolution
+  modifiedAt?: string;    // Timestamp of last edit for sync conflict resolution
 }
 
+// Daily: workers earn their day rate. Piece: workers earn quantity × pieceRate
+// instead, for the quantities entered on the activity's days.
+export type ActivityWageType = 'daily' | 'piece';
+
 // Group types (master data for reusable groups)
 export interface Group {
   id: string;
@@ -47,6 +79,24 @@ export interface Group {
   deletedAt?: string;     // Timestamp of deletion for sync conflict resolution
 }
 
+// Attendance code colours (map to fixed Tailwind classes in utils/attendanceCodes)
+export type AttendanceCodeColor = 'green' | 'red' | 'yellow' | 'orange' | 'blue' | 'purple' | 'teal' | 'slate';
+
+// Attendance status code (master data for what can be marked in a cell)
+export interface AttendanceCode {
+  id: string;
+  code: string;           // Short code shown in the grid (e.g., "P", "H", "OT")
+  label: string;          // English label (e.g., "Present")
+  marathiLabel?: string;  // Marathi label (e.g., "हजर")
+  color: AttendanceCodeColor;
+  dayValue: number;       // Fraction of a day (P = 1, H = 0.5, OT = 1.5, A = 0)
+  paid: boolean;          // If true, dayValue × daily rate is paid
+  status: 'active' | 'inactive';
+  order?: number;         // Cycle/display order (lower numbers first)
+  deleted?: boolean;      // Soft delete flag for sync
+  deletedAt?: string;     // Timestamp of deletion for sync conflict resolution
+}
+
 // Expense Category (master data for categorizing sundry expenses)
 export interface ExpenseCategory {
   id: string;
@@ -96,6 +146,7 @@ export interface Payment {
   paymentFor: 'labour' | 'expense';
   groupId: string;        // Which group this payment is for
   expenseId?: string;     // If paymentFor='expense', link to specific expense
+  contractorId?: string;  // Labour payment made to a contractor for their gangs
   // Metadata
   description?: string;
   notes?: string;
@@ -105,19 +156,196 @@ export interface Payment {
   deletedAt?: string;
 }
 
+// Worker ledger entry (individual advances, deductions and wage settlements)
+export type WorkerLedgerEntryType = 'advance' | 'deduction' | 'settlement';
+
+export interface WorkerLedgerEntry {
+  id: string;
+  workerId: string;
+  date: string;           // "YYYY-MM-DD"
+  month: string;          // "YYYY-MM" for grouping
+  type: WorkerLedgerEntryType;  // advance (uchal), deduction (food, loan instalment), settlement (wage payout)
+  amount: number;
+  groupId?: string;       // If set, counts as a labour payment in that group's balance
+  description?: string;
+  notes?: string;
+  createdAt: string;
+  modifiedAt?: string;
+  deleted?: boolean;
+  deletedAt?: string;
+}
+
+// Audit trail (see utils/audit.ts) - one entry per changed field, never edited or removed
+export type AuditEntity =
+  | 'worker'
+  | 'area'
+  | 'activity'
+  | 'group'
+  | 'attendanceCode'
+  | 'expenseCategory'
+  | 'expense'
+  | 'payment'
+  | 'workerLedger'
+  | 'month'         // Month sheet (field 'workerIds' = worker added/removed)
+  | 'monthGroup'    // Activity group within a month (field 'workerIds' = membership)
+  | 'day'           // Activity/area of a group's day
+  | 'attendance'    // One attendance cell
+  | 'closure'       // Month close/reopen of a group (field 'closed', 'reopenReason')
+  | 'user'          // User profile
+  | 'contractor';
+
+export type AuditAction = 'create' | 'update' | 'delete';
+
+// Objects and arrays (rate history, allocations) are stored as JSON strings
+export type AuditValue = string | number | boolean | null;
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;      // ISO time of the edit
+  deviceId: string;
+  deviceName?: string;    // Paired device name (filled in by the server if missing)
+  userId?: string;        // Profile logged in when the edit was made
+  entity: AuditEntity;
+  entityId: string;       // Item id; month group id for day/attendance; "YYYY-MM" for month
+  action: AuditAction;
+  field?: string;         // Changed field for updates
+  oldValue?: AuditValue;
+  newValue?: AuditValue;  // For create, a label of the new item
+  // Context for filtering the history
+  month?: string;         // "YYYY-MM"
+  groupId?: string;       // Master group id
+  workerId?: string;
+  date?: string;          // "YYYY-MM-DD"
+}
+
+// User profiles (see utils/auth.ts). Supervisors only see their assigned groups.
+export type UserRole = 'admin' | 'accountant' | 'supervisor';
+
+export interface UserProfile {
+  id: string;
+  name: string;
+  role: UserRole;
+  groupIds?: string[];    // Supervisor's groups
+  pinHash: string;        // SHA-256 of salt + PIN, hex
+  pinSalt: string;
+  createdAt?: string;
+  modifiedAt?: string;
+  deleted?: boolean;
+  deletedAt?: string;
+}
+
+// Labour contractor who brings unnamed gangs for peak work (e.g. sugarcane cutting)
+export interface Contractor {
+  id: string;
+  name: string;
+  marathiName?: string;
+  phone?: string;
+  defaultRate: number;    // Per person for a full day
+  notes?: string;
+  createdAt?: string;
+  modifiedAt?: string;
+  deleted?: boolean;
+  deletedAt?: string;
+}
+
 // Attendance types
-export type AttendanceStatus = 'P' | 'A' | 'H' | ''; // Present, Absent, Half-day, Empty
+export type AttendanceStatus = string; // Code from AttendanceCode master, '' = empty
+
+// Count of cells per attendance code (e.g., { P: 20, H: 2 })
+export interface StatusCounts {
+  [code: string]: number;
+}
 
 export interface DayAttendance {
   [workerId: string]: AttendanceStatus;
 }
 
+// Output per worker on a piece-rate day, in the activity's unit
+export interface DayQuantities {
+  [workerId: string]: number;
+}
+
+// Per-worker activity or area code, overriding the group-day's own
+export interface DayWorkerIds {
+  [workerId: string]: string;
+}
+
+// Part of a split day (e.g. weeding in the morning, spraying after lunch). Wages are
+// split across a worker's segments in proportion to `share`, which can be hours or
+// a fraction of the day.
+export interface DaySegment {
+  id: string;
+  activityId?: string;
+  areaId?: string;
+  share: number;
+  workerIds?: string[];   // Undefined = every worker in the group-day
+}
+
+// Contractor gang on a group-day, counted by heads instead of named workers.
+// Pay is headcount × rate × the attendance code's pay factor.
+export interface GangEntry {
+  id: string;
+  contractorId: string;
+  headcount: number;
+  status: AttendanceStatus;   // Attendance code for the whole gang (full day, half day, ...)
+  rate: number;               // Per person for a full day, copied from the contractor
+}
+
+// Hybrid logical clock stamps (see utils/hlc.ts) recording when each field last changed.
+// Sync merges pick the value with the later stamp field by field.
+export interface GroupDayStamps {
+  activityId?: string;
+  areaId?: string;
+  attendance?: { [workerId: string]: string };
+  quantities?: { [workerId: string]: string };
+  workerActivityIds?: { [workerId: string]: string };
+  workerAreaIds?: { [workerId: string]: string };
+  segments?: string;
+  gangs?: string;
+  review?: string;
+}
+
+// Supervisor submission and admin approval of a group-day (see utils/review.ts)
+export type DayReviewStatus = 'draft' | 'submitted' | 'approved' | 'returned';
+
+export interface DayReview {
+  status: DayReviewStatus;
+  comment?: string;           // Admin's note when returning the day
+  submittedAt?: string;
+  submittedBy?: string;       // Device name
+  reviewedAt?: string;
+  reviewedBy?: string;
+}
+
 // Day entry within an activity group
 export interface GroupDayEntry {
   date: string; // "2024-12-15"
-  activityCode?: string;
-  areaCode?: string;
-  attendance: DayAttendance;
+  activityId?: string;        // Activity.id
+  areaId?: string;            // Area.id
+  attendance: DayAttendance;  // Cleared cells keep '' so the clear itself syncs
+  quantities?: DayQuantities; // Piece-rate output; cleared entries keep 0
+  workerActivityIds?: DayWorkerIds; // Workers on another activity than the group; cleared keep ''
+  workerAreaIds?: DayWorkerIds;     // Workers in another area than the group; cleared keep ''
+  segments?: DaySegment[];    // Split day; replaces activityId/areaId and the overrides. Cleared keeps []
+  gangs?: GangEntry[];        // Contractor headcounts; cleared keeps []
+  review?: DayReview;         // No review = draft
+  stamps?: GroupDayStamps;
+}
+
+// Changes to one group-day from a bulk action; fields left out stay as they are
+export interface GroupDayUpdate {
+  date: string;
+  attendance?: DayAttendance;       // Only the listed workers change
+  activityId?: string;
+  areaId?: string;
+  workerActivityIds?: DayWorkerIds; // Only the listed workers change
+  workerAreaIds?: DayWorkerIds;
+  segments?: DaySegment[];
+}
+
+// When each worker was last added to or removed from a workerIds list
+export interface MembershipStamps {
+  [workerId: string]: string;
 }
 
 // Activity group at month level - each group has its own attendance matrix
@@ -126,23 +354,57 @@ export interface MonthActivityGroup {
   groupId: string;        // Reference to master Group
   name?: string;          // Legacy: inline name (deprecated, use groupId)
   workerIds?: string[];   // Workers in this group (if undefined, all month workers)
+  workerStamps?: MembershipStamps;
   days: GroupDayEntry[];
 }
 
 // Legacy DayEntry for backward compatibility
 export interface LegacyDayEntry {
   date: string;
-  areaCode?: string;
-  activityCode?: string;
+  areaId?: string;
+  activityId?: string;
+  areaCode?: string;      // Legacy: replaced by areaId
+  activityCode?: string;  // Legacy: replaced by activityId
   attendance: DayAttendance;
 }
 
+// Balance report of a group frozen when its month was closed
+export interface ClosedBalanceSnapshot {
+  openingBalance: number;
+  labourCost: number;
+  expenseCost: number;
+  labourPayments: number;
+  expensePayments: number;
+  closingLabourBalance: number;
+  closingExpenseBalance: number;
+  closingBalance: number;
+}
+
+// Month close for one group: locks its attendance, expenses and payments for the month
+export interface MonthClosure {
+  closed: boolean;
+  closedAt?: string;
+  closedBy?: string;          // Name of the profile (or device, before profiles) that closed it
+  closedByUserId?: string;    // Signed-in profile that closed it
+  snapshot?: ClosedBalanceSnapshot;
+  reopenedAt?: string;
+  reopenedBy?: string;
+  reopenedByUserId?: string;
+  reopenReason?: string;      // Required when an admin reopens the month
+  stamp: string;              // HLC stamp of the last close/reopen; the later one wins on merge
+}
+
 export interface MonthData {
   month: string; // "2024-12"
   // New: Activity groups at month level
   groups?: MonthActivityGroup[];
   // Workers included in this month's sheet (if undefined, all active workers)
   workerIds?: string[];
+  workerStamps?: MembershipStamps;
+  // Month groups removed on any device (id → stamp), so merges don't bring them back
+  deletedGroups?: { [monthGroupId: string]: string };
+  // Month close per master group (groupId → closure)
+  closures?: { [groupId: string]: MonthClosure };
   // Legacy: days array (for backward compatibility, migrated to groups on load)
   days?: LegacyDayEntry[];
 }
@@ -157,7 +419,12 @@ export interface AppData {
   // Accounting
   expenseCategories: ExpenseCategory[];
   expenses: SundryExpense[];
+  attendanceCodes: AttendanceCode[];
   payments: Payment[];
+  workerLedger: WorkerLedgerEntry[];
+  auditLog: AuditEntry[];
+  users?: UserProfile[];
+  contractors: Contractor[];
   exportedAt?: string;
   version?: string;
 }
@@ -175,9 +442,17 @@ export interface WorkerMonthlyCost {
   workerId: string;
   workerName: string;
   dailyRate: number;
-  daysWorked: number;
-  halfDays: number;
-  totalCost: number;
+  statusCounts: StatusCounts;
+  totalDays: number;      // Sum of day values
+  dayWages: number;
+  pieceWages: number;
+  pieceQuantities: PieceQuantities;
+  totalCost: number;      // Day + piece wages
+}
+
+// Piece-rate output by unit (e.g., { kg: 120, crate: 4 })
+export interface PieceQuantities {
+  [unit: string]: number;
 }
 
 export interface MonthlyReport {
@@ -188,16 +463,20 @@ export interface MonthlyReport {
 }
 
 export interface ActivityReport {
+  activityId: string;
   activityCode: string;
   activityName: string;
   totalCost: number;
+  pieceWages: number;
   totalDays: number;
 }
 
 export interface AreaReport {
+  areaId: string;
   areaCode: string;
   areaName: string;
   totalCost: number;
+  pieceWages: number;
   totalDays: number;
 }
 
@@ -206,5 +485,6 @@ export interface GroupReport {
   groupName: string;
   marathiName?: string;
   totalCost: number;
+  pieceWages: number;
   totalDays: number;
 }
@@ -0,0 +1,127 @@
+/**
+ * Attendance code helpers
+ *
+ * All day-value, pay and cycle-order logic for attendance cells goes through
+ * the AttendanceCode master list instead of hard-coded P/A/H checks.
+ */
+
+import type { AttendanceCode, AttendanceCodeColor, AttendanceStatus, StatusCounts } from '../types';
+import { sampleAttendanceCodes } from '../data/sampleData';
+
+// Tailwind only picks up literal class names, so each colour maps to fixed classes
+export const attendanceColorClasses: Record<AttendanceCodeColor, { cell: string; badge: string }> = {
+  green: { cell: 'bg-green-100 text-green-700 hover:bg-green-200', badge: 'bg-green-100 text-green-700' },
+  red: { cell: 'bg-red-100 text-red-700 hover:bg-red-200', badge: 'bg-red-100 text-red-700' },
+  yellow: { cell: 'bg-yellow-100 text-yellow-700 hover:bg-yellow-200', badge: 'bg-yellow-100 text-yellow-700' },
+  orange: { cell: 'bg-orange-100 text-orange-700 hover:bg-orange-200', badge: 'bg-orange-100 text-orange-700' },
+  blue: { cell: 'bg-blue-100 text-blue-700 hover:bg-blue-200', badge: 'bg-blue-100 text-blue-700' },
+  purple: { cell: 'bg-purple-100 text-purple-700 hover:bg-purple-200', badge: 'bg-purple-100 text-purple-700' },
+  teal: { cell: 'bg-teal-100 text-teal-700 hover:bg-teal-200', badge: 'bg-teal-100 text-teal-700' },
+  slate: { cell: 'bg-slate-200 text-slate-700 hover:bg-slate-300', badge: 'bg-slate-200 text-slate-700' },
+};
+
+export const attendanceColors = Object.keys(attendanceColorClasses) as AttendanceCodeColor[];
+
+// All non-deleted codes in cycle order (falls back to defaults for data saved before codes existed)
+export const getAttendanceCodes = (codes?: AttendanceCode[]): AttendanceCode[] => {
+  const list = codes && codes.length > 0 ? codes : sampleAttendanceCodes;
+  return list
+    .filter(c => !c.deleted)
+    .sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+};
+
+// Codes that can be marked in the grid
+export const getActiveAttendanceCodes = (codes?: AttendanceCode[]): AttendanceCode[] => {
+  return getAttendanceCodes(codes).filter(c => c.status === 'active');
+};
+
+// Inactive codes are still found so that older marks keep their value
+export const findAttendanceCode = (
+  codes: AttendanceCode[] | undefined,
+  status: AttendanceStatus | undefined
+): AttendanceCode | undefined => {
+  if (!status) return undefined;
+  return getAttendanceCodes(codes).find(c => c.code === status);
+};
+
+// Fraction of a day a status counts for (towards totals and the per-day limit)
+export const getStatusDayValue = (codes: AttendanceCode[] | undefined, status: AttendanceStatus | undefined): number => {
+  return findAttendanceCode(codes, status)?.dayValue ?? 0;
+};
+
+// Multiplier on the daily rate for a status (0 for unpaid codes)
+export const getStatusPayFactor = (codes: AttendanceCode[] | undefined, status: AttendanceStatus | undefined): number => {
+  const code = findAttendanceCode(codes, status);
+  return code && code.paid ? code.dayValue : 0;
+};
+
+// True if the status adds days or wages (used to decide who "worked")
+export const isCountedStatus = (codes: AttendanceCode[] | undefined, status: AttendanceStatus | undefined): boolean => {
+  const code = findAttendanceCode(codes, status);
+  return !!code && (code.dayValue > 0 || code.paid);
+};
+
+// Largest day value a single cell may hold before a worker is over-booked
+export const getDayLimit = (codes: AttendanceCode[] | undefined, status: AttendanceStatus | undefined): number => {
+  return Math.max(1, getStatusDayValue(codes, status));
+};
+
+// True if marking the status keeps the worker within a day, given what they have in other groups
+export const fitsDayLimit = (
+  codes: AttendanceCode[] | undefined,
+  status: AttendanceStatus,
+  otherGroupsTotal: number
+): boolean => {
+  return otherGroupsTotal + getStatusDayValue(codes, status) <= getDayLimit(codes, status);
+};
+
+// The code bulk "mark present" uses: the first active full, paid day (P by default)
+export const getPresentStatus = (codes: AttendanceCode[] | undefined): AttendanceStatus => {
+  const active = getActiveAttendanceCodes(codes);
+  return (active.find(c => c.dayValue === 1 && c.paid) || active[0])?.code || '';
+};
+
+/**
+ * Next status when a cell is tapped: '' → active codes in order → ''.
+ * Codes that would push the worker past a full day (counting other groups) are skipped.
+ */
+export const getNextAttendanceStatus = (
+  codes: AttendanceCode[] | undefined,
+  current: AttendanceStatus,
+  otherGroupsTotal: number
+): AttendanceStatus => {
+  const cycle: AttendanceStatus[] = ['', ...getActiveAttendanceCodes(codes).map(c => c.code)];
+  const startIndex = Math.max(0, cycle.indexOf(current));
+
+  for (let step = 1; step < cycle.length; step++) {
+    const candidate = cycle[(startIndex + step) % cycle.length];
+    if (candidate === '') return '';
+    if (fitsDayLimit(codes, candidate, otherGroupsTotal)) {
+      return candidate;
+    }
+  }
+  return '';
+};
+
+export const addStatusCount = (counts: StatusCounts, status: AttendanceStatus | undefined): void => {
+  if (!status) return;
+  counts[status] = (counts[status] || 0) + 1;
+};
+
+export const sumStatusCounts = (countsList: StatusCounts[]): StatusCounts => {
+  const total: StatusCounts = {};
+  countsList.forEach(counts => {
+    Object.entries(counts).forEach(([code, count]) => {
+      total[code] = (total[code] || 0) + count;
+    });
+  });
+  return total;
+};
+
+// Compact summary like "20P 2H 1OT" (codes with no day value or pay are left out)
+export const formatStatusCounts = (codes: AttendanceCode[] | undefined, counts: StatusCounts): string => {
+  return getAttendanceCodes(codes)
+    .filter(c => counts[c.code] && (c.dayValue > 0 || c.paid))
+    .map(c => `${counts[c.code]}${c.code}`)
+    .join(' ');
+};
@@ -0,0 +1,325 @@
+/**
+ * Audit trail
+ *
+ * Every local edit made through AppContext is compared with the data before it and
+ * each changed field is appended to `AppData.auditLog` with the device and time.
+ * Items are compared by reference first (mutators only replace what they change),
+ * so the diff stays cheap on large datasets. Entries are never edited, so merging
+ * by id is enough: a push only carries this device's new entries (see
+ * getUnsentAuditEntries in utils/sync.ts), and the app and the server both drop
+ * entries older than AUDIT_RETENTION_MONTHS so the log doesn't grow without end.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { subMonths } from 'date-fns';
+import type {
+  AppData,
+  AuditEntity,
+  AuditEntry,
+  AuditValue,
+  MonthData,
+  MonthActivityGroup,
+  GroupDayEntry,
+} from '../types';
+import { getDeviceId } from './hlc';
+import { getDeviceName, markFileDirty } from './sync';
+import { getSessionUserId } from './auth';
+
+// How long entries are kept; keep in sync with AUDIT_RETENTION_MONTHS in server.js
+export const AUDIT_RETENTION_MONTHS = 12;
+
+type AuditChange = Omit<AuditEntry, 'id' | 'timestamp' | 'deviceId' | 'deviceName'>;
+
+interface AuditedItem {
+  id: string;
+  deleted?: boolean;
+  [field: string]: unknown;
+}
+
+interface AuditedCollection {
+  key: 'workers' | 'areas' | 'activities' | 'groups' | 'attendanceCodes' | 'expenseCategories' | 'expenses' | 'payments' | 'workerLedger' | 'users' | 'contractors';
+  entity: AuditEntity;
+  context: (item: AuditedItem) => Partial<AuditChange>;
+}
+
+const AUDITED_COLLECTIONS: AuditedCollection[] = [
+  { key: 'workers', entity: 'worker', context: item => ({ workerId: item.id }) },
+  { key: 'areas', entity: 'area', context: () => ({}) },
+  { key: 'activities', entity: 'activity', context: () => ({}) },
+  { key: 'groups', entity: 'group', context: item => ({ groupId: item.id }) },
+  { key: 'attendanceCodes', entity: 'attendanceCode', context: () => ({}) },
+  { key: 'expenseCategories', entity: 'expenseCategory', context: () => ({}) },
+  { key: 'expenses', entity: 'expense', context: item => ({ month: item.month as string, groupId: item.groupId as string | undefined, date: item.date as string }) },
+  { key: 'payments', entity: 'payment', context: item => ({ month: item.month as string, groupId: item.groupId as string, date: item.date as string }) },
+  { key: 'users', entity: 'user', context: () => ({}) },
+  { key: 'contractors', entity: 'contractor', context: () => ({}) },
+  { key: 'workerLedger', entity: 'workerLedger', context: item => ({ month: item.month as string, groupId: item.groupId as string | undefined, workerId: item.workerId as string, date: item.date as string }) },
+];
+
+// Bookkeeping fields that change with every edit and say nothing on their own
+// ('deleted' is kept so restoring a deleted item shows up)
+const IGNORED_FIELDS = new Set(['id', 'modifiedAt', 'deletedAt', 'createdAt', 'pinSalt']);
+
+// Logged as changed without the value (worker photos are too large to keep)
+const SECRET_FIELDS = new Set(['pinHash', 'idNumber', 'bankAccount', 'ifsc', 'upiId', 'photo']);
+
+function toAuditValue(value: unknown): AuditValue {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
+
+// Short label for a created item (name, code or description)
+function describeItem(item: AuditedItem): AuditValue {
+  const label = item.name ?? item.code ?? item.description ?? item.label ?? item.amount;
+  return toAuditValue(label);
+}
+
+function diffItems(collection: AuditedCollection, prevItems: AuditedItem[] = [], nextItems: AuditedItem[] = []): AuditChange[] {
+  if (prevItems === nextItems) return [];
+
+  const changes: AuditChange[] = [];
+  const before = new Map(prevItems.map(item => [item.id, item]));
+
+  for (const item of nextItems) {
+    const previous = before.get(item.id);
+    if (previous === item) continue;
+
+    const base = { entity: collection.entity, entityId: item.id, ...collection.context(item) };
+
+    if (!previous) {
+      changes.push({ ...base, action: 'create', newValue: describeItem(item) });
+      continue;
+    }
+    if (item.deleted && !previous.deleted) {
+      changes.push({ ...base, action: 'delete', oldValue: describeItem(previous) });
+      continue;
+    }
+
+    const fields = new Set([...Object.keys(previous), ...Object.keys(item)]);
+    for (const field of fields) {
+      if (IGNORED_FIELDS.has(field)) continue;
+      const oldValue = toAuditValue(previous[field]);
+      const newValue = toAuditValue(item[field]);
+      if (oldValue !== newValue) {
+        changes.push(SECRET_FIELDS.has(field)
+          ? { ...base, action: 'update', field, oldValue: '••••', newValue: '••••' }
+          : { ...base, action: 'update', field, oldValue, newValue });
+      }
+    }
+  }
+
+  return changes;
+}
+
+// Workers added to or removed from a workerIds list (undefined = nobody listed yet)
+function diffMembership(
+  prevIds: string[] | undefined,
+  nextIds: string[] | undefined,
+  base: Omit<AuditChange, 'action'>
+): AuditChange[] {
+  if (prevIds === nextIds) return [];
+
+  const before = new Set(prevIds || []);
+  const after = new Set(nextIds || []);
+  const changes: AuditChange[] = [];
+
+  for (const workerId of after) {
+    if (!before.has(workerId)) {
+      changes.push({ ...base, action: 'update', field: 'workerIds', workerId, oldValue: false, newValue: true });
+    }
+  }
+  for (const workerId of before) {
+    if (!after.has(workerId)) {
+      changes.push({ ...base, action: 'update', field: 'workerIds', workerId, oldValue: true, newValue: false });
+    }
+  }
+
+  return changes;
+}
+
+function diffDay(
+  group: MonthActivityGroup,
+  month: string,
+  prevDay: GroupDayEntry | undefined,
+  nextDay: GroupDayEntry | undefined
+): AuditChange[] {
+  if (prevDay === nextDay) return [];
+
+  const date = (nextDay || prevDay)!.date;
+  const base = { entityId: group.id, month, groupId: group.groupId, date };
+  const changes: AuditChange[] = [];
+
+  for (const field of ['activityId', 'areaId'] as const) {
+    const oldValue = toAuditValue(prevDay?.[field]);
+    const newValue = toAuditValue(nextDay?.[field]);
+    if (oldValue !== newValue) {
+      changes.push({ ...base, entity: 'day', action: 'update', field, oldValue, newValue });
+    }
+  }
+
+  // Segments are logged as "<activityId>/<areaId> <share>, ..."; History shows the codes
+  const describeSegments = (day: GroupDayEntry | undefined) => toAuditValue(
+    (day?.segments || []).map(s => `${s.activityId || '-'}/${s.areaId || '-'} ${s.share}`).join(', ')
+  );
+  const oldSegments = describeSegments(prevDay);
+  const newSegments = describeSegments(nextDay);
+  if (oldSegments !== newSegments) {
+    changes.push({ ...base, entity: 'day', action: 'update', field: 'segments', oldValue: oldSegments, newValue: newSegments });
+  }
+
+  // Gangs are logged as "<contractorId> <headcount> <code> <rate>, ..."; History shows the name
+  const describeGangs = (day: GroupDayEntry | undefined) => toAuditValue(
+    (day?.gangs || []).map(g => `${g.contractorId} ${g.headcount} ${g.status || '-'} ${g.rate}`).join(', ')
+  );
+  const oldGangs = describeGangs(prevDay);
+  const newGangs = describeGangs(nextDay);
+  if (oldGangs !== newGangs) {
+    changes.push({ ...base, entity: 'day', action: 'update', field: 'gangs', oldValue: oldGangs, newValue: newGangs });
+  }
+
+  const oldReview = toAuditValue(prevDay?.review?.status);
+  const newReview = toAuditValue(nextDay?.review?.status);
+  if (oldReview !== newReview) {
+    changes.push({ ...base, entity: 'day', action: 'update', field: 'review', oldValue: oldReview, newValue: newReview });
+  }
+  if (nextDay?.review?.comment && nextDay.review.comment !== prevDay?.review?.comment) {
+    changes.push({ ...base, entity: 'day', action: 'update', field: 'reviewComment', oldValue: null, newValue: nextDay.review.comment });
+  }
+
+  const prevAttendance = prevDay?.attendance || {};
+  const nextAttendance = nextDay?.attendance || {};
+  const workerIds = new Set([...Object.keys(prevAttendance), ...Object.keys(nextAttendance)]);
+  for (const workerId of workerIds) {
+    const oldValue = toAuditValue(prevAttendance[workerId]);
+    const newValue = toAuditValue(nextAttendance[workerId]);
+    if (oldValue !== newValue) {
+      changes.push({ ...base, entity: 'attendance', action: 'update', field: 'status', workerId, oldValue, newValue });
+    }
+  }
+
+  const prevQuantities = prevDay?.quantities || {};
+  const nextQuantities = nextDay?.quantities || {};
+  for (const workerId of new Set([...Object.keys(prevQuantities), ...Object.keys(nextQuantities)])) {
+    const oldValue = toAuditValue(prevQuantities[workerId] || null);
+    const newValue = toAuditValue(nextQuantities[workerId] || null);
+    if (oldValue !== newValue) {
+      changes.push({ ...base, entity: 'attendance', action: 'update', field: 'quantity', workerId, oldValue, newValue });
+    }
+  }
+
+  // Per-worker overrides are logged under the day field they override
+  for (const [mapField, field] of [['workerActivityIds', 'activityId'], ['workerAreaIds', 'areaId']] as const) {
+    const prevIds = prevDay?.[mapField] || {};
+    const nextIds = nextDay?.[mapField] || {};
+    for (const workerId of new Set([...Object.keys(prevIds), ...Object.keys(nextIds)])) {
+      const oldValue = toAuditValue(prevIds[workerId]);
+      const newValue = toAuditValue(nextIds[workerId]);
+      if (oldValue !== newValue) {
+        changes.push({ ...base, entity: 'attendance', action: 'update', field, workerId, oldValue, newValue });
+      }
+    }
+  }
+
+  return changes;
+}
+
+function diffMonth(prev: MonthData | undefined, next: MonthData): AuditChange[] {
+  if (prev === next) return [];
+
+  const month = next.month;
+  const changes: AuditChange[] = [];
+
+  if (!prev) {
+    changes.push({ entity: 'month', entityId: month, action: 'create', month, newValue: month });
+  }
+  changes.push(...diffMembership(prev?.workerIds, next.workerIds, { entity: 'month', entityId: month, month }));
+
+  const prevGroups = new Map((prev?.groups || []).map(g => [g.id, g]));
+  const nextGroupIds = new Set((next.groups || []).map(g => g.id));
+
+  for (const group of next.groups || []) {
+    const previous = prevGroups.get(group.id);
+    if (previous === group) continue;
+
+    const base = { entity: 'monthGroup' as const, entityId: group.id, month, groupId: group.groupId };
+    if (!previous) {
+      changes.push({ ...base, action: 'create', newValue: toAuditValue(group.groupId) });
+    }
+    changes.push(...diffMembership(previous?.workerIds, group.workerIds, base));
+
+    const prevDays = new Map((previous?.days || []).map(d => [d.date, d]));
+    const nextDays = new Map(group.days.map(d => [d.date, d]));
+    for (const date of new Set([...prevDays.keys(), ...nextDays.keys()])) {
+      changes.push(...diffDay(group, month, prevDays.get(date), nextDays.get(date)));
+    }
+  }
+
+  for (const group of prev?.groups || []) {
+    if (!nextGroupIds.has(group.id)) {
+      changes.push({ entity: 'monthGroup', entityId: group.id, action: 'delete', month, groupId: group.groupId });
+    }
+  }
+
+  // Closing and reopening (keyed by master group id)
+  if (prev?.closures !== next.closures) {
+    for (const [groupId, closure] of Object.entries(next.closures || {})) {
+      const previous = prev?.closures?.[groupId];
+      if (previous === closure || !!previous?.closed === closure.closed) continue;
+      const base = { entity: 'closure' as const, entityId: `${month}:${groupId}`, month, groupId };
+      changes.push({ ...base, action: 'update', field: 'closed', oldValue: !!previous?.closed, newValue: closure.closed });
+      if (!closure.closed && closure.reopenReason) {
+        changes.push({ ...base, action: 'update', field: 'reopenReason', oldValue: null, newValue: closure.reopenReason });
+      }
+    }
+  }
+
+  return changes;
+}
+
+export function diffAppData(prev: AppData, next: AppData): AuditChange[] {
+  const changes: AuditChange[] = [];
+
+  for (const collection of AUDITED_COLLECTIONS) {
+    changes.push(...diffItems(
+      collection,
+      prev[collection.key] as unknown as AuditedItem[] | undefined,
+      next[collection.key] as unknown as AuditedItem[] | undefined
+    ));
+  }
+
+  if (prev.months !== next.months) {
+    const prevMonths = new Map(prev.months.map(m => [m.month, m]));
+    for (const month of next.months) {
+      changes.push(...diffMonth(prevMonths.get(month.month), month));
+    }
+  }
+
+  return changes;
+}
+
+// Append entries for everything that changed between `prev` and `next`
+export function withAuditLog(prev: AppData, next: AppData): AppData {
+  const changes = diffAppData(prev, next);
+  if (changes.length === 0) return next;
+
+  const timestamp = new Date().toISOString();
+  const deviceId = getDeviceId();
+  const deviceName = getDeviceName() || undefined;
+  const userId = getSessionUserId() || undefined;
+  const entries: AuditEntry[] = changes.map(change => ({
+    id: uuidv4(),
+    timestamp,
+    deviceId,
+    deviceName,
+    userId,
+    ...change,
+  }));
+
+  // Marked here rather than by comparing the whole log after every change
+  markFileDirty('auditLog');
+
+  const cutoff = subMonths(new Date(), AUDIT_RETENTION_MONTHS).toISOString();
+  const kept = (next.auditLog || []).filter(entry => entry.timestamp >= cutoff);
+  return { ...next, auditLog: [...kept, ...entries] };
+}
@@ -0,0 +1,123 @@
+/**
+ * User profiles and PIN login
+ *
+ * Profiles live in `AppData.users` and sync like the other master files. A profile
+ * logs in on this tab with its PIN; the session is kept in sessionStorage, so closing
+ * the app logs out. Until the first profile is created the app stays open as before,
+ * and the admin pages ask for that first admin profile.
+ *
+ * Roles:
+ * - admin: everything
+ * - accountant: money pages (expenses, payments, ledger, reports, history)
+ * - supervisor: attendance of the groups assigned to them
+ *
+ * A PIN is a convenience lock on a shared device, not access control: every device
+ * holds the profiles' PIN hashes so it can check a PIN offline, and a short numeric
+ * PIN is easily recovered from its hash. What a device may change on the server is
+ * decided by its pairing role; in particular the server only takes profile changes
+ * from admin devices (see canManageUsers).
+ */
+
+import { sha256 as sha256Digest } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import type { AppData, UserProfile, UserRole } from '../types';
+import { workspaceKey } from './workspaces';
+import { getDeviceRole, getSyncUrl } from './sync';
+
+const SESSION_KEY = workspaceKey('graminno-session');
+export const MIN_PIN_LENGTH = 4;
+
+// ============ PIN hashing ============
+
+// SHA-256 from @noble/hashes: crypto.subtle only exists on HTTPS, and the app is also
+// served over plain HTTP by server.js on the farm network
+export function sha256(message: string): string {
+  return bytesToHex(sha256Digest(utf8ToBytes(message)));
+}
+
+export function createPinHash(pin: string): { pinHash: string; pinSalt: string } {
+  const salt = Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+  return { pinHash: sha256(salt + pin), pinSalt: salt };
+}
+
+export function verifyPin(user: UserProfile, pin: string): boolean {
+  return sha256(user.pinSalt + pin) === user.pinHash;
+}
+
+// ============ Session ============
+
+function loadSession(): string | null {
+  try {
+    return sessionStorage.getItem(SESSION_KEY);
+  } catch {
+    return null;
+  }
+}
+
+let sessionUserId = loadSession();
+const listeners = new Set<() => void>();
+
+export function setSessionUserId(userId: string | null): void {
+  sessionUserId = userId;
+  try {
+    if (userId) {
+      sessionStorage.setItem(SESSION_KEY, userId);
+    } else {
+      sessionStorage.removeItem(SESSION_KEY);
+    }
+  } catch (error) {
+    console.warn('Error saving session:', error);
+  }
+  listeners.forEach(listener => listener());
+}
+
+// For useSyncExternalStore
+export function subscribeSession(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getSessionUserId(): string | null {
+  return sessionUserId;
+}
+
+// ============ Permissions ============
+
+export function getActiveUsers(data: AppData): UserProfile[] {
+  return (data.users || []).filter(u => !u.deleted);
+}
+
+// Admin pages (path after /admin/) each role may open; '*' = all
+const ADMIN_PAGES: Record<UserRole, string[]> = {
+  admin: ['*'],
+  accountant: ['', 'expenses', 'expense-categories', 'payments', 'contractors', 'worker-ledger', 'reports', 'labour-cost', 'farms-report', 'history'],
+  supervisor: [],
+};
+
+export function canOpenAdminPage(role: UserRole, pathname: string): boolean {
+  const page = pathname.replace(/^\/admin\/?/, '').split('/')[0];
+  const pages = ADMIN_PAGES[role];
+  return pages.includes('*') || pages.includes(page);
+}
+
+export function canOpenAdmin(role: UserRole): boolean {
+  return ADMIN_PAGES[role].length > 0;
+}
+
+// Profiles are saved to the server only from an admin device (server.js ignores the
+// rest); a stand-alone install with no sync server manages its own
+export function canManageUsers(): boolean {
+  return getDeviceRole() === 'admin' || !getSyncUrl();
+}
+
+// Workers' ID and bank details are for admins only; no user (no profiles set up yet) sees them.
+// Once sync is set up the server only sends them to admin devices, so other devices have none.
+export function canViewWorkerDetails(user: UserProfile | null): boolean {
+  return (!user || user.role === 'admin') && (getDeviceRole() === 'admin' || !getSyncUrl());
+}
+
+// Supervisors only see their groups; no user (no profiles set up yet) sees all
+export function canAccessGroup(user: UserProfile | null, groupId: string): boolean {
+  if (!user || user.role !== 'supervisor') return true;
+  return (user.groupIds || []).includes(groupId);
+}
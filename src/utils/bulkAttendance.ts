@@ -0,0 +1,124 @@
+/**
+ * Bulk attendance
+ *
+ * Builds the day updates for the bulk actions on the group grid: marking a whole
+ * day present, filling a date range for chosen workers, and copying days (the
+ * previous day, or each day of a range from a week earlier). Only empty cells are
+ * filled unless overwriting is asked for, and a cell is skipped when the mark would
+ * take the worker past a full day across groups, as when tapping a cell. Copies
+ * carry the day's activity and area (or its split into segments) and the workers'
+ * own activity/area, but not piece-rate output or contractor gangs.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { addDays, format, parseISO } from 'date-fns';
+import type { AttendanceStatus, DayAttendance, DayWorkerIds, GroupDayEntry, GroupDayUpdate } from '../types';
+
+export interface BulkMarkOptions {
+  workerIds: string[];        // Workers the action applies to
+  overwrite: boolean;         // Replace existing marks instead of only filling empty cells
+  fitsDayLimit: (date: string, workerId: string, status: AttendanceStatus) => boolean;
+}
+
+export interface BulkMarkResult {
+  updates: GroupDayUpdate[];
+  marked: number;             // Cells that change
+  skipped: number;            // Cells left as they are because the worker would go over a full day
+}
+
+// Dates from one to the other, both included
+export const getDateRange = (from: string, to: string): string[] => {
+  const dates: string[] = [];
+  for (let date = parseISO(from); format(date, 'yyyy-MM-dd') <= to; date = addDays(date, 1)) {
+    dates.push(format(date, 'yyyy-MM-dd'));
+  }
+  return dates;
+};
+
+export const shiftDate = (date: string, days: number): string =>
+  format(addDays(parseISO(date), days), 'yyyy-MM-dd');
+
+// The cells of one day that the action marks, counting them into the result
+const collectMarks = (
+  target: GroupDayEntry | undefined,
+  date: string,
+  statuses: DayAttendance,
+  options: BulkMarkOptions,
+  result: BulkMarkResult
+): DayAttendance => {
+  const attendance: DayAttendance = {};
+  options.workerIds.forEach(workerId => {
+    const status = statuses[workerId];
+    const current = target?.attendance[workerId] || '';
+    if (!status || status === current || (current && !options.overwrite)) return;
+    if (!options.fitsDayLimit(date, workerId, status)) {
+      result.skipped++;
+      return;
+    }
+    attendance[workerId] = status;
+    result.marked++;
+  });
+  return attendance;
+};
+
+/**
+ * Mark the given workers with one status on each date
+ */
+export const buildFillUpdates = (
+  dates: string[],
+  status: AttendanceStatus,
+  getDay: (date: string) => GroupDayEntry | undefined,
+  options: BulkMarkOptions
+): BulkMarkResult => {
+  const result: BulkMarkResult = { updates: [], marked: 0, skipped: 0 };
+  const statuses = Object.fromEntries(options.workerIds.map(id => [id, status]));
+  dates.forEach(date => {
+    const attendance = collectMarks(getDay(date), date, statuses, options, result);
+    if (Object.keys(attendance).length > 0) result.updates.push({ date, attendance });
+  });
+  return result;
+};
+
+/**
+ * Copy each date's marks from another day (getSource gives the day to copy from,
+ * which may be in the previous month). What the target day was spent on is only
+ * set where it has no activity, area or segments yet.
+ */
+export const buildCopyUpdates = (
+  dates: string[],
+  getSource: (date: string) => GroupDayEntry | undefined,
+  getDay: (date: string) => GroupDayEntry | undefined,
+  options: BulkMarkOptions
+): BulkMarkResult => {
+  const result: BulkMarkResult = { updates: [], marked: 0, skipped: 0 };
+  dates.forEach(date => {
+    const source = getSource(date);
+    if (!source) return;
+    const target = getDay(date);
+    const update: GroupDayUpdate = { date, attendance: collectMarks(target, date, source.attendance, options, result) };
+
+    if (!target?.activityId && !target?.areaId && !target?.segments?.length) {
+      if (source.segments?.length) {
+        update.segments = source.segments.map(segment => ({ ...segment, id: uuidv4() }));
+      } else {
+        if (source.activityId) update.activityId = source.activityId;
+        if (source.areaId) update.areaId = source.areaId;
+      }
+    }
+
+    // Workers who were on another activity or area than the group (not used on split days)
+    if (!source.segments?.length && !target?.segments?.length) {
+      const copied = Object.keys(update.attendance!);
+      const pickOverrides = (overrides: DayWorkerIds | undefined, dayValue: string | undefined): DayWorkerIds =>
+        Object.fromEntries(copied.filter(id => overrides?.[id] && overrides[id] !== dayValue).map(id => [id, overrides![id]]));
+      const workerActivityIds = pickOverrides(source.workerActivityIds, update.activityId || target?.activityId);
+      const workerAreaIds = pickOverrides(source.workerAreaIds, update.areaId || target?.areaId);
+      if (Object.keys(workerActivityIds).length > 0) update.workerActivityIds = workerActivityIds;
+      if (Object.keys(workerAreaIds).length > 0) update.workerAreaIds = workerAreaIds;
+    }
+
+    const changesWork = update.activityId || update.areaId || update.segments;
+    if (Object.keys(update.attendance!).length > 0 || changesWork) result.updates.push(update);
+  });
+  return result;
+};
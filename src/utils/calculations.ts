@@ -1,5 +1,6 @@
-import type { AppData, MonthData, Worker, WorkerMonthlyCost, MonthlyReport, ActivityReport, AreaReport, GroupReport, GroupDayEntry } from '../types';
+import type { AppData, MonthData, ClosedBalanceSnapshot, Worker, WorkerMonthlyCost, MonthlyReport, ActivityReport, AreaReport, GroupReport, GroupDayEntry, WorkerLedgerEntryType, AttendanceCode, StatusCounts, Activity, PieceQuantities, GangEntry } from '../types';
 import { getDaysInMonth, parseISO, format } from 'date-fns';
+import { getStatusDayValue, getStatusPayFactor, isCountedStatus, addStatusCount } from './attendanceCodes';
 
 // Helper to get all day entries from a month (supports both legacy and groups format)
 const getAllDaysFromMonth = (monthData: MonthData): GroupDayEntry[] => {
@@ -14,47 +15,224 @@ const getAllDaysFromMonth = (monthData: MonthData): GroupDayEntry[] => {
   return [];
 };
 
+/**
+ * Get the daily rate a worker was paid on a given date.
+ * Uses the latest rateHistory entry effective on or before the date; dates earlier
+ * than the whole history fall back to the oldest known rate.
+ */
+export const getWorkerRateOnDate = (worker: Worker, date: string): number => {
+  if (!worker.rateHistory || worker.rateHistory.length === 0) {
+    return worker.dailyRate;
+  }
+
+  const sorted = [...worker.rateHistory].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  let rate = sorted[0].rate;
+  for (const entry of sorted) {
+    if (entry.effectiveFrom <= date) {
+      rate = entry.rate;
+    }
+  }
+  return rate;
+};
+
+/**
+ * Activity and area a worker was on for a group-day: their own override if one
+ * was entered, otherwise the group's.
+ */
+export const getWorkerDayAssignment = (
+  day: GroupDayEntry,
+  workerId: string
+): { activityId?: string; areaId?: string } => ({
+  activityId: day.workerActivityIds?.[workerId] || day.activityId,
+  areaId: day.workerAreaIds?.[workerId] || day.areaId,
+});
+
+export interface WorkerDayAllocation {
+  activityId?: string;
+  areaId?: string;
+  share: number;          // Part of the worker's day; a worker's shares add up to 1
+}
+
+/**
+ * How a worker's day divides between activities and areas. On a split day the
+ * worker's segments share it in proportion to their `share`; otherwise it all goes
+ * to the worker's assignment.
+ */
+export const getWorkerDayAllocations = (day: GroupDayEntry, workerId: string): WorkerDayAllocation[] => {
+  const segments = (day.segments || []).filter(s => s.share > 0 && (!s.workerIds || s.workerIds.includes(workerId)));
+  const weight = segments.reduce((sum, s) => sum + s.share, 0);
+  if (weight > 0) {
+    return segments.map(s => ({ activityId: s.activityId, areaId: s.areaId, share: s.share / weight }));
+  }
+  return [{ ...getWorkerDayAssignment(day, workerId), share: 1 }];
+};
+
+// Activity with this id if it pays by output (undefined for day-wage activities)
+export const getPieceRateActivity = (
+  activities: Activity[] | undefined,
+  activityId: string | undefined
+): Activity | undefined => {
+  if (!activityId) return undefined;
+  const activity = (activities || []).find(a => a.id === activityId && !a.deleted);
+  return activity?.wageType === 'piece' ? activity : undefined;
+};
+
+export interface WorkerDayPay {
+  dayWage: number;
+  pieceWage: number;
+  quantity: number;
+  unit?: string;
+  allocations: (WorkerDayAllocation & { dayWage: number; pieceWage: number })[];
+}
+
+// First piece-rate activity in a worker's day, which their output is paid at
+export const getWorkerPieceRateActivity = (
+  day: GroupDayEntry,
+  workerId: string,
+  activities?: Activity[]
+): Activity | undefined => {
+  for (const allocation of getWorkerDayAllocations(day, workerId)) {
+    const activity = getPieceRateActivity(activities, allocation.activityId);
+    if (activity) return activity;
+  }
+  return undefined;
+};
+
+/**
+ * What a worker earns for one group-day. Time on a piece-rate activity is paid by
+ * the quantity entered (quantity × pieceRate) instead of the day wage; the rest of
+ * the day earns its share of the day wage. The attendance mark still counts
+ * towards days worked.
+ */
+export const getWorkerDayPay = (
+  worker: Worker,
+  day: GroupDayEntry,
+  attendanceCodes?: AttendanceCode[],
+  activities?: Activity[]
+): WorkerDayPay => {
+  const fullDayWage = getWorkerRateOnDate(worker, day.date) * getStatusPayFactor(attendanceCodes, day.attendance[worker.id]);
+  const pieceActivity = getWorkerPieceRateActivity(day, worker.id, activities);
+  const quantity = pieceActivity ? day.quantities?.[worker.id] || 0 : 0;
+
+  // The day's output is paid once, at the first piece-rate activity
+  let outputPaid = false;
+  const allocations = getWorkerDayAllocations(day, worker.id).map(allocation => {
+    if (!getPieceRateActivity(activities, allocation.activityId)) {
+      return { ...allocation, dayWage: fullDayWage * allocation.share, pieceWage: 0 };
+    }
+    const pieceWage = outputPaid ? 0 : quantity * (pieceActivity?.pieceRate || 0);
+    outputPaid = true;
+    return { ...allocation, dayWage: 0, pieceWage };
+  });
+
+  return {
+    dayWage: allocations.reduce((sum, a) => sum + a.dayWage, 0),
+    pieceWage: allocations.reduce((sum, a) => sum + a.pieceWage, 0),
+    quantity,
+    unit: pieceActivity ? pieceActivity.unit || pieceActivity.code : undefined,
+    allocations,
+  };
+};
+
+// ============ Contractor Gangs ============
+
+// Gang wages for a day: headcount × rate × the attendance code's pay factor
+export const getGangPay = (gang: GangEntry, attendanceCodes?: AttendanceCode[]): number =>
+  gang.headcount * gang.rate * getStatusPayFactor(attendanceCodes, gang.status);
+
+// Person-days a gang worked (12 people on a half day = 6)
+export const getGangDays = (gang: GangEntry, attendanceCodes?: AttendanceCode[]): number =>
+  gang.headcount * getStatusDayValue(attendanceCodes, gang.status);
+
+/**
+ * Gangs work on the group's activity and area. On a split day they share the
+ * segments that are open to the whole group.
+ */
+export const getGangAllocations = (day: GroupDayEntry): WorkerDayAllocation[] => {
+  const segments = (day.segments || []).filter(s => s.share > 0 && !s.workerIds);
+  const weight = segments.reduce((sum, s) => sum + s.share, 0);
+  if (weight > 0) {
+    return segments.map(s => ({ activityId: s.activityId, areaId: s.areaId, share: s.share / weight }));
+  }
+  return [{ activityId: day.activityId, areaId: day.areaId, share: 1 }];
+};
+
+// True if the worker has a counted mark or piece-rate output on the day
+export const hasWorkerDayEntry = (day: GroupDayEntry, workerId: string, attendanceCodes?: AttendanceCode[]): boolean => {
+  return isCountedStatus(attendanceCodes, day.attendance[workerId]) || (day.quantities?.[workerId] || 0) > 0;
+};
+
+const addPieceQuantity = (quantities: PieceQuantities, pay: WorkerDayPay): void => {
+  if (!pay.unit || !pay.quantity) return;
+  quantities[pay.unit] = (quantities[pay.unit] || 0) + pay.quantity;
+};
+
+// "120 kg, 4 crate"
+export const formatPieceQuantities = (quantities: PieceQuantities): string => {
+  return Object.entries(quantities)
+    .map(([unit, quantity]) => `${quantity} ${unit}`)
+    .join(', ');
+};
+
+// Last calendar date of a "YYYY-MM" month
+const getMonthEndDate = (monthStr: string): string => {
+  const { year, month } = getMonthYearFromString(monthStr);
+  const daysCount = getDaysInMonth(new Date(year, month - 1));
+  return `${monthStr}-${daysCount.toString().padStart(2, '0')}`;
+};
+
 export const calculateWorkerMonthlyCost = (
   worker: Worker,
-  monthData: MonthData | undefined
+  monthData: MonthData | undefined,
+  attendanceCodes?: AttendanceCode[],
+  activities?: Activity[]
 ): WorkerMonthlyCost => {
-  let daysWorked = 0;
-  let halfDays = 0;
+  const statusCounts: StatusCounts = {};
+  const pieceQuantities: PieceQuantities = {};
+  let totalDays = 0;
+  let dayWages = 0;
+  let pieceWages = 0;
 
   if (monthData) {
     const allDays = getAllDaysFromMonth(monthData);
     allDays.forEach(day => {
+      if (!hasWorkerDayEntry(day, worker.id, attendanceCodes)) return;
       const status = day.attendance[worker.id];
-      if (status === 'P') {
-        daysWorked++;
-      } else if (status === 'H') {
-        halfDays++;
-      }
+      addStatusCount(statusCounts, status);
+      totalDays += getStatusDayValue(attendanceCodes, status);
+      const pay = getWorkerDayPay(worker, day, attendanceCodes, activities);
+      dayWages += pay.dayWage;
+      pieceWages += pay.pieceWage;
+      addPieceQuantity(pieceQuantities, pay);
     });
   }
 
-  const totalCost = (daysWorked * worker.dailyRate) + (halfDays * worker.dailyRate * 0.5);
-
   return {
     workerId: worker.id,
     workerName: worker.name,
-    dailyRate: worker.dailyRate,
-    daysWorked,
-    halfDays,
-    totalCost,
+    // Rate in effect at the end of the month
+    dailyRate: monthData ? getWorkerRateOnDate(worker, getMonthEndDate(monthData.month)) : worker.dailyRate,
+    statusCounts,
+    totalDays,
+    dayWages,
+    pieceWages,
+    pieceQuantities,
+    totalCost: dayWages + pieceWages,
   };
 };
 
 export const calculateMonthlyReport = (
   workers: Worker[],
-  monthData: MonthData | undefined
+  monthData: MonthData | undefined,
+  attendanceCodes?: AttendanceCode[],
+  activities?: Activity[]
 ): MonthlyReport => {
   const workerCosts = workers
     .filter(w => w.status === 'active')
-    .map(worker => calculateWorkerMonthlyCost(worker, monthData));
+    .map(worker => calculateWorkerMonthlyCost(worker, monthData, attendanceCodes, activities));
 
   const totalCost = workerCosts.reduce((sum, wc) => sum + wc.totalCost, 0);
-  const totalDays = workerCosts.reduce((sum, wc) => sum + wc.daysWorked + (wc.halfDays * 0.5), 0);
+  const totalDays = workerCosts.reduce((sum, wc) => sum + wc.totalDays, 0);
 
   return {
     month: monthData?.month || '',
@@ -64,16 +242,72 @@ export const calculateMonthlyReport = (
   };
 };
 
+interface DayLabourCost {
+  activityId?: string;
+  areaId?: string;
+  totalCost: number;
+  pieceWages: number;
+  totalDays: number;
+}
+
+// Wages and days of each worker and gang on one group-day, prorated over what they worked on
+const getDayLabourCosts = (data: AppData, day: GroupDayEntry): DayLabourCost[] => {
+  const workerIds = new Set([...Object.keys(day.attendance), ...Object.keys(day.quantities || {})]);
+  const costs: DayLabourCost[] = [];
+  workerIds.forEach(workerId => {
+    const worker = data.workers.find(w => w.id === workerId);
+    if (!worker) return;
+    const pay = getWorkerDayPay(worker, day, data.attendanceCodes, data.activities);
+    const dayValue = getStatusDayValue(data.attendanceCodes, day.attendance[workerId]);
+    pay.allocations.forEach(allocation => {
+      costs.push({
+        activityId: allocation.activityId,
+        areaId: allocation.areaId,
+        totalCost: allocation.dayWage + allocation.pieceWage,
+        pieceWages: allocation.pieceWage,
+        totalDays: dayValue * allocation.share,
+      });
+    });
+  });
+  (day.gangs || []).forEach(gang => {
+    const pay = getGangPay(gang, data.attendanceCodes);
+    const days = getGangDays(gang, data.attendanceCodes);
+    getGangAllocations(day).forEach(allocation => {
+      costs.push({
+        activityId: allocation.activityId,
+        areaId: allocation.areaId,
+        totalCost: pay * allocation.share,
+        pieceWages: 0,
+        totalDays: days * allocation.share,
+      });
+    });
+  });
+  return costs;
+};
+
+// Split days give fractions of a day; keep two decimals for display
+const roundDays = (days: number): number => Math.round(days * 100) / 100;
+
+const addDayLabourCost = (
+  totals: { totalCost: number; pieceWages: number; totalDays: number } | undefined,
+  cost: DayLabourCost
+): void => {
+  if (!totals) return;
+  totals.totalCost += cost.totalCost;
+  totals.pieceWages += cost.pieceWages;
+  totals.totalDays += cost.totalDays;
+};
+
 export const calculateCostByActivity = (
   data: AppData,
   startMonth: string,
   endMonth: string
 ): ActivityReport[] => {
-  const activityCosts: { [code: string]: { totalCost: number; totalDays: number } } = {};
+  const activityCosts: { [activityId: string]: { totalCost: number; pieceWages: number; totalDays: number } } = {};
 
   // Initialize all activities
   data.activities.forEach(act => {
-    activityCosts[act.code] = { totalCost: 0, totalDays: 0 };
+    activityCosts[act.id] = { totalCost: 0, pieceWages: 0, totalDays: 0 };
   });
 
   // Filter months in range
@@ -82,35 +316,19 @@ export const calculateCostByActivity = (
   monthsInRange.forEach(monthData => {
     const allDays = getAllDaysFromMonth(monthData);
     allDays.forEach(day => {
-      if (day.activityCode && activityCosts[day.activityCode]) {
-        // Count workers present on this day
-        let dayTotal = 0;
-        let dayCount = 0;
-
-        Object.entries(day.attendance).forEach(([workerId, status]) => {
-          const worker = data.workers.find(w => w.id === workerId);
-          if (worker) {
-            if (status === 'P') {
-              dayTotal += worker.dailyRate;
-              dayCount += 1;
-            } else if (status === 'H') {
-              dayTotal += worker.dailyRate * 0.5;
-              dayCount += 0.5;
-            }
-          }
-        });
-
-        activityCosts[day.activityCode].totalCost += dayTotal;
-        activityCosts[day.activityCode].totalDays += dayCount;
-      }
+      getDayLabourCosts(data, day).forEach(cost => {
+        if (cost.activityId) addDayLabourCost(activityCosts[cost.activityId], cost);
+      });
     });
   });
 
   return data.activities.map(act => ({
+    activityId: act.id,
     activityCode: act.code,
     activityName: act.name,
-    totalCost: activityCosts[act.code]?.totalCost || 0,
-    totalDays: activityCosts[act.code]?.totalDays || 0,
+    totalCost: activityCosts[act.id]?.totalCost || 0,
+    pieceWages: activityCosts[act.id]?.pieceWages || 0,
+    totalDays: roundDays(activityCosts[act.id]?.totalDays || 0),
   }));
 };
 
@@ -119,11 +337,11 @@ export const calculateCostByArea = (
   startMonth: string,
   endMonth: string
 ): AreaReport[] => {
-  const areaCosts: { [code: string]: { totalCost: number; totalDays: number } } = {};
+  const areaCosts: { [areaId: string]: { totalCost: number; pieceWages: number; totalDays: number } } = {};
 
   // Initialize all areas
   data.areas.forEach(area => {
-    areaCosts[area.code] = { totalCost: 0, totalDays: 0 };
+    areaCosts[area.id] = { totalCost: 0, pieceWages: 0, totalDays: 0 };
   });
 
   // Filter months in range
@@ -132,34 +350,19 @@ export const calculateCostByArea = (
   monthsInRange.forEach(monthData => {
     const allDays = getAllDaysFromMonth(monthData);
     allDays.forEach(day => {
-      if (day.areaCode && areaCosts[day.areaCode]) {
-        let dayTotal = 0;
-        let dayCount = 0;
-
-        Object.entries(day.attendance).forEach(([workerId, status]) => {
-          const worker = data.workers.find(w => w.id === workerId);
-          if (worker) {
-            if (status === 'P') {
-              dayTotal += worker.dailyRate;
-              dayCount += 1;
-            } else if (status === 'H') {
-              dayTotal += worker.dailyRate * 0.5;
-              dayCount += 0.5;
-            }
-          }
-        });
-
-        areaCosts[day.areaCode].totalCost += dayTotal;
-        areaCosts[day.areaCode].totalDays += dayCount;
-      }
+      getDayLabourCosts(data, day).forEach(cost => {
+        if (cost.areaId) addDayLabourCost(areaCosts[cost.areaId], cost);
+      });
     });
   });
 
   return data.areas.map(area => ({
+    areaId: area.id,
     areaCode: area.code,
     areaName: area.name,
-    totalCost: areaCosts[area.code]?.totalCost || 0,
-    totalDays: areaCosts[area.code]?.totalDays || 0,
+    totalCost: areaCosts[area.id]?.totalCost || 0,
+    pieceWages: areaCosts[area.id]?.pieceWages || 0,
+    totalDays: roundDays(areaCosts[area.id]?.totalDays || 0),
   }));
 };
 
@@ -173,30 +376,36 @@ export const calculateCostByWorkerForPeriod = (
   return data.workers
     .filter(w => w.status === 'active')
     .map(worker => {
-      let totalDaysWorked = 0;
-      let totalHalfDays = 0;
+      const statusCounts: StatusCounts = {};
+      const pieceQuantities: PieceQuantities = {};
+      let totalDays = 0;
+      let dayWages = 0;
+      let pieceWages = 0;
 
       monthsInRange.forEach(monthData => {
         const allDays = getAllDaysFromMonth(monthData);
         allDays.forEach(day => {
+          if (!hasWorkerDayEntry(day, worker.id, data.attendanceCodes)) return;
           const status = day.attendance[worker.id];
-          if (status === 'P') {
-            totalDaysWorked++;
-          } else if (status === 'H') {
-            totalHalfDays++;
-          }
+          addStatusCount(statusCounts, status);
+          totalDays += getStatusDayValue(data.attendanceCodes, status);
+          const pay = getWorkerDayPay(worker, day, data.attendanceCodes, data.activities);
+          dayWages += pay.dayWage;
+          pieceWages += pay.pieceWage;
+          addPieceQuantity(pieceQuantities, pay);
         });
       });
 
-      const totalCost = (totalDaysWorked * worker.dailyRate) + (totalHalfDays * worker.dailyRate * 0.5);
-
       return {
         workerId: worker.id,
         workerName: worker.name,
-        dailyRate: worker.dailyRate,
-        daysWorked: totalDaysWorked,
-        halfDays: totalHalfDays,
-        totalCost,
+        dailyRate: getWorkerRateOnDate(worker, getMonthEndDate(endMonth)),
+        statusCounts,
+        totalDays,
+        dayWages,
+        pieceWages,
+        pieceQuantities,
+        totalCost: dayWages + pieceWages,
       };
     });
 };
@@ -206,11 +415,11 @@ export const calculateCostByGroup = (
   startMonth: string,
   endMonth: string
 ): GroupReport[] => {
-  const groupCosts: { [groupId: string]: { totalCost: number; totalDays: number } } = {};
+  const groupCosts: { [groupId: string]: { totalCost: number; pieceWages: number; totalDays: number } } = {};
 
   // Initialize all groups
   (data.groups || []).forEach(group => {
-    groupCosts[group.id] = { totalCost: 0, totalDays: 0 };
+    groupCosts[group.id] = { totalCost: 0, pieceWages: 0, totalDays: 0 };
   });
 
   // Filter months in range
@@ -225,18 +434,7 @@ export const calculateCostByGroup = (
 
         // Sum up attendance for this group
         (monthGroup.days || []).forEach(day => {
-          Object.entries(day.attendance).forEach(([workerId, status]) => {
-            const worker = data.workers.find(w => w.id === workerId);
-            if (worker) {
-              if (status === 'P') {
-                groupCosts[groupId].totalCost += worker.dailyRate;
-                groupCosts[groupId].totalDays += 1;
-              } else if (status === 'H') {
-                groupCosts[groupId].totalCost += worker.dailyRate * 0.5;
-                groupCosts[groupId].totalDays += 0.5;
-              }
-            }
-          });
+          getDayLabourCosts(data, day).forEach(cost => addDayLabourCost(groupCosts[groupId], cost));
         });
       });
     }
@@ -250,6 +448,7 @@ export const calculateCostByGroup = (
       groupName: group.name,
       marathiName: group.marathiName,
       totalCost: groupCosts[group.id]?.totalCost || 0,
+      pieceWages: groupCosts[group.id]?.pieceWages || 0,
       totalDays: groupCosts[group.id]?.totalDays || 0,
     }));
 };
@@ -267,9 +466,20 @@ export interface GroupWorkerCost {
   workerName: string;
   marathiName?: string;
   dailyRate: number;
-  daysWorked: number;
-  halfDays: number;
-  totalDays: number;  // daysWorked + halfDays * 0.5
+  statusCounts: StatusCounts;
+  totalDays: number;  // Sum of day values
+  dayWages: number;
+  pieceWages: number;
+  pieceQuantities: PieceQuantities;
+  totalCost: number;  // Day + piece wages
+}
+
+// A contractor's gangs within a group for a month
+export interface GroupGangCost {
+  contractorId: string;
+  contractorName: string;
+  marathiName?: string;
+  personDays: number;
   totalCost: number;
 }
 
@@ -278,7 +488,11 @@ export interface GroupLabourCost {
   groupName: string;
   marathiName?: string;
   workers: GroupWorkerCost[];
-  totalDays: number;
+  gangs: GroupGangCost[];
+  totalDays: number;      // Worker days + gang person-days
+  dayWages: number;
+  pieceWages: number;
+  gangWages: number;
   totalCost: number;
 }
 
@@ -298,12 +512,11 @@ export const calculateLabourCostByGroup = (
     const masterGroup = (data.groups || []).find(g => g.id === monthGroup.groupId && !g.deleted);
     if (!masterGroup) return;
 
-    // Collect all unique worker IDs from attendance records in this group
+    // Collect all unique worker IDs from attendance records and piece-rate output in this group
     const workerIdsWithAttendance = new Set<string>();
     (monthGroup.days || []).forEach(day => {
-      Object.keys(day.attendance || {}).forEach(workerId => {
-        const status = day.attendance[workerId];
-        if (status === 'P' || status === 'H') {
+      [...Object.keys(day.attendance || {}), ...Object.keys(day.quantities || {})].forEach(workerId => {
+        if (hasWorkerDayEntry(day, workerId, data.attendanceCodes)) {
           workerIdsWithAttendance.add(workerId);
         }
       });
@@ -316,49 +529,82 @@ export const calculateLabourCostByGroup = (
       const worker = data.workers.find(w => w.id === workerId);
       if (!worker) return;
 
-      let daysWorked = 0;
-      let halfDays = 0;
+      const statusCounts: StatusCounts = {};
+      const pieceQuantities: PieceQuantities = {};
+      let totalDays = 0;
+      let dayWages = 0;
+      let pieceWages = 0;
 
-      // Count attendance for this worker in this group's days
+      // Count attendance for this worker in this group's days (at the rate valid on each date)
       (monthGroup.days || []).forEach(day => {
+        if (!hasWorkerDayEntry(day, workerId, data.attendanceCodes)) return;
         const status = day.attendance[workerId];
-        if (status === 'P') {
-          daysWorked++;
-        } else if (status === 'H') {
-          halfDays++;
-        }
+        addStatusCount(statusCounts, status);
+        totalDays += getStatusDayValue(data.attendanceCodes, status);
+        const pay = getWorkerDayPay(worker, day, data.attendanceCodes, data.activities);
+        dayWages += pay.dayWage;
+        pieceWages += pay.pieceWage;
+        addPieceQuantity(pieceQuantities, pay);
       });
 
-      const totalDays = daysWorked + (halfDays * 0.5);
-      const totalCost = (daysWorked * worker.dailyRate) + (halfDays * worker.dailyRate * 0.5);
-
       workerCosts.push({
         workerId: worker.id,
         workerName: worker.name,
         marathiName: worker.marathiName,
-        dailyRate: worker.dailyRate,
-        daysWorked,
-        halfDays,
+        dailyRate: getWorkerRateOnDate(worker, getMonthEndDate(month)),
+        statusCounts,
         totalDays,
-        totalCost,
+        dayWages,
+        pieceWages,
+        pieceQuantities,
+        totalCost: dayWages + pieceWages,
       });
     });
 
     // Sort workers by name
     workerCosts.sort((a, b) => a.workerName.localeCompare(b.workerName));
 
-    const groupTotalDays = workerCosts.reduce((sum, w) => sum + w.totalDays, 0);
-    const groupTotalCost = workerCosts.reduce((sum, w) => sum + w.totalCost, 0);
+    // Contractor gangs, one line per contractor
+    const gangCosts: GroupGangCost[] = [];
+    (monthGroup.days || []).forEach(day => {
+      (day.gangs || []).forEach(gang => {
+        if (gang.headcount <= 0) return;
+        let line = gangCosts.find(g => g.contractorId === gang.contractorId);
+        if (!line) {
+          const contractor = (data.contractors || []).find(c => c.id === gang.contractorId);
+          line = {
+            contractorId: gang.contractorId,
+            contractorName: contractor?.name || '-',
+            marathiName: contractor?.marathiName,
+            personDays: 0,
+            totalCost: 0,
+          };
+          gangCosts.push(line);
+        }
+        line.personDays += getGangDays(gang, data.attendanceCodes);
+        line.totalCost += getGangPay(gang, data.attendanceCodes);
+      });
+    });
+    gangCosts.sort((a, b) => a.contractorName.localeCompare(b.contractorName));
+
+    const groupTotalDays = workerCosts.reduce((sum, w) => sum + w.totalDays, 0) + gangCosts.reduce((sum, g) => sum + g.personDays, 0);
+    const groupDayWages = workerCosts.reduce((sum, w) => sum + w.dayWages, 0);
+    const groupPieceWages = workerCosts.reduce((sum, w) => sum + w.pieceWages, 0);
+    const groupGangWages = gangCosts.reduce((sum, g) => sum + g.totalCost, 0);
 
     // Only include groups with some attendance
-    if (workerCosts.length > 0) {
+    if (workerCosts.length > 0 || gangCosts.length > 0) {
       result.push({
         groupId: masterGroup.id,
         groupName: masterGroup.name,
         marathiName: masterGroup.marathiName,
         workers: workerCosts,
+        gangs: gangCosts,
         totalDays: groupTotalDays,
-        totalCost: groupTotalCost,
+        dayWages: groupDayWages,
+        pieceWages: groupPieceWages,
+        gangWages: groupGangWages,
+        totalCost: groupDayWages + groupPieceWages + groupGangWages,
       });
     }
   });
@@ -499,15 +745,19 @@ export const calculatePaymentsByGroup = (
   month: string
 ): GroupPaymentSummary[] => {
   const payments = (data.payments || []).filter(p => p.month === month && !p.deleted);
+  // Worker ledger entries tagged with a group settle that group's labour cost
+  const ledgerEntries = (data.workerLedger || []).filter(e => e.month === month && !e.deleted && e.groupId);
   const groups = (data.groups || []).filter(g => !g.deleted && g.status === 'active');
 
   const result: GroupPaymentSummary[] = [];
 
   for (const group of groups) {
     const groupPayments = payments.filter(p => p.groupId === group.id);
+    const groupLedgerEntries = ledgerEntries.filter(e => e.groupId === group.id);
+    const ledgerPayments = groupLedgerEntries.reduce((sum, e) => sum + e.amount, 0);
     const labourPayments = groupPayments
       .filter(p => p.paymentFor === 'labour')
-      .reduce((sum, p) => sum + p.amount, 0);
+      .reduce((sum, p) => sum + p.amount, 0) + ledgerPayments;
     const expensePayments = groupPayments
       .filter(p => p.paymentFor === 'expense')
       .reduce((sum, p) => sum + p.amount, 0);
@@ -519,13 +769,22 @@ export const calculatePaymentsByGroup = (
       labourPayments,
       expensePayments,
       totalPayments: labourPayments + expensePayments,
-      payments: groupPayments.map(p => ({
-        id: p.id,
-        date: p.date,
-        amount: p.amount,
-        paymentFor: p.paymentFor,
-        description: p.description,
-      })).sort((a, b) => a.date.localeCompare(b.date)),
+      payments: [
+        ...groupPayments.map(p => ({
+          id: p.id,
+          date: p.date,
+          amount: p.amount,
+          paymentFor: p.paymentFor,
+          description: p.description,
+        })),
+        ...groupLedgerEntries.map(e => ({
+          id: e.id,
+          date: e.date,
+          amount: e.amount,
+          paymentFor: 'labour' as const,
+          description: e.description || data.workers.find(w => w.id === e.workerId)?.name,
+        })),
+      ].sort((a, b) => a.date.localeCompare(b.date)),
     });
   }
 
@@ -596,39 +855,54 @@ export const calculateMonthlyCostSummary = (
 };
 
 /**
- * Calculate opening balance for a group (sum of all unpaid amounts from previous months)
+ * Calculate opening balance for a group (sum of all unpaid amounts from previous months).
+ * The latest closed month's frozen closing balance stands in for everything up to it.
  */
 export const calculateGroupOpeningBalance = (
   data: AppData,
   groupId: string,
   upToMonth: string
 ): { labourBalance: number; expenseBalance: number; totalBalance: number } => {
+  const lastClosed = (data.months || [])
+    .filter(m => m.month < upToMonth && m.closures?.[groupId]?.closed && m.closures[groupId].snapshot)
+    .sort((a, b) => b.month.localeCompare(a.month))[0];
+  const snapshot = lastClosed?.closures?.[groupId]?.snapshot;
+  const isOpenMonth = (month: string | undefined): month is string =>
+    !!month && month < upToMonth && (!lastClosed || month > lastClosed.month);
+
   // Get all months that have data, sorted chronologically
   const allMonths = new Set<string>();
 
   // Collect months from attendance data
   (data.months || []).forEach(m => {
-    if (m.month && m.month < upToMonth) {
+    if (isOpenMonth(m.month)) {
       allMonths.add(m.month);
     }
   });
 
   // Collect months from expenses
   (data.expenses || []).forEach(e => {
-    if (!e.deleted && e.month && e.month < upToMonth) {
+    if (!e.deleted && isOpenMonth(e.month)) {
       allMonths.add(e.month);
     }
   });
 
   // Collect months from payments
   (data.payments || []).forEach(p => {
-    if (!p.deleted && p.month && p.month < upToMonth) {
+    if (!p.deleted && isOpenMonth(p.month)) {
       allMonths.add(p.month);
     }
   });
 
-  let labourBalance = 0;
-  let expenseBalance = 0;
+  // Collect months from group-tagged worker ledger entries
+  (data.workerLedger || []).forEach(e => {
+    if (!e.deleted && e.groupId && isOpenMonth(e.month)) {
+      allMonths.add(e.month);
+    }
+  });
+
+  let labourBalance = snapshot?.closingLabourBalance ?? 0;
+  let expenseBalance = snapshot?.closingExpenseBalance ?? 0;
 
   // Calculate balance for each previous month
   for (const month of allMonths) {
@@ -664,8 +938,39 @@ export interface GroupMonthBalanceReport {
   totalPayments: number;
   currentMonthBalance: number;
   closingBalance: number;
+  closed?: boolean;       // Month is closed for this group: figures come from its frozen snapshot
 }
 
+/**
+ * Balance figures of a group's month, frozen into its MonthClosure when the month is closed
+ */
+export const calculateClosureSnapshot = (
+  data: AppData,
+  month: string,
+  groupId: string
+): ClosedBalanceSnapshot => {
+  const opening = calculateGroupOpeningBalance(data, groupId, month);
+  const current = calculateMonthlyCostSummary(data, month).find(s => s.groupId === groupId);
+
+  const labourCost = current?.labourCost || 0;
+  const expenseCost = current?.expenseCost || 0;
+  const labourPayments = current?.labourPayments || 0;
+  const expensePayments = current?.expensePayments || 0;
+  const closingLabourBalance = opening.labourBalance + labourCost - labourPayments;
+  const closingExpenseBalance = opening.expenseBalance + expenseCost - expensePayments;
+
+  return {
+    openingBalance: opening.totalBalance,
+    labourCost,
+    expenseCost,
+    labourPayments,
+    expensePayments,
+    closingLabourBalance,
+    closingExpenseBalance,
+    closingBalance: closingLabourBalance + closingExpenseBalance,
+  };
+};
+
 export const calculateGroupMonthBalance = (
   data: AppData,
   month: string
@@ -675,7 +980,30 @@ export const calculateGroupMonthBalance = (
 
   const result: GroupMonthBalanceReport[] = [];
 
+  const monthData = (data.months || []).find(m => m.month === month);
+
   for (const group of groups) {
+    const closure = monthData?.closures?.[group.id];
+    if (closure?.closed && closure.snapshot) {
+      const frozen = closure.snapshot;
+      result.push({
+        groupId: group.id,
+        groupName: group.name,
+        marathiName: group.marathiName,
+        openingBalance: frozen.openingBalance,
+        labourCost: frozen.labourCost,
+        expenseCost: frozen.expenseCost,
+        totalCost: frozen.labourCost + frozen.expenseCost,
+        labourPayments: frozen.labourPayments,
+        expensePayments: frozen.expensePayments,
+        totalPayments: frozen.labourPayments + frozen.expensePayments,
+        currentMonthBalance: frozen.closingBalance - frozen.openingBalance,
+        closingBalance: frozen.closingBalance,
+        closed: true,
+      });
+      continue;
+    }
+
     const opening = calculateGroupOpeningBalance(data, group.id, month);
     const current = currentMonthSummary.find(s => s.groupId === group.id);
 
@@ -711,6 +1039,276 @@ export const calculateGroupMonthBalance = (
   return result;
 };
 
+// ============ Worker Ledger Calculations ============
+
+export interface WorkerMonthEarnings {
+  month: string;
+  totalDays: number;
+  earnings: number;
+}
+
+/**
+ * Calculate a worker's attendance earnings per month, across all groups
+ */
+export const calculateWorkerEarningsByMonth = (
+  data: AppData,
+  workerId: string
+): WorkerMonthEarnings[] => {
+  const worker = data.workers.find(w => w.id === workerId);
+  if (!worker) return [];
+
+  const result: WorkerMonthEarnings[] = [];
+
+  for (const monthData of data.months) {
+    if (!monthData.month) continue;
+    let totalDays = 0;
+    let earnings = 0;
+
+    getAllDaysFromMonth(monthData).forEach(day => {
+      const status = day.attendance[workerId];
+      totalDays += getStatusDayValue(data.attendanceCodes, status);
+      const pay = getWorkerDayPay(worker, day, data.attendanceCodes, data.activities);
+      earnings += pay.dayWage + pay.pieceWage;
+    });
+
+    if (totalDays > 0 || earnings > 0) {
+      result.push({ month: monthData.month, totalDays, earnings });
+    }
+  }
+
+  return result.sort((a, b) => a.month.localeCompare(b.month));
+};
+
+export interface WorkerLedgerSummary {
+  workerId: string;
+  workerName: string;
+  marathiName?: string;
+  earnings: number;
+  advances: number;
+  deductions: number;
+  settlements: number;
+  balance: number;            // earnings - advances - deductions - settlements (amount still owed)
+}
+
+/**
+ * Calculate what each worker is owed: attendance earnings less advances,
+ * deductions and settlements (optionally only up to and including a month)
+ */
+export const calculateWorkerLedgerBalances = (
+  data: AppData,
+  upToMonth?: string
+): WorkerLedgerSummary[] => {
+  const entries = (data.workerLedger || []).filter(e => !e.deleted && (!upToMonth || e.month <= upToMonth));
+
+  return data.workers
+    .filter(w => !w.deleted)
+    .map(worker => {
+      const earnings = calculateWorkerEarningsByMonth(data, worker.id)
+        .filter(m => !upToMonth || m.month <= upToMonth)
+        .reduce((sum, m) => sum + m.earnings, 0);
+
+      const workerEntries = entries.filter(e => e.workerId === worker.id);
+      const sumOf = (type: WorkerLedgerEntryType) =>
+        workerEntries.filter(e => e.type === type).reduce((sum, e) => sum + e.amount, 0);
+      const advances = sumOf('advance');
+      const deductions = sumOf('deduction');
+      const settlements = sumOf('settlement');
+
+      return {
+        workerId: worker.id,
+        workerName: worker.name,
+        marathiName: worker.marathiName,
+        earnings,
+        advances,
+        deductions,
+        settlements,
+        balance: earnings - advances - deductions - settlements,
+      };
+    })
+    .filter(s => s.earnings > 0 || s.advances > 0 || s.deductions > 0 || s.settlements > 0)
+    .sort((a, b) => a.workerName.localeCompare(b.workerName));
+};
+
+export interface WorkerStatementLine {
+  date: string;
+  kind: 'earnings' | WorkerLedgerEntryType;
+  entryId?: string;           // Ledger entry ID (not set for earnings lines)
+  description?: string;
+  credit: number;             // Earned by the worker
+  debit: number;              // Paid out or recovered
+  balance: number;            // Running balance after this line
+}
+
+/**
+ * Build a worker's running-balance statement: one earnings line per month
+ * (dated at month end) interleaved with ledger entries
+ */
+export const calculateWorkerStatement = (
+  data: AppData,
+  workerId: string
+): WorkerStatementLine[] => {
+  const lines: Omit<WorkerStatementLine, 'balance'>[] = [
+    ...calculateWorkerEarningsByMonth(data, workerId).map(m => ({
+      date: getMonthEndDate(m.month),
+      kind: 'earnings' as const,
+      description: `${formatMonthYear(m.month)} (${m.totalDays})`,
+      credit: m.earnings,
+      debit: 0,
+    })),
+    ...(data.workerLedger || [])
+      .filter(e => e.workerId === workerId && !e.deleted)
+      .map(e => ({
+        date: e.date,
+        kind: e.type,
+        entryId: e.id,
+        description: e.description,
+        credit: 0,
+        debit: e.amount,
+      })),
+  ];
+
+  // Same-day ordering: entries before the month-end earnings line
+  lines.sort((a, b) => a.date.localeCompare(b.date) || (a.kind === 'earnings' ? 1 : 0) - (b.kind === 'earnings' ? 1 : 0));
+
+  let balance = 0;
+  return lines.map(line => {
+    balance += line.credit - line.debit;
+    return { ...line, balance };
+  });
+};
+
+// ============ Worker History ============
+
+export interface WorkerHistoryDay {
+  date: string;
+  groupId?: string;           // Not set for months saved before groups
+  status: string;             // Attendance code ('' with piece-rate output only)
+  dayValue: number;
+  earnings: number;
+}
+
+export interface WorkerHistoryLine {
+  id: string;                 // Group or activity ID ('' = no activity set)
+  totalDays: number;
+  earnings: number;
+}
+
+export interface WorkerHistory {
+  days: WorkerHistoryDay[];   // Every group-day with a mark or output, by date
+  groups: WorkerHistoryLine[];
+  activities: WorkerHistoryLine[];
+}
+
+/**
+ * Everything one worker did across all months: each group-day they worked, and
+ * their days and earnings per group and per activity (split days are prorated)
+ */
+export const calculateWorkerHistory = (data: AppData, workerId: string): WorkerHistory => {
+  const worker = data.workers.find(w => w.id === workerId);
+  const history: WorkerHistory = { days: [], groups: [], activities: [] };
+  if (!worker) return history;
+
+  const groups: { [groupId: string]: WorkerHistoryLine } = {};
+  const activities: { [activityId: string]: WorkerHistoryLine } = {};
+  const lineFor = (lines: { [id: string]: WorkerHistoryLine }, id: string) =>
+    (lines[id] = lines[id] || { id, totalDays: 0, earnings: 0 });
+
+  const addDay = (day: GroupDayEntry, groupId?: string) => {
+    if (!hasWorkerDayEntry(day, workerId, data.attendanceCodes)) return;
+    const status = day.attendance[workerId] || '';
+    const dayValue = getStatusDayValue(data.attendanceCodes, status);
+    const pay = getWorkerDayPay(worker, day, data.attendanceCodes, data.activities);
+    const earnings = pay.dayWage + pay.pieceWage;
+
+    history.days.push({ date: day.date, groupId, status, dayValue, earnings });
+    if (groupId) {
+      const line = lineFor(groups, groupId);
+      line.totalDays += dayValue;
+      line.earnings += earnings;
+    }
+    pay.allocations.forEach(allocation => {
+      const line = lineFor(activities, allocation.activityId || '');
+      line.totalDays += dayValue * allocation.share;
+      line.earnings += allocation.dayWage + allocation.pieceWage;
+    });
+  };
+
+  data.months.forEach(monthData => {
+    if (monthData.groups && monthData.groups.length > 0) {
+      monthData.groups.forEach(group => (group.days || []).forEach(day => addDay(day, group.groupId)));
+    } else {
+      (monthData.days || []).forEach(day => addDay(day));
+    }
+  });
+
+  const byEarnings = (a: WorkerHistoryLine, b: WorkerHistoryLine) => b.earnings - a.earnings;
+  history.days.sort((a, b) => a.date.localeCompare(b.date));
+  history.groups = Object.values(groups).map(g => ({ ...g, totalDays: roundDays(g.totalDays) })).sort(byEarnings);
+  history.activities = Object.values(activities).map(a => ({ ...a, totalDays: roundDays(a.totalDays) })).sort(byEarnings);
+  return history;
+};
+
+// ============ Contractor Payables ============
+
+export interface ContractorBalance {
+  contractorId: string;
+  name: string;
+  marathiName?: string;
+  personDays: number;
+  wages: number;              // Gang wages across all groups
+  payments: number;           // Labour payments made to the contractor
+  balance: number;            // wages - payments (amount still owed)
+}
+
+/**
+ * What each contractor is owed for their gangs, less the labour payments recorded
+ * against them (optionally only up to and including a month)
+ */
+export const calculateContractorBalances = (
+  data: AppData,
+  upToMonth?: string
+): ContractorBalance[] => {
+  const totals: { [contractorId: string]: { personDays: number; wages: number; payments: number } } = {};
+  const totalsFor = (contractorId: string) =>
+    (totals[contractorId] = totals[contractorId] || { personDays: 0, wages: 0, payments: 0 });
+
+  data.months
+    .filter(m => !upToMonth || m.month <= upToMonth)
+    .forEach(monthData => {
+      (monthData.groups || []).forEach(group => {
+        (group.days || []).forEach(day => {
+          (day.gangs || []).forEach(gang => {
+            const line = totalsFor(gang.contractorId);
+            line.personDays += getGangDays(gang, data.attendanceCodes);
+            line.wages += getGangPay(gang, data.attendanceCodes);
+          });
+        });
+      });
+    });
+
+  (data.payments || [])
+    .filter(p => !p.deleted && p.contractorId && p.paymentFor === 'labour' && (!upToMonth || p.month <= upToMonth))
+    .forEach(p => {
+      totalsFor(p.contractorId!).payments += p.amount;
+    });
+
+  return (data.contractors || [])
+    .filter(c => !c.deleted || totals[c.id])
+    .map(contractor => {
+      const line = totals[contractor.id] || { personDays: 0, wages: 0, payments: 0 };
+      return {
+        contractorId: contractor.id,
+        name: contractor.name,
+        marathiName: contractor.marathiName,
+        personDays: line.personDays,
+        wages: line.wages,
+        payments: line.payments,
+        balance: line.wages - line.payments,
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+};
+
 export const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat('en-IN', {
     style: 'currency',
@@ -0,0 +1,49 @@
+/**
+ * Month close
+ *
+ * A group's month can be closed once its wages are settled. A closed month locks
+ * that group's attendance, expenses, payments and ledger entries, and its balance report is frozen
+ * (see calculateClosureSnapshot) so later opening balances no longer move. Only an
+ * admin device can reopen it, with a reason. server.js enforces the attendance lock.
+ */
+
+import type { AppData, MonthClosure, MonthData, UserRole } from '../types';
+import { getDeviceRole, getSyncUrl } from './sync';
+
+export function getMonthClosure(months: MonthData[], month: string, groupId?: string): MonthClosure | undefined {
+  if (!groupId) return undefined;
+  return months.find(m => m.month === month)?.closures?.[groupId];
+}
+
+export function isMonthClosed(data: AppData, month: string, groupId?: string): boolean {
+  return !!getMonthClosure(data.months, month, groupId)?.closed;
+}
+
+// Month group instance id → master group id
+export function getMonthGroupMasterId(data: AppData, month: string, monthGroupId: string): string | undefined {
+  return data.months.find(m => m.month === month)?.groups?.find(g => g.id === monthGroupId)?.groupId;
+}
+
+export interface LockableEntry {
+  month?: string;
+  groupId?: string;
+  isShared?: boolean;
+  allocations?: { groupId: string }[];
+}
+
+// An expense, payment or group-tagged ledger entry is locked if any group it is charged
+// to is closed for its month
+export function isEntryLocked(data: AppData, entry: LockableEntry | undefined): boolean {
+  if (!entry?.month) return false;
+  const groupIds = entry.isShared
+    ? (entry.allocations || []).map(a => a.groupId)
+    : [entry.groupId];
+  return groupIds.some(groupId => isMonthClosed(data, entry.month!, groupId));
+}
+
+// Reopening needs an admin profile; before profiles are set up, an admin device
+// (a stand-alone install with no sync server is its own admin)
+export function canReopenMonths(role?: UserRole): boolean {
+  if (role) return role === 'admin';
+  return getDeviceRole() === 'admin' || !getSyncUrl();
+}
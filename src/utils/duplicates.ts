@@ -0,0 +1,259 @@
+/**
+ * Duplicate workers
+ *
+ * The same person sometimes gets added twice ("Rama" on one device, "Rama Karade"
+ * on another, or again by an Excel import), which splits their attendance across
+ * two ids. findDuplicateWorkers suggests likely pairs from similar English names,
+ * matching Marathi names and days both records were marked on.
+ *
+ * Merging moves every per-worker value of the duplicate (attendance, output,
+ * activity/area overrides, segment and membership lists) to the worker that is
+ * kept. Each moved value and each cleared value gets a new stamp, so the field
+ * by field sync merge carries the move to the server and other devices instead of
+ * bringing the old cells back. The duplicate is soft-deleted with `mergedInto`;
+ * values another device still saves under its id after the merge are moved over
+ * when they are pulled (redirectMergedWorkers).
+ */
+
+import type { AppData, GroupDayEntry, MembershipStamps, MonthData, Worker } from '../types';
+import { isMonthClosed } from './closures';
+
+export interface DuplicateWorkerPair {
+  workerIds: [string, string];
+  similarName: boolean;
+  sameMarathiName: boolean;
+  days: [number, number];     // Dates each record has attendance on
+  sharedDays: number;         // Dates both records have attendance on
+}
+
+// Per-worker maps on a day; cleared values are what the grid writes when a cell is emptied
+const WORKER_VALUE_FIELDS = [
+  { field: 'attendance', cleared: '' },
+  { field: 'quantities', cleared: 0 },
+  { field: 'workerActivityIds', cleared: '' },
+  { field: 'workerAreaIds', cleared: '' },
+] as const;
+
+// ============ Detection ============
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const similarity = (a: string, b: string): number =>
+  1 - levenshtein(a, b) / Math.max(a.length, b.length, 1);
+
+const toTokens = (name: string | undefined, pattern: RegExp): string[] =>
+  (name || '').toLowerCase().replace(pattern, ' ').split(/\s+/).filter(Boolean);
+
+/**
+ * Same name, one name being the other with more parts ("Rama" / "Rama Karade"), or
+ * a spelling variant ("Suneeta" / "Sunita"). Marathi names are compared exactly.
+ */
+const areSimilarNames = (a: string[], b: string[], fuzzy: boolean): boolean => {
+  if (a.length === 0 || b.length === 0) return false;
+  const matches = (x: string, y: string) => x === y || (fuzzy && similarity(x, y) >= 0.8);
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.every(token => longer.some(other => matches(token, other)))) return true;
+  return fuzzy && similarity(a.join(' '), b.join(' ')) >= 0.8;
+};
+
+// Dates each worker has a mark on, across all groups
+const getWorkerDates = (months: MonthData[]): Map<string, Set<string>> => {
+  const dates = new Map<string, Set<string>>();
+  months.forEach(month => {
+    (month.groups || []).forEach(group => {
+      group.days.forEach(day => {
+        Object.entries(day.attendance || {}).forEach(([workerId, status]) => {
+          if (!status) return;
+          if (!dates.has(workerId)) dates.set(workerId, new Set());
+          dates.get(workerId)!.add(day.date);
+        });
+      });
+    });
+  });
+  return dates;
+};
+
+/**
+ * Likely duplicate pairs among the workers that aren't deleted, best matches first.
+ * A pair needs a similar English or matching Marathi name; shared days rank it higher.
+ */
+export const findDuplicateWorkers = (data: AppData): DuplicateWorkerPair[] => {
+  const workers = data.workers.filter(w => !w.deleted);
+  const workerDates = getWorkerDates(data.months);
+  const englishTokens = new Map(workers.map(w => [w.id, toTokens(w.name, /[^a-z]+/g)]));
+  const marathiTokens = new Map(workers.map(w => [w.id, toTokens(w.marathiName, /[\s.,-]+/g)]));
+
+  const pairs: DuplicateWorkerPair[] = [];
+  workers.forEach((a, i) => {
+    workers.slice(i + 1).forEach(b => {
+      const similarName = areSimilarNames(englishTokens.get(a.id)!, englishTokens.get(b.id)!, true);
+      const sameMarathiName = areSimilarNames(marathiTokens.get(a.id)!, marathiTokens.get(b.id)!, false);
+      if (!similarName && !sameMarathiName) return;
+
+      const datesA = workerDates.get(a.id) || new Set<string>();
+      const datesB = workerDates.get(b.id) || new Set<string>();
+      const sharedDays = [...datesA].filter(date => datesB.has(date)).length;
+      pairs.push({ workerIds: [a.id, b.id], similarName, sameMarathiName, days: [datesA.size, datesB.size], sharedDays });
+    });
+  });
+
+  const score = (pair: DuplicateWorkerPair) =>
+    (pair.similarName ? 1 : 0) + (pair.sameMarathiName ? 1 : 0) + (pair.sharedDays > 0 ? 1 : 0);
+  return pairs.sort((x, y) => score(y) - score(x) || y.sharedDays - x.sharedDays);
+};
+
+// ============ Merge ============
+
+/**
+ * Move a worker's values on one day to another worker. Where both have a value the
+ * kept worker's stays. Returns the same day object if the worker has nothing there.
+ */
+export const mergeWorkerIntoDay = (day: GroupDayEntry, fromId: string, toId: string, stamp: string): GroupDayEntry => {
+  let changed = false;
+  const merged: GroupDayEntry = { ...day, stamps: { ...day.stamps } };
+  const stamps = merged.stamps!;
+
+  WORKER_VALUE_FIELDS.forEach(({ field, cleared }) => {
+    const values = day[field] as { [workerId: string]: string | number } | undefined;
+    if (!values?.[fromId]) return;
+    const next = { ...values, [fromId]: cleared };
+    const nextStamps: { [workerId: string]: string } = { ...stamps[field], [fromId]: stamp };
+    if (!values[toId]) {
+      next[toId] = values[fromId];
+      nextStamps[toId] = stamp;
+    }
+    (merged as unknown as Record<string, unknown>)[field] = next;
+    stamps[field] = nextStamps;
+    changed = true;
+  });
+
+  if (day.segments?.some(s => s.workerIds?.includes(fromId))) {
+    merged.segments = day.segments.map(segment => {
+      if (!segment.workerIds?.includes(fromId)) return segment;
+      const workerIds = segment.workerIds.filter(id => id !== fromId);
+      return { ...segment, workerIds: workerIds.includes(toId) ? workerIds : [...workerIds, toId] };
+    });
+    stamps.segments = stamp;
+    changed = true;
+  }
+
+  return changed ? merged : day;
+};
+
+// Swap a worker for another in a workerIds list, stamping both membership changes
+const swapMember = (
+  workerIds: string[] | undefined,
+  workerStamps: MembershipStamps | undefined,
+  fromId: string,
+  toId: string,
+  stamp: string
+): { workerIds?: string[]; workerStamps?: MembershipStamps } | undefined => {
+  if (!workerIds?.includes(fromId)) return undefined;
+  const nextIds = workerIds.filter(id => id !== fromId);
+  const nextStamps = { ...workerStamps, [fromId]: stamp };
+  if (!nextIds.includes(toId)) {
+    nextIds.push(toId);
+    nextStamps[toId] = stamp;
+  }
+  return { workerIds: nextIds, workerStamps: nextStamps };
+};
+
+/**
+ * Move a worker's attendance and memberships in one month to another worker.
+ * Groups closed for the month are left as they are (the server keeps a closed
+ * group's attendance as stored).
+ */
+export const mergeWorkerInMonth = (
+  data: AppData,
+  month: MonthData,
+  fromId: string,
+  toId: string,
+  stamp: string
+): MonthData => {
+  let changed = false;
+  const next: MonthData = { ...month };
+
+  const monthMembership = swapMember(month.workerIds, month.workerStamps, fromId, toId, stamp);
+  if (monthMembership) {
+    Object.assign(next, monthMembership);
+    changed = true;
+  }
+
+  next.groups = (month.groups || []).map(group => {
+    if (isMonthClosed(data, month.month, group.groupId)) return group;
+    const days = group.days.map(day => mergeWorkerIntoDay(day, fromId, toId, stamp));
+    const membership = swapMember(group.workerIds, group.workerStamps, fromId, toId, stamp);
+    if (!membership && days.every((day, index) => day === group.days[index])) return group;
+    changed = true;
+    return { ...group, ...membership, days };
+  });
+
+  return changed ? next : month;
+};
+
+// Months where a worker has attendance in a group that is closed, which a merge can't move
+export const getClosedMonthsWithWorker = (data: AppData, workerId: string): string[] =>
+  data.months
+    .filter(month => (month.groups || []).some(group =>
+      isMonthClosed(data, month.month, group.groupId) &&
+      group.days.some(day => day.attendance?.[workerId] || day.quantities?.[workerId])
+    ))
+    .map(month => month.month)
+    .sort();
+
+// Profile fields the kept worker takes from the duplicate where it has none
+export const fillMissingWorkerDetails = (keep: Worker, duplicate: Worker): Partial<Worker> => {
+  const fields = [
+    'marathiName', 'joinedDate', 'phone', 'gender', 'village', 'idType', 'idNumber', 'bankAccount', 'ifsc', 'upiId',
+    'emergencyContactName', 'emergencyContactPhone', 'photo', 'notes',
+  ] as const;
+  const update: Partial<Worker> = {};
+  fields.forEach(field => {
+    if (!keep[field] && duplicate[field]) (update as Record<string, unknown>)[field] = duplicate[field];
+  });
+  return update;
+};
+
+/**
+ * Move values pulled from other devices that are still saved under a merged
+ * worker's id (edits made offline before the merge reached them)
+ */
+export const redirectMergedWorkers = (data: AppData, stamp: () => string): AppData => {
+  const merged = data.workers.filter(w => w.mergedInto);
+  if (merged.length === 0) return data;
+
+  // Follow chains (A merged into B, later B into C) to the worker still in use
+  const getSurvivor = (worker: Worker): string => {
+    let id = worker.mergedInto!;
+    for (let hops = 0; hops < merged.length; hops++) {
+      const next = merged.find(w => w.id === id)?.mergedInto;
+      if (!next) break;
+      id = next;
+    }
+    return id;
+  };
+
+  let changed = false;
+  const months = data.months.map(month => {
+    let next = month;
+    merged.forEach(worker => {
+      const moved = mergeWorkerInMonth(data, next, worker.id, getSurvivor(worker), stamp());
+      if (moved !== next) {
+        next = moved;
+        changed = true;
+      }
+    });
+    return next;
+  });
+  return changed ? { ...data, months } : data;
+};
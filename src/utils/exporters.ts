@@ -1,6 +1,11 @@
 import * as XLSX from 'xlsx';
-import type { AppData, Worker, Area, Activity, MonthData, GroupDayEntry } from '../types';
-import { formatMonthYear, getDaysArrayForMonth } from './calculations';
+import type { AppData, Worker, Area, Activity, MonthData, GroupDayEntry, AttendanceCode, StatusCounts, PieceQuantities } from '../types';
+import {
+  formatMonthYear, getDaysArrayForMonth, getWorkerRateOnDate, getWorkerDayPay, formatPieceQuantities, formatCurrency,
+  calculateWorkerHistory, calculateWorkerEarningsByMonth, calculateWorkerStatement,
+} from './calculations';
+import { maskValue } from './workerProfile';
+import { getAttendanceCodes, getActiveAttendanceCodes, getStatusDayValue, addStatusCount } from './attendanceCodes';
 
 // Helper to get all day entries from a month (supports both legacy and groups format)
 const getAllDaysFromMonth = (monthData: MonthData | undefined): GroupDayEntry[] => {
@@ -60,10 +65,22 @@ export const shareViaWhatsApp = (data: AppData): void => {
   }
 };
 
-export const exportWorkersToExcel = (workers: Worker[]): void => {
+// Column order is read back by importWorkersFromExcel. ID and bank details are
+// masked unless includeDetails is set (admins only); photos are not exported.
+export const exportWorkersToExcel = (workers: Worker[], includeDetails: boolean): void => {
+  const detail = (value: string | undefined) => (includeDetails ? value || '' : maskValue(value));
   const wsData = [
-    ['Worker ID', 'Name', 'Daily Rate (₹)', 'Status', 'Join Date', 'Notes'],
-    ...workers.map(w => [w.id, w.name, w.dailyRate, w.status, w.joinedDate || '', w.notes || '']),
+    [
+      'Worker ID', 'Name', 'Daily Rate (₹)', 'Status', 'Join Date', 'Notes', 'Marathi Name',
+      'Phone', 'Gender', 'Village', 'ID Type', 'ID Number', 'Bank Account', 'IFSC', 'UPI ID',
+      'Emergency Contact', 'Emergency Phone',
+    ],
+    ...workers.map(w => [
+      w.id, w.name, w.dailyRate, w.status, w.joinedDate || '', w.notes || '', w.marathiName || '',
+      w.phone || '', w.gender || '', w.village || '', w.idType || '', detail(w.idNumber),
+      detail(w.bankAccount), detail(w.ifsc), detail(w.upiId),
+      w.emergencyContactName || '', w.emergencyContactPhone || '',
+    ]),
   ];
 
   const ws = XLSX.utils.aoa_to_sheet(wsData);
@@ -86,8 +103,11 @@ export const exportAreasToExcel = (areas: Area[]): void => {
 
 export const exportActivitiesToExcel = (activities: Activity[]): void => {
   const wsData = [
-    ['Activity ID', 'Code', 'Name', 'Marathi Name', 'Category'],
-    ...activities.map(a => [a.id, a.code, a.name, a.marathiName || '', a.category || '']),
+    ['Activity ID', 'Code', 'Name', 'Marathi Name', 'Category', 'Wage Type', 'Unit', 'Rate per Unit'],
+    ...activities.map(a => [
+      a.id, a.code, a.name, a.marathiName || '', a.category || '',
+      a.wageType || 'daily', a.unit || '', a.wageType === 'piece' ? a.pieceRate || 0 : '',
+    ]),
   ];
 
   const ws = XLSX.utils.aoa_to_sheet(wsData);
@@ -99,34 +119,52 @@ export const exportActivitiesToExcel = (activities: Activity[]): void => {
 export const exportMonthlyAttendanceToExcel = (
   monthStr: string,
   workers: Worker[],
-  monthData: MonthData | undefined
+  monthData: MonthData | undefined,
+  attendanceCodes?: AttendanceCode[],
+  activities?: Activity[]
 ): void => {
   const days = getDaysArrayForMonth(monthStr);
   const activeWorkers = workers.filter(w => w.status === 'active');
+  const codes = getAttendanceCodes(attendanceCodes);
 
-  // Header row
-  const headers = ['Sr.', 'Worker Name', 'Rate', ...days.map(d => d.toString()), 'Days', 'Half', 'Total'];
+  // Header row - one count column per attendance code; piece-rate pay is kept apart from day wages
+  const headers = ['Sr.', 'Worker Name', 'Rate', ...days.map(d => d.toString()), ...codes.map(c => c.code), 'Days', 'Day Wages', 'Output', 'Piece Wages', 'Total'];
 
   // Data rows
   const allDayEntries = getAllDaysFromMonth(monthData);
   const dataRows = activeWorkers.map((worker, idx) => {
-    let daysWorked = 0;
-    let halfDays = 0;
+    const statusCounts: StatusCounts = {};
+    const pieceQuantities: PieceQuantities = {};
+    let totalDays = 0;
+    let dayWages = 0;
+    let pieceWages = 0;
 
     const dayStatuses = days.map(day => {
       const dateStr = `${monthStr}-${day.toString().padStart(2, '0')}`;
       const dayEntry = allDayEntries.find(d => d.date === dateStr);
       const status = dayEntry?.attendance[worker.id] || '';
 
-      if (status === 'P') daysWorked++;
-      if (status === 'H') halfDays++;
+      addStatusCount(statusCounts, status);
+      totalDays += getStatusDayValue(codes, status);
+      if (dayEntry) {
+        const pay = getWorkerDayPay(worker, dayEntry, codes, activities);
+        dayWages += pay.dayWage;
+        pieceWages += pay.pieceWage;
+        if (pay.unit && pay.quantity) {
+          pieceQuantities[pay.unit] = (pieceQuantities[pay.unit] || 0) + pay.quantity;
+        }
+      }
 
       return status;
     });
 
-    const total = (daysWorked * worker.dailyRate) + (halfDays * worker.dailyRate * 0.5);
+    // Rate column shows the rate in effect at month end
+    const monthEndRate = getWorkerRateOnDate(worker, `${monthStr}-${days.length.toString().padStart(2, '0')}`);
 
-    return [idx + 1, worker.name, worker.dailyRate, ...dayStatuses, daysWorked, halfDays, total];
+    return [
+      idx + 1, worker.name, monthEndRate, ...dayStatuses, ...codes.map(c => statusCounts[c.code] || 0),
+      totalDays, dayWages, formatPieceQuantities(pieceQuantities), pieceWages, dayWages + pieceWages,
+    ];
   });
 
   const wsData = [
@@ -144,8 +182,11 @@ export const exportMonthlyAttendanceToExcel = (
     { wch: 20 }, // Name
     { wch: 6 },  // Rate
     ...days.map(() => ({ wch: 3 })), // Days
-    { wch: 5 },  // Days worked
-    { wch: 5 },  // Half days
+    ...codes.map(() => ({ wch: 4 })), // Code counts
+    { wch: 5 },  // Total days
+    { wch: 10 }, // Day wages
+    { wch: 14 }, // Output
+    { wch: 10 }, // Piece wages
     { wch: 10 }, // Total
   ];
 
@@ -159,10 +200,14 @@ export const generatePrintableSheet = (
   workers: Worker[],
   areas: Area[],
   activities: Activity[],
-  isMarathi: boolean = false
+  isMarathi: boolean = false,
+  attendanceCodes?: AttendanceCode[]
 ): string => {
   const days = getDaysArrayForMonth(monthStr);
   const activeWorkers = workers.filter(w => w.status === 'active');
+  const legend = getActiveAttendanceCodes(attendanceCodes)
+    .map(c => `${c.code} = ${isMarathi && c.marathiLabel ? c.marathiLabel : c.label}`)
+    .join(', ');
 
   // Helper to get display name based on language
   const getWorkerName = (worker: Worker) => {
@@ -236,7 +281,7 @@ export const generatePrintableSheet = (
     <body>
       <h1>${isMarathi ? 'ग्रामीनो हजेरी' : 'Graminno Attendance'} - ${formatMonthYear(monthStr)}</h1>
       <div class="legend">
-        <strong>${isMarathi ? 'चिन्हे:' : 'Legend:'}</strong> P = ${isMarathi ? 'हजर' : 'Present'}, A = ${isMarathi ? 'गैरहजर' : 'Absent'}, H = ${isMarathi ? 'अर्धा दिवस' : 'Half Day'}
+        <strong>${isMarathi ? 'चिन्हे:' : 'Legend:'}</strong> ${legend}
       </div>
       <table>
         <thead>
@@ -293,6 +338,190 @@ export const generatePrintableSheet = (
   return html;
 };
 
+/**
+ * A worker's statement to hand to them: earnings per month, groups and work done,
+ * then advances and payments with the running balance. Only contact details are
+ * printed, never ID or bank details.
+ */
+export const generateWorkerStatementSheet = (
+  data: AppData,
+  workerId: string,
+  isMarathi: boolean = true
+): string => {
+  const worker = data.workers.find(w => w.id === workerId);
+  if (!worker) return '';
+
+  const history = calculateWorkerHistory(data, workerId);
+  const months = calculateWorkerEarningsByMonth(data, workerId);
+  const statement = calculateWorkerStatement(data, workerId);
+  const balance = statement.length > 0 ? statement[statement.length - 1].balance : 0;
+
+  const name = isMarathi && worker.marathiName ? worker.marathiName : worker.name;
+  const getGroupName = (groupId: string) => {
+    const group = (data.groups || []).find(g => g.id === groupId);
+    if (!group) return '-';
+    return isMarathi && group.marathiName ? group.marathiName : group.name;
+  };
+  const getActivityName = (activityId: string) => {
+    const activity = data.activities.find(a => a.id === activityId);
+    if (!activity) return isMarathi ? 'इतर' : 'Other';
+    return isMarathi && activity.marathiName ? activity.marathiName : activity.name;
+  };
+  const kindLabels = {
+    earnings: isMarathi ? 'मजुरी' : 'Earnings',
+    advance: isMarathi ? 'उचल' : 'Advance',
+    deduction: isMarathi ? 'कपात' : 'Deduction',
+    settlement: isMarathi ? 'मजुरी दिली' : 'Settlement',
+  };
+  const money = (amount: number) => (amount ? formatCurrency(amount) : '');
+
+  const html = `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <title>${name}</title>
+      <style>
+        @page {
+          size: A4 portrait;
+          margin: 12mm;
+        }
+        body {
+          font-family: Arial, sans-serif;
+          font-size: 11px;
+        }
+        h1 {
+          font-size: 16px;
+          margin: 0 0 4px;
+        }
+        h2 {
+          font-size: 13px;
+          margin: 16px 0 6px;
+        }
+        .details {
+          color: #555;
+          margin-bottom: 8px;
+        }
+        table {
+          width: 100%;
+          border-collapse: collapse;
+        }
+        th, td {
+          border: 1px solid #333;
+          padding: 4px 6px;
+          text-align: left;
+        }
+        th {
+          background-color: #f0f0f0;
+        }
+        .num {
+          text-align: right;
+        }
+        .total td {
+          font-weight: bold;
+        }
+        .balance {
+          margin-top: 16px;
+          font-size: 14px;
+          font-weight: bold;
+        }
+        .sign {
+          margin-top: 40px;
+          display: flex;
+          justify-content: space-between;
+        }
+      </style>
+    </head>
+    <body>
+      <h1>${isMarathi ? 'कामगार हिशोब' : 'Worker Statement'} - ${name}</h1>
+      <div class="details">
+        ${[worker.village, worker.phone].filter(Boolean).join(' · ')}
+        ${isMarathi ? 'दिनांक' : 'Date'}: ${new Date().toLocaleDateString('en-IN')}
+      </div>
+
+      <h2>${isMarathi ? 'महिनावार मजुरी' : 'Earnings by Month'}</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>${isMarathi ? 'महिना' : 'Month'}</th>
+            <th class="num">${isMarathi ? 'दिवस' : 'Days'}</th>
+            <th class="num">${isMarathi ? 'मजुरी' : 'Earnings'}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${months.map(m => `
+            <tr>
+              <td>${formatMonthYear(m.month)}</td>
+              <td class="num">${m.totalDays}</td>
+              <td class="num">${formatCurrency(m.earnings)}</td>
+            </tr>
+          `).join('')}
+          <tr class="total">
+            <td>${isMarathi ? 'एकूण' : 'Total'}</td>
+            <td class="num">${months.reduce((sum, m) => sum + m.totalDays, 0)}</td>
+            <td class="num">${formatCurrency(months.reduce((sum, m) => sum + m.earnings, 0))}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <h2>${isMarathi ? 'गट व काम' : 'Groups and Work'}</h2>
+      <table>
+        <tbody>
+          ${history.groups.map(g => `
+            <tr>
+              <td>${isMarathi ? 'गट' : 'Group'}: ${getGroupName(g.id)}</td>
+              <td class="num">${g.totalDays}</td>
+              <td class="num">${formatCurrency(g.earnings)}</td>
+            </tr>
+          `).join('')}
+          ${history.activities.map(a => `
+            <tr>
+              <td>${isMarathi ? 'काम' : 'Activity'}: ${getActivityName(a.id)}</td>
+              <td class="num">${a.totalDays}</td>
+              <td class="num">${formatCurrency(a.earnings)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+
+      <h2>${isMarathi ? 'हिशोब' : 'Account'}</h2>
+      <table>
+        <thead>
+          <tr>
+            <th>${isMarathi ? 'तारीख' : 'Date'}</th>
+            <th>${isMarathi ? 'तपशील' : 'Details'}</th>
+            <th class="num">${isMarathi ? 'जमा' : 'Earned'}</th>
+            <th class="num">${isMarathi ? 'दिले' : 'Paid'}</th>
+            <th class="num">${isMarathi ? 'बाकी' : 'Balance'}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${statement.map(line => `
+            <tr>
+              <td>${line.date}</td>
+              <td>${kindLabels[line.kind]}${line.description ? ` - ${line.description}` : ''}</td>
+              <td class="num">${money(line.credit)}</td>
+              <td class="num">${money(line.debit)}</td>
+              <td class="num">${formatCurrency(line.balance)}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+
+      <div class="balance">
+        ${balance >= 0 ? (isMarathi ? 'देय रक्कम' : 'Amount due') : (isMarathi ? 'जास्त दिलेली रक्कम' : 'Overpaid')}: ${formatCurrency(Math.abs(balance))}
+      </div>
+
+      <div class="sign">
+        <span>${isMarathi ? 'कामगाराची सही' : 'Worker signature'}</span>
+        <span>${isMarathi ? 'मालकाची सही' : 'Owner signature'}</span>
+      </div>
+    </body>
+    </html>
+  `;
+
+  return html;
+};
+
 export const printSheet = (html: string): void => {
   const printWindow = window.open('', '_blank');
   if (printWindow) {
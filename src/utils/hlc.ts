@@ -0,0 +1,97 @@
+/**
+ * Hybrid Logical Clock
+ *
+ * Stamps look like "2024-12-15T10:30:00.000Z-0003-<deviceId>" and sort as plain
+ * strings: wall time first, then a counter for edits within the same millisecond
+ * (or while this device's clock is behind a stamp it has seen), then the device ID
+ * as a deterministic tie-breaker. The same format is compared in server.js.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+
+const DEVICE_ID_KEY = 'graminno-device-id';
+const CLOCK_KEY = 'graminno-hlc';
+
+interface ClockState {
+  wall: number;     // Milliseconds since epoch
+  counter: number;  // Logical counter within the same wall time
+}
+
+export function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_KEY);
+  if (!deviceId) {
+    deviceId = uuidv4();
+    localStorage.setItem(DEVICE_ID_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+function loadClock(): ClockState {
+  try {
+    const stored = localStorage.getItem(CLOCK_KEY);
+    if (stored) {
+      return JSON.parse(stored) as ClockState;
+    }
+  } catch {
+    // Ignore parse errors
+  }
+  return { wall: 0, counter: 0 };
+}
+
+function saveClock(clock: ClockState): void {
+  localStorage.setItem(CLOCK_KEY, JSON.stringify(clock));
+}
+
+function formatStamp(clock: ClockState): string {
+  const counter = clock.counter.toString(36).padStart(4, '0');
+  return `${new Date(clock.wall).toISOString()}-${counter}-${getDeviceId()}`;
+}
+
+function parseStamp(stamp: string): ClockState | null {
+  const wall = Date.parse(stamp.slice(0, 24));
+  const counter = parseInt(stamp.slice(25, 29), 36);
+  if (isNaN(wall) || isNaN(counter)) return null;
+  return { wall, counter };
+}
+
+// New stamp for a local edit, always later than any stamp issued or seen before
+export function nextStamp(): string {
+  const now = Date.now();
+  const clock = loadClock();
+  const next: ClockState = now > clock.wall
+    ? { wall: now, counter: 0 }
+    : { wall: clock.wall, counter: clock.counter + 1 };
+  saveClock(next);
+  return formatStamp(next);
+}
+
+// Advance the clock past a stamp received from another device
+export function receiveStamp(stamp: string | undefined): void {
+  if (!stamp) return;
+  const remote = parseStamp(stamp);
+  if (!remote) return;
+
+  const local = loadClock();
+  const wall = Math.max(Date.now(), local.wall, remote.wall);
+  let counter = 0;
+  if (wall === local.wall && wall === remote.wall) {
+    counter = Math.max(local.counter, remote.counter) + 1;
+  } else if (wall === local.wall) {
+    counter = local.counter + 1;
+  } else if (wall === remote.wall) {
+    counter = remote.counter + 1;
+  }
+  saveClock({ wall, counter });
+}
+
+// Compare two stamps (missing stamps are older than any real one)
+export function compareStamps(a: string | undefined, b: string | undefined): number {
+  const left = a || '';
+  const right = b || '';
+  if (left === right) return 0;
+  return left > right ? 1 : -1;
+}
+
+export function latestStamp(a: string | undefined, b: string | undefined): string | undefined {
+  return compareStamps(a, b) >= 0 ? a : b;
+}
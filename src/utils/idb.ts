@@ -0,0 +1,42 @@
+/**
+ * Promise wrappers around IndexedDB
+ *
+ * Shared by the app data store (data/storage.ts) and the sync outbox (utils/outbox.ts).
+ */
+
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run `work` in one transaction and resolve with its return value once the
+// transaction has committed (so request results are ready to read)
+export function runTransaction<T>(
+  db: IDBDatabase,
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => T
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    let result: T;
+    try {
+      result = work(transaction);
+    } catch (error) {
+      transaction.abort();
+      reject(error);
+      return;
+    }
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
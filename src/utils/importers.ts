@@ -1,5 +1,12 @@
 import * as XLSX from 'xlsx';
 import type { Worker, Area, Activity, AppData } from '../types';
+import { WORKER_GENDERS, WORKER_ID_TYPES, normaliseIdNumber } from './workerProfile';
+
+// Optional text cell; masked exports ('••••…') are skipped so they don't overwrite anything
+const optionalText = (cell: unknown): string | undefined => {
+  const value = cell === undefined || cell === null ? '' : String(cell).trim();
+  return value && !value.startsWith('••••') ? value : undefined;
+};
 
 export const importWorkersFromExcel = (file: File): Promise<Omit<Worker, 'id'>[]> => {
   return new Promise((resolve, reject) => {
@@ -14,15 +21,32 @@ export const importWorkersFromExcel = (file: File): Promise<Omit<Worker, 'id'>[]
         const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as unknown[][];
 
         // Skip header row
+        // Columns as written by exportWorkersToExcel
         const workers: Omit<Worker, 'id'>[] = jsonData.slice(1)
           .filter(row => row[1]) // Must have a name
-          .map(row => ({
-            name: String(row[1] || ''),
-            dailyRate: Number(row[2]) || 300,
-            status: (String(row[3] || 'active').toLowerCase() === 'inactive' ? 'inactive' : 'active') as 'active' | 'inactive',
-            joinedDate: row[4] ? String(row[4]) : undefined,
-            notes: row[5] ? String(row[5]) : undefined,
-          }));
+          .map(row => {
+            const gender = WORKER_GENDERS.find(g => g === optionalText(row[8])?.toLowerCase());
+            const idType = WORKER_ID_TYPES.find(type => type.toLowerCase() === optionalText(row[10])?.toLowerCase());
+            const idNumber = optionalText(row[11]);
+            return {
+              name: String(row[1] || ''),
+              dailyRate: Number(row[2]) || 300,
+              status: (String(row[3] || 'active').toLowerCase() === 'inactive' ? 'inactive' : 'active') as 'active' | 'inactive',
+              joinedDate: row[4] ? String(row[4]) : undefined,
+              notes: row[5] ? String(row[5]) : undefined,
+              marathiName: optionalText(row[6]),
+              phone: optionalText(row[7]),
+              gender,
+              village: optionalText(row[9]),
+              idType,
+              idNumber: idNumber ? normaliseIdNumber(idType, idNumber) : undefined,
+              bankAccount: optionalText(row[12])?.replace(/\s/g, ''),
+              ifsc: optionalText(row[13])?.toUpperCase(),
+              upiId: optionalText(row[14]),
+              emergencyContactName: optionalText(row[15]),
+              emergencyContactPhone: optionalText(row[16]),
+            };
+          });
 
         resolve(workers);
       } catch (error) {
@@ -85,6 +109,11 @@ export const importActivitiesFromExcel = (file: File): Promise<Omit<Activity, 'i
             name: String(row[2] || ''),
             hindiName: row[3] ? String(row[3]) : undefined,
             category: row[4] ? String(row[4]) : undefined,
+            ...(row[5] === 'piece' && {
+              wageType: 'piece' as const,
+              unit: row[6] ? String(row[6]) : undefined,
+              pieceRate: Number(row[7]) || 0,
+            }),
           }));
 
         resolve(activities);
@@ -0,0 +1,317 @@
+/**
+ * Deterministic merge of local and remote data
+ *
+ * Mirrors the merge functions in server.js so that a device pulling from the
+ * server ends up with the same result the server computes when it receives a push.
+ * Attendance cells, day activity/area ids and workerIds memberships are merged
+ * field by field using their HLC stamps; the later stamp wins regardless of which
+ * side it came from. Unstamped (legacy) values fall back to "remote wins".
+ */
+
+import type {
+  AppData,
+  MonthData,
+  MonthActivityGroup,
+  GroupDayEntry,
+  GroupDayStamps,
+  MembershipStamps,
+} from '../types';
+import { compareStamps, latestStamp } from './hlc';
+
+interface SyncedItem {
+  id: string;
+  modifiedAt?: string;
+  deletedAt?: string;
+}
+
+// Get the effective timestamp for an item (latest of modifiedAt or deletedAt)
+function getItemTimestamp(item: SyncedItem): number {
+  const modifiedTime = item.modifiedAt ? new Date(item.modifiedAt).getTime() : 0;
+  const deletedTime = item.deletedAt ? new Date(item.deletedAt).getTime() : 0;
+  return Math.max(modifiedTime, deletedTime);
+}
+
+// Merge arrays by ID, preferring item with later timestamp
+export function mergeItems<T extends SyncedItem>(localArr: T[] = [], remoteArr: T[] = []): T[] {
+  const map = new Map<string, T>();
+
+  for (const item of localArr) {
+    map.set(item.id, item);
+  }
+
+  for (const item of remoteArr) {
+    const existing = map.get(item.id);
+    if (!existing || getItemTimestamp(item) >= getItemTimestamp(existing)) {
+      map.set(item.id, item);
+    }
+  }
+
+  return Array.from(map.values());
+}
+
+// Merge a workerIds list using per-worker add/remove stamps
+export function mergeMembership(
+  localIds: string[] | undefined,
+  localStamps: MembershipStamps | undefined,
+  remoteIds: string[] | undefined,
+  remoteStamps: MembershipStamps | undefined
+): { workerIds?: string[]; workerStamps?: MembershipStamps } {
+  // Both undefined means "all workers" on both sides
+  if (!localIds && !remoteIds) {
+    return {};
+  }
+
+  const local = localIds || [];
+  const remote = remoteIds || [];
+  const candidates = [
+    ...new Set([
+      ...local,
+      ...remote,
+      ...Object.keys(localStamps || {}),
+      ...Object.keys(remoteStamps || {}),
+    ]),
+  ];
+
+  const workerIds: string[] = [];
+  const workerStamps: MembershipStamps = {};
+
+  for (const workerId of candidates) {
+    const localStamp = localStamps?.[workerId];
+    const remoteStamp = remoteStamps?.[workerId];
+    const order = compareStamps(localStamp, remoteStamp);
+
+    let isMember: boolean;
+    if (order > 0) {
+      isMember = local.includes(workerId);
+    } else if (order < 0) {
+      isMember = remote.includes(workerId);
+    } else {
+      // Same or no stamps: keep anyone either side has (legacy behaviour)
+      isMember = local.includes(workerId) || remote.includes(workerId);
+    }
+
+    if (isMember) workerIds.push(workerId);
+    const stamp = latestStamp(localStamp, remoteStamp);
+    if (stamp) workerStamps[workerId] = stamp;
+  }
+
+  return {
+    workerIds,
+    workerStamps: Object.keys(workerStamps).length > 0 ? workerStamps : undefined,
+  };
+}
+
+// Pick a single field value by stamp; ties go to the remote value if it has one
+function pickField<V>(
+  localValue: V | undefined,
+  localStamp: string | undefined,
+  remoteValue: V | undefined,
+  remoteStamp: string | undefined
+): V | undefined {
+  const order = compareStamps(localStamp, remoteStamp);
+  if (order > 0) return localValue;
+  if (order < 0) return remoteValue;
+  return remoteValue !== undefined ? remoteValue : localValue;
+}
+
+// Merge a per-worker map (attendance, quantities, activity/area overrides) worker by worker using its stamps
+function mergeWorkerValues<V>(
+  localValues: { [workerId: string]: V } | undefined,
+  localStamps: { [workerId: string]: string } | undefined,
+  remoteValues: { [workerId: string]: V } | undefined,
+  remoteStamps: { [workerId: string]: string } | undefined
+): { values: { [workerId: string]: V }; stamps: { [workerId: string]: string } } {
+  const values: { [workerId: string]: V } = {};
+  const stamps: { [workerId: string]: string } = {};
+  const workerIds = new Set([
+    ...Object.keys(localValues || {}),
+    ...Object.keys(remoteValues || {}),
+  ]);
+
+  for (const workerId of workerIds) {
+    const localStamp = localStamps?.[workerId];
+    const remoteStamp = remoteStamps?.[workerId];
+    const value = pickField(localValues?.[workerId], localStamp, remoteValues?.[workerId], remoteStamp);
+    if (value !== undefined) values[workerId] = value;
+    const stamp = latestStamp(localStamp, remoteStamp);
+    if (stamp) stamps[workerId] = stamp;
+  }
+
+  return { values, stamps };
+}
+
+function mergeDay(local: GroupDayEntry, remote: GroupDayEntry): GroupDayEntry {
+  const localStamps = local.stamps || {};
+  const remoteStamps = remote.stamps || {};
+
+  const attendance = mergeWorkerValues(local.attendance, localStamps.attendance, remote.attendance, remoteStamps.attendance);
+  const quantities = mergeWorkerValues(local.quantities, localStamps.quantities, remote.quantities, remoteStamps.quantities);
+  const workerActivityIds = mergeWorkerValues(local.workerActivityIds, localStamps.workerActivityIds, remote.workerActivityIds, remoteStamps.workerActivityIds);
+  const workerAreaIds = mergeWorkerValues(local.workerAreaIds, localStamps.workerAreaIds, remote.workerAreaIds, remoteStamps.workerAreaIds);
+
+  const stamps: GroupDayStamps = {};
+  const activityStamp = latestStamp(localStamps.activityId, remoteStamps.activityId);
+  const areaStamp = latestStamp(localStamps.areaId, remoteStamps.areaId);
+  const segmentsStamp = latestStamp(localStamps.segments, remoteStamps.segments);
+  const gangsStamp = latestStamp(localStamps.gangs, remoteStamps.gangs);
+  if (activityStamp) stamps.activityId = activityStamp;
+  if (areaStamp) stamps.areaId = areaStamp;
+  if (segmentsStamp) stamps.segments = segmentsStamp;
+  if (gangsStamp) stamps.gangs = gangsStamp;
+  if (Object.keys(attendance.stamps).length > 0) stamps.attendance = attendance.stamps;
+  if (Object.keys(quantities.stamps).length > 0) stamps.quantities = quantities.stamps;
+  if (Object.keys(workerActivityIds.stamps).length > 0) stamps.workerActivityIds = workerActivityIds.stamps;
+  if (Object.keys(workerAreaIds.stamps).length > 0) stamps.workerAreaIds = workerAreaIds.stamps;
+  const reviewStamp = latestStamp(localStamps.review, remoteStamps.review);
+  if (reviewStamp) stamps.review = reviewStamp;
+
+  return {
+    ...local,
+    ...remote,
+    activityId: pickField(local.activityId, localStamps.activityId, remote.activityId, remoteStamps.activityId),
+    areaId: pickField(local.areaId, localStamps.areaId, remote.areaId, remoteStamps.areaId),
+    segments: pickField(local.segments, localStamps.segments, remote.segments, remoteStamps.segments),
+    gangs: pickField(local.gangs, localStamps.gangs, remote.gangs, remoteStamps.gangs),
+    review: pickField(local.review, localStamps.review, remote.review, remoteStamps.review),
+    attendance: attendance.values,
+    quantities: Object.keys(quantities.values).length > 0 ? quantities.values : undefined,
+    workerActivityIds: Object.keys(workerActivityIds.values).length > 0 ? workerActivityIds.values : undefined,
+    workerAreaIds: Object.keys(workerAreaIds.values).length > 0 ? workerAreaIds.values : undefined,
+    stamps: Object.keys(stamps).length > 0 ? stamps : undefined,
+  };
+}
+
+function mergeDays(localDays: GroupDayEntry[] = [], remoteDays: GroupDayEntry[] = []): GroupDayEntry[] {
+  const map = new Map<string, GroupDayEntry>();
+
+  for (const day of localDays) {
+    map.set(day.date, day);
+  }
+
+  for (const remoteDay of remoteDays) {
+    const existing = map.get(remoteDay.date);
+    map.set(remoteDay.date, existing ? mergeDay(existing, remoteDay) : remoteDay);
+  }
+
+  return Array.from(map.values());
+}
+
+function mergeGroups(
+  localGroups: MonthActivityGroup[] = [],
+  remoteGroups: MonthActivityGroup[] = []
+): MonthActivityGroup[] {
+  const map = new Map<string, MonthActivityGroup>();
+
+  for (const group of localGroups) {
+    map.set(group.id, group);
+  }
+
+  for (const remoteGroup of remoteGroups) {
+    const existing = map.get(remoteGroup.id);
+    if (!existing) {
+      map.set(remoteGroup.id, remoteGroup);
+    } else {
+      map.set(remoteGroup.id, {
+        ...existing,
+        ...remoteGroup,
+        ...mergeMembership(existing.workerIds, existing.workerStamps, remoteGroup.workerIds, remoteGroup.workerStamps),
+        days: mergeDays(existing.days, remoteGroup.days),
+      });
+    }
+  }
+
+  return Array.from(map.values());
+}
+
+export function mergeMonthData(local: MonthData | undefined, remote: MonthData): MonthData {
+  if (!local) return remote;
+
+  // Removed month groups stay removed, whichever device removed them
+  const deletedGroups = { ...(local.deletedGroups || {}) };
+  for (const [groupId, stamp] of Object.entries(remote.deletedGroups || {})) {
+    deletedGroups[groupId] = latestStamp(deletedGroups[groupId], stamp) || stamp;
+  }
+
+  const groups = mergeGroups(local.groups, remote.groups).filter(g => !deletedGroups[g.id]);
+
+  // Month close/reopen per group: the later stamp wins
+  const closures = { ...(local.closures || {}) };
+  for (const [groupId, closure] of Object.entries(remote.closures || {})) {
+    const existing = closures[groupId];
+    if (!existing || latestStamp(existing.stamp, closure.stamp) !== existing.stamp) {
+      closures[groupId] = closure;
+    }
+  }
+
+  return {
+    ...local,
+    ...remote,
+    ...mergeMembership(local.workerIds, local.workerStamps, remote.workerIds, remote.workerStamps),
+    groups,
+    deletedGroups: Object.keys(deletedGroups).length > 0 ? deletedGroups : undefined,
+    closures: Object.keys(closures).length > 0 ? closures : undefined,
+  };
+}
+
+export function mergeMonths(localMonths: MonthData[] = [], remoteMonths: MonthData[] = []): MonthData[] {
+  const map = new Map<string, MonthData>();
+
+  for (const month of localMonths) {
+    map.set(month.month, month);
+  }
+
+  for (const remoteMonth of remoteMonths) {
+    if (!remoteMonth.month) continue;
+    map.set(remoteMonth.month, mergeMonthData(map.get(remoteMonth.month), remoteMonth));
+  }
+
+  return Array.from(map.values());
+}
+
+// Merge a remote dataset (all of GET /api/data, or just the files that were pulled) into local data
+export function mergeAppData(local: AppData, remote: Partial<AppData>): AppData {
+  return {
+    ...local,
+    workers: mergeItems(local.workers, remote.workers),
+    areas: mergeItems(local.areas, remote.areas),
+    activities: mergeItems(local.activities, remote.activities),
+    groups: mergeItems(local.groups, remote.groups),
+    expenseCategories: mergeItems(local.expenseCategories, remote.expenseCategories),
+    expenses: mergeItems(local.expenses, remote.expenses),
+    payments: mergeItems(local.payments, remote.payments),
+    workerLedger: mergeItems(local.workerLedger, remote.workerLedger),
+    attendanceCodes: mergeItems(local.attendanceCodes, remote.attendanceCodes),
+    auditLog: mergeItems(local.auditLog, remote.auditLog),
+    users: mergeItems(local.users, remote.users),
+    contractors: mergeItems(local.contractors, remote.contractors),
+    months: mergeMonths(local.months, remote.months),
+  };
+}
+
+// Latest stamp anywhere in a month, used to advance the local clock after a pull
+export function getLatestMonthStamp(month: MonthData): string | undefined {
+  let latest: string | undefined;
+  const consider = (stamp: string | undefined) => {
+    latest = latestStamp(latest, stamp);
+  };
+
+  Object.values(month.workerStamps || {}).forEach(consider);
+  Object.values(month.deletedGroups || {}).forEach(consider);
+  Object.values(month.closures || {}).forEach(closure => consider(closure.stamp));
+  for (const group of month.groups || []) {
+    Object.values(group.workerStamps || {}).forEach(consider);
+    for (const day of group.days || []) {
+      consider(day.stamps?.activityId);
+      consider(day.stamps?.areaId);
+      consider(day.stamps?.segments);
+      consider(day.stamps?.gangs);
+      consider(day.stamps?.review);
+      Object.values(day.stamps?.attendance || {}).forEach(consider);
+      Object.values(day.stamps?.quantities || {}).forEach(consider);
+      Object.values(day.stamps?.workerActivityIds || {}).forEach(consider);
+      Object.values(day.stamps?.workerAreaIds || {}).forEach(consider);
+    }
+  }
+
+  return latest;
+}
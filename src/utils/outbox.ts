@@ -0,0 +1,188 @@
+/**
+ * Offline outbox
+ *
+ * The payload of every dirty file is queued in IndexedDB before it is pushed, so
+ * changes that haven't reached the server survive a closed tab or a flat battery.
+ * Failed pushes are retried with exponential backoff. Entries are keyed by file
+ * ('workers', 'months/2024-12', ...): each push carries the whole file, so a newer
+ * payload simply replaces the queued one.
+ *
+ * When a push fails the app also registers a Background Sync for the queue. The
+ * service worker (public/outbox-sync.js) then drains it once the device is back
+ * online, even with the app closed; if the app is open it asks the app to push
+ * instead. Replaying a queued payload late is safe, since the server merges by
+ * item timestamps and an older copy doesn't overwrite newer changes. Browsers
+ * without Background Sync send what is left the next time the app is opened or
+ * comes back online.
+ */
+
+import { openDatabase, runTransaction } from './idb';
+import { workspaceKey } from './workspaces';
+
+const DB_NAME = 'graminno-outbox';
+const DB_VERSION = 2;
+const STORE_NAME = 'outbox';
+const DELIVERY_STORE_NAME = 'delivery';   // Where the service worker sends the queue
+const DELIVERY_KEY = 'target';
+
+// Background Sync tag; the service worker reads the database name from it
+const SYNC_TAG_PREFIX = 'outbox:';
+
+// Posted by the service worker to an open app to push the queue itself
+export const OUTBOX_FLUSH_MESSAGE = 'outbox-flush';
+
+// Fired on window whenever the queue changes, so the UI can refresh
+export const OUTBOX_CHANGE_EVENT = 'outbox-change';
+
+const RETRY_BASE_MS = 5000;            // First retry after ~5 seconds
+const RETRY_MAX_MS = 10 * 60 * 1000;   // Never wait more than 10 minutes between tries
+
+export interface OutboxEntry {
+  file: string;             // 'workers', 'months/2024-12', ...
+  path: string;             // API path the payload is POSTed to
+  body: string;             // JSON payload
+  modifiedAt: string | null; // SyncStatus lastModified of the file when queued
+  queuedAt: string;
+  attempts: number;         // Failed attempts so far
+  nextAttemptAt: number;    // Epoch ms; 0 = send as soon as possible
+  lastError?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = openDatabase(workspaceKey(DB_NAME), DB_VERSION, db => {
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'file' });
+      }
+      if (!db.objectStoreNames.contains(DELIVERY_STORE_NAME)) {
+        db.createObjectStore(DELIVERY_STORE_NAME);
+      }
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+// Run one request in its own transaction
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = STORE_NAME
+): Promise<T> {
+  const db = await openDb();
+  const request = await runTransaction(db, storeName, mode, transaction => run(transaction.objectStore(storeName)));
+  return request.result;
+}
+
+function notifyChange(): void {
+  window.dispatchEvent(new Event(OUTBOX_CHANGE_EVENT));
+}
+
+// Backoff with ±20% jitter so several devices don't retry in lockstep
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  try {
+    return await withStore('readonly', store => store.getAll() as IDBRequest<OutboxEntry[]>);
+  } catch (error) {
+    console.error('[Outbox] Read failed:', error);
+    return [];
+  }
+}
+
+async function getOutboxEntry(file: string): Promise<OutboxEntry | undefined> {
+  return withStore('readonly', store => store.get(file) as IDBRequest<OutboxEntry | undefined>);
+}
+
+// Queue (or replace) a file's payload. The retry schedule of an entry that is
+// already waiting is kept, so new edits don't hammer a server that is down.
+export async function putOutboxEntry(
+  file: string,
+  path: string,
+  body: string,
+  modifiedAt: string | null
+): Promise<void> {
+  const existing = await getOutboxEntry(file);
+  if (existing && existing.body === body && existing.modifiedAt === modifiedAt) return;
+
+  const entry: OutboxEntry = {
+    file,
+    path,
+    body,
+    modifiedAt,
+    queuedAt: existing?.queuedAt || new Date().toISOString(),
+    attempts: existing?.attempts || 0,
+    nextAttemptAt: existing?.nextAttemptAt || 0,
+    lastError: existing?.lastError,
+  };
+  await withStore('readwrite', store => store.put(entry));
+  notifyChange();
+}
+
+// Remove a delivered entry, unless a newer payload replaced it while it was in flight.
+// Returns true if the delivered payload was still the latest one.
+export async function removeOutboxEntry(file: string, body: string): Promise<boolean> {
+  const existing = await getOutboxEntry(file);
+  if (existing && existing.body !== body) return false;
+
+  await withStore('readwrite', store => store.delete(file));
+  notifyChange();
+  return true;
+}
+
+export async function recordOutboxFailure(file: string, error: string): Promise<OutboxEntry | undefined> {
+  const existing = await getOutboxEntry(file);
+  if (!existing) return undefined;
+
+  const attempts = existing.attempts + 1;
+  const entry: OutboxEntry = {
+    ...existing,
+    attempts,
+    nextAttemptAt: Date.now() + getRetryDelay(attempts),
+    lastError: error,
+  };
+  await withStore('readwrite', store => store.put(entry));
+  notifyChange();
+  return entry;
+}
+
+export async function clearOutbox(): Promise<void> {
+  try {
+    await withStore('readwrite', store => store.clear());
+    await withStore('readwrite', store => store.clear(), DELIVERY_STORE_NAME);
+    notifyChange();
+  } catch (error) {
+    console.error('[Outbox] Clear failed:', error);
+  }
+}
+
+// ============ Background Sync ============
+
+// Background Sync isn't in the DOM typings yet
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+/**
+ * Ask the service worker to send the queue once the device is back online. The
+ * server address and headers are saved with the queue, since the service worker
+ * can't read the app's localStorage.
+ */
+export async function requestBackgroundSync(syncUrl: string, headers: Record<string, string>): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  try {
+    const registration = await navigator.serviceWorker.getRegistration() as SyncRegistration | undefined;
+    if (!registration?.sync) return;
+    await withStore('readwrite', store => store.put({ syncUrl, headers }, DELIVERY_KEY), DELIVERY_STORE_NAME);
+    await registration.sync.register(SYNC_TAG_PREFIX + workspaceKey(DB_NAME));
+  } catch (error) {
+    console.error('[Outbox] Background sync registration failed:', error);
+  }
+}
@@ -0,0 +1,198 @@
+/**
+ * Activity and area references
+ *
+ * Day entries point at activities and areas by id, so codes are only display labels
+ * and can be edited without orphaning the days that used them. Data saved before
+ * that stored the English code on the day, its per-worker overrides and its
+ * segments. resolveReferences turns those codes into ids: it runs once as a schema
+ * migration and again on months pulled from the server, which can still hold days
+ * a device saved before it upgraded. Codes that match nothing are left as they are.
+ */
+
+import type { Activity, AppData, Area, DaySegment, GroupDayEntry, GroupDayStamps, LegacyDayEntry, MonthData } from '../types';
+import { transliterateNumbers } from './transliteration';
+
+interface CodedItem {
+  id: string;
+  code: string;
+  marathiCode?: string;
+  deleted?: boolean;
+  modifiedAt?: string;
+}
+
+// Fields written by versions that referenced activities and areas by code
+interface LegacyCodeFields {
+  activityCode?: string;
+  areaCode?: string;
+  workerActivityCodes?: { [workerId: string]: string };
+  workerAreaCodes?: { [workerId: string]: string };
+  segments?: (DaySegment & { activityCode?: string; areaCode?: string })[];
+  stamps?: GroupDayStamps & {
+    activityCode?: string;
+    areaCode?: string;
+    workerActivityCodes?: { [workerId: string]: string };
+    workerAreaCodes?: { [workerId: string]: string };
+  };
+}
+
+type LegacyDay = Omit<GroupDayEntry, 'segments' | 'stamps'> & LegacyCodeFields;
+
+// Id of the item with this code, preferring ones that aren't deleted
+function findIdByCode(items: CodedItem[], code: string | undefined): string | undefined {
+  if (!code) return undefined;
+  const matches = items.filter(i => i.code === code);
+  return (matches.find(i => !i.deleted) || matches[0])?.id;
+}
+
+function hasLegacyCodes(day: LegacyDay): boolean {
+  return day.activityCode !== undefined ||
+    day.areaCode !== undefined ||
+    day.workerActivityCodes !== undefined ||
+    day.workerAreaCodes !== undefined ||
+    (day.segments || []).some(s => s.activityCode !== undefined || s.areaCode !== undefined);
+}
+
+// Per-worker code map → id map; cleared entries ('') stay cleared
+function resolveWorkerCodes(items: CodedItem[], codes: { [workerId: string]: string }): { [workerId: string]: string } {
+  return Object.fromEntries(
+    Object.entries(codes).map(([workerId, code]) => [workerId, code ? findIdByCode(items, code) || code : ''])
+  );
+}
+
+export function resolveDayReferences<T extends GroupDayEntry | LegacyDayEntry>(day: T, activities: Activity[], areas: Area[]): T {
+  const legacy = day as LegacyDay;
+  if (!hasLegacyCodes(legacy)) return day;
+
+  const { activityCode, areaCode, workerActivityCodes, workerAreaCodes, stamps, ...rest } = legacy;
+  const resolved: LegacyDay = { ...rest };
+  const { activityCode: activityStamp, areaCode: areaStamp, workerActivityCodes: activityStamps, workerAreaCodes: areaStamps, ...newStamps } = stamps || {};
+  const nextStamps: NonNullable<LegacyDay['stamps']> = { ...newStamps };
+
+  // A day already on ids keeps them; its leftover codes are dropped
+  if (activityCode && resolved.activityId === undefined) {
+    const activityId = findIdByCode(activities, activityCode);
+    if (activityId) {
+      resolved.activityId = activityId;
+      if (activityStamp) nextStamps.activityId = activityStamp;
+    } else {
+      resolved.activityCode = activityCode;
+      if (activityStamp) nextStamps.activityCode = activityStamp;
+    }
+  }
+  if (areaCode && resolved.areaId === undefined) {
+    const areaId = findIdByCode(areas, areaCode);
+    if (areaId) {
+      resolved.areaId = areaId;
+      if (areaStamp) nextStamps.areaId = areaStamp;
+    } else {
+      resolved.areaCode = areaCode;
+      if (areaStamp) nextStamps.areaCode = areaStamp;
+    }
+  }
+
+  if (workerActivityCodes && !resolved.workerActivityIds) {
+    resolved.workerActivityIds = resolveWorkerCodes(activities, workerActivityCodes);
+    if (activityStamps) nextStamps.workerActivityIds = activityStamps;
+  }
+  if (workerAreaCodes && !resolved.workerAreaIds) {
+    resolved.workerAreaIds = resolveWorkerCodes(areas, workerAreaCodes);
+    if (areaStamps) nextStamps.workerAreaIds = areaStamps;
+  }
+
+  if (resolved.segments) {
+    resolved.segments = resolved.segments.map(({ activityCode: segmentActivity, areaCode: segmentArea, ...segment }) => ({
+      ...segment,
+      activityId: segment.activityId || findIdByCode(activities, segmentActivity) || segmentActivity,
+      areaId: segment.areaId || findIdByCode(areas, segmentArea) || segmentArea,
+    }));
+  }
+
+  if (stamps || Object.keys(nextStamps).length > 0) resolved.stamps = nextStamps;
+  return resolved as T;
+}
+
+export function resolveMonthReferences(month: MonthData, activities: Activity[], areas: Area[]): MonthData {
+  let changed = false;
+  const resolveDay = <T extends GroupDayEntry | LegacyDayEntry>(day: T): T => {
+    const resolved = resolveDayReferences(day, activities, areas);
+    if (resolved !== day) changed = true;
+    return resolved;
+  };
+
+  const groups = month.groups?.map(group => {
+    const days = group.days.map(resolveDay);
+    return days.some((day, index) => day !== group.days[index]) ? { ...group, days } : group;
+  });
+  const days = month.days?.map(resolveDay);
+
+  return changed ? { ...month, groups, days } : month;
+}
+
+export function resolveReferences(data: AppData): AppData {
+  const months = data.months.map(month => resolveMonthReferences(month, data.activities, data.areas));
+  return months.some((month, index) => month !== data.months[index]) ? { ...data, months } : data;
+}
+
+/**
+ * Another activity or area already using this English or Marathi code (codes are
+ * compared ignoring case and surrounding spaces).
+ */
+export function findDuplicateCode<T extends CodedItem>(
+  items: T[],
+  code: string,
+  marathiCode: string | undefined,
+  excludeId?: string
+): T | undefined {
+  const normalise = (value: string | undefined) => (value || '').trim().toLowerCase();
+  return items.find(item =>
+    !item.deleted &&
+    item.id !== excludeId &&
+    ((normalise(code) && normalise(item.code) === normalise(code)) ||
+      (normalise(marathiCode) && normalise(item.marathiCode) === normalise(marathiCode)))
+  );
+}
+
+/**
+ * Items that repeat a code get a number ("सा" → "सा२"), so every code is unique.
+ * Which item keeps the code goes by id, so devices renumbering the same list agree.
+ * Renamed items are stamped with modifiedAt so the rename wins the sync merge over
+ * copies that still have the repeated code. Returns the same array if nothing repeats.
+ */
+export function makeCodesUnique<T extends CodedItem>(items: T[]): T[] {
+  const used = { code: new Set<string>(), marathiCode: new Set<string>() };
+  const uniqueCode = (field: 'code' | 'marathiCode', value: string): string => {
+    let candidate = value;
+    for (let n = 2; used[field].has(candidate.toLowerCase()); n++) {
+      candidate = field === 'marathiCode' ? `${value}${transliterateNumbers(String(n))}` : `${value}${n}`;
+    }
+    used[field].add(candidate.toLowerCase());
+    return candidate;
+  };
+
+  const now = new Date().toISOString();
+  const renamed = new Map<string, T>();
+  [...items].sort((a, b) => a.id.localeCompare(b.id)).forEach(item => {
+    if (item.deleted) return;
+    const code = uniqueCode('code', item.code);
+    const marathiCode = item.marathiCode ? uniqueCode('marathiCode', item.marathiCode) : item.marathiCode;
+    if (code !== item.code || marathiCode !== item.marathiCode) {
+      renamed.set(item.id, { ...item, code, marathiCode, modifiedAt: now });
+    }
+  });
+  return renamed.size > 0 ? items.map(item => renamed.get(item.id) || item) : items;
+}
+
+/**
+ * Renumber codes that repeat in activities or areas merged from the server: a
+ * device that hasn't upgraded can still push them, and two devices can add the
+ * same code while apart.
+ */
+export function ensureUniqueCodes(data: AppData): AppData {
+  const check = <T extends CodedItem>(items: T[]): T[] =>
+    items.some(item => !item.deleted && findDuplicateCode(items, item.code, item.marathiCode, item.id))
+      ? makeCodesUnique(items)
+      : items;
+  const activities = check(data.activities);
+  const areas = check(data.areas);
+  return activities === data.activities && areas === data.areas ? data : { ...data, activities, areas };
+}
@@ -0,0 +1,104 @@
+/**
+ * Daily attendance review
+ *
+ * Each group-day moves draft → submitted → approved, or back to "returned" with a
+ * comment. Supervisors submit from the group attendance page and admins review on
+ * the review queue. Editing a submitted or approved day puts it back to draft, so
+ * approved figures always match what was approved.
+ */
+
+import type { AppData, DayReview, DayReviewStatus, GroupDayEntry, MonthData } from '../types';
+import { getWorkerDayPay, hasWorkerDayEntry, getGangPay, getGangDays } from './calculations';
+import { getStatusDayValue } from './attendanceCodes';
+
+export const getDayReviewStatus = (day: GroupDayEntry | undefined): DayReviewStatus =>
+  day?.review?.status || 'draft';
+
+// Days that still need (re)submitting
+export const isDaySubmittable = (day: GroupDayEntry | undefined): boolean => {
+  const status = getDayReviewStatus(day);
+  return status === 'draft' || status === 'returned';
+};
+
+// Review to store after an edit: submitted and approved days go back to draft
+export const reviewAfterEdit = (day: GroupDayEntry): DayReview | undefined => {
+  const status = getDayReviewStatus(day);
+  return status === 'submitted' || status === 'approved' ? { status: 'draft' } : day.review;
+};
+
+export const hasDayAttendance = (day: GroupDayEntry): boolean =>
+  Object.values(day.attendance || {}).some(Boolean) ||
+  Object.values(day.quantities || {}).some(Boolean) ||
+  (day.gangs || []).some(g => g.headcount > 0);
+
+/**
+ * The data with only approved days left in each month, for approved-only reports.
+ * Expenses and payments are kept as they are.
+ */
+export const filterApprovedAttendance = (data: AppData): AppData => ({
+  ...data,
+  months: data.months.map((month): MonthData => ({
+    ...month,
+    days: undefined,
+    groups: (month.groups || []).map(group => ({
+      ...group,
+      days: group.days.filter(day => getDayReviewStatus(day) === 'approved'),
+    })),
+  })),
+});
+
+export interface PendingReviewDay {
+  month: string;
+  monthGroupId: string;
+  groupId: string;
+  date: string;
+  day: GroupDayEntry;
+  workerCount: number;    // Workers with counted attendance
+  totalDays: number;      // Sum of day values, with gang person-days
+  cost: number;           // Wages the day adds
+}
+
+// Submitted days waiting for an admin, oldest first
+export const getPendingReviews = (data: AppData): PendingReviewDay[] => {
+  const result: PendingReviewDay[] = [];
+
+  for (const month of data.months) {
+    for (const group of month.groups || []) {
+      for (const day of group.days) {
+        if (getDayReviewStatus(day) !== 'submitted') continue;
+
+        let workerCount = 0;
+        let totalDays = 0;
+        let cost = 0;
+        const workerIds = new Set([...Object.keys(day.attendance || {}), ...Object.keys(day.quantities || {})]);
+        for (const workerId of workerIds) {
+          if (!hasWorkerDayEntry(day, workerId, data.attendanceCodes)) continue;
+          workerCount++;
+          totalDays += getStatusDayValue(data.attendanceCodes, day.attendance[workerId]);
+          const worker = data.workers.find(w => w.id === workerId);
+          if (worker) {
+            const pay = getWorkerDayPay(worker, day, data.attendanceCodes, data.activities);
+            cost += pay.dayWage + pay.pieceWage;
+          }
+        }
+        for (const gang of day.gangs || []) {
+          totalDays += getGangDays(gang, data.attendanceCodes);
+          cost += getGangPay(gang, data.attendanceCodes);
+        }
+
+        result.push({
+          month: month.month,
+          monthGroupId: group.id,
+          groupId: group.groupId,
+          date: day.date,
+          day,
+          workerCount,
+          totalDays,
+          cost,
+        });
+      }
+    }
+  }
+
+  return result.sort((a, b) => a.date.localeCompare(b.date));
+};
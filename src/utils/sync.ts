@@ -5,10 +5,17 @@
  * Each data type (workers, areas, activities, months) is synced separately.
  */
 
-import type { AppData, Worker, Area, Activity, Group, MonthData, ExpenseCategory, SundryExpense, Payment } from '../types';
+import type { AppData, AuditEntry, MonthData } from '../types';
+import { getDeviceId } from './hlc';
+import { putOutboxEntry, getOutboxEntries, removeOutboxEntry, recordOutboxFailure, clearOutbox, requestBackgroundSync } from './outbox';
+import type { OutboxEntry } from './outbox';
+import { getWorkspaceApiPath, workspaceKey } from './workspaces';
 
 const SYNC_URL_KEY = 'graminno-sync-url';
-const SYNC_STATUS_KEY = 'graminno-sync-status';
+const SYNC_STATUS_KEY = workspaceKey('graminno-sync-status');
+const SYNC_TOKEN_KEY = 'graminno-sync-token';
+const DEVICE_ROLE_KEY = 'graminno-device-role';
+const DEVICE_NAME_KEY = 'graminno-device-name';
 
 export interface SyncResult {
   success: boolean;
@@ -21,6 +28,7 @@ export interface FileSyncStatus {
   lastModified: string | null;  // Local modification time
   lastSynced: string | null;    // Last successful sync time
   dirty: boolean;               // Has unsaved changes
+  serverModified?: string | null; // Server's lastModified when this file was last pulled
 }
 
 export interface SyncStatus {
@@ -31,8 +39,14 @@ export interface SyncStatus {
   expenseCategories: FileSyncStatus;
   expenses: FileSyncStatus;
   payments: FileSyncStatus;
+  workerLedger: FileSyncStatus;
+  attendanceCodes: FileSyncStatus;
+  auditLog: FileSyncStatus;
+  users: FileSyncStatus;
+  contractors: FileSyncStatus;
   months: { [month: string]: FileSyncStatus };
   lastFullSync: string | null;
+  auditLogPushedAt?: string | null; // Time of this device's newest audit entry the server has
 }
 
 const defaultFileSyncStatus: FileSyncStatus = {
@@ -49,6 +63,11 @@ const defaultSyncStatus: SyncStatus = {
   expenseCategories: { ...defaultFileSyncStatus },
   expenses: { ...defaultFileSyncStatus },
   payments: { ...defaultFileSyncStatus },
+  workerLedger: { ...defaultFileSyncStatus },
+  attendanceCodes: { ...defaultFileSyncStatus },
+  auditLog: { ...defaultFileSyncStatus },
+  users: { ...defaultFileSyncStatus },
+  contractors: { ...defaultFileSyncStatus },
   months: {},
   lastFullSync: null,
 };
@@ -71,7 +90,7 @@ export function saveSyncStatus(status: SyncStatus): void {
   localStorage.setItem(SYNC_STATUS_KEY, JSON.stringify(status));
 }
 
-export function markFileDirty(fileType: 'workers' | 'areas' | 'activities' | 'groups' | 'expenseCategories' | 'expenses' | 'payments', status?: SyncStatus): SyncStatus {
+export function markFileDirty(fileType: 'workers' | 'areas' | 'activities' | 'groups' | 'expenseCategories' | 'expenses' | 'payments' | 'workerLedger' | 'attendanceCodes' | 'auditLog' | 'users' | 'contractors', status?: SyncStatus): SyncStatus {
   const current = status || getSyncStatus();
   current[fileType] = {
     ...current[fileType],
@@ -93,7 +112,7 @@ export function markMonthDirty(month: string, status?: SyncStatus): SyncStatus {
   return current;
 }
 
-export function markFileSynced(fileType: 'workers' | 'areas' | 'activities' | 'groups' | 'expenseCategories' | 'expenses' | 'payments', status?: SyncStatus): SyncStatus {
+export function markFileSynced(fileType: 'workers' | 'areas' | 'activities' | 'groups' | 'expenseCategories' | 'expenses' | 'payments' | 'workerLedger' | 'attendanceCodes' | 'auditLog' | 'users' | 'contractors', status?: SyncStatus): SyncStatus {
   const current = status || getSyncStatus();
   const now = new Date().toISOString();
   current[fileType] = {
@@ -120,7 +139,9 @@ export function markMonthSynced(month: string, status?: SyncStatus): SyncStatus
 export function hasDirtyFiles(): boolean {
   const status = getSyncStatus();
   if (status.workers.dirty || status.areas.dirty || status.activities.dirty || status.groups.dirty ||
-      status.expenseCategories.dirty || status.expenses.dirty || status.payments.dirty) {
+      status.expenseCategories.dirty || status.expenses.dirty || status.payments.dirty || status.workerLedger.dirty ||
+      status.attendanceCodes.dirty || status.auditLog.dirty || status.users.dirty ||
+      status.contractors.dirty) {
     return true;
   }
   for (const month of Object.values(status.months)) {
@@ -139,11 +160,18 @@ export function clearAllDirtyFlags(): void {
   status.expenseCategories = { ...status.expenseCategories, dirty: false, lastSynced: now };
   status.expenses = { ...status.expenses, dirty: false, lastSynced: now };
   status.payments = { ...status.payments, dirty: false, lastSynced: now };
+  status.workerLedger = { ...status.workerLedger, dirty: false, lastSynced: now };
+  status.attendanceCodes = { ...status.attendanceCodes, dirty: false, lastSynced: now };
+  status.auditLog = { ...status.auditLog, dirty: false, lastSynced: now };
+  status.users = { ...status.users, dirty: false, lastSynced: now };
+  status.contractors = { ...status.contractors, dirty: false, lastSynced: now };
   status.lastFullSync = now;
   for (const month of Object.keys(status.months)) {
     status.months[month] = { ...status.months[month], dirty: false, lastSynced: now };
   }
   saveSyncStatus(status);
+  // Queued payloads are covered by the full sync that made everything clean
+  void clearOutbox();
 }
 
 export function getDirtyFiles(): string[] {
@@ -156,6 +184,11 @@ export function getDirtyFiles(): string[] {
   if (status.expenseCategories.dirty) dirty.push('expenseCategories');
   if (status.expenses.dirty) dirty.push('expenses');
   if (status.payments.dirty) dirty.push('payments');
+  if (status.workerLedger.dirty) dirty.push('workerLedger');
+  if (status.attendanceCodes.dirty) dirty.push('attendanceCodes');
+  if (status.auditLog.dirty) dirty.push('auditLog');
+  if (status.users.dirty) dirty.push('users');
+  if (status.contractors.dirty) dirty.push('contractors');
   for (const [month, monthStatus] of Object.entries(status.months)) {
     if (monthStatus.dirty) dirty.push(`months/${month}`);
   }
@@ -177,6 +210,152 @@ export function setSyncUrl(url: string | null): void {
   }
 }
 
+// ============ Device Pairing ============
+// The server only accepts requests from paired devices. Pairing exchanges a one-time
+// code (from the server console or an admin device) for a token kept in localStorage.
+
+export type DeviceRole = 'admin' | 'standard';
+
+export interface PairedDevice {
+  id: string;
+  name: string;
+  role: DeviceRole;
+  pairedAt: string;
+  lastSeen?: string;
+  revoked?: boolean;
+  revokedAt?: string;
+}
+
+export function getSyncToken(): string | null {
+  return localStorage.getItem(SYNC_TOKEN_KEY);
+}
+
+function setSyncToken(token: string | null, role?: DeviceRole): void {
+  if (token) {
+    localStorage.setItem(SYNC_TOKEN_KEY, token);
+    localStorage.setItem(DEVICE_ROLE_KEY, role || 'standard');
+  } else {
+    localStorage.removeItem(SYNC_TOKEN_KEY);
+    localStorage.removeItem(DEVICE_ROLE_KEY);
+  }
+}
+
+export function isDevicePaired(): boolean {
+  return !!getSyncToken();
+}
+
+// Name given to this device when it was paired (recorded in the audit log)
+export function getDeviceName(): string | null {
+  return localStorage.getItem(DEVICE_NAME_KEY);
+}
+
+export function getDeviceRole(): DeviceRole | null {
+  return isDevicePaired() ? (localStorage.getItem(DEVICE_ROLE_KEY) as DeviceRole | null) : null;
+}
+
+// Headers for every authenticated API request
+export function apiHeaders(): Record<string, string> {
+  const token = getSyncToken();
+  return token
+    ? { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` }
+    : { 'Content-Type': 'application/json' };
+}
+
+export async function pairDevice(
+  url: string,
+  code: string,
+  name: string
+): Promise<{ success: boolean; device?: PairedDevice; message: string }> {
+  const syncUrl = url.replace(/\/+$/, '');
+
+  try {
+    const response = await fetch(`${syncUrl}/api/pair`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code: code.trim(), deviceId: getDeviceId(), name: name.trim() }),
+      signal: AbortSignal.timeout(10000),
+    });
+    const result = await response.json();
+
+    if (result.success && result.token) {
+      setSyncToken(result.token, result.device?.role);
+      if (result.device?.name) {
+        localStorage.setItem(DEVICE_NAME_KEY, result.device.name);
+      }
+      return { success: true, device: result.device, message: 'Device paired' };
+    }
+
+    return { success: false, message: result.error || 'Pairing failed' };
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : 'Pairing failed' };
+  }
+}
+
+export function unpairDevice(): void {
+  setSyncToken(null);
+}
+
+// Generate a one-time pairing code for another device (admin only)
+export async function createPairingCode(
+  role: DeviceRole
+): Promise<{ success: boolean; code?: string; expiresAt?: string; message: string }> {
+  const syncUrl = getSyncUrl();
+  if (!syncUrl) return { success: false, message: 'No sync URL' };
+
+  try {
+    const response = await fetch(`${syncUrl}/api/pairing-code`, {
+      method: 'POST',
+      headers: apiHeaders(),
+      body: JSON.stringify({ role }),
+      signal: AbortSignal.timeout(10000),
+    });
+    const result = await response.json();
+
+    if (result.success) {
+      return { success: true, code: result.code, expiresAt: result.expiresAt, message: 'OK' };
+    }
+
+    return { success: false, message: result.error || 'Could not create code' };
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : 'Could not create code' };
+  }
+}
+
+export async function listDevices(): Promise<PairedDevice[] | null> {
+  const syncUrl = getSyncUrl();
+  if (!syncUrl) return null;
+
+  try {
+    const response = await fetch(`${syncUrl}/api/devices`, {
+      method: 'GET',
+      headers: apiHeaders(),
+      signal: AbortSignal.timeout(10000),
+    });
+    const result = await response.json();
+    return result.success ? result.devices : null;
+  } catch (error) {
+    console.error('[Sync] Device list failed:', error);
+    return null;
+  }
+}
+
+export async function revokeDevice(id: string): Promise<{ success: boolean; message: string }> {
+  const syncUrl = getSyncUrl();
+  if (!syncUrl) return { success: false, message: 'No sync URL' };
+
+  try {
+    const response = await fetch(`${syncUrl}/api/devices/${encodeURIComponent(id)}/revoke`, {
+      method: 'POST',
+      headers: apiHeaders(),
+      signal: AbortSignal.timeout(10000),
+    });
+    const result = await response.json();
+    return { success: !!result.success, message: result.error || 'Device revoked' };
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : 'Revoke failed' };
+  }
+}
+
 // ============ Server Communication ============
 
 export async function checkServerStatus(url?: string): Promise<boolean> {
@@ -198,55 +377,83 @@ export async function checkServerStatus(url?: string): Promise<boolean> {
 }
 
 // ============ Per-File Sync Functions ============
+// Pushes go through the IndexedDB outbox (utils/outbox.ts): the payload of each dirty
+// file is queued first and only removed once the server has accepted it.
 
-async function syncFile<T>(
-  fileType: 'workers' | 'areas' | 'activities' | 'groups' | 'expenseCategories' | 'expenses' | 'payments',
-  localData: T[],
-  onSuccess: (data: T[]) => void
-): Promise<{ success: boolean; message: string }> {
-  const syncUrl = getSyncUrl();
-  if (!syncUrl) return { success: false, message: 'No sync URL' };
-
-  try {
-    // Push local data
-    const response = await fetch(`${syncUrl}/api/data/${fileType}`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ items: localData }),
-      signal: AbortSignal.timeout(10000),
-    });
+type MasterFileType = typeof MASTER_FILE_TYPES[number];
 
-    if (!response.ok) {
-      throw new Error(`Server returned ${response.status}`);
+// Mark a pushed file as synced, unless it was edited again after its payload was queued
+function markDeliveredFile(file: string, modifiedAt: string | null): void {
+  const status = getSyncStatus();
+  if (file.startsWith('months/')) {
+    const month = file.slice('months/'.length);
+    if ((status.months[month]?.lastModified ?? null) === modifiedAt) {
+      markMonthSynced(month, status);
+    }
+  } else {
+    const fileType = file as MasterFileType;
+    if ((status[fileType]?.lastModified ?? null) === modifiedAt) {
+      markFileSynced(fileType, status);
     }
+  }
+}
 
-    const result = await response.json();
-    if (result.success && result.data?.items) {
-      onSuccess(result.data.items);
-      markFileSynced(fileType);
-      return { success: true, message: `${fileType} synced` };
+// The audit log is only ever appended to, and the server merges entries by id, so a
+// push carries just this device's entries the server doesn't have yet rather than the
+// whole log. Entries from the newest pushed time on are sent again, which is harmless
+// and covers entries logged later within the same millisecond.
+function getUnsentAuditEntries(data: AppData, status: SyncStatus): AuditEntry[] {
+  const deviceId = getDeviceId();
+  const since = status.auditLogPushedAt || '';
+  return (data.auditLog || []).filter(entry => entry.deviceId === deviceId && entry.timestamp >= since);
+}
+
+function markAuditEntriesPushed(entries: AuditEntry[]): void {
+  const status = getSyncStatus();
+  const newest = entries.reduce((latest, entry) => (entry.timestamp > latest ? entry.timestamp : latest), status.auditLogPushedAt || '');
+  if (newest && newest !== status.auditLogPushedAt) {
+    status.auditLogPushedAt = newest;
+    saveSyncStatus(status);
+  }
+}
+
+// Queue the current payload of every dirty file
+async function queueDirtyFiles(data: AppData): Promise<void> {
+  const status = getSyncStatus();
+
+  for (const fileType of MASTER_FILE_TYPES) {
+    if (status[fileType].dirty) {
+      const items = fileType === 'auditLog' ? getUnsentAuditEntries(data, status) : data[fileType] || [];
+      await putOutboxEntry(
+        fileType,
+        `${getWorkspaceApiPath()}/data/${fileType}`,
+        JSON.stringify({ items }),
+        status[fileType].lastModified
+      );
     }
+  }
 
-    return { success: false, message: result.error || 'Sync failed' };
-  } catch (error) {
-    console.error(`[Sync] ${fileType} failed:`, error);
-    return { success: false, message: error instanceof Error ? error.message : 'Sync failed' };
+  for (const [month, monthStatus] of Object.entries(status.months)) {
+    if (!monthStatus.dirty) continue;
+    const monthData = data.months.find(m => m.month === month);
+    if (monthData) {
+      await putOutboxEntry(`months/${month}`, `${getWorkspaceApiPath()}/data/months/${month}`, JSON.stringify(monthData), monthStatus.lastModified);
+    }
   }
 }
 
-async function syncMonth(
-  month: string,
-  monthData: MonthData,
-  onSuccess: (data: MonthData) => void
-): Promise<{ success: boolean; message: string }> {
+// POST one queued payload; the server replies with its merged copy of the file
+async function deliverOutboxEntry(
+  entry: OutboxEntry
+): Promise<{ success: boolean; data?: unknown; retryAt?: number; message: string }> {
   const syncUrl = getSyncUrl();
   if (!syncUrl) return { success: false, message: 'No sync URL' };
 
   try {
-    const response = await fetch(`${syncUrl}/api/data/months/${month}`, {
+    const response = await fetch(`${syncUrl}${entry.path}`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(monthData),
+      headers: apiHeaders(),
+      body: entry.body,
       signal: AbortSignal.timeout(10000),
     });
 
@@ -255,31 +462,37 @@ async function syncMonth(
     }
 
     const result = await response.json();
-    if (result.success && result.data) {
-      onSuccess(result.data);
-      markMonthSynced(month);
-      return { success: true, message: `Month ${month} synced` };
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Sync failed');
     }
 
-    return { success: false, message: result.error || 'Sync failed' };
+    if (entry.file === 'auditLog') {
+      markAuditEntriesPushed(JSON.parse(entry.body).items || []);
+    }
+    if (await removeOutboxEntry(entry.file, entry.body)) {
+      markDeliveredFile(entry.file, entry.modifiedAt);
+    }
+    return { success: true, data: result.data, message: `${entry.file} synced` };
   } catch (error) {
-    console.error(`[Sync] Month ${month} failed:`, error);
-    return { success: false, message: error instanceof Error ? error.message : 'Sync failed' };
+    const message = error instanceof Error ? error.message : 'Sync failed';
+    console.error(`[Sync] ${entry.file} failed:`, error);
+    const failed = await recordOutboxFailure(entry.file, message);
+    return { success: false, retryAt: failed?.nextAttemptAt, message };
   }
 }
 
 // ============ Pull Functions ============
 
 export async function pullFile<T>(
-  fileType: 'workers' | 'areas' | 'activities' | 'groups' | 'expenseCategories' | 'expenses' | 'payments'
+  fileType: 'workers' | 'areas' | 'activities' | 'groups' | 'expenseCategories' | 'expenses' | 'payments' | 'workerLedger' | 'attendanceCodes' | 'auditLog' | 'users' | 'contractors'
 ): Promise<{ success: boolean; data?: T[]; message: string }> {
   const syncUrl = getSyncUrl();
   if (!syncUrl) return { success: false, message: 'No sync URL' };
 
   try {
-    const response = await fetch(`${syncUrl}/api/data/${fileType}`, {
+    const response = await fetch(`${syncUrl}${getWorkspaceApiPath()}/data/${fileType}`, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(),
       signal: AbortSignal.timeout(10000),
     });
 
@@ -303,9 +516,9 @@ export async function pullMonth(month: string): Promise<{ success: boolean; data
   if (!syncUrl) return { success: false, message: 'No sync URL' };
 
   try {
-    const response = await fetch(`${syncUrl}/api/data/months/${month}`, {
+    const response = await fetch(`${syncUrl}${getWorkspaceApiPath()}/data/months/${month}`, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(),
       signal: AbortSignal.timeout(10000),
     });
 
@@ -324,147 +537,265 @@ export async function pullMonth(month: string): Promise<{ success: boolean; data
   }
 }
 
-// ============ Smart Sync (only dirty files) ============
-
-export interface SmartSyncCallbacks {
-  onWorkersSync?: (workers: Worker[]) => void;
-  onAreasSync?: (areas: Area[]) => void;
-  onActivitiesSync?: (activities: Activity[]) => void;
-  onGroupsSync?: (groups: Group[]) => void;
-  onExpenseCategoriesSync?: (categories: ExpenseCategory[]) => void;
-  onExpensesSync?: (expenses: SundryExpense[]) => void;
-  onPaymentsSync?: (payments: Payment[]) => void;
-  onMonthSync?: (month: string, data: MonthData) => void;
-  onProgress?: (message: string) => void;
+// ============ Pull Changed Files (manifest-driven) ============
+
+const MASTER_FILE_TYPES = [
+  'workers',
+  'areas',
+  'activities',
+  'groups',
+  'expenseCategories',
+  'expenses',
+  'payments',
+  'workerLedger',
+  'attendanceCodes',
+  'auditLog',
+  'users',
+  'contractors',
+] as const;
+
+export interface ServerManifest {
+  workers: string | null;
+  areas: string | null;
+  activities: string | null;
+  groups: string | null;
+  expenseCategories: string | null;
+  expenses: string | null;
+  payments: string | null;
+  workerLedger: string | null;
+  attendanceCodes: string | null;
+  auditLog: string | null;
+  users: string | null;
+  contractors: string | null;
+  settings: string | null;
+  months: { [month: string]: string | null };
 }
 
-export async function syncDirtyFiles(
-  data: AppData,
-  callbacks: SmartSyncCallbacks = {}
-): Promise<{ success: boolean; syncedFiles: string[]; failedFiles: string[] }> {
+export async function fetchManifest(): Promise<ServerManifest | null> {
   const syncUrl = getSyncUrl();
-  if (!syncUrl) return { success: false, syncedFiles: [], failedFiles: ['No sync URL'] };
-
-  const status = getSyncStatus();
-  const syncedFiles: string[] = [];
-  const failedFiles: string[] = [];
+  if (!syncUrl) return null;
 
-  // Sync workers if dirty
-  if (status.workers.dirty) {
-    callbacks.onProgress?.('Syncing workers...');
-    const result = await syncFile('workers', data.workers, (synced) => {
-      callbacks.onWorkersSync?.(synced);
+  try {
+    const response = await fetch(`${syncUrl}${getWorkspaceApiPath()}/manifest`, {
+      method: 'GET',
+      headers: apiHeaders(),
+      signal: AbortSignal.timeout(5000),
     });
-    if (result.success) {
-      syncedFiles.push('workers');
-    } else {
-      failedFiles.push('workers');
+
+    // Token was revoked (or the server lost it): drop it so the app asks to pair again
+    if (response.status === 401) {
+      unpairDevice();
     }
-  }
 
-  // Sync areas if dirty
-  if (status.areas.dirty) {
-    callbacks.onProgress?.('Syncing areas...');
-    const result = await syncFile('areas', data.areas, (synced) => {
-      callbacks.onAreasSync?.(synced);
-    });
-    if (result.success) {
-      syncedFiles.push('areas');
-    } else {
-      failedFiles.push('areas');
+    if (!response.ok) {
+      throw new Error(`Server returned ${response.status}`);
     }
+
+    const result = await response.json();
+    return result.success ? result.manifest : null;
+  } catch (error) {
+    console.error('[Sync] Manifest fetch failed:', error);
+    return null;
   }
+}
 
-  // Sync activities if dirty
-  if (status.activities.dirty) {
-    callbacks.onProgress?.('Syncing activities...');
-    const result = await syncFile('activities', data.activities, (synced) => {
-      callbacks.onActivitiesSync?.(synced);
-    });
-    if (result.success) {
-      syncedFiles.push('activities');
-    } else {
-      failedFiles.push('activities');
+/**
+ * Fetch only the files whose server timestamp changed since they were last pulled.
+ * Dirty files are skipped: local edits win until they have been pushed (and merged
+ * on the server), after which the next pull brings back the merged result.
+ * Pass `only` (e.g. ['workers', 'months/2024-12']) to limit the pull to those files.
+ * Returns the pulled slices for AppContext.mergeRemoteData.
+ */
+export async function pullChangedFiles(only?: string[]): Promise<{ data: Partial<AppData>; pulledFiles: string[] }> {
+  const manifest = await fetchManifest();
+  if (!manifest) return { data: {}, pulledFiles: [] };
+
+  const wanted = (file: string) => !only || only.includes(file);
+
+  const status = getSyncStatus();
+  const pulled: { [fileType: string]: unknown[] } = {};
+  const pulledMonths: { data: MonthData; serverModified: string }[] = [];
+  const serverTimes: { [fileType: string]: string } = {};
+
+  for (const fileType of MASTER_FILE_TYPES) {
+    const serverModified = manifest[fileType];
+    const fileStatus = status[fileType];
+    if (!wanted(fileType) || !serverModified || fileStatus.dirty || fileStatus.serverModified === serverModified) continue;
+
+    const result = await pullFile(fileType);
+    if (result.success && result.data) {
+      pulled[fileType] = result.data;
+      serverTimes[fileType] = serverModified;
     }
   }
 
-  // Sync groups if dirty
-  if (status.groups.dirty) {
-    callbacks.onProgress?.('Syncing groups...');
-    const result = await syncFile('groups', data.groups || [], (synced) => {
-      callbacks.onGroupsSync?.(synced);
-    });
-    if (result.success) {
-      syncedFiles.push('groups');
-    } else {
-      failedFiles.push('groups');
+  for (const [month, serverModified] of Object.entries(manifest.months || {})) {
+    const monthStatus = status.months[month];
+    if (!wanted(`months/${month}`) || !serverModified || monthStatus?.dirty || monthStatus?.serverModified === serverModified) continue;
+
+    const result = await pullMonth(month);
+    if (result.success && result.data) {
+      pulledMonths.push({ data: { ...result.data, month }, serverModified });
     }
   }
 
-  // Sync expense categories if dirty
-  if (status.expenseCategories.dirty) {
-    callbacks.onProgress?.('Syncing expense categories...');
-    const result = await syncFile('expenseCategories', data.expenseCategories || [], (synced) => {
-      callbacks.onExpenseCategoriesSync?.(synced);
-    });
-    if (result.success) {
-      syncedFiles.push('expenseCategories');
-    } else {
-      failedFiles.push('expenseCategories');
-    }
+  // Anything edited while we were fetching is now dirty - leave it for the next round
+  const latest = getSyncStatus();
+  const data: Partial<AppData> = {};
+  const pulledFiles: string[] = [];
+
+  for (const fileType of MASTER_FILE_TYPES) {
+    if (!pulled[fileType] || latest[fileType].dirty) continue;
+    Object.assign(data, { [fileType]: pulled[fileType] });
+    latest[fileType] = { ...latest[fileType], serverModified: serverTimes[fileType] };
+    pulledFiles.push(fileType);
   }
 
-  // Sync expenses if dirty
-  if (status.expenses.dirty) {
-    callbacks.onProgress?.('Syncing expenses...');
-    const result = await syncFile('expenses', data.expenses || [], (synced) => {
-      callbacks.onExpensesSync?.(synced);
-    });
-    if (result.success) {
-      syncedFiles.push('expenses');
-    } else {
-      failedFiles.push('expenses');
-    }
+  const months = pulledMonths.filter(({ data: monthData }) => !latest.months[monthData.month]?.dirty);
+  for (const { data: monthData, serverModified } of months) {
+    latest.months[monthData.month] = {
+      ...(latest.months[monthData.month] || defaultFileSyncStatus),
+      serverModified,
+    };
+    pulledFiles.push(`months/${monthData.month}`);
+  }
+  if (months.length > 0) {
+    data.months = months.map(m => m.data);
   }
 
-  // Sync payments if dirty
-  if (status.payments.dirty) {
-    callbacks.onProgress?.('Syncing payments...');
-    const result = await syncFile('payments', data.payments || [], (synced) => {
-      callbacks.onPaymentsSync?.(synced);
-    });
-    if (result.success) {
-      syncedFiles.push('payments');
-    } else {
-      failedFiles.push('payments');
+  saveSyncStatus(latest);
+  return { data, pulledFiles };
+}
+
+// ============ Live Change Events ============
+
+export interface ServerChangeEvent {
+  file: string;             // 'workers', 'months/2024-12', ... or '*' after a bulk sync
+  deviceId: string | null;  // Device that made the change
+  timestamp: string;
+}
+
+// Subscribe to the server's change stream; events caused by this device are ignored.
+// Returns an unsubscribe function. EventSource reconnects on its own after drops.
+export function subscribeToServerEvents(onChange: (event: ServerChangeEvent) => void): () => void {
+  const syncUrl = getSyncUrl();
+  const token = getSyncToken();
+  if (!syncUrl || !token || typeof EventSource === 'undefined') return () => {};
+
+  // EventSource can't send headers, so the token goes in the query string
+  const deviceId = getDeviceId();
+  const source = new EventSource(`${syncUrl}${getWorkspaceApiPath()}/events?token=${encodeURIComponent(token)}`);
+
+  source.addEventListener('change', (e) => {
+    try {
+      const event = JSON.parse((e as MessageEvent).data) as ServerChangeEvent;
+      if (event.deviceId !== deviceId) {
+        onChange(event);
+      }
+    } catch {
+      // Ignore malformed events
     }
-  }
+  });
 
-  // Sync dirty months
-  for (const [month, monthStatus] of Object.entries(status.months)) {
-    if (monthStatus.dirty) {
-      const monthData = data.months.find(m => m.month === month);
-      if (monthData) {
-        callbacks.onProgress?.(`Syncing ${month}...`);
-        const result = await syncMonth(month, monthData, (synced) => {
-          callbacks.onMonthSync?.(month, synced);
-        });
-        if (result.success) {
-          syncedFiles.push(`months/${month}`);
-        } else {
-          failedFiles.push(`months/${month}`);
-        }
+  return () => source.close();
+}
+
+// ============ Smart Sync (only dirty files) ============
+
+export interface SmartSyncCallbacks {
+  onFileSync?: (file: string, data: unknown) => void; // Server's merged copy of a pushed file
+  onProgress?: (message: string) => void;
+}
+
+export interface SmartSyncOptions {
+  force?: boolean; // Ignore retry backoff (manual sync, back online)
+}
+
+export async function syncDirtyFiles(
+  data: AppData,
+  callbacks: SmartSyncCallbacks = {},
+  options: SmartSyncOptions = {}
+): Promise<{ success: boolean; syncedFiles: string[]; failedFiles: string[]; nextRetryAt: number | null }> {
+  const syncUrl = getSyncUrl();
+  if (!syncUrl) return { success: false, syncedFiles: [], failedFiles: ['No sync URL'], nextRetryAt: null };
+
+  await queueDirtyFiles(data);
+
+  const syncedFiles: string[] = [];
+  const failedFiles: string[] = [];
+  let nextRetryAt: number | null = null;
+  const now = Date.now();
+
+  for (const entry of await getOutboxEntries()) {
+    let retryAt: number | undefined;
+
+    if (!options.force && entry.nextAttemptAt > now) {
+      // Still backing off after an earlier failure
+      retryAt = entry.nextAttemptAt;
+    } else {
+      callbacks.onProgress?.(`Syncing ${entry.file}...`);
+      const result = await deliverOutboxEntry(entry);
+      if (result.success) {
+        syncedFiles.push(entry.file);
+        callbacks.onFileSync?.(entry.file, result.data);
+        continue;
       }
+      retryAt = result.retryAt;
+    }
+
+    failedFiles.push(entry.file);
+    if (retryAt !== undefined) {
+      nextRetryAt = nextRetryAt === null ? retryAt : Math.min(nextRetryAt, retryAt);
     }
   }
 
+  // Let the service worker send what is left if the app is closed before a retry
+  if (failedFiles.length > 0) {
+    await requestBackgroundSync(syncUrl, apiHeaders());
+  }
+
   return {
     success: failedFiles.length === 0,
     syncedFiles,
     failedFiles,
+    nextRetryAt,
   };
 }
 
+// ============ Sync Queue (for the UI) ============
+
+export interface SyncQueueItem {
+  file: string;             // 'workers', 'months/2024-12', ...
+  modifiedAt: string | null; // Last local edit
+  queuedAt?: string;        // When the payload entered the outbox
+  attempts: number;         // Failed pushes so far
+  nextAttemptAt?: number;   // Epoch ms of the next automatic retry
+  lastError?: string;
+}
+
+// Everything that hasn't reached the server yet: dirty files, plus outbox entries
+// (a file stays in the outbox until the server has accepted its payload)
+export async function getSyncQueue(): Promise<SyncQueueItem[]> {
+  const status = getSyncStatus();
+  const entries = new Map((await getOutboxEntries()).map(entry => [entry.file, entry]));
+  const files = [...new Set([...getDirtyFiles(), ...entries.keys()])];
+
+  return files.map(file => {
+    const entry = entries.get(file);
+    const fileStatus = file.startsWith('months/')
+      ? status.months[file.slice('months/'.length)]
+      : status[file as MasterFileType];
+    return {
+      file,
+      modifiedAt: fileStatus?.lastModified ?? entry?.modifiedAt ?? null,
+      queuedAt: entry?.queuedAt,
+      attempts: entry?.attempts || 0,
+      nextAttemptAt: entry?.nextAttemptAt || undefined,
+      lastError: entry?.lastError,
+    };
+  });
+}
+
 // ============ Full Sync (for initial load) ============
 
 export async function pullData(): Promise<SyncResult> {
@@ -474,9 +805,9 @@ export async function pullData(): Promise<SyncResult> {
   }
 
   try {
-    const response = await fetch(`${syncUrl}/api/data`, {
+    const response = await fetch(`${syncUrl}${getWorkspaceApiPath()}/data`, {
       method: 'GET',
-      headers: { 'Content-Type': 'application/json' },
+      headers: apiHeaders(),
       signal: AbortSignal.timeout(10000),
     });
 
@@ -487,22 +818,33 @@ export async function pullData(): Promise<SyncResult> {
     const result = await response.json();
 
     if (result.success && result.data) {
-      // Mark all files as synced
+      // Mark all files as synced. Files with local edits stay dirty: the pulled
+      // data is merged into them, and the edits still need to reach the server.
       const status = getSyncStatus();
       const now = new Date().toISOString();
-      status.workers = { lastModified: null, lastSynced: now, dirty: false };
-      status.areas = { lastModified: null, lastSynced: now, dirty: false };
-      status.activities = { lastModified: null, lastSynced: now, dirty: false };
-      status.groups = { lastModified: null, lastSynced: now, dirty: false };
-      status.expenseCategories = { lastModified: null, lastSynced: now, dirty: false };
-      status.expenses = { lastModified: null, lastSynced: now, dirty: false };
-      status.payments = { lastModified: null, lastSynced: now, dirty: false };
+      const pulled = (file: FileSyncStatus = defaultFileSyncStatus): FileSyncStatus => ({
+        lastModified: file.dirty ? file.lastModified : null,
+        lastSynced: now,
+        dirty: file.dirty,
+      });
+      status.workers = pulled(status.workers);
+      status.areas = pulled(status.areas);
+      status.activities = pulled(status.activities);
+      status.groups = pulled(status.groups);
+      status.expenseCategories = pulled(status.expenseCategories);
+      status.expenses = pulled(status.expenses);
+      status.payments = pulled(status.payments);
+      status.workerLedger = pulled(status.workerLedger);
+      status.attendanceCodes = pulled(status.attendanceCodes);
+      status.auditLog = pulled(status.auditLog);
+      status.users = pulled(status.users);
+      status.contractors = pulled(status.contractors);
       status.lastFullSync = now;
 
       // Mark all months as synced
       for (const month of result.data.months || []) {
         if (month.month) {
-          status.months[month.month] = { lastModified: null, lastSynced: now, dirty: false };
+          status.months[month.month] = pulled(status.months[month.month]);
         }
       }
       saveSyncStatus(status);
@@ -535,11 +877,13 @@ export async function pushData(data: AppData): Promise<SyncResult> {
     return { success: false, message: 'No sync URL configured' };
   }
 
+  const auditLog = getUnsentAuditEntries(data, getSyncStatus());
+
   try {
-    const response = await fetch(`${syncUrl}/api/data`, {
+    const response = await fetch(`${syncUrl}${getWorkspaceApiPath()}/data`, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(data),
+      headers: apiHeaders(),
+      body: JSON.stringify({ ...data, auditLog }),
       signal: AbortSignal.timeout(10000),
     });
 
@@ -550,6 +894,8 @@ export async function pushData(data: AppData): Promise<SyncResult> {
     const result = await response.json();
 
     if (result.success) {
+      markAuditEntriesPushed(auditLog);
+
       // Mark all files as synced
       const status = getSyncStatus();
       const now = new Date().toISOString();
@@ -560,6 +906,11 @@ export async function pushData(data: AppData): Promise<SyncResult> {
       status.expenseCategories = { lastModified: null, lastSynced: now, dirty: false };
       status.expenses = { lastModified: null, lastSynced: now, dirty: false };
       status.payments = { lastModified: null, lastSynced: now, dirty: false };
+      status.workerLedger = { lastModified: null, lastSynced: now, dirty: false };
+      status.attendanceCodes = { lastModified: null, lastSynced: now, dirty: false };
+      status.auditLog = { lastModified: null, lastSynced: now, dirty: false };
+      status.users = { lastModified: null, lastSynced: now, dirty: false };
+      status.contractors = { lastModified: null, lastSynced: now, dirty: false };
       status.lastFullSync = now;
 
       // Mark all months as synced
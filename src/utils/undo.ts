@@ -0,0 +1,412 @@
+/**
+ * Undo/redo
+ *
+ * Each local edit made through AppContext is recorded as a step holding the before
+ * and after versions of the master-data items, attendance cells, piece-rate
+ * quantities, day codes, segments, contractor gangs and per-worker overrides it
+ * touched. Undoing writes the "before" values back as a new edit - with a fresh
+ * modifiedAt or HLC stamp - so it syncs and lands in the audit log like any other
+ * change. The stacks live in sessionStorage: they survive a reload, not a closed tab.
+ *
+ * Month structure (month groups and their worker lists) is not undoable, and changes
+ * in a closed month (see utils/closures.ts) are skipped.
+ */
+
+import type { AppData, MonthData, GroupDayEntry, DaySegment, GangEntry } from '../types';
+import { nextStamp } from './hlc';
+import { isMonthClosed, getMonthGroupMasterId, isEntryLocked, type LockableEntry } from './closures';
+import { reviewAfterEdit } from './review';
+import { workspaceKey } from './workspaces';
+
+const UNDO_STORAGE_KEY = workspaceKey('graminno-undo');
+const MAX_STEPS = 50;
+
+const UNDOABLE_COLLECTIONS = [
+  'workers',
+  'areas',
+  'activities',
+  'groups',
+  'attendanceCodes',
+  'expenseCategories',
+  'expenses',
+  'payments',
+  'workerLedger',
+  'contractors',
+] as const;
+
+type UndoableCollection = typeof UNDOABLE_COLLECTIONS[number];
+
+interface UndoableItem {
+  id: string;
+  deleted?: boolean;
+  deletedAt?: string;
+  modifiedAt?: string;
+  [field: string]: unknown;
+}
+
+export type UndoChange =
+  | { kind: 'item'; collection: UndoableCollection; id: string; before: UndoableItem | null; after: UndoableItem | null }
+  | { kind: 'cell'; month: string; monthGroupId: string; date: string; workerId: string; before: string; after: string }
+  | { kind: 'quantity'; month: string; monthGroupId: string; date: string; workerId: string; before: number; after: number }
+  | { kind: 'day'; month: string; monthGroupId: string; date: string; field: 'activityId' | 'areaId'; before?: string; after?: string }
+  | { kind: 'segments'; month: string; monthGroupId: string; date: string; before: DaySegment[]; after: DaySegment[] }
+  | { kind: 'gangs'; month: string; monthGroupId: string; date: string; before: GangEntry[]; after: GangEntry[] }
+  | { kind: 'override'; month: string; monthGroupId: string; date: string; field: OverrideField; workerId: string; before: string; after: string };
+
+type OverrideField = 'workerActivityIds' | 'workerAreaIds';
+
+export interface UndoStep {
+  id: string;
+  changes: UndoChange[];
+}
+
+export type UndoDirection = 'undo' | 'redo';
+
+// ============ Stacks ============
+
+interface UndoStacks {
+  undo: UndoStep[];
+  redo: UndoStep[];
+}
+
+function loadStacks(): UndoStacks {
+  try {
+    const stored = sessionStorage.getItem(UNDO_STORAGE_KEY);
+    if (stored) return JSON.parse(stored) as UndoStacks;
+  } catch {
+    // Ignore parse errors
+  }
+  return { undo: [], redo: [] };
+}
+
+let stacks = loadStacks();
+let snapshot = { canUndo: stacks.undo.length > 0, canRedo: stacks.redo.length > 0 };
+const listeners = new Set<() => void>();
+
+function saveStacks(next: UndoStacks): void {
+  stacks = next;
+  try {
+    sessionStorage.setItem(UNDO_STORAGE_KEY, JSON.stringify(stacks));
+  } catch (error) {
+    console.warn('Error saving undo history:', error);
+  }
+
+  const canUndo = stacks.undo.length > 0;
+  const canRedo = stacks.redo.length > 0;
+  if (canUndo !== snapshot.canUndo || canRedo !== snapshot.canRedo) {
+    snapshot = { canUndo, canRedo };
+    // Steps are recorded inside state updaters; tell subscribers once React is done
+    queueMicrotask(() => listeners.forEach(listener => listener()));
+  }
+}
+
+// For useSyncExternalStore
+export function subscribeUndo(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getUndoSnapshot(): { canUndo: boolean; canRedo: boolean } {
+  return snapshot;
+}
+
+// Record a step; recording the same id again replaces it (state updaters may run twice)
+export function recordUndoStep(id: string, changes: UndoChange[]): void {
+  if (changes.length === 0) return;
+  const undo = [...stacks.undo.filter(step => step.id !== id), { id, changes }].slice(-MAX_STEPS);
+  saveStacks({ undo, redo: [] });
+}
+
+// Take the step to undo (or redo) and move it to the other stack
+export function takeUndoStep(direction: UndoDirection): UndoStep | undefined {
+  const from = direction === 'undo' ? stacks.undo : stacks.redo;
+  const step = from[from.length - 1];
+  if (!step) return undefined;
+
+  const rest = from.slice(0, -1);
+  saveStacks(direction === 'undo'
+    ? { undo: rest, redo: [...stacks.redo, step] }
+    : { undo: [...stacks.undo, step], redo: rest });
+  return step;
+}
+
+export function clearUndoHistory(): void {
+  saveStacks({ undo: [], redo: [] });
+}
+
+// ============ Recording ============
+
+function diffDays(month: string, monthGroupId: string, prevDay: GroupDayEntry | undefined, nextDay: GroupDayEntry): UndoChange[] {
+  if (prevDay === nextDay) return [];
+
+  const changes: UndoChange[] = [];
+  const base = { month, monthGroupId, date: nextDay.date };
+
+  for (const field of ['activityId', 'areaId'] as const) {
+    if ((prevDay?.[field] || undefined) !== (nextDay[field] || undefined)) {
+      changes.push({ kind: 'day', ...base, field, before: prevDay?.[field], after: nextDay[field] });
+    }
+  }
+
+  const prevSegments = prevDay?.segments || [];
+  const nextSegments = nextDay.segments || [];
+  if (JSON.stringify(prevSegments) !== JSON.stringify(nextSegments)) {
+    changes.push({ kind: 'segments', ...base, before: prevSegments, after: nextSegments });
+  }
+
+  const prevGangs = prevDay?.gangs || [];
+  const nextGangs = nextDay.gangs || [];
+  if (JSON.stringify(prevGangs) !== JSON.stringify(nextGangs)) {
+    changes.push({ kind: 'gangs', ...base, before: prevGangs, after: nextGangs });
+  }
+
+  const prevAttendance = prevDay?.attendance || {};
+  for (const workerId of new Set([...Object.keys(prevAttendance), ...Object.keys(nextDay.attendance)])) {
+    const before = prevAttendance[workerId] || '';
+    const after = nextDay.attendance[workerId] || '';
+    if (before !== after) {
+      changes.push({ kind: 'cell', ...base, workerId, before, after });
+    }
+  }
+
+  const prevQuantities = prevDay?.quantities || {};
+  const nextQuantities = nextDay.quantities || {};
+  for (const workerId of new Set([...Object.keys(prevQuantities), ...Object.keys(nextQuantities)])) {
+    const before = prevQuantities[workerId] || 0;
+    const after = nextQuantities[workerId] || 0;
+    if (before !== after) {
+      changes.push({ kind: 'quantity', ...base, workerId, before, after });
+    }
+  }
+
+  for (const field of ['workerActivityIds', 'workerAreaIds'] as const) {
+    const prevIds = prevDay?.[field] || {};
+    const nextIds = nextDay[field] || {};
+    for (const workerId of new Set([...Object.keys(prevIds), ...Object.keys(nextIds)])) {
+      const before = prevIds[workerId] || '';
+      const after = nextIds[workerId] || '';
+      if (before !== after) {
+        changes.push({ kind: 'override', ...base, field, workerId, before, after });
+      }
+    }
+  }
+
+  return changes;
+}
+
+function diffMonth(prev: MonthData | undefined, next: MonthData): UndoChange[] {
+  if (prev === next) return [];
+
+  const changes: UndoChange[] = [];
+  const prevGroups = new Map((prev?.groups || []).map(g => [g.id, g]));
+
+  for (const group of next.groups || []) {
+    const previous = prevGroups.get(group.id);
+    if (previous === group) continue;
+    const prevDays = new Map((previous?.days || []).map(d => [d.date, d]));
+    for (const day of group.days) {
+      changes.push(...diffDays(next.month, group.id, prevDays.get(day.date), day));
+    }
+  }
+
+  return changes;
+}
+
+// Everything undoable that changed between two versions of the data
+export function diffUndoable(prev: AppData, next: AppData): UndoChange[] {
+  const changes: UndoChange[] = [];
+
+  for (const collection of UNDOABLE_COLLECTIONS) {
+    const prevItems = (prev[collection] || []) as unknown as UndoableItem[];
+    const nextItems = (next[collection] || []) as unknown as UndoableItem[];
+    if (prevItems === nextItems) continue;
+
+    const before = new Map(prevItems.map(item => [item.id, item]));
+    const after = new Set<string>();
+    for (const item of nextItems) {
+      after.add(item.id);
+      const previous = before.get(item.id);
+      if (previous !== item) {
+        changes.push({ kind: 'item', collection, id: item.id, before: previous || null, after: item });
+      }
+    }
+    for (const item of prevItems) {
+      if (!after.has(item.id)) {
+        changes.push({ kind: 'item', collection, id: item.id, before: item, after: null });
+      }
+    }
+  }
+
+  if (prev.months !== next.months) {
+    const prevMonths = new Map(prev.months.map(m => [m.month, m]));
+    for (const month of next.months) {
+      changes.push(...diffMonth(prevMonths.get(month.month), month));
+    }
+  }
+
+  return changes;
+}
+
+// ============ Applying ============
+
+// Write an item back as a fresh edit so it wins the modifiedAt/deletedAt merge
+function restoreItem(items: UndoableItem[], current: UndoableItem | undefined, target: UndoableItem | null, id: string): UndoableItem[] {
+  const now = new Date().toISOString();
+
+  let restored: UndoableItem;
+  if (!target) {
+    // Undoing a create: soft delete so the removal syncs
+    if (!current) return items;
+    restored = { ...current, deleted: true, deletedAt: now };
+  } else if (target.deleted) {
+    restored = { ...target, deletedAt: now };
+  } else {
+    restored = { ...target, modifiedAt: now };
+    delete restored.deleted;
+    delete restored.deletedAt;
+  }
+
+  return current
+    ? items.map(item => (item.id === id ? restored : item))
+    : [...items, restored];
+}
+
+function updateDay(
+  months: MonthData[],
+  month: string,
+  monthGroupId: string,
+  date: string,
+  update: (day: GroupDayEntry) => GroupDayEntry | null
+): MonthData[] {
+  const monthIndex = months.findIndex(m => m.month === month);
+  const monthData = months[monthIndex];
+  const group = monthData?.groups?.find(g => g.id === monthGroupId);
+  if (!monthData || !group) return months;
+
+  const existing = group.days.find(d => d.date === date);
+  const updated = update(existing || { date, attendance: {} });
+  if (!updated) return months;
+
+  const days = existing
+    ? group.days.map(d => (d === existing ? updated : d))
+    : [...group.days, updated];
+  const newMonths = [...months];
+  newMonths[monthIndex] = {
+    ...monthData,
+    groups: (monthData.groups || []).map(g => (g === group ? { ...g, days } : g)),
+  };
+  return newMonths;
+}
+
+/**
+ * Apply a step's "before" (undo) or "after" (redo) values to the data.
+ * Cells and day codes changed again since the step (here or on another device)
+ * are left alone, so undo never overwrites someone else's later edit.
+ */
+export function applyUndoStep(data: AppData, step: UndoStep, direction: UndoDirection): AppData {
+  let next: AppData = { ...data };
+
+  for (const change of step.changes) {
+    const target = direction === 'undo' ? change.before : change.after;
+    const expected = direction === 'undo' ? change.after : change.before;
+
+    if (change.kind === 'item') {
+      const items = (next[change.collection] || []) as unknown as UndoableItem[];
+      const current = items.find(item => item.id === change.id);
+      if ((change.collection === 'expenses' || change.collection === 'payments') &&
+          (isEntryLocked(next, current as LockableEntry | undefined) || isEntryLocked(next, (target || undefined) as LockableEntry | undefined))) {
+        continue;
+      }
+      next = { ...next, [change.collection]: restoreItem(items, current, target as UndoableItem | null, change.id) };
+    } else if (isMonthClosed(next, change.month, getMonthGroupMasterId(next, change.month, change.monthGroupId))) {
+      continue;
+    } else if (change.kind === 'cell') {
+      next.months = updateDay(next.months, change.month, change.monthGroupId, change.date, day => {
+        if ((day.attendance[change.workerId] || '') !== expected) return null;
+        const stamp = nextStamp();
+        const review = reviewAfterEdit(day);
+        return {
+          ...day,
+          attendance: { ...day.attendance, [change.workerId]: target as string },
+          review,
+          stamps: {
+            ...day.stamps,
+            attendance: { ...day.stamps?.attendance, [change.workerId]: stamp },
+            review: review !== day.review ? stamp : day.stamps?.review,
+          },
+        };
+      });
+    } else if (change.kind === 'quantity') {
+      next.months = updateDay(next.months, change.month, change.monthGroupId, change.date, day => {
+        if ((day.quantities?.[change.workerId] || 0) !== expected) return null;
+        const stamp = nextStamp();
+        const review = reviewAfterEdit(day);
+        return {
+          ...day,
+          quantities: { ...day.quantities, [change.workerId]: target as number },
+          review,
+          stamps: {
+            ...day.stamps,
+            quantities: { ...day.stamps?.quantities, [change.workerId]: stamp },
+            review: review !== day.review ? stamp : day.stamps?.review,
+          },
+        };
+      });
+    } else if (change.kind === 'segments') {
+      next.months = updateDay(next.months, change.month, change.monthGroupId, change.date, day => {
+        if (JSON.stringify(day.segments || []) !== JSON.stringify(expected)) return null;
+        const stamp = nextStamp();
+        const review = reviewAfterEdit(day);
+        return {
+          ...day,
+          segments: target as DaySegment[],
+          review,
+          stamps: { ...day.stamps, segments: stamp, review: review !== day.review ? stamp : day.stamps?.review },
+        };
+      });
+    } else if (change.kind === 'gangs') {
+      next.months = updateDay(next.months, change.month, change.monthGroupId, change.date, day => {
+        if (JSON.stringify(day.gangs || []) !== JSON.stringify(expected)) return null;
+        const stamp = nextStamp();
+        const review = reviewAfterEdit(day);
+        return {
+          ...day,
+          gangs: target as GangEntry[],
+          review,
+          stamps: { ...day.stamps, gangs: stamp, review: review !== day.review ? stamp : day.stamps?.review },
+        };
+      });
+    } else if (change.kind === 'override') {
+      const field = change.field;
+      next.months = updateDay(next.months, change.month, change.monthGroupId, change.date, day => {
+        if ((day[field]?.[change.workerId] || '') !== expected) return null;
+        const stamp = nextStamp();
+        const review = reviewAfterEdit(day);
+        return {
+          ...day,
+          [field]: { ...day[field], [change.workerId]: target as string },
+          review,
+          stamps: {
+            ...day.stamps,
+            [field]: { ...day.stamps?.[field], [change.workerId]: stamp },
+            review: review !== day.review ? stamp : day.stamps?.review,
+          },
+        };
+      });
+    } else {
+      next.months = updateDay(next.months, change.month, change.monthGroupId, change.date, day => {
+        if ((day[change.field] || undefined) !== (expected || undefined)) return null;
+        const stamp = nextStamp();
+        const review = reviewAfterEdit(day);
+        return {
+          ...day,
+          [change.field]: target as string | undefined,
+          review,
+          stamps: { ...day.stamps, [change.field]: stamp, review: review !== day.review ? stamp : day.stamps?.review },
+        };
+      });
+    }
+  }
+
+  return next;
+}
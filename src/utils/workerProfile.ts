@@ -0,0 +1,92 @@
+/**
+ * Worker profile details
+ *
+ * Contact, ID and payout details kept on the worker record. The app never needs a
+ * full Aadhaar number, so only its last four digits are stored. Other ID numbers
+ * and bank/UPI details are stored as entered and shown masked to anyone who isn't
+ * an admin (see canViewWorkerDetails). The sync server leaves them out of the
+ * workers it sends to devices not paired as admin.
+ */
+
+import type { Worker, WorkerGender, WorkerIdType } from '../types';
+
+export const WORKER_GENDERS: WorkerGender[] = ['male', 'female', 'other'];
+export const WORKER_ID_TYPES: WorkerIdType[] = ['aadhaar', 'voterId', 'pan', 'other'];
+
+// Fields only admins see in full
+export const SENSITIVE_WORKER_FIELDS = ['idNumber', 'bankAccount', 'ifsc', 'upiId'] as const;
+
+export const getGenderLabel = (gender: WorkerGender, isMarathi: boolean): string => {
+  const labels: Record<WorkerGender, [string, string]> = {
+    male: ['Male', 'पुरुष'],
+    female: ['Female', 'स्त्री'],
+    other: ['Other', 'इतर'],
+  };
+  return labels[gender][isMarathi ? 1 : 0];
+};
+
+export const getIdTypeLabel = (idType: WorkerIdType, isMarathi: boolean): string => {
+  const labels: Record<WorkerIdType, [string, string]> = {
+    aadhaar: ['Aadhaar', 'आधार'],
+    voterId: ['Voter ID', 'मतदार ओळखपत्र'],
+    pan: ['PAN', 'पॅन'],
+    other: ['Other ID', 'इतर ओळखपत्र'],
+  };
+  return labels[idType][isMarathi ? 1 : 0];
+};
+
+// "1234 5678 9012" → "XXXX XXXX 9012"; an already masked number stays as it is
+export const maskAadhaar = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length < 4) return value.trim();
+  return `XXXX XXXX ${digits.slice(-4)}`;
+};
+
+// ID number as stored: Aadhaar masked, anything else trimmed
+export const normaliseIdNumber = (idType: WorkerIdType | undefined, value: string): string =>
+  idType === 'aadhaar' ? maskAadhaar(value) : value.trim();
+
+// Shows only the last four characters
+export const maskValue = (value: string | undefined): string => {
+  if (!value) return '';
+  return value.length <= 4 ? '••••' : `••••${value.slice(-4)}`;
+};
+
+// A copy of the worker with ID and payout details masked, for non-admin views
+export const maskWorkerDetails = (worker: Worker): Worker => {
+  const masked = { ...worker };
+  SENSITIVE_WORKER_FIELDS.forEach(field => {
+    if (masked[field]) masked[field] = maskValue(masked[field]);
+  });
+  return masked;
+};
+
+/**
+ * Read an image file and shrink it to a small square-ish JPEG data URL, so a photo
+ * adds a few kilobytes to the worker record rather than megabytes.
+ */
+export const resizePhoto = (file: File, maxSize = 160): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onerror = () => reject(new Error('Failed to read file'));
+    reader.onload = () => {
+      const image = new Image();
+      image.onerror = () => reject(new Error('Not an image'));
+      image.onload = () => {
+        const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(image.width * scale);
+        canvas.height = Math.round(image.height * scale);
+        const context = canvas.getContext('2d');
+        if (!context) {
+          reject(new Error('Canvas not available'));
+          return;
+        }
+        context.drawImage(image, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.75));
+      };
+      image.src = reader.result as string;
+    };
+    reader.readAsDataURL(file);
+  });
+};
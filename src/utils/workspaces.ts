@@ -0,0 +1,108 @@
+/**
+ * Farm workspaces
+ *
+ * One device can hold several farms, each with its own workers, groups, months and
+ * accounts. Every workspace has its own IndexedDB database, outbox, sync status,
+ * undo history and login session (see workspaceKey), and syncs to its own folder
+ * on the server: /api/farms/<id>/... → data/farms/<id>/. The "default" workspace
+ * keeps the original names and /api/... paths, so existing installs carry on as
+ * the first farm.
+ *
+ * The active workspace is read once when the app loads; switching reloads the page
+ * so every store opens the new farm's data.
+ */
+
+const WORKSPACES_KEY = 'graminno-workspaces';
+const ACTIVE_WORKSPACE_KEY = 'graminno-active-workspace';
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+export interface Workspace {
+  id: string;          // Server folder name: lowercase letters, digits and dashes
+  name: string;
+  createdAt: string;
+}
+
+function loadWorkspaces(): Workspace[] {
+  try {
+    const stored = localStorage.getItem(WORKSPACES_KEY);
+    return stored ? (JSON.parse(stored) as Workspace[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveWorkspaces(workspaces: Workspace[]): void {
+  localStorage.setItem(WORKSPACES_KEY, JSON.stringify(workspaces));
+}
+
+// All workspaces on this device; the default one is always there
+export function getWorkspaces(): Workspace[] {
+  const stored = loadWorkspaces();
+  if (stored.some(w => w.id === DEFAULT_WORKSPACE_ID)) return stored;
+  return [{ id: DEFAULT_WORKSPACE_ID, name: '', createdAt: '' }, ...stored];
+}
+
+function readActiveWorkspaceId(): string {
+  const stored = localStorage.getItem(ACTIVE_WORKSPACE_KEY);
+  return stored && loadWorkspaces().some(w => w.id === stored) ? stored : DEFAULT_WORKSPACE_ID;
+}
+
+// Fixed for the lifetime of the page
+const activeWorkspaceId = readActiveWorkspaceId();
+
+export function getActiveWorkspaceId(): string {
+  return activeWorkspaceId;
+}
+
+export function getActiveWorkspace(): Workspace {
+  return getWorkspaces().find(w => w.id === activeWorkspaceId) || getWorkspaces()[0];
+}
+
+// Storage name for the given (default: active) workspace. The default workspace
+// keeps the plain name so data saved before workspaces existed is still found.
+export function workspaceKey(base: string, workspaceId: string = activeWorkspaceId): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? base : `${base}:${workspaceId}`;
+}
+
+// API prefix of the active workspace's data routes
+export function getWorkspaceApiPath(): string {
+  return activeWorkspaceId === DEFAULT_WORKSPACE_ID ? '/api' : `/api/farms/${activeWorkspaceId}`;
+}
+
+export function getWorkspaceName(workspace: Workspace, isMarathi: boolean): string {
+  if (workspace.name) return workspace.name;
+  return isMarathi ? 'मुख्य शेत' : 'Main farm';
+}
+
+export function toWorkspaceId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40);
+}
+
+export function isValidWorkspaceId(id: string): boolean {
+  return /^[a-z0-9][a-z0-9-]{0,39}$/.test(id) && id !== DEFAULT_WORKSPACE_ID;
+}
+
+/**
+ * Add a workspace. `id` must match the server folder other devices use for this farm,
+ * so it is shown (and editable) when the workspace is created.
+ */
+export function addWorkspace(name: string, id: string): Workspace {
+  const workspace: Workspace = { id, name: name.trim(), createdAt: new Date().toISOString() };
+  saveWorkspaces([...getWorkspaces().filter(w => w.id !== id), workspace]);
+  return workspace;
+}
+
+export function renameWorkspace(id: string, name: string): void {
+  saveWorkspaces(getWorkspaces().map(w => (w.id === id ? { ...w, name: name.trim() } : w)));
+}
+
+// Open a workspace: the page reloads so all stores reopen on its data
+export function switchWorkspace(id: string): void {
+  localStorage.setItem(ACTIVE_WORKSPACE_KEY, id);
+  window.location.reload();
+}
@@ -14,7 +14,15 @@ export default defineConfig({
       manifest: false, // Use public/manifest.json
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff,woff2}'],
+        // Background Sync handler that sends the offline outbox (public/outbox-sync.js)
+        importScripts: ['outbox-sync.js'],
         runtimeCaching: [
+          {
+            // Live change stream never ends, so it must bypass the cache. Matched on
+            // the pathname: the URL carries the device token and, per farm, a farm prefix
+            urlPattern: ({ url }) => /\/events$/.test(url.pathname),
+            handler: 'NetworkOnly',
+          },
           {
             // Cache API requests with network-first strategy
             urlPattern: /\/api\//,